@@ -30,6 +30,19 @@ const commonConfig = {
   external: [], // Bundle all dependencies
 };
 
+// Server-side session helpers (Node backends), built without browser resolution
+const serverConfig = {
+  ...commonConfig,
+  input: 'src/server.ts',
+  plugins: [
+    resolve({
+      browser: false,
+      preferBuiltins: true,
+    }),
+    ...commonConfig.plugins.slice(1),
+  ],
+};
+
 export default [
   // UMD build
   {
@@ -61,4 +74,23 @@ export default [
       sourcemap: true,
     },
   },
+  // Server ESM build
+  {
+    ...serverConfig,
+    output: {
+      file: 'dist/server.esm.js',
+      format: 'es',
+      sourcemap: true,
+    },
+  },
+  // Server CJS build
+  {
+    ...serverConfig,
+    output: {
+      file: 'dist/server.cjs.js',
+      format: 'cjs',
+      exports: 'named',
+      sourcemap: true,
+    },
+  },
 ];
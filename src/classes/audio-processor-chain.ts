@@ -0,0 +1,100 @@
+/**
+ * AudioProcessorChain - Runs several audio processors on the microphone
+ *
+ * LiveKit accepts a single TrackProcessor per track. This processor feeds the
+ * microphone through each processor in turn: the processedTrack of one
+ * processor is the input track of the next, and the processedTrack of the last
+ * one is what gets sent to the agent. A processor without a processedTrack
+ * passes its input through unchanged.
+ *
+ * Setting a new chain on a published track swaps the audio sent by the
+ * existing sender, so processors can be changed mid-call without
+ * republishing the microphone.
+ *
+ * @example
+ * ```typescript
+ * const chain = new AudioProcessorChain([highPassFilter, noiseCanceller]);
+ * await microphoneTrack.setProcessor(chain);
+ * ```
+ */
+
+import type { AudioProcessorOptions, Room } from 'livekit-client';
+import type { AudioTrackProcessor } from './types';
+
+export class AudioProcessorChain implements AudioTrackProcessor {
+  /** Names of the chained processors, in order */
+  readonly name: string;
+
+  /** Output of the last processor, sent in place of the microphone track */
+  processedTrack?: MediaStreamTrack;
+
+  /** Processors, in the order the audio goes through them */
+  private readonly processors: AudioTrackProcessor[];
+
+  constructor(processors: AudioTrackProcessor[]) {
+    this.processors = [...processors];
+    this.name = this.processors.map((processor) => processor.name).join(' > ');
+  }
+
+  /**
+   * Initializes every processor on the output of the previous one. When a
+   * processor fails, the ones already initialized are destroyed, since LiveKit
+   * only destroys processors it managed to set up.
+   */
+  async init(options: AudioProcessorOptions): Promise<void> {
+    const initialized: AudioTrackProcessor[] = [];
+    let track = options.track;
+    try {
+      for (const processor of this.processors) {
+        await processor.init({ ...options, track });
+        initialized.push(processor);
+        track = processor.processedTrack ?? track;
+      }
+    } catch (error) {
+      await this.#destroyAll(initialized);
+      throw error;
+    }
+    this.processedTrack = track;
+  }
+
+  /**
+   * Restarts every processor on a new microphone track, e.g. after the
+   * constraints or the device of the microphone changed.
+   */
+  async restart(options: AudioProcessorOptions): Promise<void> {
+    let track = options.track;
+    for (const processor of this.processors) {
+      await processor.restart({ ...options, track });
+      track = processor.processedTrack ?? track;
+    }
+    this.processedTrack = track;
+  }
+
+  async destroy(): Promise<void> {
+    await this.#destroyAll(this.processors);
+    this.processedTrack = undefined;
+  }
+
+  async onPublish(room: Room): Promise<void> {
+    for (const processor of this.processors) {
+      await processor.onPublish?.(room);
+    }
+  }
+
+  async onUnpublish(): Promise<void> {
+    for (const processor of this.processors) {
+      await processor.onUnpublish?.();
+    }
+  }
+
+  /**
+   * Destroys processors from the last to the first, so none is left reading
+   * from an input that has already been torn down.
+   * @private
+   */
+  async #destroyAll(processors: AudioTrackProcessor[]): Promise<void> {
+    for (const processor of [...processors].reverse()) {
+      await processor.destroy();
+    }
+  }
+}
@@ -0,0 +1,446 @@
+/**
+ * ConversationTranscript - Ordered record of what was said during a call
+ *
+ * The agent reports speech in two ways: LiveKit transcription segments, which
+ * are updated in place until they are final, and 'answer'/'transcription'
+ * data messages, which carry finished text. Both feed the transcript, and a
+ * sentence that arrives both ways is kept once. Consecutive speech of the
+ * same speaker forms one turn until endTurn() is called or another turn
+ * starts; tool calls and call events get turns of their own. Times are
+ * measured from the start of the call, using the times LiveKit received each
+ * segment at.
+ *
+ * @example
+ * ```typescript
+ * const transcript = new ConversationTranscript();
+ * transcript.on('changed', (turns) => renderTranscript(turns));
+ *
+ * transcript.reset('user-123');
+ * transcript.markCallStarted();
+ * transcript.addMessage('agent', 'Hello! How can I help you?');
+ * ```
+ */
+
+import { EventEmitter } from 'events';
+import type {
+  TranscriptionSegmentData,
+  TranscriptRole,
+  TranscriptToolCall,
+  TranscriptTurn,
+} from './types';
+
+/** Characters ignored when comparing the two copies of a sentence */
+const PUNCTUATION = /[^\p{L}\p{N}\s]/gu;
+const WHITESPACE = /\s+/g;
+
+/**
+ * Events emitted by ConversationTranscript, keyed by event name
+ */
+export type ConversationTranscriptEvents = {
+  /** Emitted with all turns whenever a turn is added or updated, or on reset */
+  changed: (turns: TranscriptTurn[]) => void;
+  /** Emitted when a turn is added or its text changes, until it is completed */
+  turnUpdated: (turn: TranscriptTurn, previousText: string) => void;
+  /** Emitted once when a turn has ended and all of its text is final */
+  turnCompleted: (turn: TranscriptTurn) => void;
+};
+
+/**
+ * A piece of a spoken turn: one transcription segment, or one data message
+ * not matched by a segment yet
+ */
+type TranscriptPart = {
+  /** Segment id, or a generated id for data messages */
+  id: string;
+  /** Whether the text came from a data message */
+  fromData: boolean;
+  text: string;
+  final: boolean;
+  startMs: number;
+  endMs: number;
+};
+
+/** A turn with the parts of its text, which make up its segments */
+type TranscriptEntry = {
+  turn: Omit<TranscriptTurn, 'segments'>;
+  parts: TranscriptPart[];
+  /** Whether new speech starts another turn */
+  ended: boolean;
+  /** Whether turnCompleted was emitted */
+  completed: boolean;
+};
+
+/**
+ * Lowercases text and drops punctuation and extra spaces, so the segment and
+ * the data message of a sentence compare equal
+ */
+const normalize = (text: string): string =>
+  text.toLowerCase().replace(PUNCTUATION, '').replace(WHITESPACE, ' ').trim();
+
+// biome-ignore lint/suspicious/noUnsafeDeclarationMerging: Intentional declaration merging for type-safe events
+export class ConversationTranscript extends EventEmitter {
+  /** Turns in order, with the parts of spoken turns */
+  private entries: TranscriptEntry[] = [];
+
+  /** When the call started, in epoch milliseconds */
+  private startedAt = Date.now();
+
+  /** userId attached to user turns */
+  private userId: string | null = null;
+
+  /** Counter for turn ids and generated part ids */
+  private nextId = 1;
+
+  /**
+   * Empties the transcript for a new call.
+   * @param userId - userId to attach to user turns
+   */
+  reset(userId: string | null = null): void {
+    const hadTurns = this.entries.length > 0;
+    this.entries = [];
+    this.nextId = 1;
+    this.userId = userId;
+    this.startedAt = Date.now();
+    if (hadTurns) {
+      this.#emitChanged();
+    }
+  }
+
+  /**
+   * Sets the moment turn times are measured from.
+   */
+  markCallStarted(at = Date.now()): void {
+    this.startedAt = at;
+  }
+
+  /**
+   * Returns a copy of the turns, in order.
+   */
+  getTurns(): TranscriptTurn[] {
+    return this.entries.map((entry) => this.#copy(entry));
+  }
+
+  /**
+   * Ends the current turn of a speaker, so that what they say next starts a
+   * new turn. The turn is completed once all of its text is final.
+   */
+  endTurn(role: 'user' | 'agent'): void {
+    const last = this.entries.at(-1);
+    if (last?.turn.role === role) {
+      this.#end(last);
+    }
+  }
+
+  /**
+   * Records a LiveKit transcription segment, or an update of one. An update
+   * replaces the text of its segment; the data message the segment is
+   * transcribing, the first one of the current turn not matched yet, is taken
+   * over by the segment instead of being kept twice. Blank segments are
+   * ignored until they have text.
+   */
+  applySegment(segment: TranscriptionSegmentData): void {
+    const { speaker, id, text, isFinal } = segment;
+    const startMs = this.#offset(segment.firstReceivedTime);
+    const endMs = this.#offset(segment.lastReceivedTime);
+    const existing = this.#findPart(id);
+    if (existing) {
+      // Finished text from a data message is kept until the final update
+      if (isFinal || !existing.part.final) {
+        existing.part.text = text;
+        existing.part.final = isFinal;
+      }
+      existing.part.endMs = Math.max(existing.part.endMs, endMs);
+      this.#touch(existing.entry);
+      return;
+    }
+
+    const normalized = normalize(text);
+    if (!normalized) {
+      return;
+    }
+    const entry = this.#openEntry(speaker);
+    const match = entry?.parts.find((part) => part.fromData);
+    if (entry && match && normalize(match.text).startsWith(normalized)) {
+      match.id = id;
+      match.fromData = false;
+      match.startMs = Math.min(match.startMs, startMs);
+      match.endMs = Math.max(match.endMs, endMs);
+      if (isFinal) {
+        match.text = text;
+      }
+      this.#touch(entry);
+      return;
+    }
+
+    this.#addPart(speaker, {
+      id,
+      fromData: false,
+      text,
+      final: isFinal,
+      startMs,
+      endMs,
+    });
+  }
+
+  /**
+   * Records the finished text of an 'answer' or 'transcription' data
+   * message. It is dropped when the current turn of the speaker already
+   * holds the same sentence, and completes a segment still being
+   * transcribed. Said again in a later turn, it is kept.
+   */
+  addMessage(role: 'user' | 'agent', text: string): void {
+    const normalized = normalize(text);
+    if (!normalized) {
+      return;
+    }
+    const entry = this.#openEntry(role);
+    if (entry?.parts.some((part) => normalize(part.text) === normalized)) {
+      return;
+    }
+    const interim = entry?.parts.find(
+      (part) =>
+        !(part.fromData || part.final) &&
+        normalized.startsWith(normalize(part.text))
+    );
+    const now = this.#offset();
+    if (entry && interim) {
+      interim.text = text;
+      interim.final = true;
+      interim.endMs = Math.max(interim.endMs, now);
+      this.#touch(entry);
+      return;
+    }
+
+    this.#addPart(role, {
+      id: `data_${this.nextId++}`,
+      fromData: true,
+      text,
+      final: true,
+      startMs: now,
+      endMs: now,
+    });
+  }
+
+  /**
+   * Records a message the user typed as a turn of its own. Unlike
+   * addMessage(), it is kept even when it repeats the previous message.
+   */
+  addTypedMessage(text: string): void {
+    const now = this.#offset();
+    this.#addTurn('user', text, [
+      {
+        id: `data_${this.nextId++}`,
+        fromData: true,
+        text,
+        final: true,
+        startMs: now,
+        endMs: now,
+      },
+    ]);
+    this.endTurn('user');
+  }
+
+  /**
+   * Records a client-side tool call once it has returned or thrown.
+   */
+  addToolCall(call: TranscriptToolCall): void {
+    this.#addTurn('tool', call.name, [], { tool: { ...call } });
+  }
+
+  /**
+   * Records a call event, e.g. the user interrupting the agent.
+   */
+  addSystemEvent(text: string): void {
+    this.#addTurn('system', text);
+  }
+
+  /**
+   * Milliseconds from the start of the call to the given epoch time.
+   * @private
+   */
+  #offset(at = Date.now()): number {
+    return Math.max(0, at - this.startedAt);
+  }
+
+  /**
+   * Appends a spoken part to the current turn of the speaker, or starts a
+   * new turn when someone else spoke last.
+   * @private
+   */
+  #addPart(role: 'user' | 'agent', part: TranscriptPart): void {
+    const last = this.entries.at(-1);
+    if (last?.turn.role === role && !last.ended) {
+      last.parts.push(part);
+      this.#touch(last);
+      return;
+    }
+    this.#addTurn(role, part.text, [part]);
+  }
+
+  /**
+   * Appends a turn and ends the previous one. Tool and system turns end
+   * right away.
+   * @private
+   */
+  #addTurn(
+    role: TranscriptRole,
+    text: string,
+    parts: TranscriptPart[] = [],
+    extra: Pick<TranscriptTurn, 'tool'> = {}
+  ): void {
+    const now = this.#offset();
+    const turn: TranscriptEntry['turn'] = {
+      id: `turn_${this.nextId++}`,
+      role,
+      text,
+      isFinal: parts.every((part) => part.final),
+      startMs: parts[0]?.startMs ?? now,
+      endMs: parts[0]?.endMs ?? now,
+      ...extra,
+    };
+    if (role === 'user' && this.userId) {
+      turn.userId = this.userId;
+    }
+    const previous = this.entries.at(-1);
+    if (previous) {
+      this.#end(previous);
+    }
+    const entry: TranscriptEntry = {
+      turn,
+      parts,
+      ended: role === 'tool' || role === 'system',
+      completed: false,
+    };
+    this.entries.push(entry);
+    this.#emitChanged();
+    this.emit('turnUpdated', this.#copy(entry), '');
+    this.#completeIfDone(entry);
+  }
+
+  /**
+   * Refreshes the text, final flag and times of a spoken turn from its parts.
+   * @private
+   */
+  #touch(entry: TranscriptEntry): void {
+    const { turn, parts } = entry;
+    const previousText = turn.text;
+    turn.text = parts.map((part) => part.text).join(' ');
+    turn.isFinal = parts.every((part) => part.final);
+    turn.startMs = Math.min(...parts.map((part) => part.startMs));
+    turn.endMs = Math.max(...parts.map((part) => part.endMs));
+    this.#emitChanged();
+    if (!entry.completed && turn.text !== previousText) {
+      this.emit('turnUpdated', this.#copy(entry), previousText);
+    }
+    this.#completeIfDone(entry);
+  }
+
+  /**
+   * Ends a turn, completing it when its text is already final.
+   * @private
+   */
+  #end(entry: TranscriptEntry): void {
+    entry.ended = true;
+    this.#completeIfDone(entry);
+  }
+
+  /**
+   * Emits turnCompleted once for an ended turn whose text is all final.
+   * @private
+   */
+  #completeIfDone(entry: TranscriptEntry): void {
+    if (entry.ended && entry.turn.isFinal && !entry.completed) {
+      entry.completed = true;
+      this.emit('turnCompleted', this.#copy(entry));
+    }
+  }
+
+  /**
+   * Finds the part holding a segment, searching recent turns first.
+   * @private
+   */
+  #findPart(
+    id: string
+  ): { entry: TranscriptEntry; part: TranscriptPart } | undefined {
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      const entry = this.entries[i];
+      const part = entry.parts.find((candidate) => candidate.id === id);
+      if (part) {
+        return { entry, part };
+      }
+    }
+    return;
+  }
+
+  /**
+   * Current turn of a speaker, where the other copy of a sentence they are
+   * saying would be. None once the turn has ended or another turn started.
+   * @private
+   */
+  #openEntry(role: 'user' | 'agent'): TranscriptEntry | undefined {
+    const last = this.entries.at(-1);
+    return last?.turn.role === role && !last.ended ? last : undefined;
+  }
+
+  /**
+   * Copies a turn with its segments, so listeners cannot change it.
+   * @private
+   */
+  #copy({ turn, parts }: TranscriptEntry): TranscriptTurn {
+    return {
+      ...turn,
+      ...(turn.tool && { tool: { ...turn.tool } }),
+      segments: parts.map(({ text, startMs, endMs }) => ({
+        text,
+        startMs,
+        endMs,
+      })),
+    };
+  }
+
+  /**
+   * Notifies listeners with a snapshot of the turns.
+   * @private
+   */
+  #emitChanged(): void {
+    this.emit('changed', this.getTurns());
+  }
+}
+
+/**
+ * Declaration merging: adds type-safe event methods to ConversationTranscript
+ */
+// biome-ignore lint/nursery/useConsistentTypeDefinitions: Interface required for declaration merging with class
+export interface ConversationTranscript {
+  /**
+   * Registers an event listener with type-safe event names and handlers
+   */
+  on<K extends keyof ConversationTranscriptEvents>(
+    event: K,
+    listener: ConversationTranscriptEvents[K]
+  ): this;
+
+  /**
+   * Removes an event listener with type-safe event names and handlers
+   */
+  off<K extends keyof ConversationTranscriptEvents>(
+    event: K,
+    listener: ConversationTranscriptEvents[K]
+  ): this;
+
+  /**
+   * Registers a one-time event listener with type-safe event names and handlers
+   */
+  once<K extends keyof ConversationTranscriptEvents>(
+    event: K,
+    listener: ConversationTranscriptEvents[K]
+  ): this;
+
+  /**
+   * Emits an event with type-safe event names and arguments
+   */
+  emit<K extends keyof ConversationTranscriptEvents>(
+    event: K,
+    ...args: Parameters<ConversationTranscriptEvents[K]>
+  ): boolean;
+}
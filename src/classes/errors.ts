@@ -0,0 +1,314 @@
+/**
+ * Error types shared by the browser SDK and the server-side session helpers
+ *
+ * Every error raised by the SDK is a HamsaError carrying a stable `code`, the
+ * `category` it belongs to, whether retrying the operation may succeed, and the
+ * original `cause`. Applications should branch on `code` rather than on
+ * `message`, which is meant for humans and may change between releases.
+ *
+ * Kept free of any browser or LiveKit dependency so they can be imported from
+ * Node backends through the `@hamsa-ai/voice-agents-sdk/server` entry point.
+ */
+
+/** Broad area an error originates from */
+export type HamsaErrorCategory =
+  | 'auth'
+  | 'api'
+  | 'network'
+  | 'media'
+  | 'tool'
+  | 'session'
+  | 'validation';
+
+/**
+ * Stable error codes with their category and default retry hint.
+ * Codes are part of the public API: add new ones, never rename existing ones.
+ */
+const ERROR_CODES = {
+  /** The API key was rejected by the Hamsa API */
+  AUTH_INVALID_KEY: { category: 'auth', retryable: false },
+  /** No API key, token provider or session was supplied */
+  AUTH_MISSING_KEY: { category: 'auth', retryable: false },
+  /** A server-issued session or token is missing or malformed */
+  AUTH_INVALID_TOKEN: { category: 'auth', retryable: false },
+  /** The requested voice agent does not exist */
+  AGENT_NOT_FOUND: { category: 'api', retryable: false },
+  /** The requested conversation job does not exist */
+  JOB_NOT_FOUND: { category: 'api', retryable: false },
+  /** The Hamsa API rejected or failed a request */
+  API_REQUEST_FAILED: { category: 'api', retryable: false },
+  /** The conversation has not completed yet */
+  JOB_NOT_COMPLETED: { category: 'api', retryable: true },
+  /** The Hamsa API could not be reached */
+  NETWORK_UNREACHABLE: { category: 'network', retryable: true },
+  /** Connecting to the LiveKit room failed */
+  CONNECTION_FAILED: { category: 'network', retryable: true },
+  /** Disconnecting from the LiveKit room failed */
+  DISCONNECT_FAILED: { category: 'network', retryable: false },
+  /** A data message could not be delivered to the agent */
+  DATA_SEND_FAILED: { category: 'network', retryable: true },
+  /** The user or browser denied microphone access */
+  MIC_PERMISSION_DENIED: { category: 'media', retryable: false },
+  /** No usable microphone is available */
+  MIC_NOT_FOUND: { category: 'media', retryable: false },
+  /** The microphone or another media device failed */
+  MEDIA_DEVICE_ERROR: { category: 'media', retryable: true },
+  /** Muting, unmuting or changing the volume failed */
+  AUDIO_CONTROL_FAILED: { category: 'media', retryable: true },
+  /** The browser lacks the APIs needed for audio capture */
+  AUDIO_CAPTURE_UNSUPPORTED: { category: 'media', retryable: false },
+  /** Audio capture could not be set up */
+  AUDIO_CAPTURE_FAILED: { category: 'media', retryable: false },
+  /** An audio processor could not be applied to the microphone */
+  AUDIO_PROCESSOR_FAILED: { category: 'media', retryable: false },
+  /** A client-side tool threw while the agent invoked it */
+  RPC_TOOL_FAILED: { category: 'tool', retryable: false },
+  /** The operation requires an active call */
+  NOT_CONNECTED: { category: 'session', retryable: false },
+  /** start() failed for a reason not covered by a more specific code */
+  CALL_START_FAILED: { category: 'session', retryable: true },
+  /** The agent did not join the call in time */
+  AGENT_UNAVAILABLE: { category: 'session', retryable: true },
+  /** end() failed */
+  CALL_END_FAILED: { category: 'session', retryable: false },
+  /** Pausing or resuming the call failed */
+  CALL_CONTROL_FAILED: { category: 'session', retryable: true },
+  /** The operation is not allowed in the current call state */
+  INVALID_CALL_STATE: { category: 'session', retryable: false },
+  /** An argument passed to the SDK is invalid */
+  INVALID_ARGUMENT: { category: 'validation', retryable: false },
+  /** A data message exceeds the transport size limit */
+  MESSAGE_TOO_LARGE: { category: 'validation', retryable: false },
+} as const satisfies Record<
+  string,
+  { category: HamsaErrorCategory; retryable: boolean }
+>;
+
+/** Stable, machine-readable error code */
+export type HamsaErrorCode = keyof typeof ERROR_CODES;
+
+/** Options accepted by HamsaError constructors */
+export type HamsaErrorOptions = {
+  /** Original error that caused this one */
+  cause?: unknown;
+  /** Overrides the default retry hint of the error code */
+  retryable?: boolean;
+};
+
+/** HTTP status of an unauthorized API request */
+const HTTP_UNAUTHORIZED = 401;
+/** HTTP status of a forbidden API request */
+const HTTP_FORBIDDEN = 403;
+/** HTTP status of an API request for a missing resource */
+const HTTP_NOT_FOUND = 404;
+/** HTTP status of a rate-limited API request */
+const HTTP_TOO_MANY_REQUESTS = 429;
+/** Lowest HTTP status of a server-side failure */
+const HTTP_SERVER_ERROR = 500;
+
+/**
+ * Base class of every error raised by the SDK
+ *
+ * @example
+ * ```typescript
+ * agent.on('error', (error) => {
+ *   switch (error.code) {
+ *     case 'MIC_PERMISSION_DENIED':
+ *       showMicrophoneHelp();
+ *       break;
+ *     case 'AUTH_INVALID_KEY':
+ *       showConfigurationError();
+ *       break;
+ *     default:
+ *       if (error.retryable) showRetryButton();
+ *   }
+ * });
+ * ```
+ */
+export class HamsaError extends Error {
+  /** Stable, machine-readable error code */
+  readonly code: HamsaErrorCode;
+  /** Broad area the error originates from */
+  readonly category: HamsaErrorCategory;
+  /** Whether retrying the failed operation may succeed */
+  readonly retryable: boolean;
+  /** Original error that caused this one */
+  readonly cause?: unknown;
+
+  constructor(
+    code: HamsaErrorCode,
+    message: string,
+    options: HamsaErrorOptions = {}
+  ) {
+    super(message);
+    this.name = 'HamsaError';
+    this.code = code;
+    this.category = ERROR_CODES[code].category;
+    this.retryable = options.retryable ?? ERROR_CODES[code].retryable;
+    this.cause = options.cause;
+  }
+
+  /**
+   * Normalizes an unknown thrown value into a HamsaError
+   *
+   * HamsaErrors are returned unchanged unless a new message is given, in which
+   * case they are wrapped and keep their code and retry hint. Anything else is
+   * wrapped with the fallback code.
+   *
+   * @param error - Thrown value to normalize
+   * @param fallbackCode - Code used when the value is not a HamsaError
+   * @param message - Optional message replacing the original one
+   */
+  static from(
+    error: unknown,
+    fallbackCode: HamsaErrorCode,
+    message?: string
+  ): HamsaError {
+    if (error instanceof HamsaError) {
+      if (message === undefined) {
+        return error;
+      }
+      return new HamsaError(error.code, message, {
+        cause: error,
+        retryable: error.retryable,
+      });
+    }
+    return new HamsaError(fallbackCode, message ?? getErrorMessage(error), {
+      cause: error,
+    });
+  }
+}
+
+/**
+ * Error returned by the Hamsa REST API
+ *
+ * Includes both a human-readable message and the machine-readable messageKey
+ * sent by the backend for internationalization.
+ */
+export class HamsaApiError extends HamsaError {
+  /** Machine-readable error key for i18n or programmatic handling */
+  readonly messageKey?: string;
+  /** HTTP status of the failed response, when one was received */
+  readonly status?: number;
+
+  constructor(
+    message: string,
+    messageKey?: string,
+    options: HamsaErrorOptions & {
+      code?: HamsaErrorCode;
+      status?: number;
+      /** Code of a 404 response, naming the resource the endpoint serves */
+      notFoundCode?: HamsaErrorCode;
+    } = {}
+  ) {
+    const { code, status, notFoundCode, ...rest } = options;
+    super(code ?? getApiErrorCode(status, notFoundCode), message, {
+      retryable: status === undefined ? undefined : isRetryableStatus(status),
+      ...rest,
+    });
+    this.name = 'HamsaApiError';
+    this.messageKey = messageKey;
+    this.status = status;
+  }
+}
+
+/**
+ * Error raised by the network transport: the Hamsa API or the LiveKit room
+ */
+export class HamsaConnectionError extends HamsaError {
+  constructor(
+    code: HamsaErrorCode,
+    message: string,
+    options: HamsaErrorOptions = {}
+  ) {
+    super(code, message, options);
+    this.name = 'HamsaConnectionError';
+  }
+}
+
+/**
+ * Error raised by the microphone, audio playback or audio capture
+ */
+export class HamsaMediaError extends HamsaError {
+  constructor(
+    code: HamsaErrorCode,
+    message: string,
+    options: HamsaErrorOptions = {}
+  ) {
+    super(code, message, options);
+    this.name = 'HamsaMediaError';
+  }
+}
+
+/**
+ * Error raised when a client-side tool fails while the agent invokes it
+ */
+export class HamsaToolError extends HamsaError {
+  /** Name of the tool that failed */
+  readonly functionName: string;
+
+  constructor(functionName: string, options: HamsaErrorOptions = {}) {
+    super(
+      'RPC_TOOL_FAILED',
+      `Tool "${functionName}" failed: ${getErrorMessage(options.cause)}`,
+      options
+    );
+    this.name = 'HamsaToolError';
+    this.functionName = functionName;
+  }
+}
+
+/**
+ * Extracts a readable message from an unknown thrown value
+ */
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Maps a browser media (getUserMedia) failure to an error code
+ *
+ * @returns The matching media code, or null when the error is not a media failure
+ */
+export function getMediaErrorCode(error: unknown): HamsaErrorCode | null {
+  const name = error instanceof Error ? error.name : undefined;
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'MIC_PERMISSION_DENIED';
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return 'MIC_NOT_FOUND';
+    case 'NotReadableError':
+    case 'AbortError':
+      return 'MEDIA_DEVICE_ERROR';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Maps the HTTP status of a failed API response to an error code. A 404 only
+ * has a specific code when the endpoint names the resource it serves.
+ */
+function getApiErrorCode(
+  status: number | undefined,
+  notFoundCode: HamsaErrorCode = 'API_REQUEST_FAILED'
+): HamsaErrorCode {
+  switch (status) {
+    case HTTP_UNAUTHORIZED:
+    case HTTP_FORBIDDEN:
+      return 'AUTH_INVALID_KEY';
+    case HTTP_NOT_FOUND:
+      return notFoundCode;
+    default:
+      return 'API_REQUEST_FAILED';
+  }
+}
+
+/**
+ * Whether a failed API response is worth retrying
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === HTTP_TOO_MANY_REQUESTS || status >= HTTP_SERVER_ERROR;
+}
@@ -140,6 +140,7 @@ import { EventEmitter } from 'events';
 import { ConnectionQuality, type Participant, type Room } from 'livekit-client';
 import { createDebugLogger, type DebugLogger } from '../utils/debug';
 import type {
+  AnalyticsUpdateData,
   AudioLevelsResult,
   AudioMetrics,
   CallAnalyticsResult,
@@ -181,12 +182,55 @@ const JITTER_LOST = 200;
 /** Estimated jitter for unknown connection quality (ms) - internal only */
 const JITTER_UNKNOWN = 30;
 
+/**
+ * Events emitted by LiveKitAnalytics, keyed by event name
+ */
+export type LiveKitAnalyticsEvents = {
+  /** Emitted when a participant's connection quality changes */
+  connectionQualityChanged: (data: ConnectionQualityData) => void;
+  /** Emitted when audio playback is allowed or blocked */
+  audioPlaybackChanged: (playing: boolean) => void;
+  /** Emitted when an agent response time is measured */
+  responseTimeRecorded: (data: {
+    responseTime: number;
+    timestamp: number;
+  }) => void;
+  /** Emitted on every analytics collection tick */
+  analyticsUpdated: (data: AnalyticsUpdateData) => void;
+  /** Emitted when a participant speaks above the activity threshold */
+  voiceActivityDetected: (data: {
+    participant: string;
+    duration: number;
+    audioLevel: number;
+    timestamp: number;
+  }) => void;
+  /** Emitted when a participant's audio drops out */
+  audioDropoutDetected: (data: {
+    participant: string;
+    duration: number;
+    timestamp: number;
+  }) => void;
+  /** Emitted when the estimated jitter changes with connection quality */
+  jitterChanged: (data: {
+    jitter: number;
+    quality: string;
+    previousQuality: string;
+    timestamp: number;
+  }) => void;
+  /** Emitted when echo cancellation is enabled or disabled */
+  echoCancellationChanged: (data: {
+    active: boolean;
+    timestamp: number;
+  }) => void;
+};
+
 /**
  * LiveKitAnalytics class extending EventEmitter for real-time analytics
  *
  * Provides comprehensive analytics collection and processing for voice agent
  * conversations, including connection quality, audio metrics, and performance data.
  */
+// biome-ignore lint/suspicious/noUnsafeDeclarationMerging: Intentional declaration merging for type-safe events
 export class LiveKitAnalytics extends EventEmitter {
   /** Call-level statistics including connection attempts, packet counts, and quality metrics */
   callStats!: CallStats;
@@ -1267,3 +1311,41 @@ export class LiveKitAnalytics extends EventEmitter {
     this.previousConnectionQuality = 'unknown';
   }
 }
+
+/**
+ * Declaration merging: adds type-safe event methods to LiveKitAnalytics
+ */
+// biome-ignore lint/nursery/useConsistentTypeDefinitions: Interface required for declaration merging with class
+export interface LiveKitAnalytics {
+  /**
+   * Registers an event listener with type-safe event names and handlers
+   */
+  on<K extends keyof LiveKitAnalyticsEvents>(
+    event: K,
+    listener: LiveKitAnalyticsEvents[K]
+  ): this;
+
+  /**
+   * Removes an event listener with type-safe event names and handlers
+   */
+  off<K extends keyof LiveKitAnalyticsEvents>(
+    event: K,
+    listener: LiveKitAnalyticsEvents[K]
+  ): this;
+
+  /**
+   * Registers a one-time event listener with type-safe event names and handlers
+   */
+  once<K extends keyof LiveKitAnalyticsEvents>(
+    event: K,
+    listener: LiveKitAnalyticsEvents[K]
+  ): this;
+
+  /**
+   * Emits an event with type-safe event names and arguments
+   */
+  emit<K extends keyof LiveKitAnalyticsEvents>(
+    event: K,
+    ...args: Parameters<LiveKitAnalyticsEvents[K]>
+  ): boolean;
+}
@@ -156,6 +156,7 @@
 
 import { EventEmitter } from 'events';
 import {
+  type LocalAudioTrack,
   type LocalTrack,
   type LocalTrackPublication,
   type Participant,
@@ -164,20 +165,32 @@ import {
   type RemoteTrackPublication,
   type Room,
   Track,
+  TrackEvent,
   type TrackPublication,
 } from 'livekit-client';
 import { createDebugLogger, type DebugLogger } from '../utils/debug';
+import { AudioProcessorChain } from './audio-processor-chain';
+import { getErrorMessage, HamsaError, HamsaMediaError } from './errors';
 import type {
+  AgentInterruptedData,
+  AgentState,
   AudioCaptureFormat,
   AudioCaptureMetadata,
   AudioCaptureOptions,
+  AudioTrackProcessor,
+  HalfDuplexOptions,
   MinimalAnalyser,
   MinimalAudioContext,
   MinimalAudioNode,
+  PushToTalkOptions,
+  PushToTalkState,
   TrackStatsData,
   TrackStatsResult,
   TrackSubscriptionData,
   TrackUnsubscriptionData,
+  UserSpeechEndedData,
+  UserSpeechStartedData,
+  VoiceActivityOptions,
 } from './types';
 
 // Audio management configuration constants
@@ -202,15 +215,76 @@ const DEFAULT_AUDIO_FORMAT: AudioCaptureFormat = 'opus-webm';
 const DEFAULT_PCM_BUFFER_SIZE = 4096;
 /** Scaling factor for converting Float32 audio samples (-1.0 to 1.0) to Int16 (-32768 to 32767) */
 const INT16_SCALE = 32_767;
+/** Default shortest push-to-talk press treated as a turn (milliseconds) */
+const DEFAULT_PTT_MIN_HOLD_MS = 200;
+/** Default time the microphone stays open after push-to-talk release (milliseconds) */
+const DEFAULT_PTT_RELEASE_TAIL_MS = 300;
+/** Default duration of the agent fade-out on interruption (milliseconds) */
+const DEFAULT_INTERRUPT_FADE_MS = 150;
+/** Interval between volume steps of the interruption fade-out (milliseconds) */
+const INTERRUPT_FADE_STEP_MS = 15;
+/** Longest agent playback stays silenced after an interruption (milliseconds) */
+const INTERRUPT_MAX_SILENCE_MS = 5000;
+/** Default time the microphone stays cut after the agent stops speaking in half-duplex (milliseconds) */
+const DEFAULT_HALF_DUPLEX_HANGOVER_MS = 300;
+/** Interval between microphone level checks for half-duplex barge-in (milliseconds) */
+const BARGE_IN_POLL_MS = 50;
+/** Consecutive loud checks needed for a barge-in, so a click does not reopen the microphone */
+const BARGE_IN_LOUD_CHECKS = 3;
+/** Default microphone level (RMS amplitude) below which audio is never speech */
+const DEFAULT_VAD_THRESHOLD = 0.015;
+/** Default time the level must stay above the threshold before speech starts (milliseconds) */
+const DEFAULT_VAD_MIN_SPEECH_MS = 60;
+/** Default time the level must stay below the threshold before speech ends (milliseconds) */
+const DEFAULT_VAD_HANGOVER_MS = 400;
+/** Name the voice activity worklet processor is registered under */
+const VAD_PROCESSOR_NAME = 'hamsa-vad-processor';
 
 // PCM conversion constants (Reserved for future internal scaling if needed)
 
+/**
+ * Events emitted by LiveKitAudioManager, keyed by event name
+ */
+export type LiveKitAudioManagerEvents = {
+  /** Emitted when the output volume changes */
+  volumeChanged: (volume: number) => void;
+  /** Emitted when an audio operation fails */
+  error: (error: HamsaMediaError) => void;
+  /** Emitted when the microphone is muted */
+  micMuted: () => void;
+  /** Emitted when the microphone is unmuted */
+  micUnmuted: () => void;
+  /** Emitted when a remote track is subscribed */
+  trackSubscribed: (data: TrackSubscriptionData) => void;
+  /** Emitted when a remote track is unsubscribed */
+  trackUnsubscribed: (data: TrackUnsubscriptionData) => void;
+  /** Emitted when the agent starts speaking */
+  speaking: () => void;
+  /** Emitted when the agent stops speaking and listens */
+  listening: () => void;
+  /** Emitted when the microphone device disappears (e.g. a headset is unplugged) */
+  microphoneLost: () => void;
+  /** Emitted when the microphone has been replaced by the default input */
+  microphoneRecovered: (deviceId: string | undefined) => void;
+  /** Emitted when the push-to-talk state changes */
+  pttStateChanged: (state: PushToTalkState) => void;
+  /** Emitted when the microphone closes after a push-to-talk turn */
+  pttTurnEnded: () => void;
+  /** Emitted when half-duplex cuts or reopens the microphone */
+  micGateChanged: (gated: boolean) => void;
+  /** Emitted when voice activity detection hears the user start speaking */
+  userSpeechStarted: (data: UserSpeechStartedData) => void;
+  /** Emitted when voice activity detection hears the user stop speaking */
+  userSpeechEnded: (data: UserSpeechEndedData) => void;
+};
+
 /**
  * LiveKitAudioManager class for comprehensive audio stream management
  *
  * Extends EventEmitter to provide real-time audio event notifications and
  * enable reactive audio management in voice agent applications.
  */
+// biome-ignore lint/suspicious/noUnsafeDeclarationMerging: Intentional declaration merging for type-safe events
 export class LiveKitAudioManager extends EventEmitter {
   /** Set of active HTML audio elements currently playing agent audio */
   audioElements: Set<HTMLAudioElement> = new Set();
@@ -246,12 +320,73 @@ export class LiveKitAudioManager extends EventEmitter {
     { participant: string; source: 'agent' | 'user' }
   > = new Map();
 
+  /** Published microphone track, watched for its device disappearing */
+  private microphoneTrack: LocalTrack | null = null;
+
+  /** Whether a lost microphone is waiting for LiveKit to replace it */
+  private recoveringMicrophone = false;
+
+  /** Processors the microphone goes through before reaching the agent, in order */
+  private audioProcessors: AudioTrackProcessor[];
+
+  /** Push-to-talk settings, null while the microphone is open */
+  private pushToTalk:
+    | (Required<Omit<PushToTalkOptions, 'key'>> & {
+        key?: string;
+      })
+    | null = null;
+  private pttState: PushToTalkState = 'idle';
+  /** When the current push-to-talk press started */
+  private pttPressedAt = 0;
+  /** Timer closing the microphone at the end of the release tail */
+  private pttReleaseTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** When the agent started its current answer, null while it is not speaking */
+  private agentSpeakingSince: number | null = null;
+  /** Whether agent playback is silenced after an interruption */
+  private playbackInterrupted = false;
+  private interruptFadeTimer: ReturnType<typeof setInterval> | null = null;
+  /** Timer restoring playback if the agent never reports it stopped */
+  private interruptRestoreTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** Half-duplex settings, null while the microphone is full-duplex */
+  private halfDuplex: {
+    hangoverMs: number;
+    bargeInThreshold?: number;
+  } | null = null;
+  /** Whether half-duplex currently cuts the microphone */
+  private micGated = false;
+  /** Whether the user talked over the current answer */
+  private bargedIn = false;
+  /** Timer reopening the microphone at the end of the hangover */
+  private gateReopenTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Level meter on a copy of the cut microphone, listening for barge-in */
+  private bargeInMonitor: {
+    track: MediaStreamTrack;
+    timer: ReturnType<typeof setInterval>;
+  } | null = null;
+
+  /** Voice activity detection settings, null while detection is off */
+  private voiceActivity: Required<VoiceActivityOptions> | null = null;
+  /** Worklet detecting speech on a copy of the microphone */
+  private voiceActivityDetector: {
+    track: MediaStreamTrack;
+    nodes: AudioNode[];
+  } | null = null;
+  /** Registration of the voice activity worklet on the current AudioContext */
+  private vadWorkletReady: Promise<void> | null = null;
+  /** Bumped whenever the detector starts or stops, so a late start is dropped */
+  private vadGeneration = 0;
+  /** When the current utterance started, null while the user is silent */
+  private userSpeechStartedAt: number | null = null;
+
   /** Debug logger instance for conditional logging */
   private readonly logger: DebugLogger;
 
-  constructor(debug = false) {
+  constructor(debug = false, processors: AudioTrackProcessor[] = []) {
     super();
     this.logger = createDebugLogger(debug);
+    this.audioProcessors = [...processors];
   }
 
   /**
@@ -309,8 +444,11 @@ export class LiveKitAudioManager extends EventEmitter {
         this.volume = DEFAULT_VOLUME;
       }
 
-      // Apply the new volume to all existing audio elements
-      for (const audioElement of this.audioElements) {
+      // Apply the new volume to all existing audio elements, unless an
+      // interruption keeps them silent until the agent stops
+      for (const audioElement of this.playbackInterrupted
+        ? []
+        : this.audioElements) {
         if (audioElement && typeof audioElement.volume !== 'undefined') {
           audioElement.volume = this.volume;
         }
@@ -321,8 +459,10 @@ export class LiveKitAudioManager extends EventEmitter {
     } catch (error) {
       this.emit(
         'error',
-        new Error(
-          `Failed to set volume: ${error instanceof Error ? error.message : String(error)}`
+        new HamsaMediaError(
+          'AUDIO_CONTROL_FAILED',
+          `Failed to set volume: ${getErrorMessage(error)}`,
+          { cause: error }
         )
       );
     }
@@ -396,24 +536,31 @@ export class LiveKitAudioManager extends EventEmitter {
         return MIN_VOLUME;
       }
 
-      const binCount = this.inputAnalyser.frequencyBinCount;
-      const dataArray = new Uint8Array(binCount);
-      this.inputAnalyser.getByteFrequencyData(dataArray);
-      if (dataArray.length === 0) {
-        return MIN_VOLUME;
-      }
-      let sum = 0;
-      for (const v of dataArray) {
-        sum += v;
-      }
-      const avg = sum / (dataArray.length * BYTE_MAX);
-      // Clamp 0..1
-      return Math.max(MIN_VOLUME, Math.min(MAX_VOLUME, avg));
+      return this.#getAnalyserLevel(this.inputAnalyser);
     } catch {
       return MIN_VOLUME;
     }
   }
 
+  /**
+   * Averages the frequency data of an analyser into a 0.0-1.0 level.
+   * @private
+   */
+  #getAnalyserLevel(analyser: MinimalAnalyser): number {
+    const dataArray = new Uint8Array(analyser.frequencyBinCount);
+    analyser.getByteFrequencyData(dataArray);
+    if (dataArray.length === 0) {
+      return MIN_VOLUME;
+    }
+    let sum = 0;
+    for (const v of dataArray) {
+      sum += v;
+    }
+    const avg = sum / (dataArray.length * BYTE_MAX);
+    // Clamp 0..1
+    return Math.max(MIN_VOLUME, Math.min(MAX_VOLUME, avg));
+  }
+
   /**
    * Mutes or unmutes the user's microphone
    *
@@ -500,8 +647,10 @@ export class LiveKitAudioManager extends EventEmitter {
       if (this.listenerCount('error') > 0) {
         this.emit(
           'error',
-          new Error(
-            `Failed to ${muted ? 'mute' : 'unmute'} microphone: ${error instanceof Error ? error.message : String(error)}`
+          new HamsaMediaError(
+            'AUDIO_CONTROL_FAILED',
+            `Failed to ${muted ? 'mute' : 'unmute'} microphone: ${getErrorMessage(error)}`,
+            { cause: error }
           )
         );
       }
@@ -560,13 +709,854 @@ export class LiveKitAudioManager extends EventEmitter {
     return false;
   }
 
+  /**
+   * Switches the microphone to push-to-talk
+   *
+   * The microphone is muted and only opens between pressToTalk() and
+   * releaseToTalk(), or while the configured key is held. After release it
+   * stays open for the release tail, then pttTurnEnded is emitted. Calling it
+   * again replaces the settings.
+   *
+   * @param options - Key binding, minimum hold and release tail
+   *
+   * @fires pttStateChanged When the push-to-talk state changes
+   *
+   * @example
+   * ```typescript
+   * audioManager.enablePushToTalk({ key: 'Space', releaseTailMs: 400 });
+   * audioManager.on('pttStateChanged', (state) => {
+   *   talkButton.classList.toggle('active', state !== 'idle');
+   * });
+   * ```
+   */
+  enablePushToTalk(options: PushToTalkOptions = {}): void {
+    this.disablePushToTalk();
+    this.pushToTalk = {
+      key: options.key,
+      minHoldMs: options.minHoldMs ?? DEFAULT_PTT_MIN_HOLD_MS,
+      releaseTailMs: options.releaseTailMs ?? DEFAULT_PTT_RELEASE_TAIL_MS,
+    };
+    if (options.key && typeof window !== 'undefined') {
+      window.addEventListener('keydown', this.#handlePttKeyDown);
+      window.addEventListener('keyup', this.#handlePttKeyUp);
+      window.addEventListener('blur', this.#handlePttBlur);
+    }
+    this.setMicMuted(true);
+  }
+
+  /**
+   * Leaves push-to-talk. The key binding and a pending release tail are
+   * dropped; the microphone keeps its current mute state.
+   */
+  disablePushToTalk(): void {
+    if (!this.pushToTalk) {
+      return;
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('keydown', this.#handlePttKeyDown);
+      window.removeEventListener('keyup', this.#handlePttKeyUp);
+      window.removeEventListener('blur', this.#handlePttBlur);
+    }
+    this.#clearPttReleaseTimer();
+    this.pushToTalk = null;
+    this.#setPttState('idle');
+  }
+
+  /**
+   * Whether push-to-talk is enabled
+   */
+  isPushToTalkEnabled(): boolean {
+    return this.pushToTalk !== null;
+  }
+
+  /**
+   * Opens the microphone for a push-to-talk turn. Pressing again during the
+   * release tail continues the same turn. Ignored without push-to-talk.
+   */
+  pressToTalk(): void {
+    if (!this.pushToTalk || this.pttState === 'talking') {
+      return;
+    }
+    if (this.pttState === 'releasing') {
+      this.#clearPttReleaseTimer();
+      this.#setPttState('talking');
+      return;
+    }
+    this.pttPressedAt = Date.now();
+    this.setMicMuted(false);
+    this.#setPttState('talking');
+  }
+
+  /**
+   * Ends a push-to-talk press. The microphone closes after the release tail,
+   * or right away for a press shorter than the minimum hold, which does not
+   * end the turn. Ignored without push-to-talk.
+   */
+  releaseToTalk(): void {
+    if (!this.pushToTalk || this.pttState !== 'talking') {
+      return;
+    }
+    const { minHoldMs, releaseTailMs } = this.pushToTalk;
+    if (Date.now() - this.pttPressedAt < minHoldMs) {
+      this.logger.log('Push-to-talk press too short, ignoring it', {
+        source: 'LiveKitAudioManager',
+        error: { minHoldMs },
+      });
+      this.#closePushToTalk(false);
+      return;
+    }
+    this.#setPttState('releasing');
+    this.pttReleaseTimer = setTimeout(
+      () => this.#closePushToTalk(true),
+      releaseTailMs
+    );
+  }
+
+  /**
+   * Gets the current push-to-talk state
+   */
+  getPushToTalkState(): PushToTalkState {
+    return this.pttState;
+  }
+
+  /**
+   * Mutes the microphone at the end of a push-to-talk press.
+   * @private
+   */
+  #closePushToTalk(turnEnded: boolean): void {
+    this.pttReleaseTimer = null;
+    this.setMicMuted(true);
+    this.#setPttState('idle');
+    if (turnEnded) {
+      this.emit('pttTurnEnded');
+    }
+  }
+
+  /**
+   * Updates the push-to-talk state, emitting pttStateChanged on change.
+   * @private
+   */
+  #setPttState(state: PushToTalkState): void {
+    if (state === this.pttState) {
+      return;
+    }
+    this.pttState = state;
+    this.emit('pttStateChanged', state);
+  }
+
+  /**
+   * Cancels a pending release tail.
+   * @private
+   */
+  #clearPttReleaseTimer(): void {
+    if (this.pttReleaseTimer) {
+      clearTimeout(this.pttReleaseTimer);
+      this.pttReleaseTimer = null;
+    }
+  }
+
+  /**
+   * Whether a keyboard event is for the push-to-talk key and not typed into
+   * a text field.
+   * @private
+   */
+  #isPttKeyEvent(event: KeyboardEvent): boolean {
+    const target = event.target as HTMLElement | null;
+    const typing =
+      target?.isContentEditable ||
+      ['INPUT', 'TEXTAREA', 'SELECT'].includes(target?.tagName ?? '');
+    return event.code === this.pushToTalk?.key && !typing;
+  }
+
+  readonly #handlePttKeyDown = (event: KeyboardEvent): void => {
+    if (!this.#isPttKeyEvent(event)) {
+      return;
+    }
+    // Keeps Space from scrolling the page while the user talks
+    event.preventDefault();
+    if (!event.repeat) {
+      this.pressToTalk();
+    }
+  };
+
+  readonly #handlePttKeyUp = (event: KeyboardEvent): void => {
+    if (this.#isPttKeyEvent(event)) {
+      event.preventDefault();
+      this.releaseToTalk();
+    }
+  };
+
+  /**
+   * Releases a held key when the window loses focus, since its keyup would
+   * never arrive.
+   * @private
+   */
+  readonly #handlePttBlur = (): void => {
+    this.releaseToTalk();
+  };
+
+  /**
+   * Tracks the agent state reported by the agent, which marks the start and
+   * end of each answer.
+   * @param state - New agent state
+   */
+  handleAgentStateChanged(state: AgentState): void {
+    if (state === 'speaking') {
+      this.agentSpeakingSince ??= Date.now();
+      if (this.halfDuplex && !this.bargedIn) {
+        this.#closeMicGate();
+      }
+      return;
+    }
+    this.agentSpeakingSince = null;
+    this.bargedIn = false;
+    if (this.playbackInterrupted) {
+      this.#restorePlayback();
+    }
+    if (this.micGated && !this.gateReopenTimer) {
+      this.gateReopenTimer = setTimeout(
+        () => this.#openMicGate(),
+        this.halfDuplex?.hangoverMs ?? 0
+      );
+    }
+  }
+
+  /**
+   * Switches the microphone to half-duplex
+   *
+   * While the agent speaks, the published microphone is cut so the agent does
+   * not hear its own voice coming out of laptop speakers. It reopens once the
+   * agent has stopped for the hangover time. With a barge-in threshold, a user
+   * speaking louder than the threshold reopens it right away, until the
+   * agent's next answer. The cut is independent of setMicMuted(): a muted
+   * microphone stays muted when the cut ends.
+   *
+   * @param options - Hangover time and barge-in threshold
+   *
+   * @fires micGateChanged When the microphone is cut or reopened
+   *
+   * @example
+   * ```typescript
+   * audioManager.enableHalfDuplex({ hangoverMs: 400, bargeInThreshold: 0.3 });
+   * ```
+   */
+  enableHalfDuplex(options: HalfDuplexOptions = {}): void {
+    this.halfDuplex = {
+      hangoverMs: options.hangoverMs ?? DEFAULT_HALF_DUPLEX_HANGOVER_MS,
+      bargeInThreshold: options.bargeInThreshold,
+    };
+    if (this.micGated) {
+      // Picks up a new barge-in threshold
+      this.#stopBargeInMonitor();
+      this.#startBargeInMonitor();
+    } else if (this.agentSpeakingSince !== null) {
+      this.#closeMicGate();
+    }
+  }
+
+  /**
+   * Leaves half-duplex and reopens a cut microphone.
+   */
+  disableHalfDuplex(): void {
+    this.halfDuplex = null;
+    this.bargedIn = false;
+    this.#openMicGate();
+  }
+
+  /**
+   * Whether half-duplex currently cuts the microphone
+   */
+  isMicGated(): boolean {
+    return this.micGated;
+  }
+
+  /**
+   * Cuts the microphone while the agent speaks.
+   * @private
+   */
+  #closeMicGate(): void {
+    this.#clearGateReopenTimer();
+    if (this.micGated) {
+      return;
+    }
+    this.micGated = true;
+    this.#applyMicGate();
+    this.#startBargeInMonitor();
+    this.emit('micGateChanged', true);
+  }
+
+  /**
+   * Reopens the microphone cut by half-duplex.
+   * @private
+   */
+  #openMicGate(): void {
+    this.#clearGateReopenTimer();
+    if (!this.micGated) {
+      return;
+    }
+    this.micGated = false;
+    this.#applyMicGate();
+    this.#stopBargeInMonitor();
+    this.emit('micGateChanged', false);
+  }
+
+  /**
+   * Disables the published microphone track while half-duplex or the noise
+   * gate cuts it. This is how LiveKit mutes a track, minus the mute state, so
+   * the user's own mute is kept as is.
+   * @private
+   */
+  #applyMicGate(): void {
+    const track = this.microphoneTrack;
+    if (track?.mediaStreamTrack) {
+      track.mediaStreamTrack.enabled = !(
+        this.micGated ||
+        this.#isNoiseGateClosed() ||
+        track.isMuted
+      );
+    }
+  }
+
+  /**
+   * Cuts the microphone again after LiveKit re-enabled it, on unmute or when
+   * the track was restarted on a new device.
+   * @private
+   */
+  readonly #handleMicrophoneReset = (): void => {
+    if (!(this.micGated || this.#isNoiseGateClosed())) {
+      return;
+    }
+    this.#applyMicGate();
+    if (this.micGated) {
+      // A restarted track needs a new copy for the level meter
+      this.#stopBargeInMonitor();
+      this.#startBargeInMonitor();
+    }
+  };
+
+  /**
+   * Handles the microphone track restarting on a new device or constraints.
+   * @private
+   */
+  readonly #handleMicrophoneRestarted = (): void => {
+    this.#handleMicrophoneReset();
+    // The detector listens to a copy of the old track
+    this.#restartVoiceActivityDetector();
+    if (this.recoveringMicrophone) {
+      this.#completeMicrophoneRecovery();
+    }
+  };
+
+  /**
+   * Measures the level of a copy of the cut microphone and reopens it when the
+   * user speaks louder than the barge-in threshold. The copy is not affected
+   * by the cut.
+   * @private
+   */
+  #startBargeInMonitor(): void {
+    const threshold = this.halfDuplex?.bargeInThreshold;
+    const microphone = this.microphoneTrack?.mediaStreamTrack;
+    if (threshold === undefined || !microphone) {
+      return;
+    }
+    this.#ensureAudioContext();
+    if (!this.audioContext) {
+      return;
+    }
+
+    try {
+      const track = microphone.clone();
+      track.enabled = true;
+      const source = this.audioContext.createMediaStreamSource(
+        new MediaStream([track])
+      );
+      const analyser = this.audioContext.createAnalyser();
+      analyser.fftSize = ANALYSER_FFT_SIZE;
+      source.connect?.(analyser);
+
+      let loudChecks = 0;
+      const timer = setInterval(() => {
+        loudChecks =
+          this.#getAnalyserLevel(analyser) > threshold ? loudChecks + 1 : 0;
+        if (loudChecks >= BARGE_IN_LOUD_CHECKS) {
+          this.logger.log('User barged in, reopening the microphone', {
+            source: 'LiveKitAudioManager',
+            error: { threshold },
+          });
+          this.bargedIn = true;
+          this.#openMicGate();
+        }
+      }, BARGE_IN_POLL_MS);
+      this.bargeInMonitor = { track, timer };
+    } catch (error) {
+      this.logger.warn('Failed to monitor the microphone for barge-in', {
+        source: 'LiveKitAudioManager',
+        error,
+      });
+    }
+  }
+
+  /**
+   * Stops the barge-in level meter and its microphone copy.
+   * @private
+   */
+  #stopBargeInMonitor(): void {
+    if (this.bargeInMonitor) {
+      clearInterval(this.bargeInMonitor.timer);
+      this.bargeInMonitor.track.stop();
+      this.bargeInMonitor = null;
+    }
+  }
+
+  /**
+   * Cancels a pending reopening of the microphone.
+   * @private
+   */
+  #clearGateReopenTimer(): void {
+    if (this.gateReopenTimer) {
+      clearTimeout(this.gateReopenTimer);
+      this.gateReopenTimer = null;
+    }
+  }
+
+  /**
+   * Starts detecting the user's speech on the microphone
+   *
+   * An AudioWorklet measures a copy of the microphone off the main thread and
+   * reports when the user starts and stops talking, e.g. to show a "you're
+   * speaking" indicator without waiting for the agent's transcription. Speech
+   * is not reported while the microphone is muted. With gateTransmission, the
+   * microphone is sent to the agent only while the user speaks. Detection
+   * starts once the microphone is published and follows device changes.
+   * Calling it again replaces the settings.
+   *
+   * @param options - Threshold, timings and noise gate
+   *
+   * @fires userSpeechStarted When the user starts speaking
+   * @fires userSpeechEnded When the user stops speaking
+   * @fires error AUDIO_CAPTURE_UNSUPPORTED without AudioWorklet support, or
+   *   AUDIO_CAPTURE_FAILED when the detector cannot start
+   *
+   * @example
+   * ```typescript
+   * audioManager.on('userSpeechStarted', () => showSpeakingIndicator());
+   * audioManager.on('userSpeechEnded', ({ durationMs }) => {
+   *   hideSpeakingIndicator();
+   *   console.log(`User spoke for ${durationMs}ms`);
+   * });
+   *
+   * audioManager.enableVoiceActivityDetection({ gateTransmission: true });
+   * ```
+   */
+  enableVoiceActivityDetection(options: VoiceActivityOptions = {}): void {
+    this.voiceActivity = {
+      threshold: options.threshold ?? DEFAULT_VAD_THRESHOLD,
+      minSpeechMs: options.minSpeechMs ?? DEFAULT_VAD_MIN_SPEECH_MS,
+      hangoverMs: options.hangoverMs ?? DEFAULT_VAD_HANGOVER_MS,
+      gateTransmission: options.gateTransmission ?? false,
+    };
+    this.#restartVoiceActivityDetector();
+  }
+
+  /**
+   * Stops voice activity detection and reopens a noise-gated microphone.
+   */
+  disableVoiceActivityDetection(): void {
+    this.voiceActivity = null;
+    this.#stopVoiceActivityDetector();
+  }
+
+  /**
+   * Whether voice activity detection currently hears the user speaking
+   */
+  isUserSpeaking(): boolean {
+    return this.userSpeechStartedAt !== null;
+  }
+
+  /**
+   * Whether the noise gate holds back the microphone. The gate only closes
+   * once the detector runs, so a detector that fails to start never silences
+   * the user.
+   * @private
+   */
+  #isNoiseGateClosed(): boolean {
+    return (
+      this.voiceActivity?.gateTransmission === true &&
+      this.voiceActivityDetector !== null &&
+      this.userSpeechStartedAt === null
+    );
+  }
+
+  /**
+   * Starts the detector again on the current microphone with the current
+   * settings.
+   * @private
+   */
+  #restartVoiceActivityDetector(): void {
+    this.#stopVoiceActivityDetector();
+    this.#startVoiceActivityDetector();
+  }
+
+  /**
+   * Connects the voice activity worklet to a copy of the published
+   * microphone. The copy is not affected by mutes and gates on the published
+   * track.
+   * @private
+   */
+  #startVoiceActivityDetector(): void {
+    const settings = this.voiceActivity;
+    const microphone = this.microphoneTrack?.mediaStreamTrack;
+    if (!(settings && microphone)) {
+      return;
+    }
+
+    const generation = ++this.vadGeneration;
+    this.#createVoiceActivityDetector(microphone, settings)
+      .then((detector) => {
+        if (generation !== this.vadGeneration) {
+          this.#disconnectVoiceActivityDetector(detector);
+          return;
+        }
+        this.voiceActivityDetector = detector;
+        this.#applyMicGate();
+      })
+      .catch((error) => {
+        if (generation !== this.vadGeneration) {
+          return;
+        }
+        this.logger.error('Failed to start voice activity detection', {
+          source: 'LiveKitAudioManager',
+          error,
+        });
+        if (this.listenerCount('error') > 0) {
+          this.emit(
+            'error',
+            error instanceof HamsaMediaError
+              ? error
+              : new HamsaMediaError(
+                  'AUDIO_CAPTURE_FAILED',
+                  `Failed to start voice activity detection: ${getErrorMessage(error)}`,
+                  { cause: error }
+                )
+          );
+        }
+      });
+  }
+
+  /**
+   * Builds the audio graph of the detector: microphone copy, worklet, and a
+   * silent output that keeps the worklet running.
+   * @private
+   */
+  async #createVoiceActivityDetector(
+    microphone: MediaStreamTrack,
+    settings: Required<VoiceActivityOptions>
+  ): Promise<{ track: MediaStreamTrack; nodes: AudioNode[] }> {
+    this.#ensureAudioContext();
+    const audioContext = this.audioContext as unknown as AudioContext | null;
+    if (
+      !audioContext?.audioWorklet ||
+      typeof AudioWorkletNode === 'undefined'
+    ) {
+      throw new HamsaMediaError(
+        'AUDIO_CAPTURE_UNSUPPORTED',
+        'AudioWorklet is not supported in this environment'
+      );
+    }
+    if (audioContext.state === 'suspended') {
+      audioContext.resume().catch(() => {
+        // Resumed on the next user interaction
+      });
+    }
+
+    this.vadWorkletReady ??= this.#registerVoiceActivityWorklet(audioContext);
+    try {
+      await this.vadWorkletReady;
+    } catch (error) {
+      this.vadWorkletReady = null; // Allow retry on failure
+      throw error;
+    }
+
+    const track = microphone.clone();
+    track.enabled = true;
+    try {
+      const source = audioContext.createMediaStreamSource(
+        new MediaStream([track])
+      );
+      const node = new AudioWorkletNode(audioContext, VAD_PROCESSOR_NAME, {
+        processorOptions: {
+          threshold: settings.threshold,
+          minSpeechMs: settings.minSpeechMs,
+          hangoverMs: settings.hangoverMs,
+        },
+      });
+      node.port.onmessage = (event) => {
+        this.#handleVoiceActivity(event.data);
+      };
+      const silentGain = audioContext.createGain();
+      silentGain.gain.value = 0;
+      source.connect(node);
+      node.connect(silentGain);
+      silentGain.connect(audioContext.destination);
+      return { track, nodes: [source, node, silentGain] };
+    } catch (error) {
+      track.stop();
+      throw error;
+    }
+  }
+
+  /**
+   * Registers the voice activity worklet processor
+   *
+   * The processor compares the level of each 128-sample block with the
+   * threshold and with a noise floor that drops quickly in quiet blocks and
+   * rises slowly in loud ones, so steady noise such as a fan raises the bar
+   * while speech does not. It posts a message when speech starts or ends,
+   * with how long ago the change actually happened.
+   * @private
+   */
+  async #registerVoiceActivityWorklet(
+    audioContext: AudioContext
+  ): Promise<void> {
+    const workletCode = `
+      class VoiceActivityProcessor extends AudioWorkletProcessor {
+        constructor(options) {
+          super();
+          const { threshold, minSpeechMs, hangoverMs } = options.processorOptions;
+          this.threshold = threshold;
+          this.minSpeechSamples = (minSpeechMs / 1000) * sampleRate;
+          this.hangoverSamples = (hangoverMs / 1000) * sampleRate;
+          this.noiseFloor = threshold;
+          this.speaking = false;
+          this.voicedSamples = 0;
+          this.silentSamples = 0;
+        }
+
+        process(inputs) {
+          const channel = inputs[0] && inputs[0][0];
+          if (!channel) return true;
+
+          let energy = 0;
+          for (let i = 0; i < channel.length; i++) {
+            energy += channel[i] * channel[i];
+          }
+          const level = Math.sqrt(energy / channel.length);
+          const rate = level < this.noiseFloor ? 0.1 : 0.001;
+          this.noiseFloor += (level - this.noiseFloor) * rate;
+          const voiced = level > Math.max(this.threshold, this.noiseFloor * 2);
+
+          if (voiced) {
+            this.silentSamples = 0;
+            this.voicedSamples += channel.length;
+            if (!this.speaking && this.voicedSamples >= this.minSpeechSamples) {
+              this.speaking = true;
+              this.port.postMessage({
+                speaking: true,
+                delayMs: (this.voicedSamples / sampleRate) * 1000,
+              });
+            }
+          } else {
+            this.voicedSamples = 0;
+            if (this.speaking) {
+              this.silentSamples += channel.length;
+              if (this.silentSamples >= this.hangoverSamples) {
+                this.speaking = false;
+                this.port.postMessage({
+                  speaking: false,
+                  delayMs: (this.silentSamples / sampleRate) * 1000,
+                });
+              }
+            }
+          }
+          return true;
+        }
+      }
+      registerProcessor('${VAD_PROCESSOR_NAME}', VoiceActivityProcessor);
+    `;
+
+    const url = URL.createObjectURL(
+      new Blob([workletCode], { type: 'application/javascript' })
+    );
+    try {
+      await audioContext.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  /**
+   * Handles a speech change reported by the worklet.
+   * @private
+   */
+  #handleVoiceActivity(data: { speaking: boolean; delayMs: number }): void {
+    const timestamp = Date.now() - data.delayMs;
+    if (!data.speaking) {
+      this.#endUserSpeech(timestamp);
+      return;
+    }
+    if (this.userSpeechStartedAt !== null || this.microphoneTrack?.isMuted) {
+      return;
+    }
+    this.userSpeechStartedAt = timestamp;
+    this.#applyMicGate();
+    this.emit('userSpeechStarted', { timestamp });
+  }
+
+  /**
+   * Ends the current utterance, if any.
+   * @private
+   */
+  #endUserSpeech(timestamp = Date.now()): void {
+    const startedAt = this.userSpeechStartedAt;
+    if (startedAt === null) {
+      return;
+    }
+    this.userSpeechStartedAt = null;
+    this.#applyMicGate();
+    this.emit('userSpeechEnded', {
+      timestamp,
+      durationMs: Math.max(0, timestamp - startedAt),
+    });
+  }
+
+  /**
+   * Stops the detector, ends an utterance in progress and reopens a
+   * noise-gated microphone.
+   * @private
+   */
+  #stopVoiceActivityDetector(): void {
+    this.vadGeneration++;
+    const detector = this.voiceActivityDetector;
+    this.voiceActivityDetector = null;
+    if (detector) {
+      this.#disconnectVoiceActivityDetector(detector);
+    }
+    this.#endUserSpeech();
+    this.#applyMicGate();
+  }
+
+  /**
+   * Releases the audio graph of a detector.
+   * @private
+   */
+  #disconnectVoiceActivityDetector(detector: {
+    track: MediaStreamTrack;
+    nodes: AudioNode[];
+  }): void {
+    for (const node of detector.nodes) {
+      if (node instanceof AudioWorkletNode) {
+        node.port.onmessage = null;
+      }
+      try {
+        node.disconnect();
+      } catch {
+        // Ignore errors
+      }
+    }
+    detector.track.stop();
+  }
+
+  /**
+   * Fades out the agent's voice right away, without waiting for the agent to
+   * stop sending audio
+   *
+   * Playback stays silent until the agent reports it stopped speaking, and at
+   * most a few seconds, then the volume set with setVolume() is restored for
+   * the next answer.
+   *
+   * @param fadeMs - Duration of the fade-out
+   * @returns How much of the current answer was played
+   *
+   * @example
+   * ```typescript
+   * const { heardMs } = audioManager.interruptPlayback();
+   * ```
+   */
+  interruptPlayback(fadeMs = DEFAULT_INTERRUPT_FADE_MS): AgentInterruptedData {
+    const speakingSince = this.agentSpeakingSince;
+    this.agentSpeakingSince = null;
+    this.playbackInterrupted = true;
+    this.#fadeOutPlayback(fadeMs);
+
+    if (this.interruptRestoreTimer) {
+      clearTimeout(this.interruptRestoreTimer);
+    }
+    this.interruptRestoreTimer = setTimeout(
+      () => this.#restorePlayback(),
+      INTERRUPT_MAX_SILENCE_MS
+    );
+
+    return {
+      wasSpeaking: speakingSince !== null,
+      heardMs: speakingSince === null ? 0 : Date.now() - speakingSince,
+    };
+  }
+
+  /**
+   * Lowers the volume of every agent audio element to silence in steps.
+   * @private
+   */
+  #fadeOutPlayback(fadeMs: number): void {
+    this.#clearInterruptFade();
+    const startVolumes = new Map(
+      Array.from(this.audioElements, (element) => [element, element.volume])
+    );
+    const steps = Math.ceil(fadeMs / INTERRUPT_FADE_STEP_MS);
+    let step = 0;
+    const applyStep = () => {
+      step++;
+      const gain =
+        steps > 0 ? Math.max(MIN_VOLUME, 1 - step / steps) : MIN_VOLUME;
+      for (const [element, volume] of startVolumes) {
+        element.volume = volume * gain;
+      }
+      if (gain === 0) {
+        this.#clearInterruptFade();
+      }
+    };
+
+    applyStep();
+    if (step < steps) {
+      this.interruptFadeTimer = setInterval(applyStep, INTERRUPT_FADE_STEP_MS);
+    }
+  }
+
+  /**
+   * Ends an interruption and gives agent audio its volume back.
+   * @private
+   */
+  #restorePlayback(): void {
+    this.#clearInterruptFade();
+    if (this.interruptRestoreTimer) {
+      clearTimeout(this.interruptRestoreTimer);
+      this.interruptRestoreTimer = null;
+    }
+    this.playbackInterrupted = false;
+    for (const audioElement of this.audioElements) {
+      audioElement.volume = this.volume;
+    }
+  }
+
+  /**
+   * Stops an ongoing fade-out.
+   * @private
+   */
+  #clearInterruptFade(): void {
+    if (this.interruptFadeTimer) {
+      clearInterval(this.interruptFadeTimer);
+      this.interruptFadeTimer = null;
+    }
+  }
+
   /** Emits a standardized error for microphone control failures */
   #emitMicControlError(muted: boolean, error: unknown): void {
     if (this.listenerCount('error') > 0) {
       this.emit(
         'error',
-        new Error(
-          `Failed to ${muted ? 'mute' : 'unmute'} microphone: ${error instanceof Error ? error.message : String(error)}`
+        new HamsaMediaError(
+          'AUDIO_CONTROL_FAILED',
+          `Failed to ${muted ? 'mute' : 'unmute'} microphone: ${getErrorMessage(error)}`,
+          { cause: error }
         )
       );
     }
@@ -746,9 +1736,189 @@ export class LiveKitAudioManager extends EventEmitter {
     if (track.kind === Track.Kind.Audio) {
       this.#recordTrackStats(track, publication, participant);
       this.#setupAudioCaptureIfEnabled(track, participant);
+      if (publication.source === Track.Source.Microphone) {
+        this.#watchMicrophoneTrack(track);
+        if (this.audioProcessors.length > 0) {
+          this.#applyProcessors(track as LocalAudioTrack).catch((error) =>
+            this.#emitProcessorError(error)
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Replaces the processors applied to the microphone
+   *
+   * The processors run in the order given, each one on the output of the
+   * previous one. On a published microphone the new chain takes over the
+   * audio sent to the agent without republishing the track; otherwise it is
+   * applied as soon as the microphone is published. An empty list removes
+   * all processing.
+   *
+   * @param processors - Processors to apply, in order
+   * @throws {HamsaMediaError} AUDIO_PROCESSOR_FAILED when a processor fails to
+   * initialize; the microphone is then sent unprocessed
+   *
+   * @example
+   * ```typescript
+   * await audioManager.setProcessors([highPassFilter, noiseCanceller]);
+   * ```
+   */
+  async setProcessors(processors: AudioTrackProcessor[]): Promise<void> {
+    this.audioProcessors = [...processors];
+    if (this.microphoneTrack) {
+      await this.#applyProcessors(this.microphoneTrack as LocalAudioTrack);
+    }
+  }
+
+  /**
+   * Sets the current processors on the microphone track, or stops the
+   * processor it has when there are none. The mic gate acts on the track that
+   * is sent, which a processor replaces with its output, so it is applied
+   * again once the processors changed.
+   * @private
+   */
+  async #applyProcessors(track: LocalAudioTrack): Promise<void> {
+    const processors = this.audioProcessors;
+    // Without a processor, the track sent is the microphone track itself
+    const microphoneTrack = track.getProcessor()
+      ? null
+      : track.mediaStreamTrack;
+    try {
+      if (processors.length > 0) {
+        await track.setProcessor(new AudioProcessorChain(processors));
+      } else if (track.getProcessor()) {
+        await track.stopProcessor();
+      }
+      this.logger.log('Applied audio processors', {
+        source: 'LiveKitAudioManager',
+        error: { processors: processors.map((processor) => processor.name) },
+      });
+    } catch (error) {
+      throw new HamsaMediaError(
+        'AUDIO_PROCESSOR_FAILED',
+        `Failed to apply audio processors: ${getErrorMessage(error)}`,
+        { cause: error }
+      );
+    } finally {
+      if (microphoneTrack && track.getProcessor()) {
+        // The processor reads the microphone track: only the user's mute may cut it
+        microphoneTrack.enabled = !track.isMuted;
+      }
+      this.#applyMicGate();
+    }
+  }
+
+  /**
+   * Reports processors that could not be applied to a newly published
+   * microphone.
+   * @private
+   */
+  #emitProcessorError(error: HamsaMediaError): void {
+    this.logger.error('Failed to apply audio processors', {
+      source: 'LiveKitAudioManager',
+      error,
+    });
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
     }
   }
 
+  /**
+   * Watches the published microphone track so that a device that disappears
+   * mid-call is replaced instead of leaving the agent without input.
+   * @private
+   */
+  #watchMicrophoneTrack(track: LocalTrack): void {
+    this.#unwatchMicrophoneTrack();
+    this.microphoneTrack = track;
+    track.on(TrackEvent.Ended, this.#handleMicrophoneEnded);
+    track.on(TrackEvent.Unmuted, this.#handleMicrophoneReset);
+    track.on(TrackEvent.Restarted, this.#handleMicrophoneRestarted);
+    track.on(TrackEvent.Muted, this.#handleMicrophoneMuted);
+    // Keeps a microphone published while the agent speaks cut
+    this.#handleMicrophoneReset();
+    this.#startVoiceActivityDetector();
+  }
+
+  /**
+   * Stops watching the microphone track.
+   * @private
+   */
+  #unwatchMicrophoneTrack(): void {
+    this.microphoneTrack?.off(TrackEvent.Ended, this.#handleMicrophoneEnded);
+    this.microphoneTrack?.off(TrackEvent.Unmuted, this.#handleMicrophoneReset);
+    this.microphoneTrack?.off(
+      TrackEvent.Restarted,
+      this.#handleMicrophoneRestarted
+    );
+    this.microphoneTrack?.off(TrackEvent.Muted, this.#handleMicrophoneMuted);
+    this.recoveringMicrophone = false;
+    this.#stopBargeInMonitor();
+    this.#stopVoiceActivityDetector();
+    this.microphoneTrack = null;
+  }
+
+  /**
+   * Handles the microphone track ending because its device was removed.
+   * LiveKit restarts an unmuted track on the default input and mutes it when
+   * that fails; a muted track is reacquired when it is unmuted. Only the
+   * outcome is reported here so that a single restart runs.
+   * @private
+   */
+  readonly #handleMicrophoneEnded = (): void => {
+    const track = this.microphoneTrack;
+    if (!track || this.recoveringMicrophone) {
+      return;
+    }
+    this.recoveringMicrophone = true;
+    this.logger.warn('Microphone lost, falling back to the default input', {
+      source: 'LiveKitAudioManager',
+      error: { trackSid: track.sid, wasMuted: track.isMuted },
+    });
+    this.emit('microphoneLost');
+  };
+
+  /**
+   * Reports a lost microphone that LiveKit has restarted on a new device.
+   * @private
+   */
+  #completeMicrophoneRecovery(): void {
+    this.recoveringMicrophone = false;
+    const deviceId =
+      this.microphoneTrack?.mediaStreamTrack?.getSettings?.().deviceId;
+    this.logger.log('Microphone recovered', {
+      source: 'LiveKitAudioManager',
+      error: { deviceId },
+    });
+    this.emit('microphoneRecovered', deviceId);
+  }
+
+  /**
+   * Handles the microphone being muted while it is lost, which is how LiveKit
+   * gives up when no other input can be opened.
+   * @private
+   */
+  readonly #handleMicrophoneMuted = (): void => {
+    if (!this.recoveringMicrophone) {
+      return;
+    }
+    this.recoveringMicrophone = false;
+    this.logger.error('Failed to recover the lost microphone', {
+      source: 'LiveKitAudioManager',
+    });
+    if (this.listenerCount('error') > 0) {
+      this.emit(
+        'error',
+        new HamsaMediaError(
+          'MIC_NOT_FOUND',
+          'Failed to recover the lost microphone: no other input is available'
+        )
+      );
+    }
+  };
+
   /**
    * Records track statistics for analytics
    * @private
@@ -786,7 +1956,7 @@ export class LiveKitAudioManager extends EventEmitter {
       return;
     }
 
-    audioElement.volume = this.volume;
+    audioElement.volume = this.playbackInterrupted ? MIN_VOLUME : this.volume;
     audioElement.autoplay = true;
 
     this.#setupAudioMonitoring(audioElement);
@@ -970,6 +2140,9 @@ export class LiveKitAudioManager extends EventEmitter {
     publication: LocalTrackPublication,
     participant: Participant
   ): void {
+    if (track === this.microphoneTrack) {
+      this.#unwatchMicrophoneTrack();
+    }
     this.handleTrackUnsubscribed(track, publication, participant);
   }
 
@@ -1509,7 +2682,8 @@ export class LiveKitAudioManager extends EventEmitter {
     const callback = options.callback || options.onData;
 
     if (!callback) {
-      throw new Error(
+      throw new HamsaError(
+        'INVALID_ARGUMENT',
         'Audio capture requires either "callback" or "onData" option'
       );
     }
@@ -1551,6 +2725,10 @@ export class LiveKitAudioManager extends EventEmitter {
     this.#cleanupAudioCapture();
     this.audioCaptureOptions = null;
     this.workletReady = null;
+    // Closing the AudioContext stopped the detector
+    if (this.voiceActivity) {
+      this.#restartVoiceActivityDetector();
+    }
   }
 
   /**
@@ -1710,8 +2888,12 @@ export class LiveKitAudioManager extends EventEmitter {
     } catch (error) {
       this.emit(
         'error',
-        new Error(
-          `Failed to setup encoded audio capture: ${error instanceof Error ? error.message : String(error)}`
+        new HamsaMediaError(
+          typeof MediaRecorder === 'undefined'
+            ? 'AUDIO_CAPTURE_UNSUPPORTED'
+            : 'AUDIO_CAPTURE_FAILED',
+          `Failed to setup encoded audio capture: ${getErrorMessage(error)}`,
+          { cause: error }
         )
       );
     }
@@ -1743,7 +2925,10 @@ export class LiveKitAudioManager extends EventEmitter {
     try {
       this.#ensureAudioContext();
       if (!this.audioContext) {
-        throw new Error('WebAudio is not supported in this environment');
+        throw new HamsaMediaError(
+          'AUDIO_CAPTURE_UNSUPPORTED',
+          'WebAudio is not supported in this environment'
+        );
       }
 
       const audioContext = this.audioContext as unknown as AudioContext;
@@ -1790,8 +2975,12 @@ export class LiveKitAudioManager extends EventEmitter {
     } catch (error) {
       this.emit(
         'error',
-        new Error(
-          `Failed to setup PCM audio capture: ${error instanceof Error ? error.message : String(error)}`
+        new HamsaMediaError(
+          error instanceof HamsaMediaError
+            ? error.code
+            : 'AUDIO_CAPTURE_FAILED',
+          `Failed to setup PCM audio capture: ${getErrorMessage(error)}`,
+          { cause: error }
         )
       );
     }
@@ -2123,10 +3312,18 @@ export class LiveKitAudioManager extends EventEmitter {
         });
       }
       this.audioContext = null;
+      this.vadWorkletReady = null;
     }
   }
 
   cleanup(): void {
+    this.disableVoiceActivityDetection();
+    this.#unwatchMicrophoneTrack();
+    this.disablePushToTalk();
+    this.disableHalfDuplex();
+    this.#restorePlayback();
+    this.agentSpeakingSince = null;
+
     // Clean up audio capture resources
     this.#cleanupAudioCapture();
 
@@ -2182,3 +3379,41 @@ export class LiveKitAudioManager extends EventEmitter {
     return buf;
   }
 }
+
+/**
+ * Declaration merging: adds type-safe event methods to LiveKitAudioManager
+ */
+// biome-ignore lint/nursery/useConsistentTypeDefinitions: Interface required for declaration merging with class
+export interface LiveKitAudioManager {
+  /**
+   * Registers an event listener with type-safe event names and handlers
+   */
+  on<K extends keyof LiveKitAudioManagerEvents>(
+    event: K,
+    listener: LiveKitAudioManagerEvents[K]
+  ): this;
+
+  /**
+   * Removes an event listener with type-safe event names and handlers
+   */
+  off<K extends keyof LiveKitAudioManagerEvents>(
+    event: K,
+    listener: LiveKitAudioManagerEvents[K]
+  ): this;
+
+  /**
+   * Registers a one-time event listener with type-safe event names and handlers
+   */
+  once<K extends keyof LiveKitAudioManagerEvents>(
+    event: K,
+    listener: LiveKitAudioManagerEvents[K]
+  ): this;
+
+  /**
+   * Emits an event with type-safe event names and arguments
+   */
+  emit<K extends keyof LiveKitAudioManagerEvents>(
+    event: K,
+    ...args: Parameters<LiveKitAudioManagerEvents[K]>
+  ): boolean;
+}
@@ -162,16 +162,64 @@ import type { DataPacket_Kind } from '@livekit/protocol';
 import { EventEmitter } from 'events';
 import {
   type ConnectionState,
+  type LocalAudioTrack,
   type Participant,
   type RemoteParticipant,
   Room,
   RoomEvent,
+  Track,
   VideoPresets,
 } from 'livekit-client';
-import { createDebugLogger, type DebugLogger } from '../utils';
-import type { ParticipantData } from './types';
+import {
+  createDebugLogger,
+  type DebugLogger,
+  getDevicePlatform,
+} from '../utils';
+import {
+  getErrorMessage,
+  getMediaErrorCode,
+  HamsaConnectionError,
+  HamsaError,
+  HamsaMediaError,
+} from './errors';
+import type {
+  AgentState,
+  AudioConstraints,
+  AudioDevicePreferences,
+  ParticipantData,
+} from './types';
 
-const IOS_REGEX = /iP(hone|ad|od)|iPhone/i;
+/**
+ * Events emitted by LiveKitConnection, keyed by event name
+ */
+export type LiveKitConnectionEvents = {
+  /** Emitted when the room connection is established */
+  connected: () => void;
+  /** Emitted when the room connection is closed */
+  disconnected: () => void;
+  /** Emitted with the time in milliseconds it took to connect */
+  connectionEstablished: (connectionTime: number) => void;
+  /** Emitted when connecting, disconnecting, pausing or resuming fails */
+  connectionError: (error: HamsaError) => void;
+  /** Emitted when the conversation is paused */
+  connectionPaused: () => void;
+  /** Emitted when the conversation is resumed */
+  connectionResumed: () => void;
+  /** Emitted when the connection is lost and LiveKit is reconnecting */
+  reconnecting: () => void;
+  /** Emitted when the connection is restored */
+  reconnected: () => void;
+  /** Emitted when a remote participant joins the room */
+  participantConnected: (participant: RemoteParticipant) => void;
+  /** Emitted when a remote participant leaves the room */
+  participantDisconnected: (participant: RemoteParticipant) => void;
+  /** Emitted when the agent publishes a new state */
+  agentStateChanged: (state: AgentState) => void;
+  /** Emitted when the room connection state changes */
+  connectionStateChanged: (state: ConnectionState) => void;
+  /** Emitted when a media device is plugged in or removed */
+  devicesChanged: () => void;
+};
 
 /**
  * LiveKitConnection class for managing WebRTC connections to voice agent rooms
@@ -179,6 +227,7 @@ const IOS_REGEX = /iP(hone|ad|od)|iPhone/i;
  * Extends EventEmitter to provide real-time connection status updates and
  * participant management events for voice agent applications.
  */
+// biome-ignore lint/suspicious/noUnsafeDeclarationMerging: Intentional declaration merging for type-safe events
 export class LiveKitConnection extends EventEmitter {
   /** LiveKit room instance for WebRTC communication */
   room: Room | null = null;
@@ -224,6 +273,8 @@ export class LiveKitConnection extends EventEmitter {
    * @param lkUrl - LiveKit WebSocket URL (e.g., 'wss://livekit.example.com')
    * @param accessToken - JWT token for room authentication and authorization
    * @param debug - Enable debug logging (defaults to false)
+   * @param audio.devices - Microphone and speaker the room should use
+   * @param audio.constraints - Processing applied to the microphone
    *
    * @example
    * ```typescript
@@ -237,7 +288,18 @@ export class LiveKitConnection extends EventEmitter {
    * await connection.connect();
    * ```
    */
-  constructor(lkUrl: string, accessToken: string, debug = false) {
+  constructor(
+    lkUrl: string,
+    accessToken: string,
+    debug = false,
+    {
+      devices = {},
+      constraints = {},
+    }: {
+      devices?: AudioDevicePreferences;
+      constraints?: AudioConstraints;
+    } = {}
+  ) {
     super();
     this.lkUrl = lkUrl;
     this.accessToken = accessToken;
@@ -253,11 +315,20 @@ export class LiveKitConnection extends EventEmitter {
       videoCaptureDefaults: {
         resolution: VideoPresets.h720.resolution,
       },
-      // Enable echo cancellation and noise suppression for clearer audio
+      // Enable echo cancellation and noise suppression for clearer audio,
+      // unless the app asked otherwise
       audioCaptureDefaults: {
         echoCancellation: true,
         noiseSuppression: true,
+        ...constraints,
+        // Devices chosen with setAudioInput()/setAudioOutput() before the call
+        ...(devices.audioInputDeviceId && {
+          deviceId: devices.audioInputDeviceId,
+        }),
       },
+      ...(devices.audioOutputDeviceId && {
+        audioOutput: { deviceId: devices.audioOutputDeviceId },
+      }),
     });
 
     // Set up event handlers for room lifecycle management
@@ -305,6 +376,10 @@ export class LiveKitConnection extends EventEmitter {
         this.#handleSignalReconnecting.bind(this)
       )
       .on(RoomEvent.MediaDevicesError, this.#handleMediaDevicesError.bind(this))
+      .on(
+        RoomEvent.MediaDevicesChanged,
+        this.#handleMediaDevicesChanged.bind(this)
+      )
       .on(
         RoomEvent.ConnectionQualityChanged,
         this.#handleConnectionQualityChanged.bind(this)
@@ -399,9 +474,7 @@ export class LiveKitConnection extends EventEmitter {
       // Pre-warm connection on non-iOS platforms only.
       // iOS Safari can suspend the tab between prepareConnection and connect,
       // leaving a stale WebSocket that causes the initial handshake to fail.
-      const isIOS =
-        typeof navigator !== 'undefined' && IOS_REGEX.test(navigator.userAgent);
-      if (!isIOS) {
+      if (getDevicePlatform() !== 'ios') {
         this.room?.prepareConnection(this.lkUrl, this.accessToken);
       }
 
@@ -447,8 +520,10 @@ export class LiveKitConnection extends EventEmitter {
 
       this.emit(
         'connectionError',
-        new Error(
-          `LiveKit connection failed: ${error instanceof Error ? error.message : String(error)}`
+        new HamsaConnectionError(
+          'CONNECTION_FAILED',
+          `LiveKit connection failed: ${getErrorMessage(error)}`,
+          { cause: error }
         )
       );
     }
@@ -540,8 +615,10 @@ export class LiveKitConnection extends EventEmitter {
 
       this.emit(
         'connectionError',
-        new Error(
-          `LiveKit disconnection failed: ${error instanceof Error ? error.message : String(error)}`
+        new HamsaConnectionError(
+          'DISCONNECT_FAILED',
+          `LiveKit disconnection failed: ${getErrorMessage(error)}`,
+          { cause: error }
         )
       );
     }
@@ -563,8 +640,10 @@ export class LiveKitConnection extends EventEmitter {
     } catch (error) {
       this.emit(
         'connectionError',
-        new Error(
-          `Failed to pause call: ${error instanceof Error ? error.message : String(error)}`
+        new HamsaError(
+          'CALL_CONTROL_FAILED',
+          `Failed to pause call: ${getErrorMessage(error)}`,
+          { cause: error }
         )
       );
     }
@@ -586,13 +665,107 @@ export class LiveKitConnection extends EventEmitter {
     } catch (error) {
       this.emit(
         'connectionError',
-        new Error(
-          `Failed to resume call: ${error instanceof Error ? error.message : String(error)}`
+        new HamsaError(
+          'CALL_CONTROL_FAILED',
+          `Failed to resume call: ${getErrorMessage(error)}`,
+          { cause: error }
         )
       );
     }
   }
 
+  /**
+   * Switches the microphone or speaker used by the room
+   *
+   * Before the room is joined, the device is recorded and used once the
+   * microphone is published. During a call, the published microphone track
+   * is restarted on the new device and agent audio is moved to the new
+   * speaker.
+   *
+   * @param kind - 'audioinput' for the microphone, 'audiooutput' for the speaker
+   * @param deviceId - deviceId of the device, as listed by enumerateDevices()
+   * @throws {HamsaMediaError} When the device cannot be used, or when the
+   * browser cannot select a speaker
+   */
+  async switchAudioDevice(
+    kind: 'audioinput' | 'audiooutput',
+    deviceId: string
+  ): Promise<void> {
+    const deviceName = kind === 'audioinput' ? 'microphone' : 'speaker';
+    let switched: boolean;
+    try {
+      switched = (await this.room?.switchActiveDevice(kind, deviceId)) ?? true;
+    } catch (error) {
+      throw new HamsaMediaError(
+        getMediaErrorCode(error) ?? 'MEDIA_DEVICE_ERROR',
+        `Failed to switch ${deviceName}: ${getErrorMessage(error)}`,
+        { cause: error }
+      );
+    }
+    if (!switched) {
+      throw new HamsaMediaError(
+        'MEDIA_DEVICE_ERROR',
+        `Failed to switch ${deviceName}: device "${deviceId}" could not be used`
+      );
+    }
+
+    this.logger.log('Active audio device switched', {
+      source: 'LiveKitConnection',
+      error: { kind, deviceId },
+    });
+  }
+
+  /**
+   * Changes the processing applied to the microphone
+   *
+   * The constraints are merged into the room's capture defaults. During a
+   * call, the microphone track is restarted with them, keeping its device
+   * and mute state, since most browsers cannot change them on a live track.
+   *
+   * @param constraints - Constraints to change; others keep their value
+   * @throws {HamsaMediaError} When the microphone cannot be restarted
+   */
+  async updateAudioConstraints(constraints: AudioConstraints): Promise<void> {
+    const room = this.room;
+    if (!room) {
+      return;
+    }
+    const track = room.localParticipant?.getTrackPublication(
+      Track.Source.Microphone
+    )?.track as LocalAudioTrack | undefined;
+    // LiveKit moves a track whose device was unplugged to the default input
+    // without updating the capture defaults, so the track knows its device
+    const deviceId = track?.constraints.deviceId;
+    const captureOptions = {
+      ...room.options.audioCaptureDefaults,
+      ...constraints,
+      ...(deviceId !== undefined && { deviceId }),
+    };
+    room.options.audioCaptureDefaults = captureOptions;
+    if (!track) {
+      return;
+    }
+
+    const wasMuted = track.isMuted;
+    try {
+      await track.restartTrack(captureOptions);
+      if (track.isMuted !== wasMuted) {
+        await (wasMuted ? track.mute() : track.unmute());
+      }
+    } catch (error) {
+      throw new HamsaMediaError(
+        getMediaErrorCode(error) ?? 'AUDIO_CONTROL_FAILED',
+        `Failed to apply audio constraints: ${getErrorMessage(error)}`,
+        { cause: error }
+      );
+    }
+
+    this.logger.log('Audio constraints applied', {
+      source: 'LiveKitConnection',
+      error: { constraints },
+    });
+  }
+
   /**
    * Gets connection statistics
    */
@@ -660,11 +833,16 @@ export class LiveKitConnection extends EventEmitter {
         source: 'LiveKitConnection',
         error,
       });
+      // Enabling the microphone is the step that fails when access is denied
+      const message = `Failed to initialize after connection: ${getErrorMessage(error)}`;
+      const mediaCode = getMediaErrorCode(error);
       this.emit(
         'connectionError',
-        new Error(
-          `Failed to initialize after connection: ${error instanceof Error ? error.message : String(error)}`
-        )
+        mediaCode
+          ? new HamsaMediaError(mediaCode, message, { cause: error })
+          : new HamsaConnectionError('CONNECTION_FAILED', message, {
+              cause: error,
+            })
       );
     }
   }
@@ -801,7 +979,9 @@ export class LiveKitConnection extends EventEmitter {
   ): void {
     // Check if the agent state attribute changed
     if ('lk.agent.state' in changedAttributes) {
-      const agentState = changedAttributes['lk.agent.state'];
+      const agentState = changedAttributes['lk.agent.state'] as
+        | AgentState
+        | undefined;
       if (agentState !== undefined) {
         this.emit('agentStateChanged', agentState);
       }
@@ -865,6 +1045,17 @@ export class LiveKitConnection extends EventEmitter {
     });
   }
 
+  /**
+   * Handles media devices being plugged in or removed
+   */
+  #handleMediaDevicesChanged(): void {
+    this.logger.log('Media devices changed', {
+      source: 'LiveKitConnection',
+      error: { roomName: this.room?.name },
+    });
+    this.emit('devicesChanged');
+  }
+
   /**
    * Handles connection quality changes
    */
@@ -919,3 +1110,41 @@ export class LiveKitConnection extends EventEmitter {
     this.#cleanup();
   }
 }
+
+/**
+ * Declaration merging: adds type-safe event methods to LiveKitConnection
+ */
+// biome-ignore lint/nursery/useConsistentTypeDefinitions: Interface required for declaration merging with class
+export interface LiveKitConnection {
+  /**
+   * Registers an event listener with type-safe event names and handlers
+   */
+  on<K extends keyof LiveKitConnectionEvents>(
+    event: K,
+    listener: LiveKitConnectionEvents[K]
+  ): this;
+
+  /**
+   * Removes an event listener with type-safe event names and handlers
+   */
+  off<K extends keyof LiveKitConnectionEvents>(
+    event: K,
+    listener: LiveKitConnectionEvents[K]
+  ): this;
+
+  /**
+   * Registers a one-time event listener with type-safe event names and handlers
+   */
+  once<K extends keyof LiveKitConnectionEvents>(
+    event: K,
+    listener: LiveKitConnectionEvents[K]
+  ): this;
+
+  /**
+   * Emits an event with type-safe event names and arguments
+   */
+  emit<K extends keyof LiveKitConnectionEvents>(
+    event: K,
+    ...args: Parameters<LiveKitConnectionEvents[K]>
+  ): boolean;
+}
@@ -42,17 +42,35 @@ import type {
   RemoteTrack,
   RemoteTrackPublication,
   Room,
+  TranscriptionSegment,
 } from 'livekit-client';
 import { RoomEvent, Track } from 'livekit-client';
 import { createDebugLogger, type DebugLogger } from '../utils';
-import { LiveKitAnalytics } from './livekit-analytics';
-import { LiveKitAudioManager } from './livekit-audio-manager';
-import { LiveKitConnection } from './livekit-connection';
-import { LiveKitToolRegistry } from './livekit-tool-registry';
+import type { ConversationTranscript } from './conversation-transcript';
+import { getMediaErrorCode, type HamsaError, HamsaMediaError } from './errors';
+import {
+  LiveKitAnalytics,
+  type LiveKitAnalyticsEvents,
+} from './livekit-analytics';
+import {
+  LiveKitAudioManager,
+  type LiveKitAudioManagerEvents,
+} from './livekit-audio-manager';
+import {
+  LiveKitConnection,
+  type LiveKitConnectionEvents,
+} from './livekit-connection';
+import {
+  LiveKitToolRegistry,
+  type LiveKitToolRegistryEvents,
+} from './livekit-tool-registry';
 
 import type {
   AgentState,
+  AudioConstraints,
+  AudioDevicePreferences,
   AudioLevelsResult,
+  AudioTrackProcessor,
   CallAnalyticsResult,
   ConnectionStatsResult,
   ParticipantData,
@@ -73,13 +91,67 @@ export type {
   TrackStatsResult,
 } from './types';
 
+/**
+ * Events emitted by LiveKitManager, keyed by event name
+ *
+ * Combines the events forwarded from the connection, audio, analytics and tool
+ * modules with the room-level events handled by the manager itself.
+ */
+export type LiveKitManagerEvents = Pick<
+  LiveKitConnectionEvents,
+  | 'connected'
+  | 'disconnected'
+  | 'reconnecting'
+  | 'reconnected'
+  | 'participantConnected'
+  | 'participantDisconnected'
+  | 'agentStateChanged'
+  | 'connectionStateChanged'
+  | 'devicesChanged'
+> &
+  Pick<
+    LiveKitAudioManagerEvents,
+    | 'trackSubscribed'
+    | 'trackUnsubscribed'
+    | 'speaking'
+    | 'listening'
+    | 'volumeChanged'
+    | 'micMuted'
+    | 'micUnmuted'
+    | 'microphoneLost'
+    | 'microphoneRecovered'
+    | 'pttStateChanged'
+    | 'pttTurnEnded'
+    | 'micGateChanged'
+    | 'userSpeechStarted'
+    | 'userSpeechEnded'
+  > &
+  Pick<
+    LiveKitAnalyticsEvents,
+    'connectionQualityChanged' | 'audioPlaybackChanged' | 'analyticsUpdated'
+  > &
+  LiveKitToolRegistryEvents & {
+    /** Emitted when a connection or audio error occurs */
+    error: (error: HamsaError) => void;
+    /** Emitted when LiveKit cannot access the local media devices */
+    mediaDevicesError: (error: HamsaMediaError) => void;
+    /** Emitted when a local track is published */
+    localTrackPublished: (data: {
+      publication: LocalTrackPublication;
+      track?: LocalTrack;
+    }) => void;
+    /** Emitted for informational messages */
+    info: (info: string) => void;
+  };
+
 /**
  * Main LiveKitManager class that orchestrates voice agent communication
  *
  * This class extends EventEmitter to provide a reactive interface for handling
  * voice agent interactions, real-time analytics, and WebRTC connection management.
  */
-export default class LiveKitManager extends EventEmitter {
+// biome-ignore lint/suspicious/noUnsafeDeclarationMerging: Intentional declaration merging for type-safe events
+class LiveKitManager extends EventEmitter {
   /** Connection module - manages LiveKit room connections and participants */
   connection: LiveKitConnection;
 
@@ -113,6 +185,10 @@ export default class LiveKitManager extends EventEmitter {
    * @param lkUrl - LiveKit WebSocket URL (e.g., 'wss://your-livekit.example.com')
    * @param accessToken - JWT token for room access authentication
    * @param tools - Array of client-side tools that agents can call during conversations
+   * @param options.devices - Microphone and speaker the room should use
+   * @param options.audioConstraints - Processing applied to the microphone
+   * @param options.audioProcessors - Processors the microphone goes through
+   * @param options.transcript - Transcript to record the conversation in
    *
    * @example
    * ```typescript
@@ -138,7 +214,18 @@ export default class LiveKitManager extends EventEmitter {
     {
       debug = false,
       avatarContainerSelector,
-    }: { debug?: boolean; avatarContainerSelector?: string } = {}
+      devices = {},
+      audioConstraints = {},
+      audioProcessors = [],
+      transcript = null,
+    }: {
+      debug?: boolean;
+      avatarContainerSelector?: string;
+      devices?: AudioDevicePreferences;
+      audioConstraints?: AudioConstraints;
+      audioProcessors?: AudioTrackProcessor[];
+      transcript?: ConversationTranscript | null;
+    } = {}
   ) {
     super();
 
@@ -162,7 +249,10 @@ export default class LiveKitManager extends EventEmitter {
     this.logger.log('Creating LiveKitConnection module', {
       source: 'LiveKitManager',
     });
-    this.connection = new LiveKitConnection(lkUrl, accessToken, debug);
+    this.connection = new LiveKitConnection(lkUrl, accessToken, debug, {
+      devices,
+      constraints: audioConstraints,
+    });
 
     this.logger.log('Creating LiveKitAnalytics module', {
       source: 'LiveKitManager',
@@ -172,13 +262,13 @@ export default class LiveKitManager extends EventEmitter {
     this.logger.log('Creating LiveKitAudioManager module', {
       source: 'LiveKitManager',
     });
-    this.audioManager = new LiveKitAudioManager(debug);
+    this.audioManager = new LiveKitAudioManager(debug, audioProcessors);
 
     this.logger.log('Creating LiveKitToolRegistry module', {
       source: 'LiveKitManager',
       error: { toolsCount: tools.length },
     });
-    this.toolRegistry = new LiveKitToolRegistry(tools, debug);
+    this.toolRegistry = new LiveKitToolRegistry(tools, debug, transcript);
 
     if (tools.length > 0) {
       this.logger.log('Registered client-side tools', {
@@ -973,9 +1063,13 @@ export default class LiveKitManager extends EventEmitter {
     );
 
     // Forward agent state changes for tracking agent behavior (listening, thinking, speaking)
-    this.connection.on('agentStateChanged', (state: AgentState) =>
-      this.emit('agentStateChanged', state)
-    );
+    this.connection.on('agentStateChanged', (state: AgentState) => {
+      this.audioManager.handleAgentStateChanged(state);
+      this.emit('agentStateChanged', state);
+    });
+
+    // Forward media device changes so device pickers can be refreshed
+    this.connection.on('devicesChanged', () => this.emit('devicesChanged'));
 
     // Forward connection state and error events for external error handling
     this.connection.on('connectionStateChanged', (state) =>
@@ -1013,6 +1107,23 @@ export default class LiveKitManager extends EventEmitter {
     // Forward microphone control events for UI synchronization
     this.audioManager.on('micMuted', () => this.emit('micMuted'));
     this.audioManager.on('micUnmuted', () => this.emit('micUnmuted'));
+    this.audioManager.on('microphoneLost', () => this.emit('microphoneLost'));
+    this.audioManager.on('microphoneRecovered', (deviceId) =>
+      this.emit('microphoneRecovered', deviceId)
+    );
+    this.audioManager.on('pttStateChanged', (state) =>
+      this.emit('pttStateChanged', state)
+    );
+    this.audioManager.on('pttTurnEnded', () => this.emit('pttTurnEnded'));
+    this.audioManager.on('micGateChanged', (gated) =>
+      this.emit('micGateChanged', gated)
+    );
+    this.audioManager.on('userSpeechStarted', (data) =>
+      this.emit('userSpeechStarted', data)
+    );
+    this.audioManager.on('userSpeechEnded', (data) =>
+      this.emit('userSpeechEnded', data)
+    );
 
     // === Analytics Events ===
     // Forward real-time quality monitoring events for dashboard updates
@@ -1058,6 +1169,12 @@ export default class LiveKitManager extends EventEmitter {
       );
       this.emit('transcriptionReceived', transcription);
     });
+    this.toolRegistry.on('transcriptionUpdated', (segment) =>
+      this.emit('transcriptionUpdated', segment)
+    );
+    this.toolRegistry.on('transcriptionFinalized', (segment) =>
+      this.emit('transcriptionFinalized', segment)
+    );
 
     // Forward custom agent events for application-specific logic
     this.toolRegistry.on('customEvent', (eventType, eventData, metadata) =>
@@ -1186,10 +1303,7 @@ export default class LiveKitManager extends EventEmitter {
       ],
       [
         RoomEvent.TranscriptionReceived,
-        (
-          transcriptions: Array<{ text?: string; final?: boolean }>,
-          participant?: Participant
-        ) => {
+        (transcriptions: TranscriptionSegment[], participant?: Participant) => {
           const SEGMENT_PREVIEW_LENGTH = 50;
           this.logger.log('🔔 RoomEvent.TranscriptionReceived triggered', {
             source: 'LiveKitManager',
@@ -1255,7 +1369,14 @@ export default class LiveKitManager extends EventEmitter {
           });
 
           // Forward media device errors for external error handling
-          this.emit('mediaDevicesError', error);
+          this.emit(
+            'mediaDevicesError',
+            new HamsaMediaError(
+              getMediaErrorCode(error) ?? 'MEDIA_DEVICE_ERROR',
+              error.message,
+              { cause: error }
+            )
+          );
         },
       ],
       [
@@ -1432,3 +1553,43 @@ export default class LiveKitManager extends EventEmitter {
     this.videoElements.clear();
   }
 }
+
+/**
+ * Declaration merging: adds type-safe event methods to LiveKitManager
+ */
+// biome-ignore lint/nursery/useConsistentTypeDefinitions: Interface required for declaration merging with class
+interface LiveKitManager {
+  /**
+   * Registers an event listener with type-safe event names and handlers
+   */
+  on<K extends keyof LiveKitManagerEvents>(
+    event: K,
+    listener: LiveKitManagerEvents[K]
+  ): this;
+
+  /**
+   * Removes an event listener with type-safe event names and handlers
+   */
+  off<K extends keyof LiveKitManagerEvents>(
+    event: K,
+    listener: LiveKitManagerEvents[K]
+  ): this;
+
+  /**
+   * Registers a one-time event listener with type-safe event names and handlers
+   */
+  once<K extends keyof LiveKitManagerEvents>(
+    event: K,
+    listener: LiveKitManagerEvents[K]
+  ): this;
+
+  /**
+   * Emits an event with type-safe event names and arguments
+   */
+  emit<K extends keyof LiveKitManagerEvents>(
+    event: K,
+    ...args: Parameters<LiveKitManagerEvents[K]>
+  ): boolean;
+}
+
+export default LiveKitManager;
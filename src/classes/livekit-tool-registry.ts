@@ -179,9 +179,46 @@
  */
 
 import { EventEmitter } from 'events';
-import type { Room, RpcInvocationData } from 'livekit-client';
+import type {
+  Room,
+  RpcInvocationData,
+  TranscriptionSegment,
+} from 'livekit-client';
 import { createDebugLogger, type DebugLogger } from '../utils';
-import type { Tool } from './types';
+import type { ConversationTranscript } from './conversation-transcript';
+import { getErrorMessage, HamsaToolError } from './errors';
+import type {
+  CustomEventMetadata,
+  Tool,
+  TranscriptionSegmentData,
+  TranscriptionSpeaker,
+} from './types';
+
+/**
+ * Events emitted by LiveKitToolRegistry, keyed by event name
+ */
+export type LiveKitToolRegistryEvents = {
+  /** Emitted when a client-side tool execution fails; the tool's error is the cause */
+  rpcError: (functionName: string, error: HamsaToolError) => void;
+  /** Emitted when tools are registered with the room */
+  toolsRegistered: (tools: Tool[]) => void;
+  /** Emitted when the agent answers */
+  answerReceived: (text: string) => void;
+  /** Emitted when the user's speech is transcribed */
+  transcriptionReceived: (text: string) => void;
+  /** Emitted when a transcription segment of the user or the agent changes */
+  transcriptionUpdated: (segment: TranscriptionSegmentData) => void;
+  /** Emitted once when a transcription segment becomes final */
+  transcriptionFinalized: (segment: TranscriptionSegmentData) => void;
+  /** Emitted for agent events without a dedicated handler */
+  customEvent: (
+    eventType: string,
+    eventData: unknown,
+    metadata: CustomEventMetadata
+  ) => void;
+  /** Emitted with every parsed data message and the sender identity */
+  dataReceived: (message: Record<string, unknown>, participant: string) => void;
+};
 
 /**
  * LiveKitToolRegistry class for client-side tool management and RPC handling
@@ -189,6 +226,7 @@ import type { Tool } from './types';
  * Extends EventEmitter to provide real-time notifications for tool registration,
  * agent responses, transcriptions, and custom events from voice agents.
  */
+// biome-ignore lint/suspicious/noUnsafeDeclarationMerging: Intentional declaration merging for type-safe events
 export class LiveKitToolRegistry extends EventEmitter {
   /** Maximum length for text preview in debug logs */
   private static readonly TEXT_PREVIEW_LENGTH = 100;
@@ -204,6 +242,15 @@ export class LiveKitToolRegistry extends EventEmitter {
   /** Set of currently registered RPC method names for cleanup */
   private readonly registeredMethods: Set<string> = new Set();
 
+  /** Latest text and final flag of each transcription segment, by segment id */
+  private readonly transcriptionSegments: Map<
+    string,
+    { text: string; final: boolean }
+  > = new Map();
+
+  /** Transcript recording speech and tool calls, if the owner keeps one */
+  private readonly transcript: ConversationTranscript | null;
+
   /** Debug logger instance for conditional logging */
   private readonly logger: DebugLogger;
 
@@ -216,6 +263,7 @@ export class LiveKitToolRegistry extends EventEmitter {
    *
    * @param tools - Initial array of tools to register (optional)
    * @param debug - Enable debug logging for troubleshooting (optional)
+   * @param transcript - Transcript to record speech and tool calls in (optional)
    *
    * @example
    * ```typescript
@@ -233,10 +281,15 @@ export class LiveKitToolRegistry extends EventEmitter {
    * registry.setRoom(liveKitRoom);
    * ```
    */
-  constructor(tools: Tool[] = [], debug = false) {
+  constructor(
+    tools: Tool[] = [],
+    debug = false,
+    transcript: ConversationTranscript | null = null
+  ) {
     super();
     this.tools = tools;
     this.logger = createDebugLogger(debug);
+    this.transcript = transcript;
   }
 
   /**
@@ -372,15 +425,28 @@ export class LiveKitToolRegistry extends EventEmitter {
         this.room.registerRpcMethod(
           tool.function_name,
           async (data: RpcInvocationData) => {
+            let args: Record<string, unknown> = {};
             try {
-              const args = JSON.parse(data.payload || '{}');
+              args = JSON.parse(data.payload || '{}');
               const result = await tool.fn?.(...Object.values(args), data);
+              this.transcript?.addToolCall({
+                name: tool.function_name,
+                arguments: args,
+                result,
+              });
               return JSON.stringify(result);
             } catch (error) {
-              this.emit('rpcError', tool.function_name, error);
-              return JSON.stringify({
-                error: error instanceof Error ? error.message : String(error),
+              this.transcript?.addToolCall({
+                name: tool.function_name,
+                arguments: args,
+                error: getErrorMessage(error),
               });
+              this.emit(
+                'rpcError',
+                tool.function_name,
+                new HamsaToolError(tool.function_name, { cause: error })
+              );
+              return JSON.stringify({ error: getErrorMessage(error) });
             }
           }
         );
@@ -532,6 +598,9 @@ export class LiveKitToolRegistry extends EventEmitter {
               participant,
             },
           });
+          if (typeof eventData === 'string') {
+            this.transcript?.addMessage('agent', eventData);
+          }
           this.emit('answerReceived', eventData);
           break;
         case 'transcription':
@@ -548,6 +617,9 @@ export class LiveKitToolRegistry extends EventEmitter {
               },
             }
           );
+          if (typeof eventData === 'string') {
+            this.transcript?.addMessage('user', eventData);
+          }
           this.emit('transcriptionReceived', eventData);
           break;
         default:
@@ -604,6 +676,12 @@ export class LiveKitToolRegistry extends EventEmitter {
    *
    * The participant is identified by checking if their identity contains "agent".
    *
+   * Both of these fire for every interim update. Each segment is also emitted
+   * as `transcriptionUpdated` with its id, final flag, timing, speaker and
+   * language, once per change, and as `transcriptionFinalized` once when it
+   * becomes final, so captions can replace interim text instead of appending
+   * every update.
+   *
    * @param transcriptions - Array of transcription segments from LiveKit
    * @param transcriptions[].text - Transcribed text content
    * @param transcriptions[].final - Whether this is a final transcription segment
@@ -611,6 +689,8 @@ export class LiveKitToolRegistry extends EventEmitter {
    *
    * @fires answerReceived When agent speech is transcribed
    * @fires transcriptionReceived When user speech is transcribed
+   * @fires transcriptionUpdated When a segment's text or final flag changes
+   * @fires transcriptionFinalized When a segment becomes final
    *
    * @example
    * ```typescript
@@ -644,7 +724,7 @@ export class LiveKitToolRegistry extends EventEmitter {
    * ```
    */
   handleTranscriptionReceived(
-    transcriptions: Array<{ text?: string; final?: boolean }>,
+    transcriptions: Partial<TranscriptionSegment>[],
     participantIdentity?: string
   ): void {
     try {
@@ -712,6 +792,11 @@ export class LiveKitToolRegistry extends EventEmitter {
             );
             this.emit('transcriptionReceived', segment.text);
           }
+          this.#emitTranscriptionSegment(
+            segment,
+            isAgent ? 'agent' : 'user',
+            participantIdentity
+          );
         }
       }
     } catch (error) {
@@ -727,6 +812,47 @@ export class LiveKitToolRegistry extends EventEmitter {
     }
   }
 
+  /**
+   * Emits a transcription segment when its text or final flag changed since
+   * the last update. LiveKit sends the whole text with every update and may
+   * send a segment again unchanged, e.g. when the speaker reconnects.
+   * @private
+   */
+  #emitTranscriptionSegment(
+    segment: Partial<TranscriptionSegment>,
+    speaker: TranscriptionSpeaker,
+    participantIdentity?: string
+  ): void {
+    const { id, text } = segment;
+    if (!(id && text)) {
+      return;
+    }
+    const isFinal = segment.final === true;
+    const previous = this.transcriptionSegments.get(id);
+    if (previous?.final || (previous?.text === text && !isFinal)) {
+      return;
+    }
+    this.transcriptionSegments.set(id, { text, final: isFinal });
+
+    const data: TranscriptionSegmentData = {
+      id,
+      text,
+      isFinal,
+      startTime: segment.startTime ?? 0,
+      endTime: segment.endTime ?? 0,
+      firstReceivedTime: segment.firstReceivedTime || Date.now(),
+      lastReceivedTime: segment.lastReceivedTime || Date.now(),
+      speaker,
+      participant: participantIdentity ?? '',
+      language: segment.language ?? '',
+    };
+    this.transcript?.applySegment(data);
+    this.emit('transcriptionUpdated', data);
+    if (isFinal) {
+      this.emit('transcriptionFinalized', data);
+    }
+  }
+
   /**
    * Returns the count of currently registered tools
    *
@@ -828,6 +954,44 @@ export class LiveKitToolRegistry extends EventEmitter {
    */
   cleanup(): void {
     // Tools are automatically unregistered when room disconnects
-    // No additional cleanup needed
+    this.transcriptionSegments.clear();
   }
 }
+
+/**
+ * Declaration merging: adds type-safe event methods to LiveKitToolRegistry
+ */
+// biome-ignore lint/nursery/useConsistentTypeDefinitions: Interface required for declaration merging with class
+export interface LiveKitToolRegistry {
+  /**
+   * Registers an event listener with type-safe event names and handlers
+   */
+  on<K extends keyof LiveKitToolRegistryEvents>(
+    event: K,
+    listener: LiveKitToolRegistryEvents[K]
+  ): this;
+
+  /**
+   * Removes an event listener with type-safe event names and handlers
+   */
+  off<K extends keyof LiveKitToolRegistryEvents>(
+    event: K,
+    listener: LiveKitToolRegistryEvents[K]
+  ): this;
+
+  /**
+   * Registers a one-time event listener with type-safe event names and handlers
+   */
+  once<K extends keyof LiveKitToolRegistryEvents>(
+    event: K,
+    listener: LiveKitToolRegistryEvents[K]
+  ): this;
+
+  /**
+   * Emits an event with type-safe event names and arguments
+   */
+  emit<K extends keyof LiveKitToolRegistryEvents>(
+    event: K,
+    ...args: Parameters<LiveKitToolRegistryEvents[K]>
+  ): boolean;
+}
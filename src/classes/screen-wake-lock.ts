@@ -4,6 +4,11 @@
  * This class encapsulates the logic for requesting and releasing a screen
  * wake lock to prevent the device from sleeping during an active call.
  *
+ * Browsers release the wake lock on their own when the tab is hidden; while
+ * the lock is wanted it is re-acquired as soon as the tab becomes visible
+ * again. On browsers without the Wake Lock API, a muted, hidden video is
+ * played instead, which keeps most mobile browsers awake.
+ *
  * Usage:
  *   import ScreenWakeLock from './ScreenWakeLock';
  *   const wakeLockManager = new ScreenWakeLock();
@@ -16,8 +21,13 @@
  *
  *   Check if the wake lock is active:
  *   console.log(wakeLockManager.isActive());
+ *
+ *   Follow lock changes, including releases by the browser:
+ *   wakeLockManager.on('released', () => console.log('Screen may sleep'));
  */
 
+import { EventEmitter } from 'events';
+
 // Type definitions for Screen Wake Lock API
 type WakeLockSentinel = EventTarget & {
   readonly type: 'screen';
@@ -30,6 +40,22 @@ type WakeLock = {
   request(type: 'screen'): Promise<WakeLockSentinel>;
 };
 
+/** How the screen is being kept awake */
+export type WakeLockStrategy = 'native' | 'video';
+
+/**
+ * Events emitted by ScreenWakeLock, keyed by event name
+ */
+export type ScreenWakeLockEvents = {
+  /** Emitted when the screen wake lock is acquired or re-acquired */
+  acquired: (strategy: WakeLockStrategy) => void;
+  /** Emitted when the wake lock is released, by release() or by the browser */
+  released: () => void;
+};
+
+/** Frame rate of the canvas stream played by the video fallback */
+const FALLBACK_VIDEO_FRAME_RATE = 1;
+
 // Type guard to check if navigator has wakeLock
 function hasWakeLock(
   nav: Navigator
@@ -40,36 +66,45 @@ function hasWakeLock(
   );
 }
 
-export default class ScreenWakeLock {
+// biome-ignore lint/suspicious/noUnsafeDeclarationMerging: Intentional declaration merging for type-safe events
+class ScreenWakeLock extends EventEmitter {
   /**
    * The wake lock sentinel that controls the screen wake lock.
    * @private
    */
   private _wakeLock: WakeLockSentinel | null = null;
 
-  constructor() {
-    this._wakeLock = null;
-  }
+  /**
+   * Hidden video keeping the screen awake when the Wake Lock API is missing.
+   * @private
+   */
+  private _fallbackVideo: HTMLVideoElement | null = null;
+
+  /**
+   * Whether the lock should be held, i.e. acquire() was called without a
+   * matching release(). Drives re-acquisition when the tab becomes visible.
+   * @private
+   */
+  private _wanted = false;
 
   /**
    * Attempts to acquire a screen wake lock.
-   * If the Wake Lock API is not supported, a warning is logged.
+   * Falls back to playing a hidden video if the Wake Lock API is not
+   * supported. Failures are ignored: the device may then go to sleep.
    *
    * @returns Promise<void>
    */
   async acquire(): Promise<void> {
-    if (hasWakeLock(navigator)) {
-      try {
-        this._wakeLock = await navigator.wakeLock.request('screen');
-        this._wakeLock.addEventListener('release', () => {
-          this._wakeLock = null;
-        });
-      } catch {
-        // Ignore wake lock request errors
+    if (!this._wanted) {
+      this._wanted = true;
+      if (typeof document !== 'undefined') {
+        document.addEventListener(
+          'visibilitychange',
+          this.#handleVisibilityChange
+        );
       }
-    } else {
-      // Wake lock API not supported
     }
+    await this.#requestLock();
   }
 
   /**
@@ -78,14 +113,30 @@ export default class ScreenWakeLock {
    * @returns Promise<void>
    */
   async release(): Promise<void> {
-    if (this._wakeLock !== null) {
+    this._wanted = false;
+    if (typeof document !== 'undefined') {
+      document.removeEventListener(
+        'visibilitychange',
+        this.#handleVisibilityChange
+      );
+    }
+
+    const wakeLock = this._wakeLock;
+    if (wakeLock !== null) {
+      // Cleared first so the sentinel's release event is not reported twice
+      this._wakeLock = null;
       try {
-        await this._wakeLock.release();
-        this._wakeLock = null;
+        await wakeLock.release();
+        this.emit('released');
       } catch {
         // Ignore wake lock release errors
       }
     }
+
+    if (this._fallbackVideo !== null) {
+      this.#removeFallbackVideo();
+      this.emit('released');
+    }
   }
 
   /**
@@ -94,6 +145,169 @@ export default class ScreenWakeLock {
    * @returns True if the wake lock is active, false otherwise.
    */
   isActive(): boolean {
-    return this._wakeLock !== null;
+    return (
+      this._wakeLock !== null ||
+      (this._fallbackVideo !== null && !this._fallbackVideo.paused)
+    );
+  }
+
+  /**
+   * Requests the lock with the best strategy the browser supports.
+   * @private
+   */
+  async #requestLock(): Promise<void> {
+    if (this.isActive()) {
+      return;
+    }
+
+    if (hasWakeLock(navigator)) {
+      try {
+        const wakeLock = await navigator.wakeLock.request('screen');
+        if (!this._wanted) {
+          // release() was called while the request was pending
+          await wakeLock.release();
+          return;
+        }
+        this._wakeLock = wakeLock;
+        wakeLock.addEventListener('release', () => {
+          // Only reported when the browser released the lock on its own
+          if (this._wakeLock === wakeLock) {
+            this._wakeLock = null;
+            this.emit('released');
+          }
+        });
+        this.emit('acquired', 'native');
+      } catch {
+        // Ignore wake lock request errors
+      }
+    } else {
+      this.#playFallbackVideo();
+    }
   }
+
+  /**
+   * Plays a muted, hidden video, which keeps mobile browsers without the
+   * Wake Lock API from turning the screen off. Playback is not awaited: it
+   * may wait for a user gesture, and the call must not wait for it.
+   * @private
+   */
+  #playFallbackVideo(): void {
+    if (typeof document === 'undefined') {
+      return;
+    }
+
+    try {
+      if (this._fallbackVideo === null) {
+        this._fallbackVideo = this.#createFallbackVideo();
+      }
+      const video = this._fallbackVideo;
+      video
+        .play()
+        .then(() => {
+          if (this._wanted && this._fallbackVideo === video) {
+            this.emit('acquired', 'video');
+          }
+        })
+        .catch(() => {
+          // Ignore autoplay rejections; the next visibility change retries
+        });
+    } catch {
+      // Ignore fallback errors (e.g. canvas capture not supported)
+      this.#removeFallbackVideo();
+    }
+  }
+
+  /**
+   * Creates the hidden video element used by the fallback, fed by a 1x1
+   * canvas stream.
+   * @private
+   */
+  #createFallbackVideo(): HTMLVideoElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    // Paint once so the stream has a frame to play
+    canvas.getContext('2d')?.fillRect(0, 0, 1, 1);
+
+    const video = document.createElement('video');
+    video.muted = true;
+    video.setAttribute('playsinline', '');
+    video.setAttribute('aria-hidden', 'true');
+    video.style.cssText =
+      'position:fixed;width:1px;height:1px;opacity:0;pointer-events:none;';
+    video.srcObject = canvas.captureStream(FALLBACK_VIDEO_FRAME_RATE);
+    document.body.appendChild(video);
+    return video;
+  }
+
+  /**
+   * Stops and removes the fallback video.
+   * @private
+   */
+  #removeFallbackVideo(): void {
+    const video = this._fallbackVideo;
+    if (video === null) {
+      return;
+    }
+    this._fallbackVideo = null;
+    video.pause();
+    for (const track of (video.srcObject as MediaStream | null)?.getTracks() ??
+      []) {
+      track.stop();
+    }
+    video.srcObject = null;
+    video.remove();
+  }
+
+  /**
+   * Re-acquires the lock the browser released while the tab was hidden.
+   * @private
+   */
+  readonly #handleVisibilityChange = (): void => {
+    if (this._wanted && document.visibilityState === 'visible') {
+      this.#requestLock().catch(() => {
+        // Ignore wake lock request errors
+      });
+    }
+  };
 }
+
+/**
+ * Declaration merging: adds type-safe event methods to ScreenWakeLock
+ */
+// biome-ignore lint/nursery/useConsistentTypeDefinitions: Interface required for declaration merging with class
+interface ScreenWakeLock {
+  /**
+   * Registers an event listener with type-safe event names and handlers
+   */
+  on<K extends keyof ScreenWakeLockEvents>(
+    event: K,
+    listener: ScreenWakeLockEvents[K]
+  ): this;
+
+  /**
+   * Removes an event listener with type-safe event names and handlers
+   */
+  off<K extends keyof ScreenWakeLockEvents>(
+    event: K,
+    listener: ScreenWakeLockEvents[K]
+  ): this;
+
+  /**
+   * Registers a one-time event listener with type-safe event names and handlers
+   */
+  once<K extends keyof ScreenWakeLockEvents>(
+    event: K,
+    listener: ScreenWakeLockEvents[K]
+  ): this;
+
+  /**
+   * Emits an event with type-safe event names and arguments
+   */
+  emit<K extends keyof ScreenWakeLockEvents>(
+    event: K,
+    ...args: Parameters<ScreenWakeLockEvents[K]>
+  ): boolean;
+}
+
+export default ScreenWakeLock;
@@ -0,0 +1,474 @@
+/**
+ * HamsaSessionClient - REST client that mints voice agent sessions
+ *
+ * Wraps the two-step session bootstrap against the Hamsa API:
+ * 1. `participant-token` issues a LiveKit access token for the conversation room
+ * 2. `conversation-init` registers tools, parameters and voice settings for the job
+ *
+ * The client is shared by HamsaVoiceAgent (browser, API key mode) and by the
+ * `@hamsa-ai/voice-agents-sdk/server` helpers, which let a backend mint the
+ * session so that the API key never ships to the browser. It only depends on
+ * the global `fetch`, so it runs in browsers, Node 18+ and edge runtimes.
+ *
+ * @example
+ * ```typescript
+ * const client = new HamsaSessionClient(process.env.HAMSA_API_KEY, {
+ *   API_URL: 'https://api.tryhamsa.com',
+ * });
+ *
+ * const { liveKitAccessToken, jobId } = await client.createSession({
+ *   agentId: 'agent_12345',
+ *   voiceEnablement: true,
+ *   params: { userName: 'Alice' },
+ * });
+ * ```
+ */
+
+import { jwtDecode } from 'jwt-decode';
+import { createDebugLogger, type DebugLogger } from '../utils';
+import { getErrorMessage, HamsaApiError, HamsaConnectionError } from './errors';
+import type { LiveKitTokenPayload, LLMTool, ToolDefinition } from './types';
+
+/**
+ * Supported deployment regions for the Hamsa platform.
+ * Determines the default API and LiveKit URLs used for the connection.
+ */
+export type Region = 'eu' | 'uae';
+
+/** Maps each region to its default API and LiveKit WebSocket URLs. */
+export const REGION_CONFIG = {
+  eu: {
+    API_URL: 'https://api.tryhamsa.com',
+    LIVEKIT_URL: 'wss://rtc.eu.tryhamsa.com',
+  },
+  uae: {
+    API_URL: 'https://api.uae.tryhamsa.com',
+    LIVEKIT_URL: 'wss://rtc.uae.tryhamsa.com',
+  },
+} as const;
+
+/** Number of token characters included in debug logs */
+const TOKEN_PREVIEW_LENGTH = 20;
+
+/**
+ * Options describing the conversation a session is minted for
+ */
+export type CreateSessionOptions = {
+  /** Unique identifier of the voice agent to start (from Hamsa dashboard) */
+  agentId: string;
+  /** Optional parameters referenced in agent prompts using {{parameter_name}} syntax */
+  params?: Record<string, unknown>;
+  /** Whether to enable voice interactions. If false, agent runs in text-only mode */
+  voiceEnablement?: boolean;
+  /** Tool schemas the agent may call (implementations stay on the client) */
+  tools?: ToolDefinition[];
+  /** Your own identifier of the end user, stored with the conversation */
+  userId?: string;
+};
+
+/**
+ * Credentials of a freshly minted session
+ */
+export type SessionCredentials = {
+  /** LiveKit access token for joining the conversation room */
+  liveKitAccessToken: string;
+  /** Job ID of the conversation */
+  jobId: string;
+};
+
+/**
+ * HamsaSessionClient class for minting voice agent sessions via the Hamsa REST API
+ */
+export class HamsaSessionClient {
+  /** Hamsa API key for authentication */
+  private readonly apiKey: string;
+
+  /** Base URL for Hamsa API endpoints */
+  private readonly apiUrl: string;
+
+  /** Debug logger instance for conditional logging */
+  private readonly logger: DebugLogger;
+
+  /**
+   * Creates a new HamsaSessionClient instance
+   *
+   * @param apiKey - Hamsa API key used in the `Authorization: Token` header
+   * @param config - Client configuration
+   * @param config.API_URL - Base URL for Hamsa API endpoints
+   * @param config.debug - Enable debug logging
+   */
+  constructor(
+    apiKey: string,
+    { API_URL, debug = false }: { API_URL: string; debug?: boolean }
+  ) {
+    this.apiKey = apiKey;
+    this.apiUrl = API_URL;
+    this.logger = createDebugLogger(debug);
+  }
+
+  /**
+   * Runs the participant-token and conversation-init sequence
+   *
+   * @param options - Conversation the session is minted for
+   * @returns LiveKit access token and resolved job ID
+   * @throws {HamsaApiError} When the Hamsa API rejects either request
+   * @throws {HamsaConnectionError} When the Hamsa API cannot be reached
+   */
+  async createSession({
+    agentId,
+    params = {},
+    voiceEnablement = false,
+    tools = [],
+    userId,
+  }: CreateSessionOptions): Promise<SessionCredentials> {
+    const headers = {
+      Authorization: `Token ${this.apiKey}`,
+      'Content-Type': 'application/json',
+    };
+
+    // Step 1: Get LiveKit participant token
+    const tokenData = await this.#fetchParticipantToken(
+      agentId,
+      params,
+      userId,
+      headers
+    );
+    const liveKitAccessToken = tokenData.liveKitAccessToken;
+    const jobIdFromToken = this.resolveJobIdFromToken(
+      liveKitAccessToken,
+      tokenData.jobId,
+      agentId
+    );
+
+    // Step 2: Initialize conversation with token
+    await this.#initializeConversation({
+      voiceAgentId: agentId,
+      params,
+      voiceEnablement,
+      tools,
+      userId,
+      headers,
+      jobIdFromToken,
+      tokenData,
+    });
+
+    return { liveKitAccessToken, jobId: jobIdFromToken };
+  }
+
+  /**
+   * Extracts the jobId value from the LiveKit access token payload metadata.
+   * Falls back to the provided endpointJobId or voiceAgentId when unavailable.
+   *
+   * @param liveKitAccessToken - LiveKit JWT issued by the participant-token endpoint
+   * @param endpointJobId - Job ID returned alongside the token, if any
+   * @param voiceAgentId - Agent ID used as the last-resort fallback
+   * @returns The resolved job ID
+   */
+  resolveJobIdFromToken(
+    liveKitAccessToken: string,
+    endpointJobId: string | undefined,
+    voiceAgentId: string
+  ): string {
+    this.logger.log('Parsing JWT token for jobId', {
+      source: 'HamsaSessionClient',
+      error: {
+        tokenPreview: liveKitAccessToken.substring(0, TOKEN_PREVIEW_LENGTH),
+        endpointJobId,
+        voiceAgentId,
+      },
+    });
+
+    try {
+      const payload = jwtDecode<LiveKitTokenPayload>(liveKitAccessToken);
+      this.logger.log('JWT token parsed successfully', {
+        source: 'HamsaSessionClient',
+        error: {
+          hasRoomConfig: !!payload.roomConfig,
+          hasAgents: !!payload.roomConfig?.agents,
+          agentsCount: payload.roomConfig?.agents?.length ?? 0,
+        },
+      });
+
+      const agentsMeta = payload?.roomConfig?.agents?.[0]?.metadata;
+      if (typeof agentsMeta === 'string') {
+        const metaObj = JSON.parse(agentsMeta) as { jobId?: unknown };
+        if (typeof metaObj.jobId === 'string' && metaObj.jobId.length > 0) {
+          this.logger.log('Extracted jobId from token metadata', {
+            source: 'HamsaSessionClient',
+            error: { jobId: metaObj.jobId },
+          });
+          return metaObj.jobId;
+        }
+      }
+    } catch (error) {
+      this.logger.warn('Failed to parse jobId from token, using fallback', {
+        source: 'HamsaSessionClient',
+        error: {
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+
+    const fallbackJobId = endpointJobId ?? voiceAgentId;
+    this.logger.log('Using fallback jobId', {
+      source: 'HamsaSessionClient',
+      error: {
+        jobId: fallbackJobId,
+        source: endpointJobId ? 'endpoint' : 'voiceAgentId',
+      },
+    });
+    return fallbackJobId;
+  }
+
+  /**
+   * Converts tools to LLMTools format.
+   *
+   * @param tools - Array of tool definitions.
+   * @returns Array of LLMTool objects.
+   */
+  convertToolsToLLMTools(tools: ToolDefinition[]): LLMTool[] {
+    return tools.map((item) => {
+      const llmTool: LLMTool = {
+        type: 'function' as const,
+        function: {
+          name: item.function_name,
+          description: item.description,
+          parameters: {
+            type: 'object',
+            properties:
+              item.parameters?.reduce(
+                (acc, param) => {
+                  acc[param.name] = {
+                    type: param.type,
+                    description: param.description,
+                  };
+                  return acc;
+                },
+                {} as Record<string, { type: string; description: string }>
+              ) || {},
+            required: item.required || [],
+          },
+          func_map: item.func_map,
+        },
+      };
+
+      return llmTool;
+    });
+  }
+
+  /**
+   * Sends a request to the Hamsa API, reporting transport failures as NETWORK_UNREACHABLE
+   */
+  async #request(url: string, init: RequestInit): Promise<Response> {
+    try {
+      return await fetch(url, init);
+    } catch (error) {
+      throw new HamsaConnectionError(
+        'NETWORK_UNREACHABLE',
+        getErrorMessage(error),
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Handles API response errors by parsing JSON and creating appropriate HamsaApiError instances
+   */
+  #handleApiError(
+    response: Response,
+    errorText: string,
+    isTokenEndpoint = false
+  ): never {
+    // Try to parse JSON error response to extract message and messageKey separately
+    try {
+      const errorJson = JSON.parse(errorText);
+      if (errorJson.message) {
+        // Return both message and messageKey separately for SDK users
+        throw new HamsaApiError(errorJson.message, errorJson.messageKey, {
+          status: response.status,
+          notFoundCode: 'AGENT_NOT_FOUND',
+        });
+      }
+    } catch (jsonError) {
+      // If not JSON or no message field, use the raw error text with status info
+      if (jsonError instanceof HamsaApiError) {
+        throw jsonError; // Re-throw if it's our custom error
+      }
+    }
+
+    // For token endpoint, include status info; for conversation endpoint, use raw text
+    const errorMessage = isTokenEndpoint
+      ? `${response.status} ${response.statusText} - ${errorText}`
+      : errorText;
+
+    throw new HamsaApiError(errorMessage, undefined, {
+      status: response.status,
+      notFoundCode: 'AGENT_NOT_FOUND',
+    });
+  }
+
+  /**
+   * Fetches the LiveKit participant token from the API
+   */
+  async #fetchParticipantToken(
+    voiceAgentId: string,
+    params: Record<string, unknown>,
+    userId: string | undefined,
+    headers: Record<string, string>
+  ): Promise<{ liveKitAccessToken: string; jobId?: string }> {
+    this.logger.log('Fetching participant token from API', {
+      source: 'HamsaSessionClient',
+      error: {
+        voiceAgentId,
+        apiUrl: this.apiUrl,
+        paramsCount: Object.keys(params).length,
+        userId,
+      },
+    });
+
+    const startTime = Date.now();
+    const tokenResponse = await this.#request(
+      `${this.apiUrl}/v1/voice-agents/room/participant-token`,
+      {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ voiceAgentId, params, userId }),
+      }
+    );
+
+    const duration = Date.now() - startTime;
+    this.logger.log('Received API response for participant token', {
+      source: 'HamsaSessionClient',
+      error: {
+        status: tokenResponse.status,
+        ok: tokenResponse.ok,
+        duration: `${duration}ms`,
+      },
+    });
+
+    if (!tokenResponse.ok) {
+      const errorText = await tokenResponse.text();
+      this.logger.error('API request failed for participant token', {
+        source: 'HamsaSessionClient',
+        error: {
+          status: tokenResponse.status,
+          statusText: tokenResponse.statusText,
+          errorText,
+        },
+      });
+      this.#handleApiError(tokenResponse, errorText, true);
+    }
+
+    const tokenResult = await tokenResponse.json();
+    if (!(tokenResult?.success && tokenResult?.data?.liveKitAccessToken)) {
+      this.logger.error('Invalid token response structure', {
+        source: 'HamsaSessionClient',
+        error: {
+          success: tokenResult?.success,
+          hasToken: !!tokenResult?.data?.liveKitAccessToken,
+        },
+      });
+      throw new HamsaApiError('Failed to get LiveKit access token', undefined, {
+        code: 'AUTH_INVALID_TOKEN',
+      });
+    }
+
+    this.logger.log('Successfully received LiveKit access token', {
+      source: 'HamsaSessionClient',
+      error: {
+        tokenLength: tokenResult.data.liveKitAccessToken.length,
+        hasJobId: !!tokenResult.data.jobId,
+        jobId: tokenResult.data.jobId,
+      },
+    });
+
+    return tokenResult.data;
+  }
+
+  /**
+   * Initializes the conversation with the backend API
+   */
+  async #initializeConversation(options: {
+    voiceAgentId: string;
+    params: Record<string, unknown>;
+    voiceEnablement: boolean;
+    tools: ToolDefinition[];
+    userId: string | undefined;
+    headers: Record<string, string>;
+    jobIdFromToken: string | null;
+    tokenData: { jobId?: string };
+  }): Promise<void> {
+    const {
+      voiceAgentId,
+      params,
+      voiceEnablement,
+      tools,
+      userId,
+      headers,
+      jobIdFromToken,
+      tokenData,
+    } = options;
+    const llmtools =
+      tools?.length > 0 ? this.convertToolsToLLMTools(tools) : [];
+
+    const conversationBody = {
+      tools: llmtools,
+      voiceEnablement,
+      voiceAgentId,
+      params,
+      userId,
+      // Backend expects jobId derived from the token metadata when available
+      jobId: jobIdFromToken ?? tokenData.jobId ?? voiceAgentId,
+      channelType: 'Web',
+    };
+
+    this.logger.log('Initializing conversation with API', {
+      source: 'HamsaSessionClient',
+      error: {
+        voiceAgentId,
+        toolsCount: llmtools.length,
+        voiceEnablement,
+        jobId: conversationBody.jobId,
+        channelType: conversationBody.channelType,
+      },
+    });
+
+    const startTime = Date.now();
+    const conversationResponse = await this.#request(
+      `${this.apiUrl}/v1/voice-agents/room/conversation-init`,
+      {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(conversationBody),
+        redirect: 'follow' as RequestRedirect,
+      }
+    );
+
+    const duration = Date.now() - startTime;
+    this.logger.log('Received conversation init response', {
+      source: 'HamsaSessionClient',
+      error: {
+        status: conversationResponse.status,
+        ok: conversationResponse.ok,
+        duration: `${duration}ms`,
+      },
+    });
+
+    if (!conversationResponse.ok) {
+      const errorText = await conversationResponse.text();
+      this.logger.error('Conversation initialization failed', {
+        source: 'HamsaSessionClient',
+        error: {
+          status: conversationResponse.status,
+          statusText: conversationResponse.statusText,
+          errorText,
+        },
+      });
+      this.#handleApiError(conversationResponse, errorText, false);
+    }
+
+    this.logger.log('Conversation initialized successfully', {
+      source: 'HamsaSessionClient',
+    });
+  }
+}
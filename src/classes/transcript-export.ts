@@ -0,0 +1,253 @@
+/**
+ * Transcript export - Renders transcript turns as captions or documents
+ *
+ * WebVTT and SRT captions have one cue per segment of spoken text, timed
+ * with the times LiveKit received the segment at; tool calls and call events
+ * are left out of captions. Plain text and Markdown list every turn, and the
+ * JSON document keeps all turns with their segments and tool calls.
+ *
+ * @example
+ * ```typescript
+ * const vtt = formatTranscript(transcript.getTurns(), 'webvtt');
+ * const json = formatTranscript(transcript.getTurns(), 'json', { jobId });
+ * ```
+ */
+
+import type {
+  TranscriptExport,
+  TranscriptExportFormat,
+  TranscriptRole,
+  TranscriptTurn,
+} from './types';
+
+/** Shortest time a caption cue stays on screen */
+const MIN_CUE_MS = 1000;
+
+const MS_PER_SECOND = 1000;
+const SECONDS_PER_MINUTE = 60;
+const MINUTES_PER_HOUR = 60;
+const MS_DIGITS = 3;
+
+const JSON_INDENT = 2;
+
+/** Characters with a meaning in WebVTT cue text */
+const VTT_SPECIAL_CHARACTERS = /[&<>]/g;
+const VTT_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+};
+
+/** Characters with a meaning in Markdown inline text */
+const MARKDOWN_SPECIAL_CHARACTERS = /[\\`*_[\]<>#|]/g;
+
+const NEWLINES = /\r?\n/g;
+
+/** Formats accepted by exportTranscript() */
+export const TRANSCRIPT_EXPORT_FORMATS: readonly TranscriptExportFormat[] = [
+  'webvtt',
+  'srt',
+  'text',
+  'markdown',
+  'json',
+];
+
+/** Speaker labels used in captions and documents */
+const ROLE_LABELS: Record<TranscriptRole, string> = {
+  user: 'User',
+  agent: 'Agent',
+  tool: 'Tool',
+  system: 'System',
+};
+
+/**
+ * Options of formatTranscript()
+ */
+export type FormatTranscriptOptions = {
+  /** Job ID written to the JSON document */
+  jobId?: string | null;
+};
+
+/** Renderer of each format */
+const FORMATTERS: Record<
+  TranscriptExportFormat,
+  (turns: TranscriptTurn[], options: FormatTranscriptOptions) => string
+> = {
+  webvtt: formatWebVtt,
+  srt: formatSrt,
+  text: formatText,
+  markdown: formatMarkdown,
+  json: formatJson,
+};
+
+/** A caption cue */
+type Cue = { startMs: number; endMs: number; speaker: string; text: string };
+
+/**
+ * Renders transcript turns in the given format.
+ *
+ * @param turns - Turns as returned by ConversationTranscript.getTurns()
+ * @param format - Output format
+ * @param options - Extra data for the JSON document
+ * @returns The rendered transcript
+ */
+export function formatTranscript(
+  turns: TranscriptTurn[],
+  format: TranscriptExportFormat,
+  options: FormatTranscriptOptions = {}
+): string {
+  return FORMATTERS[format](turns, options);
+}
+
+/**
+ * Renders WebVTT captions with the speaker in a voice tag.
+ */
+function formatWebVtt(turns: TranscriptTurn[]): string {
+  const cues = getCues(turns).map(
+    (cue, index) =>
+      `${index + 1}\n${formatTimestamp(cue.startMs, '.')} --> ${formatTimestamp(cue.endMs, '.')}\n` +
+      `<v ${cue.speaker}>${cue.text.replace(VTT_SPECIAL_CHARACTERS, (char) => VTT_ENTITIES[char])}`
+  );
+  return ['WEBVTT', ...cues].join('\n\n').concat('\n');
+}
+
+/**
+ * Renders SRT captions with the speaker as a prefix.
+ */
+function formatSrt(turns: TranscriptTurn[]): string {
+  return getCues(turns)
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.startMs, ',')} --> ${formatTimestamp(cue.endMs, ',')}\n` +
+        `${cue.speaker}: ${cue.text}\n`
+    )
+    .join('\n');
+}
+
+/**
+ * Renders one line per turn.
+ */
+function formatText(turns: TranscriptTurn[]): string {
+  return turns
+    .map((turn) => {
+      const time = `[${formatTimestamp(turn.startMs)}]`;
+      if (turn.role === 'system') {
+        return `${time} (${turn.text})`;
+      }
+      return `${time} ${ROLE_LABELS[turn.role]}: ${describeTurn(turn)}`;
+    })
+    .map((line) => `${line}\n`)
+    .join('');
+}
+
+/**
+ * Renders a Markdown list with one item per turn.
+ */
+function formatMarkdown(turns: TranscriptTurn[]): string {
+  const items = turns.map((turn) => {
+    const time = formatTimestamp(turn.startMs);
+    if (turn.role === 'system') {
+      return `- _${time} ${escapeMarkdown(turn.text)}_`;
+    }
+    const text = turn.tool
+      ? `\`${describeTurn(turn)}\``
+      : escapeMarkdown(turn.text);
+    return `- **${time} ${ROLE_LABELS[turn.role]}:** ${text}`;
+  });
+  return ['# Transcript', '', ...items, ''].join('\n');
+}
+
+/**
+ * Renders the TranscriptExport document.
+ */
+function formatJson(
+  turns: TranscriptTurn[],
+  { jobId = null }: FormatTranscriptOptions
+): string {
+  const document: TranscriptExport = {
+    version: 1,
+    jobId,
+    durationMs: Math.max(0, ...turns.map((turn) => turn.endMs)),
+    turns,
+  };
+  return JSON.stringify(document, null, JSON_INDENT);
+}
+
+/**
+ * Lists the caption cues of the spoken turns, in order of their start. Cues
+ * shorter than MIN_CUE_MS are stretched, up to the start of the next cue.
+ */
+function getCues(turns: TranscriptTurn[]): Cue[] {
+  const cues = turns
+    .filter((turn) => turn.role === 'user' || turn.role === 'agent')
+    .flatMap((turn) =>
+      turn.segments.map((segment) => ({
+        startMs: segment.startMs,
+        endMs: segment.endMs,
+        speaker: ROLE_LABELS[turn.role],
+        text: segment.text.replace(NEWLINES, ' ').trim(),
+      }))
+    )
+    .filter((cue) => cue.text)
+    .sort((a, b) => a.startMs - b.startMs);
+  return cues.map((cue, index) => {
+    const nextStartMs =
+      index + 1 < cues.length
+        ? cues[index + 1].startMs
+        : Number.POSITIVE_INFINITY;
+    const minEndMs = Math.min(cue.startMs + MIN_CUE_MS, nextStartMs);
+    return { ...cue, endMs: Math.max(cue.endMs, minEndMs) };
+  });
+}
+
+/**
+ * Text of a turn, with the arguments and outcome of tool calls.
+ */
+function describeTurn(turn: TranscriptTurn): string {
+  const { tool } = turn;
+  if (!tool) {
+    return turn.text.replace(NEWLINES, ' ');
+  }
+  const call = `${tool.name}(${JSON.stringify(tool.arguments)})`;
+  if (tool.error !== undefined) {
+    return `${call} failed: ${tool.error}`;
+  }
+  if (tool.result === undefined) {
+    return call;
+  }
+  return `${call} -> ${JSON.stringify(tool.result)}`;
+}
+
+/**
+ * Formats milliseconds as HH:MM:SS, or as HH:MM:SS followed by the separator
+ * and milliseconds for captions.
+ */
+function formatTimestamp(ms: number, separator?: '.' | ','): string {
+  const totalSeconds = Math.floor(ms / MS_PER_SECOND);
+  const hours = Math.floor(
+    totalSeconds / (SECONDS_PER_MINUTE * MINUTES_PER_HOUR)
+  );
+  const minutes =
+    Math.floor(totalSeconds / SECONDS_PER_MINUTE) % MINUTES_PER_HOUR;
+  const seconds = totalSeconds % SECONDS_PER_MINUTE;
+  const time = [hours, minutes, seconds]
+    .map((value) => String(value).padStart(2, '0'))
+    .join(':');
+  if (!separator) {
+    return time;
+  }
+  const millis = String(Math.floor(ms) % MS_PER_SECOND).padStart(
+    MS_DIGITS,
+    '0'
+  );
+  return `${time}${separator}${millis}`;
+}
+
+/**
+ * Escapes characters Markdown would interpret, and joins lines.
+ */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(NEWLINES, ' ')
+    .replace(MARKDOWN_SPECIAL_CHARACTERS, (char) => `\\${char}`);
+}
@@ -1,14 +1,22 @@
 import { EventEmitter } from 'events';
-import { jwtDecode } from 'jwt-decode';
-import type {
-  ConnectionState,
-  LocalTrack,
-  LocalTrackPublication,
-  Participant,
-  RemoteParticipant,
-  RemoteTrack,
+import {
+  type ConnectionState,
+  type LocalTrack,
+  type LocalTrackPublication,
+  type RemoteParticipant,
+  type RemoteTrack,
   Room,
 } from 'livekit-client';
+import { ConversationTranscript } from './classes/conversation-transcript';
+import {
+  getErrorMessage,
+  getMediaErrorCode,
+  HamsaApiError,
+  HamsaConnectionError,
+  HamsaError,
+  HamsaMediaError,
+  type HamsaToolError,
+} from './classes/errors';
 import LiveKitManager, {
   type AgentState,
   type AudioLevelsResult,
@@ -18,64 +26,166 @@ import LiveKitManager, {
   type PerformanceMetricsResult,
   type TrackStatsResult,
 } from './classes/livekit-manager';
-import ScreenWakeLock from './classes/screen-wake-lock';
+import ScreenWakeLock, {
+  type WakeLockStrategy,
+} from './classes/screen-wake-lock';
+import {
+  HamsaSessionClient,
+  REGION_CONFIG,
+  type Region,
+} from './classes/session-client';
+import {
+  formatTranscript,
+  TRANSCRIPT_EXPORT_FORMATS,
+} from './classes/transcript-export';
 import type {
+  AgentInterruptedData,
+  AnalyticsUpdateData,
+  AnswerCompletedData,
+  AnswerDeltaData,
   AudioCaptureCallback,
   AudioCaptureOptions,
+  AudioConstraints,
+  AudioDeviceList,
+  AudioDevicePreferences,
+  AudioRoute,
+  AudioTrackProcessor,
+  CallState,
   ConnectionQualityData,
+  ContextualUpdateMessage,
   DTMFDigit,
-  LiveKitTokenPayload,
+  HalfDuplexOptions,
+  InterruptMessage,
+  PushToTalkOptions,
+  PushToTalkState,
+  ToolDefinition,
   TrackSubscriptionData,
   TrackUnsubscriptionData,
+  TranscriptExportFormat,
+  TranscriptionSegmentData,
+  TranscriptTurn,
+  UserActivityKind,
+  UserActivityMessage,
+  UserSpeechEndedData,
+  UserSpeechStartedData,
+  UserTextMessage,
+  UserTurnEndedMessage,
+  VoiceActivityOptions,
 } from './classes/types';
-import { createDebugLogger, type DebugLogger } from './utils';
+import {
+  createDebugLogger,
+  type DebugLogger,
+  getDevicePlatform,
+  isHeadphoneDevice,
+} from './utils';
 
 export type { RpcInvocationData } from 'livekit-client';
 // biome-ignore lint/performance/noBarrelFile: This is the main SDK entry point - re-exports are intentional for developer convenience
 export { RpcError } from 'livekit-client';
+export type {
+  HamsaErrorCategory,
+  HamsaErrorCode,
+  HamsaErrorOptions,
+} from './classes/errors';
+export {
+  HamsaApiError,
+  HamsaConnectionError,
+  HamsaError,
+  HamsaMediaError,
+  HamsaToolError,
+} from './classes/errors';
 // Re-export types for convenience
 export type { AgentState } from './classes/livekit-manager';
+export type { WakeLockStrategy } from './classes/screen-wake-lock';
+export type { Region } from './classes/session-client';
 export type {
+  AgentInterruptedData,
+  AnalyticsUpdateData,
+  AnswerCompletedData,
+  AnswerDeltaData,
   AudioCaptureCallback,
   AudioCaptureFormat,
   AudioCaptureMetadata,
   AudioCaptureOptions,
   AudioCaptureSource,
+  AudioConstraints,
+  AudioDeviceList,
+  AudioRoute,
+  AudioTrackProcessor,
+  CallState,
+  ContextualUpdateMessage,
   DTMFDigit,
+  HalfDuplexOptions,
+  PushToTalkOptions,
+  PushToTalkState,
+  ToolDefinition,
+  ToolParameter,
+  TranscriptExport,
+  TranscriptExportFormat,
+  TranscriptionSegmentData,
+  TranscriptionSpeaker,
+  TranscriptRole,
+  TranscriptToolCall,
+  TranscriptTurn,
+  TranscriptTurnSegment,
+  UserActivityKind,
+  UserActivityMessage,
+  UserSpeechEndedData,
+  UserSpeechStartedData,
+  UserTextMessage,
+  UserTurnEndedMessage,
+  VoiceActivityOptions,
 } from './classes/types';
 
-/**
- * Custom error class that includes both human-readable message and machine-readable messageKey
- * for internationalization and programmatic error handling
- */
-class HamsaApiError extends Error {
-  /** Machine-readable error key for i18n or programmatic handling */
-  readonly messageKey?: string;
-
-  constructor(message: string, messageKey?: string) {
-    super(message);
-    this.name = 'HamsaApiError';
-    this.messageKey = messageKey;
-  }
-}
+/** Maximum encoded size (bytes) of a single data message sent to the agent over the reliable channel */
+const MAX_DATA_MESSAGE_BYTES = 15_360;
+
+/** Minimum interval (ms) between two user activity signals of the same kind */
+const USER_ACTIVITY_THROTTLE_MS = 1000;
+
+/** Activity kinds understood by the agent */
+const USER_ACTIVITY_KINDS: readonly UserActivityKind[] = [
+  'typing',
+  'scrolling',
+  'form_focus',
+  'click',
+  'other',
+];
+
+/** Default time (ms) connect() waits for the agent to join the room */
+const AGENT_JOIN_TIMEOUT_MS = 15_000;
+
+/** Audio constraints that take a boolean */
+const BOOLEAN_AUDIO_CONSTRAINTS = [
+  'echoCancellation',
+  'noiseSuppression',
+  'autoGainControl',
+  'voiceIsolation',
+] as const;
+
+/** Audio constraints that take a positive integer */
+const INTEGER_AUDIO_CONSTRAINTS = ['channelCount', 'sampleRate'] as const;
+
+/** Call states each state may move to; any other transition is rejected */
+const CALL_STATE_TRANSITIONS: Record<CallState, readonly CallState[]> = {
+  idle: ['fetching-token'],
+  'fetching-token': ['connecting', 'ended'],
+  connecting: ['waiting-for-agent', 'active', 'ending', 'ended'],
+  'waiting-for-agent': ['active', 'paused', 'reconnecting', 'ending', 'ended'],
+  active: ['paused', 'reconnecting', 'ending', 'ended'],
+  paused: ['waiting-for-agent', 'active', 'reconnecting', 'ending', 'ended'],
+  reconnecting: ['waiting-for-agent', 'active', 'paused', 'ending', 'ended'],
+  ending: ['ended'],
+  ended: ['fetching-token'],
+};
 
-/**
- * Supported deployment regions for the Hamsa platform.
- * Determines the default API and LiveKit URLs used for the connection.
- */
-export type Region = 'eu' | 'uae';
-
-/** Maps each region to its default API and LiveKit WebSocket URLs. */
-const REGION_CONFIG = {
-  eu: {
-    API_URL: 'https://api.tryhamsa.com',
-    LIVEKIT_URL: 'wss://rtc.eu.tryhamsa.com',
-  },
-  uae: {
-    API_URL: 'https://api.uae.tryhamsa.com',
-    LIVEKIT_URL: 'wss://rtc.uae.tryhamsa.com',
-  },
-} as const;
+/** Call states during which messages cannot be sent to the agent */
+const TRANSITIONAL_CALL_STATES: readonly CallState[] = [
+  'fetching-token',
+  'connecting',
+  'reconnecting',
+  'ending',
+];
 
 /**
  * Configuration options for the HamsaVoiceAgent constructor
@@ -106,13 +216,50 @@ type ConnectionDelays = {
   android?: number;
   /** Delay in milliseconds for iOS devices */
   ios?: number;
-  /** Default delay in milliseconds for other devices */
+  /** Delay in milliseconds for other devices, and for Android or iOS when their own delay is not set */
   default?: number;
 };
 
+/**
+ * Pre-issued session credentials minted by your backend
+ *
+ * Used in server-issued token mode so the Hamsa API key never ships to the browser.
+ * Your backend calls the participant-token and conversation-init endpoints and hands
+ * the resulting LiveKit token (and optionally the job ID) to the client.
+ */
+type SessionToken = {
+  /** LiveKit access token returned by the participant-token endpoint */
+  liveKitAccessToken: string;
+  /** Job ID of the conversation (resolved from the token metadata when omitted) */
+  jobId?: string;
+};
+
+/**
+ * Async callback that asks your backend for a freshly minted session
+ */
+type TokenProvider = () => Promise<SessionToken>;
+
 type StartOptions = {
   /** Unique identifier of the voice agent to start (from Hamsa dashboard) */
   agentId: string;
+  /**
+   * Async callback returning server-issued session credentials.
+   * When provided, the SDK skips the participant-token and conversation-init
+   * REST calls and no API key is needed in the browser.
+   * @example
+   * ```typescript
+   * tokenProvider: async () => {
+   *   const res = await fetch('/api/hamsa-session', { method: 'POST' });
+   *   return res.json(); // { liveKitAccessToken, jobId }
+   * }
+   * ```
+   */
+  tokenProvider?: TokenProvider;
+  /**
+   * Pre-issued session credentials from your backend. Takes precedence over
+   * tokenProvider. Like tokenProvider, this skips both REST calls.
+   */
+  session?: SessionToken;
   /**
    * Optional parameters to pass to the agent for conversation customization
    * These can be referenced in agent prompts using {{parameter_name}} syntax
@@ -123,13 +270,67 @@ type StartOptions = {
   voiceEnablement?: boolean;
   /** Array of client-side tools that the agent can call during conversations */
   tools?: Tool[];
-  /** Optional user identifier for tracking and analytics */
+  /**
+   * Your own identifier of the end user. Sent with the session requests, set
+   * as the `userId` attribute of the local LiveKit participant, and attached
+   * to analytics snapshots and job details so conversations can be traced
+   * back to your user records.
+   */
   userId?: string;
-  /** Force headphones usage on iOS devices when available */
+  /**
+   * On iOS, play agent audio through wired or Bluetooth headphones when some
+   * are connected, including ones connected during the call, instead of the
+   * earpiece or loudspeaker. The chosen route is reported with
+   * audioRouteChanged. Devices chosen with setAudioInput()/setAudioOutput()
+   * take precedence. Ignored on other platforms.
+   */
   preferHeadphonesForIosDevices?: boolean;
-  /** Platform-specific connection delays to prevent audio cutoff */
+  /**
+   * Platform-specific delay applied before joining the room, so the device can
+   * switch its audio mode before the agent starts its greeting. callStarted is
+   * emitted after the delay.
+   */
   connectionDelay?: ConnectionDelays;
-  /** Disable wake lock to allow device sleep during conversation */
+  /**
+   * Processing applied by the browser to the microphone. Echo cancellation
+   * and noise suppression are on by default; turn them off for hardware that
+   * has its own DSP. Can be changed during the call with
+   * updateAudioConstraints().
+   */
+  audio?: AudioConstraints;
+  /**
+   * Processors the microphone goes through before reaching the agent, in
+   * order, such as a noise canceller or a high-pass filter built on an
+   * AudioWorklet. They implement LiveKit's TrackProcessor interface and can be
+   * replaced during the call with setAudioProcessors().
+   */
+  audioProcessors?: AudioTrackProcessor[];
+  /**
+   * Start the call in push-to-talk mode: the microphone stays muted except
+   * between pressToTalk() and releaseToTalk(), or while the given key is held.
+   * Pass true for the defaults. Can be turned on and off during the call with
+   * enablePushToTalk()/disablePushToTalk().
+   */
+  pushToTalk?: boolean | PushToTalkOptions;
+  /**
+   * Cut the microphone while the agent speaks, for laptops without a headset
+   * where the agent hears itself despite echo cancellation. Pass true for the
+   * defaults. Can be turned on and off during the call with
+   * enableHalfDuplex()/disableHalfDuplex().
+   */
+  halfDuplex?: boolean | HalfDuplexOptions;
+  /**
+   * Detect the user's speech in the browser and emit userSpeechStarted and
+   * userSpeechEnded, optionally sending the microphone only while the user
+   * speaks. Pass true for the defaults. Can be turned on and off during the
+   * call with enableVoiceActivityDetection()/disableVoiceActivityDetection().
+   */
+  voiceActivity?: boolean | VoiceActivityOptions;
+  /**
+   * Disable the screen wake lock to allow device sleep during conversation.
+   * By default the lock is held for the whole call, re-acquired when the tab
+   * becomes visible again, and emulated on browsers without the Wake Lock API.
+   */
   disableWakeLock?: boolean;
   /**
    * CSS selector for the container element where the avatar video will be rendered.
@@ -172,59 +373,11 @@ type StartOptions = {
  * Tools allow agents to execute custom functions in the client environment,
  * such as retrieving user data, making API calls, or performing calculations.
  */
-type Tool = {
-  /** Unique name for the function (used by agent to identify the tool) */
-  function_name: string;
-  /** Clear description of what the function does (helps agent decide when to use it) */
-  description: string;
-  /** Array of parameters the function accepts */
-  parameters?: ToolParameter[];
-  /** Array of parameter names that are required for the function */
-  required?: string[];
-  /** Internal function mapping (used for tool execution) */
-  func_map?: Record<string, unknown>;
+type Tool = ToolDefinition & {
   /** The implementation function to execute when the agent calls this tool */
   fn?: (...args: unknown[]) => unknown | Promise<unknown>;
 };
 
-/**
- * Definition of a parameter for a client-side tool
- * Describes the input that the function expects from the agent
- */
-type ToolParameter = {
-  /** Name of the parameter */
-  name: string;
-  /** Data type of the parameter (e.g., 'string', 'number', 'boolean') */
-  type: string;
-  /** Description of what the parameter represents */
-  description: string;
-};
-
-/**
- * Internal representation of tools in the LLM/API format
- * Used for communication with the Hamsa backend
- * @private
- */
-type LLMTool = {
-  type: 'function';
-  function: {
-    name: string;
-    description: string;
-    parameters: {
-      type: 'object';
-      properties: Record<
-        string,
-        {
-          type: string;
-          description: string;
-        }
-      >;
-      required: string[];
-    };
-    func_map?: Record<string, unknown>;
-  };
-};
-
 /**
  * Response format for job details from the Hamsa API
  *
@@ -234,10 +387,32 @@ type LLMTool = {
 type JobDetails = {
   /** Current status of the job (e.g., 'COMPLETED', 'IN_PROGRESS', 'FAILED') */
   status: string;
+  /** userId of the conversation, as stored by the API or passed to start() */
+  userId?: string;
   /** Additional job properties that may be returned by the API */
   [key: string]: unknown;
 };
 
+/**
+ * Options for connect(): the start() options plus how long to wait for the agent
+ */
+type ConnectOptions = StartOptions & {
+  /** Milliseconds to wait for the agent to join the room (default: 15000) */
+  agentJoinTimeout?: number;
+};
+
+/**
+ * Describes the call established by connect()
+ */
+type CallSession = {
+  /** Job ID used to fetch conversation details, null when it could not be resolved */
+  jobId: string | null;
+  /** Name of the LiveKit room hosting the call */
+  roomName: string;
+  /** LiveKit identity of the voice agent participant */
+  agentIdentity: string;
+};
+
 /**
  * Data object passed to callStarted event handlers
  */
@@ -290,24 +465,51 @@ type HamsaVoiceAgentEvents = {
   reconnecting: () => void;
   /** Emitted when reconnection succeeds */
   reconnected: () => void;
+  /** Emitted when the call moves to a new lifecycle state */
+  callStateChanged: (state: CallState, previousState: CallState) => void;
+  /** Emitted when the screen wake lock is acquired, or re-acquired after the tab was hidden */
+  wakeLockAcquired: (strategy: WakeLockStrategy) => void;
+  /** Emitted when the screen wake lock is released, by the SDK or by the browser */
+  wakeLockReleased: () => void;
 
   // Conversation events
   /** Emitted when user speech is transcribed */
   transcriptionReceived: (text: string) => void;
   /** Emitted when agent response is received */
   answerReceived: (text: string) => void;
+  /** Emitted when the agent adds text to its current answer */
+  answerDelta: (data: AnswerDeltaData) => void;
+  /** Emitted once when an answer is over and all of its text is final */
+  answerCompleted: (data: AnswerCompletedData) => void;
+  /**
+   * Emitted when a transcription segment of the user or the agent changes.
+   * Replace the text shown for segment.id rather than appending it.
+   */
+  transcriptionUpdated: (segment: TranscriptionSegmentData) => void;
+  /** Emitted once when a transcription segment becomes final */
+  transcriptionFinalized: (segment: TranscriptionSegmentData) => void;
+  /** Emitted with all turns whenever the transcript changes, including when start() clears it */
+  transcriptChanged: (turns: TranscriptTurn[]) => void;
   /** Emitted when agent starts speaking */
   speaking: () => void;
   /** Emitted when agent is listening */
   listening: () => void;
   /** Emitted when agent state changes (idle, initializing, listening, thinking, speaking) */
   agentStateChanged: (state: AgentState) => void;
+  /** Emitted by interruptAgent() with how much of the agent's answer was heard */
+  agentInterrupted: (data: AgentInterruptedData) => void;
   /** Emitted when a DTMF digit is successfully sent */
   dtmfSent: (digit: DTMFDigit) => void;
+  /** Emitted when a contextual update has been delivered to the agent */
+  contextualUpdateSent: (context: string) => void;
+  /** Emitted when a message typed by the user has been delivered to the agent */
+  textMessageSent: (text: string) => void;
+  /** Emitted when a user activity signal has been delivered to the agent */
+  userActivitySent: (kind: UserActivityKind) => void;
 
   // Error events
   /** Emitted when an error occurs */
-  error: (error: Error | HamsaApiError) => void;
+  error: (error: HamsaError) => void;
 
   // Track events
   /** Emitted when a remote track is subscribed */
@@ -321,8 +523,8 @@ type HamsaVoiceAgentEvents = {
   }) => void;
 
   // Analytics events
-  /** Emitted when analytics data is updated */
-  analyticsUpdated: (analytics: CallAnalyticsResult) => void;
+  /** Emitted periodically with a snapshot of connection, audio and performance metrics */
+  analyticsUpdated: (analytics: AnalyticsUpdateData) => void;
   /** Emitted when connection quality changes */
   connectionQualityChanged: (data: ConnectionQualityData) => void;
   /** Emitted when connection state changes */
@@ -335,6 +537,22 @@ type HamsaVoiceAgentEvents = {
   micMuted: () => void;
   /** Emitted when microphone is unmuted */
   micUnmuted: () => void;
+  /** Emitted when the microphone in use disappears mid-call (e.g. a headset is unplugged) */
+  microphoneLost: () => void;
+  /** Emitted when the call has switched to the default microphone after microphoneLost */
+  microphoneRecovered: (deviceId: string | undefined) => void;
+  /** Emitted during a call when a microphone or speaker is plugged in or removed */
+  devicesChanged: (devices: AudioDeviceList) => void;
+  /** Emitted on iOS with preferHeadphonesForIosDevices when agent audio is routed to headphones or back to the device */
+  audioRouteChanged: (route: AudioRoute) => void;
+  /** Emitted when push-to-talk opens or closes the microphone */
+  pttStateChanged: (state: PushToTalkState) => void;
+  /** Emitted in half-duplex when the microphone is cut while the agent speaks, and when it reopens */
+  micGateChanged: (gated: boolean) => void;
+  /** Emitted with voice activity detection when the user starts speaking */
+  userSpeechStarted: (data: UserSpeechStartedData) => void;
+  /** Emitted with voice activity detection when the user stops speaking */
+  userSpeechEnded: (data: UserSpeechEndedData) => void;
 
   // Participant events
   /** Emitted when a participant connects */
@@ -343,8 +561,8 @@ type HamsaVoiceAgentEvents = {
   participantDisconnected: (participant: RemoteParticipant) => void;
 
   // Data events
-  /** Emitted when data is received */
-  dataReceived: (message: Uint8Array, participant: Participant) => void;
+  /** Emitted with every parsed data message and the sender identity */
+  dataReceived: (message: Record<string, unknown>, participant: string) => void;
   /** Emitted for custom events */
   customEvent: (
     eventType: string,
@@ -358,7 +576,7 @@ type HamsaVoiceAgentEvents = {
   /** Emitted when tools are registered with the agent */
   toolsRegistered: (tools: Tool[]) => void;
   /** Emitted when a client-side tool execution fails */
-  rpcError: (functionName: string, error: unknown) => void;
+  rpcError: (functionName: string, error: HamsaToolError) => void;
 };
 
 /**
@@ -477,7 +695,7 @@ class HamsaVoiceAgent extends EventEmitter {
   /** Internal LiveKit manager instance for WebRTC communication */
   liveKitManager: LiveKitManager | null = null;
 
-  /** Hamsa API key for authentication */
+  /** Hamsa API key for authentication (empty in server-issued token mode) */
   apiKey: string;
 
   /** Base URL for Hamsa API endpoints */
@@ -498,13 +716,62 @@ class HamsaVoiceAgent extends EventEmitter {
   /** Flag to track if the user initiated the call end to prevent duplicate disconnection logic */
   private userInitiatedEnd = false;
 
+  /** Current lifecycle state of the call */
+  private callState: CallState = 'idle';
+
+  /** userId passed to start() for the current call */
+  private userId: string | null = null;
+
+  /** Transcript of the current or last call, cleared by start() */
+  private readonly transcript = new ConversationTranscript();
+
+  /** deviceId of the microphone chosen with setAudioInput() */
+  private audioInputDeviceId: string | null = null;
+
+  /** deviceId of the speaker chosen with setAudioOutput() */
+  private audioOutputDeviceId: string | null = null;
+
+  /** Whether the current call routes agent audio to headphones (iOS only) */
+  private preferHeadphones = false;
+
+  /** Route agent audio was last reported on with audioRouteChanged */
+  private audioRoute: AudioRoute | null = null;
+
+  /** Push-to-talk settings of the current call, null for an open microphone */
+  private pushToTalkOptions: PushToTalkOptions | null = null;
+
+  /** Whether the user had muted the microphone before push-to-talk took it over */
+  private mutedBeforePushToTalk = false;
+
+  /** Half-duplex settings of the current call, null for full-duplex */
+  private halfDuplexOptions: HalfDuplexOptions | null = null;
+
+  /** Voice activity detection settings of the current call, null when off */
+  private voiceActivityOptions: VoiceActivityOptions | null = null;
+
+  /** Whether the current call was started with disableWakeLock */
+  private wakeLockDisabled = false;
+
+  /** Connection failure already reported through the 'error' event while starting the call */
+  private reportedStartError: HamsaError | null = null;
+
+  /** Number of start() attempts made, used to identify each attempt */
+  private startAttempts = 0;
+
+  /** Attempt whose start() is allowed to complete, null once end() cancelled it */
+  private activeStartAttempt: number | null = null;
+
+  /** Timestamp of the last user activity signal sent, per activity kind, for throttling */
+  private readonly lastUserActivitySentAt = new Map<UserActivityKind, number>();
+
   /** Debug logger instance for conditional logging */
   private readonly logger: DebugLogger;
 
   /**
    * Creates a new HamsaVoiceAgent instance
    *
-   * @param apiKey - Your Hamsa API key (get from https://dashboard.tryhamsa.com)
+   * @param apiKey - Your Hamsa API key (get from https://dashboard.tryhamsa.com).
+   *   Pass `null` when every call is started with a `tokenProvider` or `session`.
    * @param config - Optional configuration settings
    * @param config.region - Deployment region ('eu' | 'uae'). Defaults to 'eu'.
    * @param config.API_URL - Custom API endpoint URL. Overrides the region default.
@@ -523,12 +790,14 @@ class HamsaVoiceAgent extends EventEmitter {
    *   API_URL: 'https://custom-api.example.com',
    *   LIVEKIT_URL: 'wss://custom-rtc.example.com'
    * });
-   * ```
    *
-   * @throws {Error} If apiKey is not provided or invalid
+   * // Server-issued token mode (no API key in the browser)
+   * const agent = new HamsaVoiceAgent(null);
+   * await agent.start({ agentId, tokenProvider: fetchSessionFromBackend });
+   * ```
    */
   constructor(
-    apiKey: string,
+    apiKey: string | null,
     {
       region = 'eu',
       API_URL,
@@ -539,13 +808,34 @@ class HamsaVoiceAgent extends EventEmitter {
     super();
     const regionDefaults = REGION_CONFIG[region];
     this.liveKitManager = null;
-    this.apiKey = apiKey;
+    this.apiKey = apiKey ?? '';
     this.API_URL = API_URL ?? regionDefaults.API_URL;
     this.LIVEKIT_URL = LIVEKIT_URL ?? regionDefaults.LIVEKIT_URL;
     this.debug = debug;
     this.logger = createDebugLogger(debug);
     this.jobId = null;
     this.wakeLockManager = new ScreenWakeLock();
+    this.wakeLockManager
+      .on('acquired', (strategy) => this.emit('wakeLockAcquired', strategy))
+      .on('released', () => this.emit('wakeLockReleased'));
+    this.transcript
+      .on('changed', (turns) => this.emit('transcriptChanged', turns))
+      .on('turnUpdated', (turn, previousText) => {
+        if (turn.role === 'agent') {
+          this.emit('answerDelta', {
+            answerId: turn.id,
+            delta: turn.text.startsWith(previousText)
+              ? turn.text.slice(previousText.length)
+              : '',
+            text: turn.text,
+          });
+        }
+      })
+      .on('turnCompleted', ({ role, id, text, startMs, endMs }) => {
+        if (role === 'agent') {
+          this.emit('answerCompleted', { answerId: id, text, startMs, endMs });
+        }
+      });
   }
 
   /**
@@ -638,6 +928,35 @@ class HamsaVoiceAgent extends EventEmitter {
     return this.jobId;
   }
 
+  /**
+   * Gets the current lifecycle state of the call
+   *
+   * The state only moves along valid transitions, and every change is also
+   * emitted as a 'callStateChanged' event. Operations that make no sense in
+   * the current state (a second start(), pause() before the call started,
+   * sendDTMF() while reconnecting...) are rejected with INVALID_CALL_STATE.
+   *
+   * @returns The current call state
+   *
+   * @example
+   * ```typescript
+   * callButton.addEventListener('click', () => {
+   *   const state = agent.getCallState();
+   *   if (state === 'idle' || state === 'ended') {
+   *     agent.start({ agentId: 'my_agent' });
+   *   }
+   * });
+   *
+   * agent.on('callStateChanged', (state, previousState) => {
+   *   console.log(`Call moved from ${previousState} to ${state}`);
+   *   callButton.disabled = state !== 'idle' && state !== 'ended';
+   * });
+   * ```
+   */
+  getCallState(): CallState {
+    return this.callState;
+  }
+
   /**
    * Gets the current input volume level from the user's microphone
    *
@@ -703,592 +1022,1286 @@ class HamsaVoiceAgent extends EventEmitter {
   }
 
   /**
-   * @internal
-   * Notifies the agent about user activity
+   * Lists the microphones available to the call
    *
-   * Prevents the agent from interrupting when the user is actively interacting
-   * with the interface. The agent will not attempt to speak for at least 2 seconds
-   * after user activity is detected.
+   * Asks for microphone permission if it was not granted yet, so that device
+   * labels can be shown to the user. Can be called before start().
+   *
+   * @returns The audio input devices reported by the browser
+   * @throws {HamsaMediaError} When the devices cannot be listed (e.g. permission denied)
    *
    * @example
    * ```typescript
-   * // Prevent interruptions while user is typing
-   * textInput.addEventListener('input', () => {
-   *   agent.sendUserActivity();
-   * });
-   *
-   * // Prevent interruptions during UI interactions
-   * document.addEventListener('click', () => {
-   *   agent.sendUserActivity();
-   * });
+   * const microphones = await agent.listAudioInputs();
+   * microphoneSelect.replaceChildren(
+   *   ...microphones.map((mic) => new Option(mic.label, mic.deviceId))
+   * );
    * ```
    */
-  sendUserActivity(): void {
-    if (this.liveKitManager?.isConnected) {
-      // Send user activity signal to prevent agent interruption
-      // This could be implemented as a special data message to the agent
-      this.logger.log(
-        'User activity detected - preventing agent interruption',
-        {
-          source: 'HamsaVoiceAgent',
-        }
-      );
-    }
+  listAudioInputs(): Promise<MediaDeviceInfo[]> {
+    return this.#listAudioDevices('audioinput');
   }
 
   /**
-   * @internal
-   * Sends a contextual update to the agent
+   * Lists the speakers and headsets agent audio can be played on
    *
-   * Informs the agent about user actions or state changes that are not direct
-   * conversation messages but may influence the agent's responses. Unlike regular
-   * messages, contextual updates don't trigger the agent to take its turn in
-   * the conversation.
+   * Asks for microphone permission if it was not granted yet, so that device
+   * labels can be shown to the user. Can be called before start().
    *
-   * @param context - Contextual information to send to the agent
+   * @returns The audio output devices reported by the browser
+   * @throws {HamsaMediaError} When the devices cannot be listed (e.g. permission denied)
    *
    * @example
    * ```typescript
-   * // Inform agent about navigation
-   * agent.sendContextualUpdate("User navigated to checkout page");
-   *
-   * // Inform about app state changes
-   * agent.sendContextualUpdate("User's cart total: $127.50");
-   *
-   * // Inform about user preferences
-   * agent.sendContextualUpdate("User selected dark mode theme");
+   * const speakers = await agent.listAudioOutputs();
    * ```
    */
-  sendContextualUpdate(context: string): void {
-    if (this.liveKitManager?.isConnected) {
-      // Send contextual update without triggering agent response
-      this.logger.log('Sending contextual update', {
-        source: 'HamsaVoiceAgent',
-        error: { context },
-      });
-      // This could be implemented as a special non-conversational message
-    }
+  listAudioOutputs(): Promise<MediaDeviceInfo[]> {
+    return this.#listAudioDevices('audiooutput');
   }
 
   /**
-   * Sends a DTMF (Dual-Tone Multi-Frequency) digit to the voice agent
-   *
-   * Simulates pressing a key on a phone keypad during the call. This enables
-   * browser-based call testing with DTMF input simulation, allowing users to
-   * test IVR flows and DTMF transitions without making actual phone calls.
+   * Selects the microphone the user is captured from
    *
-   * Uses LiveKit's native DTMF API (publishDtmf) which properly integrates with
-   * telephony systems and SIP infrastructure per RFC 4733 standard.
+   * Called before start(), the microphone is used when the call starts.
+   * During a call, the microphone is switched without interrupting the call.
+   * The choice is kept for the following calls.
    *
-   * @param digit - A single DTMF digit: '0'-'9', '*', or '#'
-   * @throws {Error} If called when not connected (no active call)
-   * @throws {Error} If the digit is not a valid DTMF character
-   * @fires dtmfSent When a DTMF digit is successfully sent to the agent
+   * @param deviceId - deviceId of a device returned by listAudioInputs()
+   * @throws {HamsaError} INVALID_ARGUMENT when deviceId is empty
+   * @throws {HamsaMediaError} When the microphone cannot be used
    *
-   * @example Basic usage
+   * @example
    * ```typescript
-   * const agent = new HamsaVoiceAgent(apiKey, config);
-   * await agent.start({ agentId, params });
-   *
-   * // Listen for DTMF send confirmations
-   * agent.on('dtmfSent', (digit) => {
-   *   console.log(`Sent DTMF digit: ${digit}`);
-   *   highlightKeypadButton(digit);
+   * microphoneSelect.addEventListener('change', async () => {
+   *   await agent.setAudioInput(microphoneSelect.value);
    * });
-   *
-   * // Later, when user presses a key on the UI keypad:
-   * agent.sendDTMF('1');  // Simulates pressing "1"
-   * agent.sendDTMF('*');  // Simulates pressing "*"
-   * agent.sendDTMF('#');  // Simulates pressing "#"
    * ```
+   */
+  async setAudioInput(deviceId: string): Promise<void> {
+    this.#assertDeviceId(deviceId);
+    await this.liveKitManager?.connection.switchAudioDevice(
+      'audioinput',
+      deviceId
+    );
+    this.audioInputDeviceId = deviceId;
+  }
+
+  /**
+   * Selects the speaker the agent is played on
    *
-   * @example With UI keypad
-   * ```typescript
-   * // Create keypad buttons
-   * const digits = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '*', '0', '#'];
+   * Called before start(), the speaker is used when the call starts. During a
+   * call, agent audio moves to the new speaker right away. The choice is kept
+   * for the following calls. Browsers without HTMLMediaElement.setSinkId
+   * (e.g. Safari on iOS) cannot select a speaker.
    *
-   * digits.forEach(digit => {
-   *   const button = document.createElement('button');
-   *   button.textContent = digit;
-   *   button.onclick = () => {
-   *     try {
-   *       agent.sendDTMF(digit);
-   *       playKeyTone(digit); // Optional: play local tone feedback
-   *     } catch (error) {
-   *       console.error('Failed to send DTMF:', error.message);
-   *     }
-   *   };
-   *   keypadContainer.appendChild(button);
-   * });
-   * ```
+   * @param deviceId - deviceId of a device returned by listAudioOutputs()
+   * @throws {HamsaError} INVALID_ARGUMENT when deviceId is empty
+   * @throws {HamsaMediaError} When the speaker cannot be selected
    *
-   * @example Error handling
+   * @example
    * ```typescript
-   * try {
-   *   agent.sendDTMF('1');
-   * } catch (error) {
-   *   if (error.message.includes('not connected')) {
-   *     showConnectionError();
-   *   } else if (error.message.includes('Invalid DTMF')) {
-   *     showInvalidInputError();
-   *   }
-   * }
+   * await agent.setAudioOutput(headsetDeviceId);
    * ```
    */
-  sendDTMF(digit: DTMFDigit): void {
-    // DTMF code mapping per RFC 4733
-    // See: https://datatracker.ietf.org/doc/html/rfc4733#section-3.2
-    const dtmfCodeMap: Record<DTMFDigit, number> = {
-      '0': 0,
-      '1': 1,
-      '2': 2,
-      '3': 3,
-      '4': 4,
-      '5': 5,
-      '6': 6,
-      '7': 7,
-      '8': 8,
-      '9': 9,
-      '*': 10,
-      '#': 11,
-    };
-
-    // Validate the digit is a valid DTMF character
-    if (!(digit in dtmfCodeMap)) {
-      throw new Error(
-        `Invalid DTMF digit: "${digit}". Valid digits are 0-9, *, and #.`
-      );
-    }
+  async setAudioOutput(deviceId: string): Promise<void> {
+    this.#assertDeviceId(deviceId);
+    await this.liveKitManager?.connection.switchAudioDevice(
+      'audiooutput',
+      deviceId
+    );
+    this.audioOutputDeviceId = deviceId;
+  }
 
-    // Check if connected
-    const room = this.liveKitManager?.connection?.room;
-    if (!(this.liveKitManager?.isConnected && room?.localParticipant)) {
-      throw new Error(
-        'Cannot send DTMF: not connected to voice agent. Call start() first.'
+  /**
+   * Changes the processing applied to the microphone during a call
+   *
+   * Options left out keep their current value. The microphone is restarted
+   * with the new constraints, on the same device and with the same mute
+   * state, which may cut the user's audio for a fraction of a second.
+   *
+   * @param constraints - Constraints to change
+   * @throws {HamsaError} NOT_CONNECTED if called when there is no active call
+   * @throws {HamsaError} INVALID_ARGUMENT if a constraint has an invalid value
+   * @throws {HamsaMediaError} When the microphone cannot be restarted
+   *
+   * @example
+   * ```typescript
+   * // The kiosk's own DSP already removes noise
+   * await agent.updateAudioConstraints({
+   *   noiseSuppression: false,
+   *   autoGainControl: false,
+   * });
+   * ```
+   */
+  async updateAudioConstraints(constraints: AudioConstraints): Promise<void> {
+    if (!this.liveKitManager?.isConnected) {
+      throw new HamsaError(
+        'NOT_CONNECTED',
+        'Cannot update audio constraints: not connected to voice agent. Call start() first.'
       );
     }
-
-    const code = dtmfCodeMap[digit];
-
-    this.logger.log('Sending DTMF digit', {
-      source: 'HamsaVoiceAgent',
-      error: {
-        digit,
-        code,
-      },
-    });
-
-    // Use LiveKit's native DTMF API
-    // This properly integrates with SIP/telephony systems
-    room.localParticipant.publishDtmf(code, digit);
-
-    this.logger.log('DTMF digit sent successfully', {
-      source: 'HamsaVoiceAgent',
-      error: { digit, code },
-    });
-
-    // Emit event to notify listeners
-    this.emit('dtmfSent', digit);
+    await this.liveKitManager.connection.updateAudioConstraints(
+      this.#validateAudioConstraints(constraints)
+    );
   }
 
   /**
-   * Gets frequency data from the user's microphone input
+   * Replaces the processors applied to the microphone during a call
    *
-   * Returns frequency domain data for audio visualization and analysis.
-   * Can be used to create voice activity indicators, audio visualizers,
-   * or advanced voice processing features.
+   * The new processors take over the audio sent to the agent without
+   * republishing the microphone, so the agent keeps hearing the user. The
+   * previous processors are destroyed. Pass an empty array to send the
+   * microphone unprocessed.
    *
-   * @returns Uint8Array containing frequency data (0-255 per frequency bin)
+   * @param processors - Processors to apply, in order
+   * @throws {HamsaError} NOT_CONNECTED if called when there is no active call
+   * @throws {HamsaError} INVALID_ARGUMENT if a processor does not implement
+   * TrackProcessor
+   * @throws {HamsaMediaError} AUDIO_PROCESSOR_FAILED when a processor fails
+   * to initialize
    *
    * @example
    * ```typescript
-   * // Create simple audio visualizer
-   * function updateVisualizer() {
-   *   const frequencyData = agent.getInputByteFrequencyData();
-   *   const average = frequencyData.reduce((a, b) => a + b) / frequencyData.length;
-   *   const percentage = Math.round((average / 255) * 100);
-   *   document.getElementById('micLevel').style.width = `${percentage}%`;
-   * }
-   * setInterval(updateVisualizer, 50);
+   * // Switch to aggressive filtering when the user moves to the factory floor
+   * await agent.setAudioProcessors([highPassFilter, noiseCanceller]);
    * ```
    */
-  getInputByteFrequencyData(): Uint8Array {
-    return (
-      this.liveKitManager?.audioManager.getInputByteFrequencyData() ??
-      new Uint8Array(0)
-    );
+  async setAudioProcessors(processors: AudioTrackProcessor[]): Promise<void> {
+    if (!this.liveKitManager?.isConnected) {
+      throw new HamsaError(
+        'NOT_CONNECTED',
+        'Cannot set audio processors: not connected to voice agent. Call start() first.'
+      );
+    }
+    this.#assertAudioProcessors(processors);
+    await this.liveKitManager.audioManager.setProcessors(processors);
   }
 
   /**
-   * Gets frequency data from the agent's audio output
+   * Switches the call to push-to-talk
    *
-   * Returns frequency domain data from the agent's voice for analysis
-   * and visualization. Useful for creating voice characteristic displays
-   * or audio processing features.
+   * The microphone is muted and only opens between pressToTalk() and
+   * releaseToTalk(), or while the configured key is held. After release the
+   * microphone stays open for a short tail so the last word is not clipped,
+   * then the agent is told that the user's turn ended so it answers right
+   * away. Calling it again replaces the settings.
    *
-   * @returns Uint8Array containing frequency data (0-255 per frequency bin)
+   * @param options - Key binding, minimum hold and release tail
+   * @throws {HamsaError} NOT_CONNECTED if called when there is no active call
+   * @throws {HamsaError} INVALID_ARGUMENT if an option has an invalid value
+   * @fires pttStateChanged When the microphone opens or closes
    *
    * @example
    * ```typescript
-   * // Analyze agent voice characteristics
-   * agent.on('speaking', () => {
-   *   const interval = setInterval(() => {
-   *     const frequencyData = agent.getOutputByteFrequencyData();
-   *     const dominantFreq = findDominantFrequency(frequencyData);
-   *     updateVoiceAnalysis(dominantFreq);
-   *   }, 100);
+   * // Hold Space to talk
+   * agent.enablePushToTalk({ key: 'Space' });
    *
-   *   agent.once('listening', () => clearInterval(interval));
+   * // Or wire a talk button
+   * talkButton.addEventListener('pointerdown', () => agent.pressToTalk());
+   * talkButton.addEventListener('pointerup', () => agent.releaseToTalk());
+   *
+   * agent.on('pttStateChanged', (state) => {
+   *   talkButton.classList.toggle('talking', state !== 'idle');
    * });
    * ```
    */
-  getOutputByteFrequencyData(): Uint8Array {
-    return (
-      this.liveKitManager?.audioManager.getOutputByteFrequencyData() ??
-      new Uint8Array(0)
-    );
+  enablePushToTalk(options: PushToTalkOptions = {}): void {
+    if (!this.liveKitManager?.isConnected) {
+      throw new HamsaError(
+        'NOT_CONNECTED',
+        'Cannot enable push-to-talk: not connected to voice agent. Call start() first.'
+      );
+    }
+    const validated = this.#validatePushToTalkOptions(options);
+    if (!this.pushToTalkOptions) {
+      // A paused call is unmuted on resume(), whatever its mute state
+      this.mutedBeforePushToTalk =
+        this.callState !== 'paused' && this.isMicMuted();
+    }
+    this.pushToTalkOptions = validated;
+    // Applied on resume() while the call is paused
+    if (this.callState !== 'paused') {
+      this.liveKitManager.audioManager.enablePushToTalk(this.pushToTalkOptions);
+    }
   }
 
   /**
-   * Enables real-time audio capture from the conversation
+   * Leaves push-to-talk and gives the microphone back the mute state it had
+   * before enablePushToTalk(), unless the call is paused
+   */
+  disablePushToTalk(): void {
+    if (!this.pushToTalkOptions) {
+      return;
+    }
+    this.pushToTalkOptions = null;
+    this.liveKitManager?.audioManager.disablePushToTalk();
+    if (this.liveKitManager?.isConnected && this.callState !== 'paused') {
+      this.liveKitManager.audioManager.setMicMuted(this.mutedBeforePushToTalk);
+    }
+  }
+
+  /**
+   * Opens the microphone in push-to-talk mode, e.g. when a talk button is
+   * pressed. Ignored unless push-to-talk is enabled.
+   */
+  pressToTalk(): void {
+    this.liveKitManager?.audioManager.pressToTalk();
+  }
+
+  /**
+   * Closes the microphone in push-to-talk mode after the release tail and
+   * tells the agent the user's turn ended. Ignored unless push-to-talk is
+   * enabled.
+   */
+  releaseToTalk(): void {
+    this.liveKitManager?.audioManager.releaseToTalk();
+  }
+
+  /**
+   * Notifies the agent about user activity
    *
-   * This method allows clients to receive raw audio data from the agent, user, or both,
-   * enabling use cases like forwarding audio to third-party services, custom recording,
-   * real-time transcription, or audio analysis.
+   * Prevents the agent from interrupting when the user is actively interacting
+   * with the interface. A `user_activity` data message is published to the agent,
+   * which delays barge-in and turn-taking while the user is busy.
    *
-   * The audio can be captured in three formats:
-   * - `opus-webm`: Efficient Opus codec in WebM container (default, recommended)
-   * - `pcm-f32`: Raw PCM audio as Float32Array for advanced processing
-   * - `pcm-i16`: Raw PCM audio as Int16Array for compatibility
+   * Signals are throttled per activity kind (at most one per second), so it is
+   * safe to call this from high-frequency handlers such as keypress or scroll.
+   * Calls made while not connected are ignored.
    *
-   * @param options - Configuration options for audio capture
-   * @param options.source - Which audio to capture: 'agent' (default), 'user', or 'both'
-   * @param options.format - Audio format to receive (default: 'opus-webm')
-   * @param options.chunkSize - Chunk size in milliseconds for encoded formats (default: 100ms)
-   * @param options.bufferSize - Buffer size in samples for PCM formats (default: 4096)
-   * @param options.callback - Function called with each audio chunk
+   * @param kind - Kind of interaction (defaults to 'other')
+   * @throws {HamsaError} INVALID_ARGUMENT if kind is not a known activity kind
+   * @fires userActivitySent When the activity signal has been delivered to the agent
    *
-   * @example Forward agent audio to third-party service
+   * @example
    * ```typescript
-   * // Start capturing agent audio when call begins
-   * agent.on('callStarted', () => {
-   *   agent.enableAudioCapture({
-   *     source: 'agent',
-   *     format: 'opus-webm',
-   *     chunkSize: 100, // 100ms chunks
-   *     callback: (audioData, metadata) => {
-   *       console.log(`Audio from ${metadata.participant}: ${audioData.byteLength} bytes`);
+   * // Prevent interruptions while user is typing
+   * textInput.addEventListener('input', () => {
+   *   agent.sendUserActivity('typing');
+   * });
    *
-   *       // Send to third-party service via WebSocket
-   *       thirdPartyWebSocket.send(audioData);
+   * // Prevent interruptions while the user fills in a form
+   * emailField.addEventListener('focus', () => {
+   *   agent.sendUserActivity('form_focus');
+   * });
    *
-   *       // Or via HTTP
-   *       fetch('https://api.example.com/audio', {
-   *         method: 'POST',
-   *         body: audioData,
-   *         headers: {
-   *           'Content-Type': 'audio/webm',
-   *           'X-Participant': metadata.participant,
-   *           'X-Timestamp': metadata.timestamp.toString()
-   *         }
-   *       });
-   *     }
-   *   });
+   * // Prevent interruptions during generic UI interactions
+   * document.addEventListener('click', () => {
+   *   agent.sendUserActivity('click');
    * });
    * ```
+   */
+  sendUserActivity(kind: UserActivityKind = 'other'): void {
+    if (!USER_ACTIVITY_KINDS.includes(kind)) {
+      throw new HamsaError(
+        'INVALID_ARGUMENT',
+        `Invalid user activity kind: "${kind}". Valid kinds are ${USER_ACTIVITY_KINDS.join(', ')}.`
+      );
+    }
+
+    if (!this.liveKitManager?.isConnected) {
+      return;
+    }
+
+    const now = Date.now();
+    const lastSentAt = this.lastUserActivitySentAt.get(kind);
+    if (
+      lastSentAt !== undefined &&
+      now - lastSentAt < USER_ACTIVITY_THROTTLE_MS
+    ) {
+      return;
+    }
+    this.lastUserActivitySentAt.set(kind, now);
+
+    this.logger.log('User activity detected - preventing agent interruption', {
+      source: 'HamsaVoiceAgent',
+      error: { kind },
+    });
+
+    this.#publishToAgent(
+      {
+        event: 'user_activity',
+        kind,
+        timestamp: now,
+      } satisfies UserActivityMessage,
+      'send user activity'
+    )
+      .then(() => {
+        this.emit('userActivitySent', kind);
+      })
+      .catch((error) => {
+        // Activity signals are best-effort hints; a lost signal is not fatal
+        this.lastUserActivitySentAt.delete(kind);
+        this.logger.warn('User activity signal was not delivered', {
+          source: 'HamsaVoiceAgent',
+          error,
+        });
+      });
+  }
+
+  /**
+   * Switches the call to half-duplex
    *
-   * @example Capture both agent and user for custom processing
-   * ```typescript
-   * agent.enableAudioCapture({
-   *   source: 'both',
-   *   format: 'pcm-f32',
-   *   bufferSize: 4096,
-   *   callback: (audioData, metadata) => {
-   *     const samples = audioData as Float32Array;
-   *
-   *     if (metadata.source === 'agent') {
-   *       // Process agent audio
-   *       analyzeAgentVoice(samples, metadata.sampleRate);
-   *     } else {
-   *       // Process user audio
-   *       analyzeUserVoice(samples, metadata.sampleRate);
-   *     }
+   * The microphone is cut while the agent speaks, so the agent does not hear
+   * its own voice from laptop speakers, and reopens once the agent has been
+   * silent for the hangover time. With a barge-in threshold, the user can
+   * still talk over the agent by speaking louder than the threshold. The cut
+   * does not change the mute state set with setMicMuted(). Calling it again
+   * replaces the settings.
    *
-   *     // Save to custom recorder
-   *     customRecorder.addAudioChunk({
-   *       source: metadata.source,
-   *       samples,
-   *       sampleRate: metadata.sampleRate,
-   *       timestamp: metadata.timestamp
-   *     });
-   *   }
-   * });
-   * ```
+   * @param options - Hangover time and barge-in threshold
+   * @throws {HamsaError} NOT_CONNECTED if called when there is no active call
+   * @throws {HamsaError} INVALID_ARGUMENT if an option has an invalid value
+   * @fires micGateChanged When the microphone is cut or reopened
    *
-   * @example Real-time transcription integration
+   * @example
    * ```typescript
-   * import { AudioCaptureOptions } from '@hamsa-ai/voice-agents-sdk';
-   *
-   * const transcriptionService = new WebSocket('wss://transcription.example.com');
+   * // Laptop speakers without a headset
+   * agent.enableHalfDuplex({ hangoverMs: 400, bargeInThreshold: 0.35 });
    *
-   * agent.enableAudioCapture({
-   *   source: 'user',
-   *   format: 'opus-webm',
-   *   chunkSize: 50, // Lower latency for real-time transcription
-   *   callback: (audioData, metadata) => {
-   *     // Forward user audio to transcription service
-   *     transcriptionService.send(JSON.stringify({
-   *       audio: Array.from(new Uint8Array(audioData as ArrayBuffer)),
-   *       timestamp: metadata.timestamp,
-   *       sampleRate: metadata.sampleRate
-   *     }));
-   *   }
+   * agent.on('micGateChanged', (gated) => {
+   *   micIcon.classList.toggle('waiting', gated);
    * });
-   *
-   * transcriptionService.onmessage = (event) => {
-   *   const transcription = JSON.parse(event.data);
-   *   console.log('Real-time transcription:', transcription.text);
-   *   displayUserSpeech(transcription.text);
-   * };
    * ```
    */
-  enableAudioCapture(options: AudioCaptureOptions): void {
-    if (!this.liveKitManager) {
-      throw new Error('Cannot enable audio capture: not connected to agent');
+  enableHalfDuplex(options: HalfDuplexOptions = {}): void {
+    if (!this.liveKitManager?.isConnected) {
+      throw new HamsaError(
+        'NOT_CONNECTED',
+        'Cannot enable half-duplex: not connected to voice agent. Call start() first.'
+      );
     }
-    this.liveKitManager.audioManager.enableAudioCapture(options);
+    this.halfDuplexOptions = this.#validateHalfDuplexOptions(options);
+    this.liveKitManager.audioManager.enableHalfDuplex(this.halfDuplexOptions);
   }
 
   /**
-   * Disables audio capture and releases all capture resources
+   * Leaves half-duplex and reopens the microphone if it is cut
+   */
+  disableHalfDuplex(): void {
+    this.halfDuplexOptions = null;
+    this.liveKitManager?.audioManager.disableHalfDuplex();
+  }
+
+  /**
+   * Starts detecting the user's speech in the browser
    *
-   * Stops all active audio capture, cleans up MediaRecorders and audio processors,
-   * and releases associated resources. Safe to call even if audio capture is not enabled.
+   * A worklet listens to the microphone and emits userSpeechStarted and
+   * userSpeechEnded within milliseconds, for "you're speaking" feedback that
+   * does not wait for the agent. Speech is not reported while the microphone
+   * is muted. With gateTransmission, the microphone is sent to the agent only
+   * while the user speaks, which saves bandwidth on constrained networks.
+   * Calling it again replaces the settings.
+   *
+   * @param options - Threshold, timings and noise gate
+   * @throws {HamsaError} NOT_CONNECTED if called when there is no active call
+   * @throws {HamsaError} INVALID_ARGUMENT if an option has an invalid value
+   * @fires userSpeechStarted When the user starts speaking
+   * @fires userSpeechEnded When the user stops speaking
+   * @fires error AUDIO_CAPTURE_UNSUPPORTED when the browser lacks AudioWorklet
    *
    * @example
    * ```typescript
-   * // Stop capturing when call ends
-   * agent.on('callEnded', () => {
-   *   agent.disableAudioCapture();
-   *   console.log('Audio capture stopped');
-   * });
+   * agent.enableVoiceActivityDetection({ hangoverMs: 500 });
    *
-   * // Or stop manually
-   * stopCaptureButton.addEventListener('click', () => {
-   *   agent.disableAudioCapture();
+   * agent.on('userSpeechStarted', () => micIcon.classList.add('speaking'));
+   * agent.on('userSpeechEnded', ({ durationMs }) => {
+   *   micIcon.classList.remove('speaking');
+   *   console.log(`User spoke for ${durationMs}ms`);
    * });
    * ```
    */
-  disableAudioCapture(): void {
-    this.liveKitManager?.audioManager.disableAudioCapture();
+  enableVoiceActivityDetection(options: VoiceActivityOptions = {}): void {
+    if (!this.liveKitManager?.isConnected) {
+      throw new HamsaError(
+        'NOT_CONNECTED',
+        'Cannot enable voice activity detection: not connected to voice agent. Call start() first.'
+      );
+    }
+    this.voiceActivityOptions = this.#validateVoiceActivityOptions(options);
+    this.liveKitManager.audioManager.enableVoiceActivityDetection(
+      this.voiceActivityOptions
+    );
   }
 
   /**
-   * Initiates a new voice agent conversation
-   *
-   * This is the primary method for starting interactions with a voice agent.
-   * It handles authentication, connection establishment, tool registration,
-   * and event forwarding. The method is asynchronous and will emit events
-   * to indicate connection status and conversation progress.
+   * Stops voice activity detection and reopens the microphone if the noise
+   * gate holds it back
+   */
+  disableVoiceActivityDetection(): void {
+    this.voiceActivityOptions = null;
+    this.liveKitManager?.audioManager.disableVoiceActivityDetection();
+  }
+
+  /**
+   * Stops the agent mid-answer
    *
-   * @param options - Configuration options for the conversation
-   * @param options.agentId - Unique identifier of the voice agent (from Hamsa dashboard)
-   * @param options.params - Parameters to customize the conversation context
-   * @param options.voiceEnablement - Enable voice interactions (default: false for text-only)
-   * @param options.tools - Client-side tools available to the agent
+   * The agent's voice fades out locally right away, then an `interrupt` data
+   * message tells the agent to stop and to keep only the part of its answer
+   * the user heard. Unlike pause(), the microphone stays open so the user can
+   * speak at once. Playback volume comes back when the agent stops speaking.
    *
-   * @throws {Error} Authentication failures, network errors, or invalid configuration
+   * @returns Promise that resolves when the signal has been delivered
+   * @throws {HamsaError} NOT_CONNECTED if called when there is no active call
+   * @throws {HamsaError} INVALID_CALL_STATE while the call is starting, reconnecting or ending
+   * @throws {HamsaConnectionError} DATA_SEND_FAILED when the signal could not
+   * be delivered; local playback is silenced anyway
+   * @fires agentInterrupted With how much of the current answer was heard
    *
-   * @example Basic voice conversation
+   * @example
    * ```typescript
-   * try {
-   *   await agent.start({
-   *     agentId: 'agent_12345',
-   *     voiceEnablement: true,
-   *     params: {
-   *       userName: 'Alice',
-   *       userTier: 'premium',
-   *       sessionContext: 'product_support'
-   *     }
-   *   });
-   *   console.log('Voice agent conversation started');
-   * } catch (error) {
-   *   console.error('Failed to start conversation:', error);
-   * }
-   * ```
+   * stopButton.addEventListener('click', () => agent.interruptAgent());
    *
-   * @example With custom tools
-   * ```typescript
-   * const customerDataTool = {
-   *   function_name: 'getCustomerData',
-   *   description: 'Retrieves customer account information',
-   *   parameters: [
-   *     { name: 'customerId', type: 'string', description: 'Customer ID' }
-   *   ],
-   *   required: ['customerId'],
-   *   fn: async (customerId) => {
-   *     return await customerAPI.getProfile(customerId);
+   * agent.on('agentInterrupted', ({ wasSpeaking, heardMs }) => {
+   *   if (wasSpeaking) {
+   *     console.log(`User stopped the agent after ${heardMs}ms`);
    *   }
-   * };
-   *
-   * await agent.start({
-   *   agentId: 'support_agent',
-   *   voiceEnablement: true,
-   *   tools: [customerDataTool],
-   *   params: { department: 'billing' }
    * });
    * ```
+   */
+  async interruptAgent(): Promise<void> {
+    this.#assertNotTransitioning('interrupt the agent');
+    if (!this.liveKitManager?.isConnected) {
+      throw new HamsaError(
+        'NOT_CONNECTED',
+        'Cannot interrupt the agent: not connected to voice agent. Call start() first.'
+      );
+    }
+
+    const interruption = this.liveKitManager.audioManager.interruptPlayback();
+    this.logger.log('Agent interrupted', {
+      source: 'HamsaVoiceAgent',
+      error: interruption,
+    });
+    this.emit('agentInterrupted', interruption);
+    this.transcript.addSystemEvent('Agent interrupted');
+
+    await this.#publishToAgent(
+      {
+        event: 'interrupt',
+        heardMs: interruption.heardMs,
+        timestamp: Date.now(),
+      } satisfies InterruptMessage,
+      'interrupt the agent'
+    );
+  }
+
+  /**
+   * Sends a message the user typed to the agent
    *
-   * @example Event handling
+   * The agent answers it like something the user said, so users who cannot
+   * or prefer not to speak can talk to the same agent. It works in text-only
+   * calls (`voiceEnablement: false`) and during voice calls, where typed and
+   * spoken input can be mixed. The reply arrives as usual through
+   * `answerReceived` and `answerDelta`, and the message is added to the
+   * transcript as a user turn.
+   *
+   * The message is published as a `user_message` data message on the reliable
+   * data channel. The returned promise resolves once LiveKit has delivered the
+   * packet.
+   *
+   * @param text - What the user typed
+   * @returns Promise that resolves when the message has been delivered
+   * @throws {HamsaError} NOT_CONNECTED if called when there is no active call
+   * @throws {HamsaError} INVALID_ARGUMENT or MESSAGE_TOO_LARGE if the text is empty or too large
+   * @throws {HamsaConnectionError} DATA_SEND_FAILED when the message could not be delivered
+   * @fires textMessageSent When the message has been delivered to the agent
+   *
+   * @example
    * ```typescript
-   * // Set up event listeners before starting
-   * agent.on('callStarted', () => {
-   *   console.log('Conversation began');
-   *   startRecordingMetrics();
+   * chatForm.addEventListener('submit', async (event) => {
+   *   event.preventDefault();
+   *   await agent.sendTextMessage(chatInput.value);
+   *   chatInput.value = '';
    * });
    *
-   * agent.on('error', (error) => {
-   *   console.error('Conversation error:', error);
-   *   handleConversationError(error);
-   * });
+   * agent.on('answerReceived', (text) => appendToChat('agent', text));
+   * ```
+   */
+  async sendTextMessage(text: string): Promise<void> {
+    if (typeof text !== 'string' || text.trim().length === 0) {
+      throw new HamsaError(
+        'INVALID_ARGUMENT',
+        'Invalid text message: text must be a non-empty string.'
+      );
+    }
+
+    await this.#publishToAgent(
+      {
+        event: 'user_message',
+        content: text,
+        timestamp: Date.now(),
+      } satisfies UserTextMessage,
+      'send text message'
+    );
+
+    this.logger.log('Text message delivered', {
+      source: 'HamsaVoiceAgent',
+      error: { length: text.length },
+    });
+    this.transcript.addTypedMessage(text);
+    this.emit('textMessageSent', text);
+  }
+
+  /**
+   * Sends a contextual update to the agent
    *
-   * await agent.start({ agentId: 'my_agent', voiceEnablement: true });
+   * Informs the agent about user actions or state changes that are not direct
+   * conversation messages but may influence the agent's responses. Unlike regular
+   * messages, contextual updates don't trigger the agent to take its turn in
+   * the conversation.
+   *
+   * The update is published as a `contextual_update` data message on the reliable
+   * data channel. The returned promise resolves once LiveKit has delivered the
+   * packet, and rejects if the call is not connected, the context is not a
+   * non-empty string, or the encoded message exceeds the data channel size limit.
+   * Earlier versions returned void and never failed: await the call or attach
+   * a catch handler so a failed update is not an unhandled rejection.
+   *
+   * @param context - Contextual information to send to the agent
+   * @returns Promise that resolves when the update has been delivered
+   * @throws {HamsaError} NOT_CONNECTED if called when there is no active call
+   * @throws {HamsaError} INVALID_ARGUMENT or MESSAGE_TOO_LARGE if the context is empty or too large
+   * @fires contextualUpdateSent When the update has been delivered to the agent
+   *
+   * @example
+   * ```typescript
+   * // Inform agent about navigation
+   * await agent.sendContextualUpdate("User navigated to checkout page");
+   *
+   * // Inform about app state changes
+   * await agent.sendContextualUpdate("User's cart total: $127.50");
+   *
+   * // Push structured page state
+   * await agent.sendContextualUpdate(JSON.stringify({ cart, selectedProduct }));
    * ```
    */
-  // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: Method sets up multiple event listeners with logging - refactoring would split event handling logic
-  async start({
-    agentId,
-    params = {},
-    voiceEnablement = false,
-    tools = [],
-    userId: _userId,
-    preferHeadphonesForIosDevices: _preferHeadphonesForIosDevices = false,
-    connectionDelay: _connectionDelay,
-    disableWakeLock: _disableWakeLock = false,
-    onAudioData,
-    captureAudio,
-    avatarContainerSelector,
-  }: StartOptions): Promise<void> {
-    try {
-      this.logger.log('SDK initialized - disconnect debugging enabled', {
-        source: 'HamsaVoiceAgent',
-      });
+  async sendContextualUpdate(context: string): Promise<void> {
+    if (typeof context !== 'string' || context.trim().length === 0) {
+      throw new HamsaError(
+        'INVALID_ARGUMENT',
+        'Invalid contextual update: context must be a non-empty string.'
+      );
+    }
 
-      // Reset user-initiated end flag for new call
-      this.userInitiatedEnd = false;
+    await this.#publishToAgent(
+      {
+        event: 'contextual_update',
+        content: context,
+        timestamp: Date.now(),
+      } satisfies ContextualUpdateMessage,
+      'send contextual update'
+    );
 
-      // Get LiveKit access token
-      this.logger.log('Starting conversation initialization', {
-        source: 'HamsaVoiceAgent',
-        error: {
-          agentId,
-          voiceEnablement,
-          toolsCount: tools?.length ?? 0,
-          hasParams: Object.keys(params).length > 0,
-        },
-      });
+    this.logger.log('Contextual update delivered', {
+      source: 'HamsaVoiceAgent',
+      error: { context },
+    });
+    this.emit('contextualUpdateSent', context);
+  }
 
-      const accessToken = await this.#initializeLiveKitConversation(
-        agentId,
-        params,
-        voiceEnablement,
-        tools
+  /**
+   * Sends a DTMF (Dual-Tone Multi-Frequency) digit to the voice agent
+   *
+   * Simulates pressing a key on a phone keypad during the call. This enables
+   * browser-based call testing with DTMF input simulation, allowing users to
+   * test IVR flows and DTMF transitions without making actual phone calls.
+   *
+   * Uses LiveKit's native DTMF API (publishDtmf) which properly integrates with
+   * telephony systems and SIP infrastructure per RFC 4733 standard.
+   *
+   * @param digit - A single DTMF digit: '0'-'9', '*', or '#'
+   * @throws {HamsaError} NOT_CONNECTED if called when there is no active call
+   * @throws {HamsaError} INVALID_ARGUMENT if the digit is not a valid DTMF character
+   * @fires dtmfSent When a DTMF digit is successfully sent to the agent
+   *
+   * @example Basic usage
+   * ```typescript
+   * const agent = new HamsaVoiceAgent(apiKey, config);
+   * await agent.start({ agentId, params });
+   *
+   * // Listen for DTMF send confirmations
+   * agent.on('dtmfSent', (digit) => {
+   *   console.log(`Sent DTMF digit: ${digit}`);
+   *   highlightKeypadButton(digit);
+   * });
+   *
+   * // Later, when user presses a key on the UI keypad:
+   * agent.sendDTMF('1');  // Simulates pressing "1"
+   * agent.sendDTMF('*');  // Simulates pressing "*"
+   * agent.sendDTMF('#');  // Simulates pressing "#"
+   * ```
+   *
+   * @example With UI keypad
+   * ```typescript
+   * // Create keypad buttons
+   * const digits = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '*', '0', '#'];
+   *
+   * digits.forEach(digit => {
+   *   const button = document.createElement('button');
+   *   button.textContent = digit;
+   *   button.onclick = () => {
+   *     try {
+   *       agent.sendDTMF(digit);
+   *       playKeyTone(digit); // Optional: play local tone feedback
+   *     } catch (error) {
+   *       console.error('Failed to send DTMF:', error.message);
+   *     }
+   *   };
+   *   keypadContainer.appendChild(button);
+   * });
+   * ```
+   *
+   * @example Error handling
+   * ```typescript
+   * try {
+   *   agent.sendDTMF('1');
+   * } catch (error) {
+   *   if (error.message.includes('not connected')) {
+   *     showConnectionError();
+   *   } else if (error.message.includes('Invalid DTMF')) {
+   *     showInvalidInputError();
+   *   }
+   * }
+   * ```
+   */
+  sendDTMF(digit: DTMFDigit): void {
+    // DTMF code mapping per RFC 4733
+    // See: https://datatracker.ietf.org/doc/html/rfc4733#section-3.2
+    const dtmfCodeMap: Record<DTMFDigit, number> = {
+      '0': 0,
+      '1': 1,
+      '2': 2,
+      '3': 3,
+      '4': 4,
+      '5': 5,
+      '6': 6,
+      '7': 7,
+      '8': 8,
+      '9': 9,
+      '*': 10,
+      '#': 11,
+    };
+
+    // Validate the digit is a valid DTMF character
+    if (!(digit in dtmfCodeMap)) {
+      throw new HamsaError(
+        'INVALID_ARGUMENT',
+        `Invalid DTMF digit: "${digit}". Valid digits are 0-9, *, and #.`
       );
+    }
 
-      // Create LiveKitManager instance
-      this.logger.log('Creating LiveKitManager instance', {
-        source: 'HamsaVoiceAgent',
-        error: {
-          livekitUrl: this.LIVEKIT_URL,
-          tokenLength: accessToken.length,
-          debug: this.debug,
-        },
-      });
+    this.#assertNotTransitioning('send DTMF');
 
-      this.liveKitManager = new LiveKitManager(
-        this.LIVEKIT_URL,
-        accessToken,
-        tools,
-        { debug: this.debug, avatarContainerSelector }
+    // Check if connected
+    const room = this.liveKitManager?.connection?.room;
+    if (!(this.liveKitManager?.isConnected && room?.localParticipant)) {
+      throw new HamsaError(
+        'NOT_CONNECTED',
+        'Cannot send DTMF: not connected to voice agent. Call start() first.'
       );
+    }
 
-      this.logger.log('LiveKitManager created, setting up event listeners', {
-        source: 'HamsaVoiceAgent',
-      });
+    const code = dtmfCodeMap[digit];
 
-      // Set up event listeners to forward LiveKitManager events
-      this.liveKitManager
-        .on('error', (error) => {
-          this.logger.error('LiveKitManager error event', {
-            source: 'HamsaVoiceAgent',
-            error,
-          });
-          this.emit('error', error);
-        })
-        .on('connected', () => {
-          this.logger.log('LiveKit connection established', {
-            source: 'HamsaVoiceAgent',
-          });
+    this.logger.log('Sending DTMF digit', {
+      source: 'HamsaVoiceAgent',
+      error: {
+        digit,
+        code,
+      },
+    });
 
-          // Set up audio capture if requested
-          // Level 2 API takes priority over Level 1 if both are provided
-          if (captureAudio) {
-            // Level 2 API: Advanced captureAudio options
-            this.logger.log('Enabling audio capture via captureAudio options', {
-              source: 'HamsaVoiceAgent',
-              error: {
-                source: captureAudio.source,
-                format: captureAudio.format,
-              },
-            });
-            this.liveKitManager?.audioManager.enableAudioCapture(captureAudio);
-          } else if (onAudioData) {
-            // Level 1 API: Simple onAudioData callback
-            this.logger.log('Enabling audio capture via onAudioData', {
-              source: 'HamsaVoiceAgent',
-            });
-            this.liveKitManager?.audioManager.enableAudioCapture({
-              source: 'agent',
-              format: 'opus-webm',
-              chunkSize: 100,
-              callback: onAudioData,
-            });
-          }
+    // Use LiveKit's native DTMF API
+    // This properly integrates with SIP/telephony systems
+    room.localParticipant.publishDtmf(code, digit);
 
-          this.emit('start');
-        })
-        .on('transcriptionReceived', (transcription) => {
-          const TEXT_PREVIEW_LENGTH = 50;
-          this.logger.log('Transcription received from user', {
-            source: 'HamsaVoiceAgent',
-            error: {
-              length: transcription.length,
-              preview: transcription.substring(0, TEXT_PREVIEW_LENGTH),
-            },
-          });
-          this.emit('transcriptionReceived', transcription);
-        })
-        .on('answerReceived', (answer) => {
-          const TEXT_PREVIEW_LENGTH = 50;
-          this.logger.log('Answer received from agent', {
-            source: 'HamsaVoiceAgent',
-            error: {
-              length: answer.length,
-              preview: answer.substring(0, TEXT_PREVIEW_LENGTH),
-            },
-          });
-          this.emit('answerReceived', answer);
-        })
-        .on('speaking', () => {
-          this.logger.log('Agent started speaking', {
-            source: 'HamsaVoiceAgent',
-          });
-          this.emit('speaking');
-        })
-        .on('listening', () => {
-          this.logger.log('Agent started listening', {
-            source: 'HamsaVoiceAgent',
-          });
+    this.logger.log('DTMF digit sent successfully', {
+      source: 'HamsaVoiceAgent',
+      error: { digit, code },
+    });
+
+    // Emit event to notify listeners
+    this.emit('dtmfSent', digit);
+  }
+
+  /**
+   * Gets frequency data from the user's microphone input
+   *
+   * Returns frequency domain data for audio visualization and analysis.
+   * Can be used to create voice activity indicators, audio visualizers,
+   * or advanced voice processing features.
+   *
+   * @returns Uint8Array containing frequency data (0-255 per frequency bin)
+   *
+   * @example
+   * ```typescript
+   * // Create simple audio visualizer
+   * function updateVisualizer() {
+   *   const frequencyData = agent.getInputByteFrequencyData();
+   *   const average = frequencyData.reduce((a, b) => a + b) / frequencyData.length;
+   *   const percentage = Math.round((average / 255) * 100);
+   *   document.getElementById('micLevel').style.width = `${percentage}%`;
+   * }
+   * setInterval(updateVisualizer, 50);
+   * ```
+   */
+  getInputByteFrequencyData(): Uint8Array {
+    return (
+      this.liveKitManager?.audioManager.getInputByteFrequencyData() ??
+      new Uint8Array(0)
+    );
+  }
+
+  /**
+   * Gets frequency data from the agent's audio output
+   *
+   * Returns frequency domain data from the agent's voice for analysis
+   * and visualization. Useful for creating voice characteristic displays
+   * or audio processing features.
+   *
+   * @returns Uint8Array containing frequency data (0-255 per frequency bin)
+   *
+   * @example
+   * ```typescript
+   * // Analyze agent voice characteristics
+   * agent.on('speaking', () => {
+   *   const interval = setInterval(() => {
+   *     const frequencyData = agent.getOutputByteFrequencyData();
+   *     const dominantFreq = findDominantFrequency(frequencyData);
+   *     updateVoiceAnalysis(dominantFreq);
+   *   }, 100);
+   *
+   *   agent.once('listening', () => clearInterval(interval));
+   * });
+   * ```
+   */
+  getOutputByteFrequencyData(): Uint8Array {
+    return (
+      this.liveKitManager?.audioManager.getOutputByteFrequencyData() ??
+      new Uint8Array(0)
+    );
+  }
+
+  /**
+   * Enables real-time audio capture from the conversation
+   *
+   * This method allows clients to receive raw audio data from the agent, user, or both,
+   * enabling use cases like forwarding audio to third-party services, custom recording,
+   * real-time transcription, or audio analysis.
+   *
+   * The audio can be captured in three formats:
+   * - `opus-webm`: Efficient Opus codec in WebM container (default, recommended)
+   * - `pcm-f32`: Raw PCM audio as Float32Array for advanced processing
+   * - `pcm-i16`: Raw PCM audio as Int16Array for compatibility
+   *
+   * @param options - Configuration options for audio capture
+   * @param options.source - Which audio to capture: 'agent' (default), 'user', or 'both'
+   * @param options.format - Audio format to receive (default: 'opus-webm')
+   * @param options.chunkSize - Chunk size in milliseconds for encoded formats (default: 100ms)
+   * @param options.bufferSize - Buffer size in samples for PCM formats (default: 4096)
+   * @param options.callback - Function called with each audio chunk
+   *
+   * @example Forward agent audio to third-party service
+   * ```typescript
+   * // Start capturing agent audio when call begins
+   * agent.on('callStarted', () => {
+   *   agent.enableAudioCapture({
+   *     source: 'agent',
+   *     format: 'opus-webm',
+   *     chunkSize: 100, // 100ms chunks
+   *     callback: (audioData, metadata) => {
+   *       console.log(`Audio from ${metadata.participant}: ${audioData.byteLength} bytes`);
+   *
+   *       // Send to third-party service via WebSocket
+   *       thirdPartyWebSocket.send(audioData);
+   *
+   *       // Or via HTTP
+   *       fetch('https://api.example.com/audio', {
+   *         method: 'POST',
+   *         body: audioData,
+   *         headers: {
+   *           'Content-Type': 'audio/webm',
+   *           'X-Participant': metadata.participant,
+   *           'X-Timestamp': metadata.timestamp.toString()
+   *         }
+   *       });
+   *     }
+   *   });
+   * });
+   * ```
+   *
+   * @example Capture both agent and user for custom processing
+   * ```typescript
+   * agent.enableAudioCapture({
+   *   source: 'both',
+   *   format: 'pcm-f32',
+   *   bufferSize: 4096,
+   *   callback: (audioData, metadata) => {
+   *     const samples = audioData as Float32Array;
+   *
+   *     if (metadata.source === 'agent') {
+   *       // Process agent audio
+   *       analyzeAgentVoice(samples, metadata.sampleRate);
+   *     } else {
+   *       // Process user audio
+   *       analyzeUserVoice(samples, metadata.sampleRate);
+   *     }
+   *
+   *     // Save to custom recorder
+   *     customRecorder.addAudioChunk({
+   *       source: metadata.source,
+   *       samples,
+   *       sampleRate: metadata.sampleRate,
+   *       timestamp: metadata.timestamp
+   *     });
+   *   }
+   * });
+   * ```
+   *
+   * @example Real-time transcription integration
+   * ```typescript
+   * import { AudioCaptureOptions } from '@hamsa-ai/voice-agents-sdk';
+   *
+   * const transcriptionService = new WebSocket('wss://transcription.example.com');
+   *
+   * agent.enableAudioCapture({
+   *   source: 'user',
+   *   format: 'opus-webm',
+   *   chunkSize: 50, // Lower latency for real-time transcription
+   *   callback: (audioData, metadata) => {
+   *     // Forward user audio to transcription service
+   *     transcriptionService.send(JSON.stringify({
+   *       audio: Array.from(new Uint8Array(audioData as ArrayBuffer)),
+   *       timestamp: metadata.timestamp,
+   *       sampleRate: metadata.sampleRate
+   *     }));
+   *   }
+   * });
+   *
+   * transcriptionService.onmessage = (event) => {
+   *   const transcription = JSON.parse(event.data);
+   *   console.log('Real-time transcription:', transcription.text);
+   *   displayUserSpeech(transcription.text);
+   * };
+   * ```
+   */
+  enableAudioCapture(options: AudioCaptureOptions): void {
+    if (!this.liveKitManager) {
+      throw new HamsaError(
+        'NOT_CONNECTED',
+        'Cannot enable audio capture: not connected to agent'
+      );
+    }
+    this.liveKitManager.audioManager.enableAudioCapture(options);
+  }
+
+  /**
+   * Disables audio capture and releases all capture resources
+   *
+   * Stops all active audio capture, cleans up MediaRecorders and audio processors,
+   * and releases associated resources. Safe to call even if audio capture is not enabled.
+   *
+   * @example
+   * ```typescript
+   * // Stop capturing when call ends
+   * agent.on('callEnded', () => {
+   *   agent.disableAudioCapture();
+   *   console.log('Audio capture stopped');
+   * });
+   *
+   * // Or stop manually
+   * stopCaptureButton.addEventListener('click', () => {
+   *   agent.disableAudioCapture();
+   * });
+   * ```
+   */
+  disableAudioCapture(): void {
+    this.liveKitManager?.audioManager.disableAudioCapture();
+  }
+
+  /**
+   * Initiates a new voice agent conversation
+   *
+   * This is the primary method for starting interactions with a voice agent.
+   * It handles authentication, connection establishment, tool registration,
+   * and event forwarding. The method is asynchronous and will emit events
+   * to indicate connection status and conversation progress.
+   *
+   * @param options - Configuration options for the conversation
+   * @param options.agentId - Unique identifier of the voice agent (from Hamsa dashboard)
+   * @param options.params - Parameters to customize the conversation context
+   * @param options.voiceEnablement - Enable voice interactions (default: false for text-only)
+   * @param options.tools - Client-side tools available to the agent
+   * @param options.tokenProvider - Async callback returning server-issued session credentials
+   * @param options.session - Pre-issued session credentials (skips all Hamsa REST calls)
+   *
+   * Failures are reported through the 'error' event and the returned promise
+   * always resolves. Use connect() to await the outcome instead.
+   *
+   * @example Basic voice conversation
+   * ```typescript
+   * agent.on('error', (error) => {
+   *   console.error('Failed to start conversation:', error);
+   *   if (error.retryable) {
+   *     showRetryButton();
+   *   }
+   * });
+   *
+   * await agent.start({
+   *   agentId: 'agent_12345',
+   *   voiceEnablement: true,
+   *   params: {
+   *     userName: 'Alice',
+   *     userTier: 'premium',
+   *     sessionContext: 'product_support'
+   *   }
+   * });
+   * ```
+   *
+   * @example With custom tools
+   * ```typescript
+   * const customerDataTool = {
+   *   function_name: 'getCustomerData',
+   *   description: 'Retrieves customer account information',
+   *   parameters: [
+   *     { name: 'customerId', type: 'string', description: 'Customer ID' }
+   *   ],
+   *   required: ['customerId'],
+   *   fn: async (customerId) => {
+   *     return await customerAPI.getProfile(customerId);
+   *   }
+   * };
+   *
+   * await agent.start({
+   *   agentId: 'support_agent',
+   *   voiceEnablement: true,
+   *   tools: [customerDataTool],
+   *   params: { department: 'billing' }
+   * });
+   * ```
+   *
+   * @example Event handling
+   * ```typescript
+   * // Set up event listeners before starting
+   * agent.on('callStarted', () => {
+   *   console.log('Conversation began');
+   *   startRecordingMetrics();
+   * });
+   *
+   * agent.on('error', (error) => {
+   *   console.error('Conversation error:', error);
+   *   handleConversationError(error);
+   * });
+   *
+   * await agent.start({ agentId: 'my_agent', voiceEnablement: true });
+   * ```
+   *
+   * @example Server-issued token mode
+   * ```typescript
+   * // Your backend mints the session; the API key never reaches the browser
+   * const agent = new HamsaVoiceAgent(null);
+   *
+   * await agent.start({
+   *   agentId: 'my_agent',
+   *   voiceEnablement: true,
+   *   tokenProvider: async () => {
+   *     const res = await fetch('/api/hamsa-session', { method: 'POST' });
+   *     return res.json(); // { liveKitAccessToken, jobId }
+   *   }
+   * });
+   * ```
+   */
+  async start(options: StartOptions): Promise<void> {
+    try {
+      await this.#startCall(options);
+    } catch (error) {
+      this.#reportStartError(error);
+    }
+  }
+
+  /**
+   * Starts a voice agent conversation and waits until it is live
+   *
+   * Takes the same options as start(), but the returned promise settles with
+   * the outcome: it resolves once the room is connected and the agent has
+   * joined, and rejects with a HamsaError otherwise. Unlike start(), failures
+   * are not emitted as 'error' events, except for LiveKit connection errors,
+   * which are also emitted like any other connection error.
+   *
+   * @param options - start() options plus an optional agentJoinTimeout
+   * @returns Descriptor of the established call
+   * @throws {HamsaError} When the session cannot be created, the room cannot be
+   * joined (CONNECTION_FAILED) or the agent does not join in time (AGENT_UNAVAILABLE)
+   *
+   * @example
+   * ```typescript
+   * try {
+   *   const { jobId, roomName, agentIdentity } = await agent.connect({
+   *     agentId: 'my_agent',
+   *     voiceEnablement: true,
+   *   });
+   *   console.log(`Talking to ${agentIdentity} in ${roomName} (job ${jobId})`);
+   * } catch (error) {
+   *   if (error instanceof HamsaError && error.retryable) {
+   *     showRetryButton();
+   *   }
+   * }
+   * ```
+   */
+  async connect({
+    agentJoinTimeout = AGENT_JOIN_TIMEOUT_MS,
+    ...options
+  }: ConnectOptions): Promise<CallSession> {
+    if (!(await this.#startCall(options))) {
+      throw new HamsaError(
+        'INVALID_CALL_STATE',
+        'The call was ended before it connected'
+      );
+    }
+
+    const room = this.liveKitManager?.connection.room;
+    try {
+      const agentIdentity = await this.#waitForAgent(agentJoinTimeout);
+      return {
+        jobId: this.jobId,
+        roomName: room?.name ?? '',
+        agentIdentity,
+      };
+    } catch (error) {
+      // Do not leave a half-started call behind when the agent never shows up
+      this.end();
+      throw error;
+    }
+  }
+
+  /**
+   * Creates the session, connects to the room and emits callStarted.
+   * @private
+   * @returns false when end() cancelled the attempt, which is then dropped
+   * without an error
+   * @throws {HamsaError} When any step fails
+   */
+  // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: Method sets up multiple event listeners with logging - refactoring would split event handling logic
+  async #startCall({
+    agentId,
+    params = {},
+    voiceEnablement = false,
+    tools = [],
+    userId,
+    preferHeadphonesForIosDevices = false,
+    connectionDelay,
+    disableWakeLock = false,
+    onAudioData,
+    captureAudio,
+    avatarContainerSelector,
+    tokenProvider,
+    session,
+    audio = {},
+    audioProcessors = [],
+    pushToTalk = false,
+    halfDuplex = false,
+    voiceActivity = false,
+  }: StartOptions): Promise<boolean> {
+    // Moving state synchronously rejects a second start() before any await
+    this.#transitionTo('fetching-token');
+    this.startAttempts += 1;
+    const attempt = this.startAttempts;
+    this.activeStartAttempt = attempt;
+    this.reportedStartError = null;
+    this.wakeLockDisabled = disableWakeLock;
+    this.userId = userId ?? null;
+    this.transcript.reset(this.userId);
+    this.preferHeadphones =
+      preferHeadphonesForIosDevices && getDevicePlatform() === 'ios';
+    this.audioRoute = null;
+    try {
+      this.logger.log('SDK initialized - disconnect debugging enabled', {
+        source: 'HamsaVoiceAgent',
+      });
+
+      // Reset user-initiated end flag for new call
+      this.userInitiatedEnd = false;
+      this.lastUserActivitySentAt.clear();
+      const audioConstraints = this.#validateAudioConstraints(audio);
+      this.#assertAudioProcessors(audioProcessors);
+      this.pushToTalkOptions = pushToTalk
+        ? this.#validatePushToTalkOptions(pushToTalk === true ? {} : pushToTalk)
+        : null;
+      // Calls start unmuted
+      this.mutedBeforePushToTalk = false;
+      this.halfDuplexOptions = halfDuplex
+        ? this.#validateHalfDuplexOptions(halfDuplex === true ? {} : halfDuplex)
+        : null;
+      this.voiceActivityOptions = voiceActivity
+        ? this.#validateVoiceActivityOptions(
+            voiceActivity === true ? {} : voiceActivity
+          )
+        : null;
+
+      // Get LiveKit access token
+      this.logger.log('Starting conversation initialization', {
+        source: 'HamsaVoiceAgent',
+        error: {
+          agentId,
+          voiceEnablement,
+          toolsCount: tools?.length ?? 0,
+          hasParams: Object.keys(params).length > 0,
+          serverIssuedToken: !!(session || tokenProvider),
+        },
+      });
+
+      const accessToken =
+        session || tokenProvider
+          ? await this.#resolveIssuedSession(agentId, session, tokenProvider)
+          : await this.#initializeLiveKitConversation(
+              agentId,
+              params,
+              voiceEnablement,
+              tools
+            );
+      this.#assertCurrentStartAttempt(attempt);
+      this.#transitionTo('connecting');
+
+      const devices = await this.#resolveAudioDevices();
+      this.#assertCurrentStartAttempt(attempt);
+      const delay = this.#getConnectionDelay(connectionDelay);
+      if (delay > 0) {
+        await this.#prepareAudioSession(
+          delay,
+          voiceEnablement
+            ? this.#getCaptureConstraints(devices, audioConstraints)
+            : null
+        );
+        this.#assertCurrentStartAttempt(attempt);
+      }
+
+      // Create LiveKitManager instance
+      this.logger.log('Creating LiveKitManager instance', {
+        source: 'HamsaVoiceAgent',
+        error: {
+          livekitUrl: this.LIVEKIT_URL,
+          tokenLength: accessToken.length,
+          debug: this.debug,
+        },
+      });
+
+      this.liveKitManager = new LiveKitManager(
+        this.LIVEKIT_URL,
+        accessToken,
+        tools,
+        {
+          debug: this.debug,
+          avatarContainerSelector,
+          devices,
+          audioConstraints,
+          audioProcessors,
+          transcript: this.transcript,
+        }
+      );
+
+      this.logger.log('LiveKitManager created, setting up event listeners', {
+        source: 'HamsaVoiceAgent',
+      });
+
+      // Set up event listeners to forward LiveKitManager events
+      this.liveKitManager
+        .on('error', (error) => {
+          this.logger.error('LiveKitManager error event', {
+            source: 'HamsaVoiceAgent',
+            error,
+          });
+          if (this.listenerCount('error') > 0) {
+            this.emit('error', error);
+          }
+        })
+        .on('connected', () => {
+          this.logger.log('LiveKit connection established', {
+            source: 'HamsaVoiceAgent',
+          });
+          this.transcript.markCallStarted();
+
+          // Set up audio capture if requested
+          // Level 2 API takes priority over Level 1 if both are provided
+          if (captureAudio) {
+            // Level 2 API: Advanced captureAudio options
+            this.logger.log('Enabling audio capture via captureAudio options', {
+              source: 'HamsaVoiceAgent',
+              error: {
+                source: captureAudio.source,
+                format: captureAudio.format,
+              },
+            });
+            this.liveKitManager?.audioManager.enableAudioCapture(captureAudio);
+          } else if (onAudioData) {
+            // Level 1 API: Simple onAudioData callback
+            this.logger.log('Enabling audio capture via onAudioData', {
+              source: 'HamsaVoiceAgent',
+            });
+            this.liveKitManager?.audioManager.enableAudioCapture({
+              source: 'agent',
+              format: 'opus-webm',
+              chunkSize: 100,
+              callback: onAudioData,
+            });
+          }
+
+          if (this.pushToTalkOptions) {
+            this.liveKitManager?.audioManager.enablePushToTalk(
+              this.pushToTalkOptions
+            );
+          }
+          if (this.halfDuplexOptions) {
+            this.liveKitManager?.audioManager.enableHalfDuplex(
+              this.halfDuplexOptions
+            );
+          }
+          if (this.voiceActivityOptions) {
+            this.liveKitManager?.audioManager.enableVoiceActivityDetection(
+              this.voiceActivityOptions
+            );
+          }
+
+          this.emit('start');
+        })
+        .on('transcriptionReceived', (transcription) => {
+          const TEXT_PREVIEW_LENGTH = 50;
+          this.logger.log('Transcription received from user', {
+            source: 'HamsaVoiceAgent',
+            error: {
+              length: transcription.length,
+              preview: transcription.substring(0, TEXT_PREVIEW_LENGTH),
+            },
+          });
+          this.emit('transcriptionReceived', transcription);
+        })
+        .on('answerReceived', (answer) => {
+          const TEXT_PREVIEW_LENGTH = 50;
+          this.logger.log('Answer received from agent', {
+            source: 'HamsaVoiceAgent',
+            error: {
+              length: answer.length,
+              preview: answer.substring(0, TEXT_PREVIEW_LENGTH),
+            },
+          });
+          this.emit('answerReceived', answer);
+        })
+        .on('transcriptionUpdated', (segment) =>
+          this.emit('transcriptionUpdated', segment)
+        )
+        .on('transcriptionFinalized', (segment) =>
+          this.emit('transcriptionFinalized', segment)
+        )
+        .on('speaking', () => {
+          this.logger.log('Agent started speaking', {
+            source: 'HamsaVoiceAgent',
+          });
+          this.emit('speaking');
+        })
+        .on('listening', () => {
+          this.logger.log('Agent started listening', {
+            source: 'HamsaVoiceAgent',
+          });
           this.emit('listening');
         })
         .on('disconnected', () => {
@@ -1303,6 +2316,9 @@ class HamsaVoiceAgent extends EventEmitter {
               },
             }
           );
+          if (this.#canTransitionTo('ended')) {
+            this.#transitionTo('ended');
+          }
           // Always emit callEnded when connection ends
           this.emit('callEnded');
           const closedEventTime = Date.now();
@@ -1332,1085 +2348,1744 @@ class HamsaVoiceAgent extends EventEmitter {
           this.logger.log('Track unsubscribed', {
             source: 'HamsaVoiceAgent',
             error: {
-              kind: data.track?.kind,
-              trackSid: data.track?.sid,
+              kind: data.track?.kind,
+              trackSid: data.track?.sid,
+              participant: data.participant,
+            },
+          });
+          this.emit('trackUnsubscribed', data);
+        })
+        .on('localTrackPublished', (data) => {
+          this.logger.log('Local track published', {
+            source: 'HamsaVoiceAgent',
+            error: {
+              kind: data.publication?.kind,
+              trackSid: data.publication?.trackSid,
+            },
+          });
+          this.emit('localTrackPublished', data);
+        })
+        .on('info', (info) => {
+          this.logger.log('Info message received', {
+            source: 'HamsaVoiceAgent',
+            error: { info },
+          });
+          this.emit('info', info);
+        })
+
+        // Forward new analytics events
+        .on('reconnecting', () => {
+          this.logger.warn('Connection reconnecting', {
+            source: 'HamsaVoiceAgent',
+          });
+          if (this.#canTransitionTo('reconnecting')) {
+            this.#transitionTo('reconnecting');
+          }
+          this.emit('reconnecting');
+        })
+        .on('reconnected', () => {
+          this.logger.log('Connection reconnected successfully', {
+            source: 'HamsaVoiceAgent',
+          });
+          if (this.callState === 'reconnecting') {
+            this.#transitionTo(
+              this.liveKitManager?.connection.isPaused
+                ? 'paused'
+                : this.#getConnectedCallState()
+            );
+          }
+          this.emit('reconnected');
+        })
+        .on('participantConnected', (participant) => {
+          this.logger.log('Participant connected', {
+            source: 'HamsaVoiceAgent',
+            error: {
+              identity: participant.identity,
+              sid: participant.sid,
+            },
+          });
+          if (participant.isAgent && this.callState === 'waiting-for-agent') {
+            this.#transitionTo('active');
+          }
+          this.emit('participantConnected', participant);
+        })
+        .on('participantDisconnected', (participant) => {
+          this.logger.log('Participant disconnected', {
+            source: 'HamsaVoiceAgent',
+            error: {
+              identity: participant.identity,
+              sid: participant.sid,
+              hasAgentInIdentity: participant.identity?.includes('agent'),
+              remainingCount:
+                this.liveKitManager?.connection.participants.size ?? 0,
+            },
+          });
+
+          this.emit('participantDisconnected', participant);
+        })
+        .on('agentStateChanged', (state) => {
+          this.logger.log('Agent state changed', {
+            source: 'HamsaVoiceAgent',
+            error: { state },
+          });
+          // The answer is over once the agent stops speaking and waits for the user
+          if (state === 'listening' || state === 'idle') {
+            this.transcript.endTurn('agent');
+          }
+          this.emit('agentStateChanged', state);
+        })
+        .on('connectionQualityChanged', (data) => {
+          this.logger.log('Connection quality changed', {
+            source: 'HamsaVoiceAgent',
+            error: {
+              quality: data.quality,
               participant: data.participant,
             },
           });
-          this.emit('trackUnsubscribed', data);
+          this.emit('connectionQualityChanged', data);
         })
-        .on('localTrackPublished', (data) => {
-          this.logger.log('Local track published', {
+        .on('connectionStateChanged', (state) => {
+          this.logger.log('Connection state changed', {
             source: 'HamsaVoiceAgent',
-            error: {
-              kind: data.publication?.kind,
-              trackSid: data.publication?.trackSid,
-            },
+            error: { state },
           });
-          this.emit('localTrackPublished', data);
+          this.emit('connectionStateChanged', state);
         })
-        .on('info', (info) => {
-          this.logger.log('Info message received', {
+        .on('audioPlaybackChanged', (playing) => {
+          this.logger.log('Audio playback state changed', {
             source: 'HamsaVoiceAgent',
-            error: { info },
+            error: { playing },
           });
-          this.emit('info', info);
+          this.emit('audioPlaybackChanged', playing);
         })
-
-        // Forward new analytics events
-        .on('reconnecting', () => {
-          this.logger.warn('Connection reconnecting', {
+        .on('micMuted', () => {
+          this.logger.log('Microphone muted', {
             source: 'HamsaVoiceAgent',
           });
-          this.emit('reconnecting');
+          this.emit('micMuted');
         })
-        .on('reconnected', () => {
-          this.logger.log('Connection reconnected successfully', {
+        .on('micUnmuted', () => {
+          this.logger.log('Microphone unmuted', {
             source: 'HamsaVoiceAgent',
           });
-          this.emit('reconnected');
+          this.emit('micUnmuted');
         })
-        .on('participantConnected', (participant) => {
-          this.logger.log('Participant connected', {
+        .on('microphoneLost', () => {
+          this.logger.warn('Microphone lost', {
             source: 'HamsaVoiceAgent',
-            error: {
-              identity: participant.identity,
-              sid: participant.sid,
-            },
           });
-          this.emit('participantConnected', participant);
+          this.emit('microphoneLost');
         })
-        .on('participantDisconnected', (participant) => {
-          this.logger.log('Participant disconnected', {
+        .on('microphoneRecovered', (deviceId) => {
+          this.logger.log('Microphone recovered', {
+            source: 'HamsaVoiceAgent',
+            error: { deviceId },
+          });
+          this.emit('microphoneRecovered', deviceId);
+        })
+        .on('devicesChanged', () => {
+          this.#emitDevicesChanged();
+        })
+        .on('pttStateChanged', (state) => this.emit('pttStateChanged', state))
+        .on('micGateChanged', (gated) => this.emit('micGateChanged', gated))
+        .on('userSpeechStarted', (data) => this.emit('userSpeechStarted', data))
+        .on('userSpeechEnded', (data) => this.emit('userSpeechEnded', data))
+        .on('pttTurnEnded', () => {
+          this.#sendUserTurnEnded();
+        })
+        .on('analyticsUpdated', (analytics) =>
+          this.emit('analyticsUpdated', this.#withUserId(analytics))
+        )
+        .on('customEvent', (eventType, eventData, metadata) =>
+          this.emit('customEvent', eventType, eventData, metadata)
+        )
+        .on('dataReceived', (message, participant) =>
+          this.emit('dataReceived', message, participant)
+        )
+        .on('toolsRegistered', (registeredTools) =>
+          // The registry only types the fields it reads; these are the tools passed to start()
+          this.emit('toolsRegistered', registeredTools as Tool[])
+        )
+        .on('rpcError', (functionName, error) =>
+          this.emit('rpcError', functionName, error)
+        );
+
+      // Connect to LiveKit room
+      this.logger.log('Connecting to LiveKit room', {
+        source: 'HamsaVoiceAgent',
+        error: {
+          livekitUrl: this.LIVEKIT_URL,
+        },
+      });
+      const connectStart = Date.now();
+      // Connection failures are emitted rather than thrown; capture them to fail the start
+      let connectionError: HamsaError | null = null;
+      const captureConnectionError = (error: HamsaError) => {
+        connectionError = error;
+      };
+      this.liveKitManager.connection.once(
+        'connectionError',
+        captureConnectionError
+      );
+      try {
+        await this.liveKitManager.connect();
+      } finally {
+        this.liveKitManager.connection.off(
+          'connectionError',
+          captureConnectionError
+        );
+      }
+      this.#assertCurrentStartAttempt(attempt);
+      if (!this.liveKitManager.isConnected) {
+        // Already forwarded as an 'error' event by the connection listeners
+        this.reportedStartError = connectionError;
+        throw (
+          connectionError ??
+          new HamsaConnectionError(
+            'CONNECTION_FAILED',
+            'LiveKit connection failed'
+          )
+        );
+      }
+      // Fails if end() was called while joining the room
+      this.#transitionTo(this.#getConnectedCallState());
+      this.#publishUserIdAttribute();
+      const connectDuration = Date.now() - connectStart;
+      this.logger.log('Connected to LiveKit room', {
+        source: 'HamsaVoiceAgent',
+        error: {
+          duration: `${connectDuration}ms`,
+        },
+      });
+
+      // Acquire the screen wake lock when the call starts
+      if (disableWakeLock) {
+        this.logger.log('Screen wake lock disabled by start options', {
+          source: 'HamsaVoiceAgent',
+        });
+      } else {
+        this.logger.log('Acquiring screen wake lock', {
+          source: 'HamsaVoiceAgent',
+        });
+        try {
+          await this.wakeLockManager.acquire();
+          this.logger.log('Screen wake lock acquired successfully', {
+            source: 'HamsaVoiceAgent',
+          });
+        } catch (error) {
+          this.logger.warn('Failed to acquire screen wake lock', {
             source: 'HamsaVoiceAgent',
             error: {
-              identity: participant.identity,
-              sid: participant.sid,
-              hasAgentInIdentity: participant.identity?.includes('agent'),
-              remainingCount:
-                this.liveKitManager?.connection.participants.size ?? 0,
+              error: error instanceof Error ? error.message : String(error),
             },
           });
+        }
+      }
+      this.#assertCurrentStartAttempt(attempt);
+      this.logger.log('Call started successfully', {
+        source: 'HamsaVoiceAgent',
+        error: {
+          totalStartupTime: `${Date.now() - connectStart}ms`,
+          jobId: this.jobId,
+        },
+      });
+      this.emit('callStarted', { jobId: this.jobId ?? '' });
+      return true;
+    } catch (error) {
+      if (this.activeStartAttempt !== attempt) {
+        this.logger.log('Dropped start() cancelled by end()', {
+          source: 'HamsaVoiceAgent',
+          error: { attempt },
+        });
+        // A newer start() owns the call state; otherwise finish the cancellation
+        if (
+          this.activeStartAttempt === null &&
+          this.#canTransitionTo('ended')
+        ) {
+          this.#transitionTo('ended');
+        }
+        return false;
+      }
+      this.logger.error('Failed to start call', {
+        source: 'HamsaVoiceAgent',
+        error: {
+          message: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+          isHamsaApiError: error instanceof HamsaApiError,
+        },
+      });
+      if (this.#canTransitionTo('ended')) {
+        this.#transitionTo('ended');
+      }
+      throw HamsaError.from(error, 'CALL_START_FAILED');
+    }
+  }
+
+  /**
+   * Stops a start() attempt once end() has cancelled it.
+   * @private
+   * @throws {HamsaError} INVALID_CALL_STATE when the attempt was cancelled
+   */
+  #assertCurrentStartAttempt(attempt: number): void {
+    if (this.activeStartAttempt !== attempt) {
+      throw new HamsaError(
+        'INVALID_CALL_STATE',
+        'start() was cancelled by end()'
+      );
+    }
+  }
+
+  /**
+   * Emits a start() failure as an 'error' event unless it was already reported.
+   * @private
+   */
+  #reportStartError(error: unknown): void {
+    if (error === this.reportedStartError) {
+      return;
+    }
+
+    if (this.listenerCount('error') > 0) {
+      // Forward HamsaApiError instances directly to preserve messageKey
+      if (error instanceof HamsaApiError) {
+        this.emit('error', error);
+      } else {
+        // For other errors, wrap with context and keep any specific code
+        this.emit(
+          'error',
+          HamsaError.from(
+            error,
+            'CALL_START_FAILED',
+            `Failed to start call: ${getErrorMessage(error)}`
+          )
+        );
+      }
+    }
+  }
+
+  /**
+   * Terminates the current voice agent conversation
+   *
+   * Safely ends the conversation, disconnects from the WebRTC session,
+   * releases system resources (including screen wake lock), and performs
+   * cleanup. This method should be called when the conversation is complete.
+   *
+   * @example
+   * ```typescript
+   * // End conversation when user clicks hang up
+   * hangupButton.addEventListener('click', () => {
+   *   agent.end();
+   * });
+   *
+   * // End conversation after timeout
+   * setTimeout(() => {
+   *   agent.end();
+   *   console.log('Conversation ended due to timeout');
+   * }, 300000); // 5 minutes
+   *
+   * // Listen for end event
+   * agent.on('callEnded', () => {
+   *   console.log('Conversation terminated');
+   *   updateUI('disconnected');
+   *   saveConversationSummary();
+   * });
+   * ```
+   */
+  end(): void {
+    const endStartTime = Date.now();
+    this.logger.log('end() called - START DISCONNECT TIMING', {
+      source: 'HamsaVoiceAgent',
+      error: {
+        timestamp: endStartTime,
+        userInitiatedEnd: this.userInitiatedEnd,
+        isConnected: this.liveKitManager?.isConnected ?? false,
+        stack: new Error('Stack trace').stack,
+      },
+    });
+
+    // A start() still in progress is dropped at its next step, without an error
+    this.activeStartAttempt = null;
+    if (this.callState === 'fetching-token') {
+      // No room joined yet: nothing to disconnect
+      this.#transitionTo('ended');
+    } else if (this.#canTransitionTo('ending')) {
+      this.#transitionTo('ending');
+    }
+
+    // Perform disconnect asynchronously but don't block
+    this.#performDisconnect(endStartTime)
+      .then(() => {
+        const endCompleteTime = Date.now();
+        this.logger.log('end() completed - END DISCONNECT TIMING', {
+          source: 'HamsaVoiceAgent',
+          error: {
+            timestamp: endCompleteTime,
+            totalDuration: endCompleteTime - endStartTime,
+          },
+        });
+      })
+      .catch((error) => {
+        this.#handleEndError(error, endStartTime);
+      });
+
+    this.#releaseWakeLock();
+  }
+
+  /**
+   * Performs the disconnect operation with timing logs
+   * @private
+   */
+  async #performDisconnect(endStartTime: number): Promise<void> {
+    if (!this.liveKitManager) {
+      return;
+    }
+
+    this.userInitiatedEnd = true;
+
+    const disconnectCallTime = Date.now();
+    this.logger.log('Calling liveKitManager.disconnect()', {
+      source: 'HamsaVoiceAgent',
+      error: {
+        timestamp: disconnectCallTime,
+        timeSinceEndCalled: disconnectCallTime - endStartTime,
+      },
+    });
+
+    await this.liveKitManager.disconnect();
+
+    const afterDisconnectCallTime = Date.now();
+    this.logger.log('liveKitManager.disconnect() completed', {
+      source: 'HamsaVoiceAgent',
+      error: {
+        timestamp: afterDisconnectCallTime,
+        disconnectCallDuration: afterDisconnectCallTime - disconnectCallTime,
+      },
+    });
+
+    if (this.#canTransitionTo('ended')) {
+      this.#transitionTo('ended');
+    }
+    this.transcript.endTurn('agent');
+    this.emit('callEnded');
+
+    const afterCallEndedTime = Date.now();
+    this.logger.log('callEnded event emitted', {
+      source: 'HamsaVoiceAgent',
+      error: {
+        timestamp: afterCallEndedTime,
+        totalTimeInEndMethod: afterCallEndedTime - endStartTime,
+      },
+    });
+  }
 
-          this.emit('participantDisconnected', participant);
-        })
-        .on('agentStateChanged', (state) => {
-          this.logger.log('Agent state changed', {
-            source: 'HamsaVoiceAgent',
-            error: { state },
-          });
-          this.emit('agentStateChanged', state);
-        })
-        .on('connectionQualityChanged', (data) => {
-          this.logger.log('Connection quality changed', {
-            source: 'HamsaVoiceAgent',
-            error: {
-              quality: data.quality,
-              participant: data.participant,
-            },
-          });
-          this.emit('connectionQualityChanged', data);
-        })
-        .on('connectionStateChanged', (state) => {
-          this.logger.log('Connection state changed', {
-            source: 'HamsaVoiceAgent',
-            error: { state },
-          });
-          this.emit('connectionStateChanged', state);
-        })
-        .on('audioPlaybackChanged', (playing) => {
-          this.logger.log('Audio playback state changed', {
-            source: 'HamsaVoiceAgent',
-            error: { playing },
-          });
-          this.emit('audioPlaybackChanged', playing);
-        })
-        .on('micMuted', () => {
-          this.logger.log('Microphone muted', {
-            source: 'HamsaVoiceAgent',
-          });
-          this.emit('micMuted');
-        })
-        .on('micUnmuted', () => {
-          this.logger.log('Microphone unmuted', {
-            source: 'HamsaVoiceAgent',
-          });
-          this.emit('micUnmuted');
-        })
-        .on('analyticsUpdated', (analytics) =>
-          this.emit('analyticsUpdated', analytics)
-        )
-        .on('customEvent', (eventType, eventData, metadata) =>
-          this.emit('customEvent', eventType, eventData, metadata)
-        )
-        .on('dataReceived', (message, participant) =>
-          this.emit('dataReceived', message, participant)
-        )
-        .on('toolsRegistered', (registeredTools) =>
-          this.emit('toolsRegistered', registeredTools)
-        )
-        .on('rpcError', (functionName, error) =>
-          this.emit('rpcError', functionName, error)
+  /**
+   * Releases the screen wake lock
+   * @private
+   */
+  #releaseWakeLock(): void {
+    // Released even when inactive: a lock dropped by the browser while the tab
+    // was hidden would otherwise be re-acquired on the next visibility change
+    this.wakeLockManager?.release().catch((_err) => {
+      // Intentionally ignore wake lock release errors
+    });
+  }
+
+  /**
+   * Handles errors that occur during end()
+   * @private
+   */
+  #handleEndError(error: unknown, endStartTime: number): void {
+    this.logger.error('end() threw error', {
+      source: 'HamsaVoiceAgent',
+      error: {
+        error: error instanceof Error ? error.message : String(error),
+        timeSinceStart: Date.now() - endStartTime,
+      },
+    });
+
+    if (this.listenerCount('error') > 0) {
+      if (error instanceof HamsaApiError) {
+        this.emit('error', error);
+      } else {
+        this.emit(
+          'error',
+          HamsaError.from(
+            error,
+            'CALL_END_FAILED',
+            `Failed to end call: ${getErrorMessage(error)}`
+          )
         );
+      }
+    }
+  }
 
-      // Connect to LiveKit room
-      this.logger.log('Connecting to LiveKit room', {
-        source: 'HamsaVoiceAgent',
-        error: {
-          livekitUrl: this.LIVEKIT_URL,
-        },
-      });
-      const connectStart = Date.now();
-      await this.liveKitManager.connect();
-      const connectDuration = Date.now() - connectStart;
-      this.logger.log('Connected to LiveKit room', {
-        source: 'HamsaVoiceAgent',
-        error: {
-          duration: `${connectDuration}ms`,
-        },
-      });
+  /**
+   * Temporarily pauses the voice agent conversation
+   *
+   * Pauses audio transmission and reception while maintaining the underlying
+   * connection. The conversation can be resumed later using resume(). This
+   * is useful for temporary interruptions without ending the entire session.
+   *
+   * @example
+   * ```typescript
+   * // Pause when user needs to take another call
+   * pauseButton.addEventListener('click', () => {
+   *   agent.pause();
+   *   console.log('Conversation paused');
+   * });
+   *
+   * // Auto-pause after period of silence
+   * let silenceTimeout;
+   * agent.on('listening', () => {
+   *   silenceTimeout = setTimeout(() => {
+   *     agent.pause();
+   *     showResumePrompt();
+   *   }, 60000); // 1 minute of silence
+   * });
+   *
+   * agent.on('speaking', () => {
+   *   clearTimeout(silenceTimeout);
+   * });
+   *
+   * // Listen for pause event
+   * agent.on('callPaused', () => {
+   *   showPausedIndicator();
+   *   disableMicrophone();
+   * });
+   * ```
+   */
+  pause(): void {
+    if (this.callState !== 'waiting-for-agent' && this.callState !== 'active') {
+      this.#reportInvalidCallState('pause the call');
+      return;
+    }
+    if (this.liveKitManager) {
+      this.#transitionTo('paused');
+      this.liveKitManager.pause();
+      // A held talk key must not reopen the paused microphone
+      this.liveKitManager.audioManager.disablePushToTalk();
+      // Release screen wake lock during pause to allow device sleep
+      this.#releaseWakeLock();
+      this.transcript.addSystemEvent('Call paused');
+      this.emit('callPaused');
+    }
+  }
 
-      // Acquire the screen wake lock when the call starts
-      this.logger.log('Acquiring screen wake lock', {
-        source: 'HamsaVoiceAgent',
-      });
+  /**
+   * Resumes a paused voice agent conversation
+   *
+   * Restores audio transmission and reception, continuing the conversation
+   * from where it was paused. Re-acquires screen wake lock to prevent
+   * device sleep during active conversation.
+   *
+   * @example
+   * ```typescript
+   * // Resume when user is ready to continue
+   * resumeButton.addEventListener('click', () => {
+   *   agent.resume();
+   *   console.log('Conversation resumed');
+   * });
+   *
+   * // Resume automatically after user interaction
+   * document.addEventListener('click', () => {
+   *   if (agent.isPaused) {
+   *     agent.resume();
+   *   }
+   * });
+   *
+   * // Listen for resume event
+   * agent.on('callResumed', () => {
+   *   hidePausedIndicator();
+   *   enableMicrophone();
+   *   showActiveIndicator();
+   * });
+   * ```
+   */
+  resume(): void {
+    if (this.callState !== 'paused') {
+      this.#reportInvalidCallState('resume the call');
+      return;
+    }
+    if (this.liveKitManager) {
+      this.#transitionTo(this.#getConnectedCallState());
+      this.liveKitManager.resume();
+      if (this.pushToTalkOptions) {
+        this.liveKitManager.audioManager.enablePushToTalk(
+          this.pushToTalkOptions
+        );
+      }
+      // Re-acquire screen wake lock during active conversation
+      if (!this.wakeLockDisabled) {
+        this.wakeLockManager.acquire().catch((_err) => {
+          // Intentionally ignore wake lock acquisition errors
+        });
+      }
+      this.transcript.addSystemEvent('Call resumed');
+      this.emit('callResumed');
+    }
+  }
+
+  /**
+   * Returns the transcript of the current call, or of the last call once it
+   * has ended
+   *
+   * Turns are in order: user and agent speech, client-side tool calls, and
+   * call events such as pauses and interruptions. Speech is merged from the
+   * LiveKit transcription and the agent's data messages, so each sentence
+   * appears once, and a turn's text grows while it is transcribed. start()
+   * clears the transcript.
+   *
+   * @returns Copy of the turns, with times in milliseconds since the call started
+   *
+   * @example
+   * ```typescript
+   * agent.on('callEnded', () => {
+   *   for (const turn of agent.getTranscript()) {
+   *     console.log(`[${turn.startMs}ms] ${turn.role}: ${turn.text}`);
+   *   }
+   * });
+   *
+   * // Or follow it live
+   * agent.on('transcriptChanged', (turns) => renderTranscript(turns));
+   * ```
+   */
+  getTranscript(): TranscriptTurn[] {
+    return this.transcript.getTurns();
+  }
+
+  /**
+   * Exports the transcript of the current or last call
+   *
+   * - `'webvtt'` and `'srt'`: captions with one cue per transcribed segment,
+   *   timed from when LiveKit delivered it, with the speaker's label
+   * - `'text'` and `'markdown'`: one line per turn, including tool calls and
+   *   call events
+   * - `'json'`: a TranscriptExport document with the job ID, the turns, their
+   *   segment timings and the tool calls
+   *
+   * @param format - Output format
+   * @returns The transcript in the requested format
+   * @throws {HamsaError} INVALID_ARGUMENT for an unknown format
+   *
+   * @example
+   * ```typescript
+   * agent.on('callEnded', async () => {
+   *   const captions = agent.exportTranscript('webvtt');
+   *   await uploadCaptions(agent.getJobId(), captions);
+   * });
+   * ```
+   */
+  exportTranscript(format: TranscriptExportFormat): string {
+    if (!TRANSCRIPT_EXPORT_FORMATS.includes(format)) {
+      throw new HamsaError(
+        'INVALID_ARGUMENT',
+        `format must be one of ${TRANSCRIPT_EXPORT_FORMATS.join(', ')}`
+      );
+    }
+    return formatTranscript(this.transcript.getTurns(), format, {
+      jobId: this.jobId,
+    });
+  }
+
+  /**
+   * Retrieves job details from the Hamsa API using the stored jobId.
+   * Retries with exponential backoff while the error is retryable, e.g. the
+   * job has not completed yet or the API cannot be reached.
+   * @param maxRetries - Maximum number of retry attempts.
+   * @param initialRetryInterval - Initial delay between retries in milliseconds.
+   * @param backoffFactor - Factor by which the retry interval increases each attempt.
+   * @returns Job details object.
+   * @throws {HamsaError} AUTH_MISSING_KEY without an apiKey, e.g. when the
+   * session was issued by a backend through tokenProvider or session; fetch
+   * the job details on the backend instead
+   * @throws {HamsaApiError} JOB_NOT_FOUND when the API does not know the job,
+   * AUTH_INVALID_KEY when the apiKey is rejected
+   */
+  async getJobDetails(
+    maxRetries = 5,
+    initialRetryInterval = 1000,
+    backoffFactor = 2
+  ): Promise<JobDetails> {
+    if (!this.apiKey) {
+      throw new HamsaError(
+        'AUTH_MISSING_KEY',
+        'Cannot fetch job details: an apiKey is required. In token mode, fetch job details on your backend instead.'
+      );
+    }
+
+    if (!this.jobId) {
+      throw new HamsaError(
+        'NOT_CONNECTED',
+        'Cannot fetch job details: jobId is not set. Start a conversation first.'
+      );
+    }
+
+    const url = `${this.API_URL}/v1/voice-agents/conversation/${this.jobId}`;
+    const headers = {
+      Authorization: `Token ${this.apiKey}`,
+      'Content-Type': 'application/json',
+    };
+    const params = new URLSearchParams({ jobId: this.jobId });
+
+    let currentInterval = initialRetryInterval;
+
+    const fetchJobDetails = async (attempt = 1): Promise<JobDetails> => {
       try {
-        await this.wakeLockManager.acquire();
-        this.logger.log('Screen wake lock acquired successfully', {
-          source: 'HamsaVoiceAgent',
+        const response = await fetch(`${url}?${params.toString()}`, {
+          method: 'GET',
+          headers,
         });
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new HamsaApiError(
+            `API Error: ${response.status} ${response.statusText} - ${errorText}`,
+            undefined,
+            { status: response.status, notFoundCode: 'JOB_NOT_FOUND' }
+          );
+        }
+        const data = await response.json();
+        // Check if the job status is COMPLETED
+        if (data.data.status === 'COMPLETED') {
+          return this.#withUserId(data.data as JobDetails);
+        }
+        throw new HamsaApiError(
+          `Job status is not COMPLETED: ${data.data.status}`,
+          undefined,
+          { code: 'JOB_NOT_COMPLETED' }
+        );
       } catch (error) {
-        this.logger.warn('Failed to acquire screen wake lock', {
-          source: 'HamsaVoiceAgent',
-          error: {
-            error: error instanceof Error ? error.message : String(error),
-          },
-        });
+        const isHamsaError = error instanceof HamsaError;
+        if ((!isHamsaError || error.retryable) && attempt < maxRetries) {
+          await this.#delay(currentInterval); // Wait before retrying
+          currentInterval *= backoffFactor; // Increase the interval
+          return fetchJobDetails(attempt + 1);
+        }
+        if (isHamsaError) {
+          throw error;
+        }
+        // Anything that is not an API error comes from the transport
+        throw HamsaError.from(
+          error,
+          'NETWORK_UNREACHABLE',
+          `Failed to fetch job details after ${maxRetries} attempts: ${getErrorMessage(error)}`
+        );
       }
-      this.logger.log('Call started successfully', {
-        source: 'HamsaVoiceAgent',
-        error: {
-          totalStartupTime: `${Date.now() - connectStart}ms`,
-          jobId: this.jobId,
-        },
-      });
-      this.emit('callStarted', { jobId: this.jobId ?? '' });
-    } catch (error) {
-      this.logger.error('Failed to start call', {
-        source: 'HamsaVoiceAgent',
-        error: {
-          message: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack : undefined,
-          isHamsaApiError: error instanceof HamsaApiError,
-        },
+    };
+
+    return await fetchJobDetails();
+  }
+
+  /**
+   * Initializes a LiveKit conversation and gets access token.
+   * @private
+   * @param voiceAgentId - The voice agent ID.
+   * @param params - Additional parameters.
+   * @param voiceEnablement - Flag to enable voice features.
+   * @param tools - Array of tools/functions to be used.
+   * @returns The LiveKit access token or null if failed.
+   */
+  async #initializeLiveKitConversation(
+    voiceAgentId: string,
+    params: Record<string, unknown>,
+    voiceEnablement: boolean,
+    tools: Tool[]
+  ): Promise<string> {
+    if (!this.apiKey) {
+      throw new HamsaError(
+        'AUTH_MISSING_KEY',
+        'Cannot start call: an apiKey is required unless a tokenProvider or session is provided.'
+      );
+    }
+
+    const { liveKitAccessToken, jobId } =
+      await this.#createSessionClient().createSession({
+        agentId: voiceAgentId,
+        params,
+        voiceEnablement,
+        tools,
+        userId: this.userId ?? undefined,
       });
 
-      if (this.listenerCount('error') > 0) {
-        // Forward HamsaApiError instances directly to preserve messageKey
-        if (error instanceof HamsaApiError) {
-          this.emit('error', error);
-        } else {
-          // For other errors, wrap with context
-          const errorMessage =
-            error instanceof Error ? error.message : String(error);
-          this.emit(
-            'error',
-            new Error(`Failed to start call: ${errorMessage}`)
-          );
-        }
-      }
+    // Store resolved jobId for downstream job lookups
+    this.jobId = jobId;
+
+    return liveKitAccessToken;
+  }
+
+  /**
+   * Creates a REST client for minting sessions with the current credentials.
+   * @private
+   * @returns Session client bound to this agent's API key and URL.
+   */
+  #createSessionClient(): HamsaSessionClient {
+    return new HamsaSessionClient(this.apiKey, {
+      API_URL: this.API_URL,
+      debug: this.debug,
+    });
+  }
+
+  /**
+   * Resolves server-issued session credentials (pre-issued or from the token provider).
+   * Skips the participant-token and conversation-init REST calls entirely.
+   */
+  async #resolveIssuedSession(
+    voiceAgentId: string,
+    session: SessionToken | undefined,
+    tokenProvider: TokenProvider | undefined
+  ): Promise<string> {
+    this.logger.log('Using server-issued session token', {
+      source: 'HamsaVoiceAgent',
+      error: { voiceAgentId, fromProvider: !session },
+    });
+
+    const issued = session ?? (await tokenProvider?.());
+    if (
+      typeof issued?.liveKitAccessToken !== 'string' ||
+      issued.liveKitAccessToken.length === 0
+    ) {
+      throw new HamsaError(
+        'AUTH_INVALID_TOKEN',
+        'Invalid server-issued session: liveKitAccessToken is required'
+      );
+    }
+
+    this.jobId = this.#createSessionClient().resolveJobIdFromToken(
+      issued.liveKitAccessToken,
+      issued.jobId,
+      voiceAgentId
+    );
+
+    return issued.liveKitAccessToken;
+  }
+
+  // === Analytics Methods ===
+
+  /**
+   * Retrieves current network connection statistics and quality metrics
+   *
+   * @returns Connection statistics object or null if not connected
+   *
+   * @example
+   * ```typescript
+   * const stats = agent.getConnectionStats();
+   * if (stats) {
+   *   console.log(`Latency: ${stats.latency}ms`);
+   *   console.log(`Quality: ${stats.quality}`);
+   *   console.log(`Packet Loss: ${stats.packetLoss}%`);
+   *
+   *   // Show network warning for poor quality
+   *   if (stats.quality === 'poor') {
+   *     showNetworkWarning(stats);
+   *   }
+   * }
+   * ```
+   */
+  getConnectionStats(): ConnectionStatsResult | null {
+    return this.liveKitManager
+      ? this.liveKitManager.getConnectionStats()
+      : null;
+  }
+
+  /**
+   * Retrieves current audio levels and quality metrics for both user and agent
+   *
+   * @returns Audio metrics object or null if not connected
+   *
+   * @example
+   * ```typescript
+   * const audio = agent.getAudioLevels();
+   * if (audio) {
+   *   // Update UI audio level meters
+   *   updateAudioMeter('user', audio.userAudioLevel);
+   *   updateAudioMeter('agent', audio.agentAudioLevel);
+   *
+   *   // Display speaking time statistics
+   *   const userMinutes = Math.floor(audio.userSpeakingTime / 60000);
+   *   const agentMinutes = Math.floor(audio.agentSpeakingTime / 60000);
+   *   console.log(`User spoke for ${userMinutes} minutes`);
+   *   console.log(`Agent spoke for ${agentMinutes} minutes`);
+   * }
+   * ```
+   */
+  getAudioLevels(): AudioLevelsResult | null {
+    return this.liveKitManager ? this.liveKitManager.getAudioLevels() : null;
+  }
+
+  /**
+   * Retrieves current performance metrics including response times and call duration
+   *
+   * @returns Performance metrics object or null if not connected
+   *
+   * @example
+   * ```typescript
+   * const perf = agent.getPerformanceMetrics();
+   * if (perf) {
+   *   // Monitor response time for quality assurance
+   *   if (perf.responseTime > 3000) {
+   *     console.warn('High response time:', perf.responseTime + 'ms');
+   *   }
+   *
+   *   // Display call duration
+   *   const minutes = Math.floor(perf.callDuration / 60000);
+   *   const seconds = Math.floor((perf.callDuration % 60000) / 1000);
+   *   updateTimer(`${minutes}:${seconds.toString().padStart(2, '0')}`);
+   * }
+   * ```
+   */
+  getPerformanceMetrics(): PerformanceMetricsResult | null {
+    return this.liveKitManager
+      ? this.liveKitManager.getPerformanceMetrics()
+      : null;
+  }
+
+  /**
+   * Retrieves information about all participants in the conversation
+   *
+   * @returns Array of participant data objects (empty array if not connected)
+   *
+   * @example
+   * ```typescript
+   * const participants = agent.getParticipants();
+   *
+   * participants.forEach(participant => {
+   *   console.log(`Participant: ${participant.identity}`);
+   *   console.log(`Connected: ${new Date(participant.connectionTime)}`);
+   *
+   *   // Display participant info in UI
+   *   if (participant.identity.includes('agent')) {
+   *     showAgentStatus('connected', participant.metadata);
+   *   }
+   * });
+   *
+   * // Check if agent is present
+   * const hasAgent = participants.some(p => p.identity.includes('agent'));
+   * ```
+   */
+  getParticipants(): ParticipantData[] {
+    return this.liveKitManager ? this.liveKitManager.getParticipants() : [];
+  }
+
+  /**
+   * Retrieves current audio track statistics and stream information
+   *
+   * @returns Track statistics object or null if not connected
+   *
+   * @example
+   * ```typescript
+   * const trackStats = agent.getTrackStats();
+   * if (trackStats) {
+   *   console.log(`Active tracks: ${trackStats.activeTracks}/${trackStats.totalTracks}`);
+   *   console.log(`Audio elements: ${trackStats.audioElements}`);
+   *
+   *   // Check track health
+   *   if (trackStats.activeTracks === 0) {
+   *     console.warn('No active audio tracks');
+   *     showAudioWarning();
+   *   }
+   * }
+   * ```
+   */
+  getTrackStats(): TrackStatsResult | null {
+    return this.liveKitManager ? this.liveKitManager.getTrackStats() : null;
+  }
+
+  /**
+   * Retrieves comprehensive analytics combining all metrics into a single snapshot
+   *
+   * This is the primary method for accessing complete conversation analytics,
+   * combining connection statistics, audio metrics, performance data, participant
+   * information, and track statistics into a unified result.
+   *
+   * @returns Complete analytics object or null if not connected
+   *
+   * @example
+   * ```typescript
+   * const analytics = agent.getCallAnalytics();
+   * if (analytics) {
+   *   // Log comprehensive conversation summary
+   *   console.log('=== Conversation Analytics ===');
+   *   console.log(`Duration: ${analytics.performanceMetrics.callDuration}ms`);
+   *   console.log(`Quality: ${analytics.connectionStats.quality}`);
+   *   console.log(`Latency: ${analytics.connectionStats.latency}ms`);
+   *   console.log(`Participants: ${analytics.participants.length}`);
+   *
+   *   // Send to analytics service
+   *   analyticsService.recordConversation({
+   *     sessionId: generateSessionId(),
+   *     agentId: currentAgentId,
+   *     timestamp: Date.now(),
+   *     metrics: analytics
+   *   });
+   *
+   *   // Check for quality issues
+   *   if (analytics.connectionStats.packetLoss > 5) {
+   *     reportNetworkIssue(analytics);
+   *   }
+   * }
+   * ```
+   */
+  getCallAnalytics(): CallAnalyticsResult | null {
+    if (!this.liveKitManager) {
+      return null;
     }
+    const analytics = this.liveKitManager.getCallAnalytics();
+    return {
+      ...analytics,
+      metadata: this.#withUserId(analytics.metadata),
+    };
   }
 
   /**
-   * Terminates the current voice agent conversation
+   * Gets the LiveKit Room instance for React SDK integration
    *
-   * Safely ends the conversation, disconnects from the WebRTC session,
-   * releases system resources (including screen wake lock), and performs
-   * cleanup. This method should be called when the conversation is complete.
+   * Provides access to the underlying LiveKit Room object for use with
+   * LiveKit React components. This enables integration with the broader
+   * LiveKit React ecosystem while maintaining the benefits of the
+   * HamsaVoiceAgent abstraction.
    *
-   * @example
+   * @internal - For use by @hamsa-ai/voice-agents-react only
+   * @returns LiveKit Room instance or null if not connected
+   *
+   * @example React SDK Integration
    * ```typescript
-   * // End conversation when user clicks hang up
-   * hangupButton.addEventListener('click', () => {
-   *   agent.end();
-   * });
+   * import { RoomContext } from '@livekit/components-react';
    *
-   * // End conversation after timeout
-   * setTimeout(() => {
-   *   agent.end();
-   *   console.log('Conversation ended due to timeout');
-   * }, 300000); // 5 minutes
+   * function VoiceProvider({ agent, children }) {
+   *   const [room, setRoom] = useState(null);
    *
-   * // Listen for end event
-   * agent.on('callEnded', () => {
-   *   console.log('Conversation terminated');
-   *   updateUI('disconnected');
-   *   saveConversationSummary();
-   * });
+   *   useEffect(() => {
+   *     agent.on('callStarted', () => {
+   *       setRoom(agent.getRoom());
+   *     });
+   *   }, [agent]);
+   *
+   *   if (!room) return children;
+   *
+   *   return (
+   *     <RoomContext.Provider value={room}>
+   *       {children}
+   *     </RoomContext.Provider>
+   *   );
+   * }
    * ```
    */
-  end(): void {
-    const endStartTime = Date.now();
-    this.logger.log('end() called - START DISCONNECT TIMING', {
-      source: 'HamsaVoiceAgent',
-      error: {
-        timestamp: endStartTime,
-        userInitiatedEnd: this.userInitiatedEnd,
-        isConnected: this.liveKitManager?.isConnected ?? false,
-        stack: new Error('Stack trace').stack,
-      },
-    });
-
-    // Perform disconnect asynchronously but don't block
-    this.#performDisconnect(endStartTime)
-      .then(() => {
-        const endCompleteTime = Date.now();
-        this.logger.log('end() completed - END DISCONNECT TIMING', {
-          source: 'HamsaVoiceAgent',
-          error: {
-            timestamp: endCompleteTime,
-            totalDuration: endCompleteTime - endStartTime,
-          },
-        });
-      })
-      .catch((error) => {
-        this.#handleEndError(error, endStartTime);
-      });
-
-    this.#releaseWakeLock();
+  getRoom(): Room | null {
+    return this.liveKitManager?.connection.getRoom() ?? null;
   }
 
   /**
-   * Performs the disconnect operation with timing logs
-   * @private
+   * Gets the remote audio track from the voice agent for visualization
+   *
+   * Provides access to the agent's audio track for use with LiveKit React
+   * visualization components like BarVisualizer. Returns undefined if not
+   * connected or no remote audio track is available.
+   *
+   * @returns RemoteTrack | undefined - The agent's audio track or undefined if not available
+   *
+   * @example With LiveKit BarVisualizer
+   * ```typescript
+   * import { BarVisualizer } from '@livekit/components-react';
+   *
+   * function AgentVisualizer({ agent }) {
+   *   const [audioTrack, setAudioTrack] = useState();
+   *
+   *   useEffect(() => {
+   *     agent.on('trackSubscribed', ({ track }) => {
+   *       if (track.kind === 'audio') {
+   *         setAudioTrack(track);
+   *       }
+   *     });
+   *   }, [agent]);
+   *
+   *   if (!audioTrack) return null;
+   *
+   *   return <BarVisualizer trackRef={{ track: audioTrack, source: 'microphone' }} />;
+   * }
+   * ```
    */
-  async #performDisconnect(endStartTime: number): Promise<void> {
-    if (!this.liveKitManager) {
+  getRemoteAudioTrack(): RemoteTrack | undefined {
+    const room = this.liveKitManager?.connection.getRoom();
+    if (!room?.remoteParticipants) {
       return;
     }
 
-    this.userInitiatedEnd = true;
-
-    const disconnectCallTime = Date.now();
-    this.logger.log('Calling liveKitManager.disconnect()', {
-      source: 'HamsaVoiceAgent',
-      error: {
-        timestamp: disconnectCallTime,
-        timeSinceEndCalled: disconnectCallTime - endStartTime,
-      },
-    });
-
-    await this.liveKitManager.disconnect();
-
-    const afterDisconnectCallTime = Date.now();
-    this.logger.log('liveKitManager.disconnect() completed', {
-      source: 'HamsaVoiceAgent',
-      error: {
-        timestamp: afterDisconnectCallTime,
-        disconnectCallDuration: afterDisconnectCallTime - disconnectCallTime,
-      },
-    });
+    // Find the first remote participant with an audio track
+    for (const participant of room.remoteParticipants.values()) {
+      const audioPublication = Array.from(
+        participant.audioTrackPublications.values()
+      )[0];
 
-    this.emit('callEnded');
+      if (audioPublication?.track) {
+        return audioPublication.track;
+      }
+    }
 
-    const afterCallEndedTime = Date.now();
-    this.logger.log('callEnded event emitted', {
-      source: 'HamsaVoiceAgent',
-      error: {
-        timestamp: afterCallEndedTime,
-        totalTimeInEndMethod: afterCallEndedTime - endStartTime,
-      },
-    });
+    return;
   }
 
   /**
-   * Releases the screen wake lock
+   * Delays execution for a specified amount of time.
    * @private
+   * @param ms - Milliseconds to delay.
+   * @returns Promise that resolves after the delay.
    */
-  #releaseWakeLock(): void {
-    if (this.wakeLockManager?.isActive()) {
-      this.wakeLockManager.release().catch((_err) => {
-        // Intentionally ignore wake lock release errors
-      });
-    }
+  #delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
   /**
-   * Handles errors that occur during end()
+   * Lists the audio devices of one kind through LiveKit.
    * @private
    */
-  #handleEndError(error: unknown, endStartTime: number): void {
-    this.logger.error('end() threw error', {
-      source: 'HamsaVoiceAgent',
-      error: {
-        error: error instanceof Error ? error.message : String(error),
-        timeSinceStart: Date.now() - endStartTime,
-      },
-    });
-
-    if (this.listenerCount('error') > 0) {
-      if (error instanceof HamsaApiError) {
-        this.emit('error', error);
-      } else {
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-        this.emit('error', new Error(`Failed to end call: ${errorMessage}`));
-      }
-    }
-  }
-
-  /**
-   * Temporarily pauses the voice agent conversation
-   *
-   * Pauses audio transmission and reception while maintaining the underlying
-   * connection. The conversation can be resumed later using resume(). This
-   * is useful for temporary interruptions without ending the entire session.
-   *
-   * @example
-   * ```typescript
-   * // Pause when user needs to take another call
-   * pauseButton.addEventListener('click', () => {
-   *   agent.pause();
-   *   console.log('Conversation paused');
-   * });
-   *
-   * // Auto-pause after period of silence
-   * let silenceTimeout;
-   * agent.on('listening', () => {
-   *   silenceTimeout = setTimeout(() => {
-   *     agent.pause();
-   *     showResumePrompt();
-   *   }, 60000); // 1 minute of silence
-   * });
-   *
-   * agent.on('speaking', () => {
-   *   clearTimeout(silenceTimeout);
-   * });
-   *
-   * // Listen for pause event
-   * agent.on('callPaused', () => {
-   *   showPausedIndicator();
-   *   disableMicrophone();
-   * });
-   * ```
-   */
-  pause(): void {
-    if (this.liveKitManager) {
-      this.liveKitManager.pause();
-      // Release screen wake lock during pause to allow device sleep
-      if (this.wakeLockManager?.isActive()) {
-        this.wakeLockManager.release().catch((_err) => {
-          // Intentionally ignore wake lock release errors
-        });
-      }
-      this.emit('callPaused');
+  async #listAudioDevices(
+    kind: 'audioinput' | 'audiooutput',
+    requestPermissions = true
+  ): Promise<MediaDeviceInfo[]> {
+    try {
+      return await Room.getLocalDevices(kind, requestPermissions);
+    } catch (error) {
+      throw new HamsaMediaError(
+        getMediaErrorCode(error) ?? 'MEDIA_DEVICE_ERROR',
+        `Failed to list audio devices: ${getErrorMessage(error)}`,
+        { cause: error }
+      );
     }
   }
 
-  /**
-   * Resumes a paused voice agent conversation
-   *
-   * Restores audio transmission and reception, continuing the conversation
-   * from where it was paused. Re-acquires screen wake lock to prevent
-   * device sleep during active conversation.
-   *
-   * @example
-   * ```typescript
-   * // Resume when user is ready to continue
-   * resumeButton.addEventListener('click', () => {
-   *   agent.resume();
-   *   console.log('Conversation resumed');
-   * });
-   *
-   * // Resume automatically after user interaction
-   * document.addEventListener('click', () => {
-   *   if (agent.isPaused) {
-   *     agent.resume();
-   *   }
-   * });
-   *
-   * // Listen for resume event
-   * agent.on('callResumed', () => {
-   *   hidePausedIndicator();
-   *   enableMicrophone();
-   *   showActiveIndicator();
-   * });
-   * ```
+  /**
+   * Re-lists the audio devices after a device was plugged in or removed and
+   * emits them with devicesChanged.
+   * @private
    */
-  resume(): void {
-    if (this.liveKitManager) {
-      this.liveKitManager.resume();
-      // Re-acquire screen wake lock during active conversation
-      this.wakeLockManager.acquire().catch((_err) => {
-        // Intentionally ignore wake lock acquisition errors
+  async #emitDevicesChanged(): Promise<void> {
+    try {
+      // Permission is already granted during a call; never prompt here
+      const [inputs, outputs] = await Promise.all([
+        this.#listAudioDevices('audioinput', false),
+        this.#listAudioDevices('audiooutput', false),
+      ]);
+      this.emit('devicesChanged', { inputs, outputs });
+      if (this.preferHeadphones) {
+        await this.#routeToHeadphones([...inputs, ...outputs]);
+      }
+    } catch (error) {
+      this.logger.warn('Failed to list audio devices after a change', {
+        source: 'HamsaVoiceAgent',
+        error,
       });
-      this.emit('callResumed');
     }
   }
 
   /**
-   * Retrieves job details from the Hamsa API using the stored jobId.
-   * Implements retry logic with exponential backoff.
-   * @param maxRetries - Maximum number of retry attempts.
-   * @param initialRetryInterval - Initial delay between retries in milliseconds.
-   * @param backoffFactor - Factor by which the retry interval increases each attempt.
-   * @returns Job details object.
+   * Devices the room of a new call should use: the ones chosen with
+   * setAudioInput()/setAudioOutput(), else connected headphones when
+   * preferHeadphonesForIosDevices applies.
+   * @private
    */
-  async getJobDetails(
-    maxRetries = 5,
-    initialRetryInterval = 1000,
-    backoffFactor = 2
-  ): Promise<JobDetails> {
-    if (!this.jobId) {
-      throw new Error(
-        'Cannot fetch job details: jobId is not set. Start a conversation first.'
+  async #resolveAudioDevices(): Promise<AudioDevicePreferences> {
+    const devices: AudioDevicePreferences = {
+      audioInputDeviceId: this.audioInputDeviceId ?? undefined,
+      audioOutputDeviceId: this.audioOutputDeviceId ?? undefined,
+    };
+    if (!this.preferHeadphones) {
+      return devices;
+    }
+
+    let available: MediaDeviceInfo[] = [];
+    try {
+      // Asks for microphone access, without which device labels are empty
+      const inputs = await this.#listAudioDevices('audioinput');
+      const outputs = await this.#listAudioDevices('audiooutput', false);
+      available = [...inputs, ...outputs];
+    } catch (error) {
+      this.logger.warn(
+        'Failed to list audio devices, keeping the default route',
+        {
+          source: 'HamsaVoiceAgent',
+          error,
+        }
       );
     }
 
-    const url = `${this.API_URL}/v1/voice-agents/conversation/${this.jobId}`;
-    const headers = {
-      Authorization: `Token ${this.apiKey}`,
-      'Content-Type': 'application/json',
+    const headphones = this.#findHeadphones(available);
+    this.#setAudioRoute(headphones);
+    return {
+      audioInputDeviceId:
+        devices.audioInputDeviceId ?? headphones.input?.deviceId,
+      audioOutputDeviceId:
+        devices.audioOutputDeviceId ?? headphones.output?.deviceId,
     };
-    const params = new URLSearchParams({ jobId: this.jobId });
+  }
 
-    let currentInterval = initialRetryInterval;
+  /**
+   * Finds connected headphones, skipping the kinds of device chosen with
+   * setAudioInput()/setAudioOutput(). iOS does not list audio outputs: there
+   * the headphones' microphone is selected, which makes the system play audio
+   * through them as well.
+   * @private
+   */
+  #findHeadphones(devices: MediaDeviceInfo[]): {
+    input?: MediaDeviceInfo;
+    output?: MediaDeviceInfo;
+  } {
+    const canSelectOutput =
+      typeof HTMLMediaElement !== 'undefined' &&
+      'setSinkId' in HTMLMediaElement.prototype;
+    return {
+      input: this.audioInputDeviceId
+        ? undefined
+        : devices.find(
+            (device) =>
+              device.kind === 'audioinput' && isHeadphoneDevice(device)
+          ),
+      output:
+        canSelectOutput && !this.audioOutputDeviceId
+          ? devices.find(
+              (device) =>
+                device.kind === 'audiooutput' && isHeadphoneDevice(device)
+            )
+          : undefined,
+    };
+  }
 
-    const fetchJobDetails = async (attempt = 1): Promise<JobDetails> => {
-      try {
-        const response = await fetch(`${url}?${params.toString()}`, {
-          method: 'GET',
-          headers,
-        });
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(
-            `API Error: ${response.status} ${response.statusText} - ${errorText}`
-          );
-        }
-        const data = await response.json();
-        // Check if the job status is COMPLETED
-        if (data.data.status === 'COMPLETED') {
-          return data.data;
-        }
-        throw new Error(`Job status is not COMPLETED: ${data.data.status}`);
-      } catch (error) {
-        if (attempt < maxRetries) {
-          await this.#delay(currentInterval); // Wait before retrying
-          currentInterval *= backoffFactor; // Increase the interval
-          return fetchJobDetails(attempt + 1);
-        }
-        throw new Error(
-          `Failed to fetch job details after ${maxRetries} attempts: ${error instanceof Error ? error.message : String(error)}`
+  /**
+   * Moves the call to headphones plugged in mid-call, and reports the route
+   * going back to the device when they are removed. The microphone of
+   * removed headphones is replaced by the audio manager.
+   * @private
+   */
+  async #routeToHeadphones(devices: MediaDeviceInfo[]): Promise<void> {
+    const headphones = this.#findHeadphones(devices);
+    const connection = this.liveKitManager?.connection;
+    const label = (headphones.output ?? headphones.input)?.label;
+    if (!connection || label === this.audioRoute?.label) {
+      return;
+    }
+
+    try {
+      if (headphones.input) {
+        await connection.switchAudioDevice(
+          'audioinput',
+          headphones.input.deviceId
         );
       }
-    };
-
-    return await fetchJobDetails();
+      if (headphones.output) {
+        await connection.switchAudioDevice(
+          'audiooutput',
+          headphones.output.deviceId
+        );
+      }
+      this.#setAudioRoute(headphones);
+    } catch (error) {
+      this.logger.warn('Failed to route audio to headphones', {
+        source: 'HamsaVoiceAgent',
+        error,
+      });
+    }
   }
 
   /**
-   * Initializes a LiveKit conversation and gets access token.
+   * Records the route matching the headphones found and emits
+   * audioRouteChanged when it differs from the last one reported.
    * @private
-   * @param voiceAgentId - The voice agent ID.
-   * @param params - Additional parameters.
-   * @param voiceEnablement - Flag to enable voice features.
-   * @param tools - Array of tools/functions to be used.
-   * @returns The LiveKit access token or null if failed.
    */
-  async #initializeLiveKitConversation(
-    voiceAgentId: string,
-    params: Record<string, unknown>,
-    voiceEnablement: boolean,
-    tools: Tool[]
-  ): Promise<string> {
-    const headers = {
-      Authorization: `Token ${this.apiKey}`,
-      'Content-Type': 'application/json',
-    };
-
-    // Step 1: Get LiveKit participant token
-    const tokenData = await this.#fetchParticipantToken(
-      voiceAgentId,
-      params,
-      headers
-    );
-    const liveKitAccessToken = tokenData.liveKitAccessToken;
-    const jobIdFromToken = this.#resolveJobIdFromToken(
-      liveKitAccessToken,
-      tokenData.jobId,
-      voiceAgentId
-    );
+  #setAudioRoute(headphones: {
+    input?: MediaDeviceInfo;
+    output?: MediaDeviceInfo;
+  }): void {
+    const device = headphones.output ?? headphones.input;
+    const route: AudioRoute = device
+      ? { type: 'headphones', label: device.label }
+      : { type: 'built-in' };
+    if (
+      this.audioRoute?.type === route.type &&
+      this.audioRoute.label === route.label
+    ) {
+      return;
+    }
 
-    // Step 2: Initialize conversation with token
-    await this.#initializeConversation({
-      voiceAgentId,
-      params,
-      voiceEnablement,
-      tools,
-      headers,
-      jobIdFromToken,
-      tokenData,
+    this.audioRoute = route;
+    this.logger.log('Audio route changed', {
+      source: 'HamsaVoiceAgent',
+      error: route,
     });
-
-    // Store resolved jobId for downstream job lookups
-    this.jobId = jobIdFromToken;
-
-    return liveKitAccessToken;
+    this.emit('audioRouteChanged', route);
   }
 
   /**
-   * Handles API response errors by parsing JSON and creating appropriate HamsaApiError instances
+   * Checks audio constraints and drops the ones left undefined, so that they
+   * do not override the SDK defaults.
+   * @private
+   * @throws {HamsaError} INVALID_ARGUMENT if a constraint has an invalid value
    */
-  #handleApiError(
-    response: Response,
-    errorText: string,
-    isTokenEndpoint = false
-  ): never {
-    // Try to parse JSON error response to extract message and messageKey separately
-    try {
-      const errorJson = JSON.parse(errorText);
-      if (errorJson.message) {
-        // Return both message and messageKey separately for SDK users
-        throw new HamsaApiError(errorJson.message, errorJson.messageKey);
+  #validateAudioConstraints(constraints: AudioConstraints): AudioConstraints {
+    const validated: AudioConstraints = {};
+    for (const key of BOOLEAN_AUDIO_CONSTRAINTS) {
+      const value = constraints[key];
+      if (value === undefined) {
+        continue;
       }
-    } catch (jsonError) {
-      // If not JSON or no message field, use the raw error text with status info
-      if (jsonError instanceof HamsaApiError) {
-        throw jsonError; // Re-throw if it's our custom error
+      if (typeof value !== 'boolean') {
+        throw new HamsaError(
+          'INVALID_ARGUMENT',
+          `audio.${key} must be a boolean`
+        );
       }
+      validated[key] = value;
     }
-
-    // For token endpoint, include status info; for conversation endpoint, use raw text
-    const errorMessage = isTokenEndpoint
-      ? `${response.status} ${response.statusText} - ${errorText}`
-      : errorText;
-
-    throw new HamsaApiError(errorMessage);
+    for (const key of INTEGER_AUDIO_CONSTRAINTS) {
+      const value = constraints[key];
+      if (value === undefined) {
+        continue;
+      }
+      if (!Number.isInteger(value) || value <= 0) {
+        throw new HamsaError(
+          'INVALID_ARGUMENT',
+          `audio.${key} must be a positive integer`
+        );
+      }
+      validated[key] = value;
+    }
+    return validated;
   }
 
   /**
-   * Fetches the LiveKit participant token from the API
+   * Checks push-to-talk settings.
+   * @private
+   * @throws {HamsaError} INVALID_ARGUMENT if an option has an invalid value
    */
-  async #fetchParticipantToken(
-    voiceAgentId: string,
-    params: Record<string, unknown>,
-    headers: Record<string, string>
-  ): Promise<{ liveKitAccessToken: string; jobId?: string }> {
-    this.logger.log('Fetching participant token from API', {
-      source: 'HamsaVoiceAgent',
-      error: {
-        voiceAgentId,
-        apiUrl: this.API_URL,
-        paramsCount: Object.keys(params).length,
-      },
-    });
-
-    const startTime = Date.now();
-    const tokenResponse = await fetch(
-      `${this.API_URL}/v1/voice-agents/room/participant-token`,
-      {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({ voiceAgentId, params }),
+  #validatePushToTalkOptions(options: PushToTalkOptions): PushToTalkOptions {
+    const { key, minHoldMs, releaseTailMs } = options;
+    if (key !== undefined && (typeof key !== 'string' || key.length === 0)) {
+      throw new HamsaError(
+        'INVALID_ARGUMENT',
+        'pushToTalk.key must be a non-empty KeyboardEvent.code'
+      );
+    }
+    for (const [name, value] of Object.entries({ minHoldMs, releaseTailMs })) {
+      if (
+        value !== undefined &&
+        !(typeof value === 'number' && Number.isFinite(value) && value >= 0)
+      ) {
+        throw new HamsaError(
+          'INVALID_ARGUMENT',
+          `pushToTalk.${name} must be a non-negative number of milliseconds`
+        );
       }
-    );
+    }
+    return { key, minHoldMs, releaseTailMs };
+  }
 
-    const duration = Date.now() - startTime;
-    this.logger.log('Received API response for participant token', {
-      source: 'HamsaVoiceAgent',
-      error: {
-        status: tokenResponse.status,
-        ok: tokenResponse.ok,
-        duration: `${duration}ms`,
-      },
-    });
+  /**
+   * Checks half-duplex settings.
+   * @private
+   * @throws {HamsaError} INVALID_ARGUMENT if an option has an invalid value
+   */
+  #validateHalfDuplexOptions(options: HalfDuplexOptions): HalfDuplexOptions {
+    const { hangoverMs, bargeInThreshold } = options;
+    if (
+      hangoverMs !== undefined &&
+      !(
+        typeof hangoverMs === 'number' &&
+        Number.isFinite(hangoverMs) &&
+        hangoverMs >= 0
+      )
+    ) {
+      throw new HamsaError(
+        'INVALID_ARGUMENT',
+        'halfDuplex.hangoverMs must be a non-negative number of milliseconds'
+      );
+    }
+    if (
+      bargeInThreshold !== undefined &&
+      !(
+        typeof bargeInThreshold === 'number' &&
+        bargeInThreshold > 0 &&
+        bargeInThreshold <= 1
+      )
+    ) {
+      throw new HamsaError(
+        'INVALID_ARGUMENT',
+        'halfDuplex.bargeInThreshold must be a level between 0 and 1'
+      );
+    }
+    return { hangoverMs, bargeInThreshold };
+  }
 
-    if (!tokenResponse.ok) {
-      const errorText = await tokenResponse.text();
-      this.logger.error('API request failed for participant token', {
-        source: 'HamsaVoiceAgent',
-        error: {
-          status: tokenResponse.status,
-          statusText: tokenResponse.statusText,
-          errorText,
-        },
-      });
-      this.#handleApiError(tokenResponse, errorText, true);
+  /**
+   * Checks voice activity detection settings.
+   * @private
+   * @throws {HamsaError} INVALID_ARGUMENT if an option has an invalid value
+   */
+  #validateVoiceActivityOptions(
+    options: VoiceActivityOptions
+  ): VoiceActivityOptions {
+    const { threshold, minSpeechMs, hangoverMs, gateTransmission } = options;
+    if (
+      threshold !== undefined &&
+      !(typeof threshold === 'number' && threshold > 0 && threshold <= 1)
+    ) {
+      throw new HamsaError(
+        'INVALID_ARGUMENT',
+        'voiceActivity.threshold must be a level between 0 and 1'
+      );
+    }
+    for (const [name, value] of Object.entries({ minSpeechMs, hangoverMs })) {
+      if (
+        value !== undefined &&
+        !(typeof value === 'number' && Number.isFinite(value) && value >= 0)
+      ) {
+        throw new HamsaError(
+          'INVALID_ARGUMENT',
+          `voiceActivity.${name} must be a non-negative number of milliseconds`
+        );
+      }
+    }
+    if (
+      gateTransmission !== undefined &&
+      typeof gateTransmission !== 'boolean'
+    ) {
+      throw new HamsaError(
+        'INVALID_ARGUMENT',
+        'voiceActivity.gateTransmission must be a boolean'
+      );
     }
+    return { threshold, minSpeechMs, hangoverMs, gateTransmission };
+  }
 
-    const tokenResult = await tokenResponse.json();
-    if (!(tokenResult?.success && tokenResult?.data?.liveKitAccessToken)) {
-      this.logger.error('Invalid token response structure', {
+  /**
+   * Tells the agent the user released push-to-talk, so it answers without
+   * waiting for silence detection. The agent falls back to silence detection
+   * when the signal is lost.
+   * @private
+   */
+  #sendUserTurnEnded(): void {
+    this.#publishToAgent(
+      {
+        event: 'user_turn_ended',
+        timestamp: Date.now(),
+      } satisfies UserTurnEndedMessage,
+      'send user turn end'
+    ).catch((error) => {
+      this.logger.warn('User turn end signal was not delivered', {
         source: 'HamsaVoiceAgent',
-        error: {
-          success: tokenResult?.success,
-          hasToken: !!tokenResult?.data?.liveKitAccessToken,
-        },
+        error,
       });
-      throw new Error('Failed to get LiveKit access token');
-    }
-
-    this.logger.log('Successfully received LiveKit access token', {
-      source: 'HamsaVoiceAgent',
-      error: {
-        tokenLength: tokenResult.data.liveKitAccessToken.length,
-        hasJobId: !!tokenResult.data.jobId,
-        jobId: tokenResult.data.jobId,
-      },
-    });
-
-    return tokenResult.data;
-  }
-
-  /**
-   * Initializes the conversation with the backend API
-   */
-  async #initializeConversation(options: {
-    voiceAgentId: string;
-    params: Record<string, unknown>;
-    voiceEnablement: boolean;
-    tools: Tool[];
-    headers: Record<string, string>;
-    jobIdFromToken: string | null;
-    tokenData: { jobId?: string };
-  }): Promise<void> {
-    const {
-      voiceAgentId,
-      params,
-      voiceEnablement,
-      tools,
-      headers,
-      jobIdFromToken,
-      tokenData,
-    } = options;
-    const llmtools =
-      tools?.length > 0 ? this.#convertToolsToLLMTools(tools) : [];
-
-    const conversationBody = {
-      tools: llmtools,
-      voiceEnablement,
-      voiceAgentId,
-      params,
-      // Backend expects jobId derived from the token metadata when available
-      jobId: jobIdFromToken ?? tokenData.jobId ?? voiceAgentId,
-      channelType: 'Web',
-    };
-
-    this.logger.log('Initializing conversation with API', {
-      source: 'HamsaVoiceAgent',
-      error: {
-        voiceAgentId,
-        toolsCount: llmtools.length,
-        voiceEnablement,
-        jobId: conversationBody.jobId,
-        channelType: conversationBody.channelType,
-      },
     });
+  }
 
-    const startTime = Date.now();
-    const conversationResponse = await fetch(
-      `${this.API_URL}/v1/voice-agents/room/conversation-init`,
-      {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(conversationBody),
-        redirect: 'follow' as RequestRedirect,
-      }
-    );
-
-    const duration = Date.now() - startTime;
-    this.logger.log('Received conversation init response', {
-      source: 'HamsaVoiceAgent',
-      error: {
-        status: conversationResponse.status,
-        ok: conversationResponse.ok,
-        duration: `${duration}ms`,
-      },
-    });
+  /**
+   * Throws INVALID_ARGUMENT unless every processor implements TrackProcessor.
+   * @private
+   */
+  #assertAudioProcessors(processors: AudioTrackProcessor[]): void {
+    const isProcessor = (processor: AudioTrackProcessor) =>
+      typeof processor?.name === 'string' &&
+      typeof processor.init === 'function' &&
+      typeof processor.restart === 'function' &&
+      typeof processor.destroy === 'function';
+    if (!(Array.isArray(processors) && processors.every(isProcessor))) {
+      throw new HamsaError(
+        'INVALID_ARGUMENT',
+        'audioProcessors must be an array of TrackProcessor objects with name, init, restart and destroy'
+      );
+    }
+  }
 
-    if (!conversationResponse.ok) {
-      const errorText = await conversationResponse.text();
-      this.logger.error('Conversation initialization failed', {
-        source: 'HamsaVoiceAgent',
-        error: {
-          status: conversationResponse.status,
-          statusText: conversationResponse.statusText,
-          errorText,
-        },
-      });
-      this.#handleApiError(conversationResponse, errorText, false);
+  /**
+   * Throws INVALID_ARGUMENT unless deviceId is a non-empty string.
+   * @private
+   */
+  #assertDeviceId(deviceId: string): void {
+    if (typeof deviceId !== 'string' || deviceId.length === 0) {
+      throw new HamsaError(
+        'INVALID_ARGUMENT',
+        'deviceId must be a non-empty string'
+      );
     }
+  }
 
-    this.logger.log('Conversation initialized successfully', {
-      source: 'HamsaVoiceAgent',
-    });
+  /**
+   * Adds the userId passed to start() to a result, unless it already has one.
+   * @private
+   */
+  #withUserId<T extends { userId?: string }>(data: T): T {
+    return this.userId ? { userId: this.userId, ...data } : data;
   }
 
   /**
-   * Extracts the jobId value from the LiveKit access token payload metadata.
-   * Falls back to the provided endpointJobId or voiceAgentId when unavailable.
+   * Sets the userId as an attribute of the local participant so the agent
+   * and room webhooks can see it. Failures (e.g. a token without permission
+   * to update its own metadata) are logged and otherwise ignored.
+   * @private
    */
-  #resolveJobIdFromToken(
-    liveKitAccessToken: string,
-    endpointJobId: string | undefined,
-    voiceAgentId: string
-  ): string {
-    const TOKEN_PREVIEW_LENGTH = 20;
-    this.logger.log('Parsing JWT token for jobId', {
-      source: 'HamsaVoiceAgent',
-      error: {
-        tokenPreview: liveKitAccessToken.substring(0, TOKEN_PREVIEW_LENGTH),
-        endpointJobId,
-        voiceAgentId,
-      },
-    });
+  async #publishUserIdAttribute(): Promise<void> {
+    const userId = this.userId;
+    const localParticipant =
+      this.liveKitManager?.connection.room?.localParticipant;
+    if (!(userId && localParticipant)) {
+      return;
+    }
 
     try {
-      const payload = jwtDecode<LiveKitTokenPayload>(liveKitAccessToken);
-      this.logger.log('JWT token parsed successfully', {
+      await localParticipant.setAttributes({ userId });
+      this.logger.log('userId set as participant attribute', {
         source: 'HamsaVoiceAgent',
-        error: {
-          hasRoomConfig: !!payload.roomConfig,
-          hasAgents: !!payload.roomConfig?.agents,
-          agentsCount: payload.roomConfig?.agents?.length ?? 0,
-        },
+        error: { userId },
       });
-
-      const agentsMeta = payload?.roomConfig?.agents?.[0]?.metadata;
-      if (typeof agentsMeta === 'string') {
-        const metaObj = JSON.parse(agentsMeta) as { jobId?: unknown };
-        if (typeof metaObj.jobId === 'string' && metaObj.jobId.length > 0) {
-          this.logger.log('Extracted jobId from token metadata', {
-            source: 'HamsaVoiceAgent',
-            error: { jobId: metaObj.jobId },
-          });
-          return metaObj.jobId;
-        }
-      }
     } catch (error) {
-      this.logger.warn('Failed to parse jobId from token, using fallback', {
+      this.logger.warn('Failed to set userId participant attribute', {
         source: 'HamsaVoiceAgent',
-        error: {
-          error: error instanceof Error ? error.message : String(error),
-        },
+        error,
       });
     }
-
-    const fallbackJobId = endpointJobId ?? voiceAgentId;
-    this.logger.log('Using fallback jobId', {
-      source: 'HamsaVoiceAgent',
-      error: {
-        jobId: fallbackJobId,
-        source: endpointJobId ? 'endpoint' : 'voiceAgentId',
-      },
-    });
-    return fallbackJobId;
   }
 
   /**
-   * Converts tools to LLMTools format.
+   * Resolves the connectionDelay that applies to the current platform.
    * @private
-   * @param tools - Array of tool objects.
-   * @returns Array of LLMTool objects.
-   */
-  #convertToolsToLLMTools(tools: Tool[]): LLMTool[] {
-    return tools.map((item) => {
-      const llmTool: LLMTool = {
-        type: 'function' as const,
-        function: {
-          name: item.function_name,
-          description: item.description,
-          parameters: {
-            type: 'object',
-            properties:
-              item.parameters?.reduce(
-                (acc, param) => {
-                  acc[param.name] = {
-                    type: param.type,
-                    description: param.description,
-                  };
-                  return acc;
-                },
-                {} as Record<string, { type: string; description: string }>
-              ) || {},
-            required: item.required || [],
-          },
-          func_map: item.func_map,
-        },
-      };
-
-      return llmTool;
-    });
+   * @param connectionDelay - Delays configured in start() options.
+   * @returns Delay in milliseconds, 0 when none applies.
+   */
+  #getConnectionDelay(connectionDelay: ConnectionDelays = {}): number {
+    const platform = getDevicePlatform();
+    const platformDelay =
+      platform === 'other' ? undefined : connectionDelay[platform];
+    return Math.max(0, platformDelay ?? connectionDelay.default ?? 0);
   }
 
-  // === Analytics Methods ===
-
   /**
-   * Retrieves current network connection statistics and quality metrics
-   *
-   * @returns Connection statistics object or null if not connected
-   *
-   * @example
-   * ```typescript
-   * const stats = agent.getConnectionStats();
-   * if (stats) {
-   *   console.log(`Latency: ${stats.latency}ms`);
-   *   console.log(`Quality: ${stats.quality}`);
-   *   console.log(`Packet Loss: ${stats.packetLoss}%`);
-   *
-   *   // Show network warning for poor quality
-   *   if (stats.quality === 'poor') {
-   *     showNetworkWarning(stats);
-   *   }
-   * }
-   * ```
+   * Microphone constraints matching the ones the room captures with: the SDK
+   * defaults, the audio option of start() and the selected microphone.
+   * @private
    */
-  getConnectionStats(): ConnectionStatsResult | null {
-    return this.liveKitManager
-      ? this.liveKitManager.getConnectionStats()
-      : null;
+  #getCaptureConstraints(
+    devices: AudioDevicePreferences,
+    constraints: AudioConstraints
+  ): MediaTrackConstraints {
+    return {
+      echoCancellation: true,
+      noiseSuppression: true,
+      ...constraints,
+      ...(devices.audioInputDeviceId && {
+        deviceId: { exact: devices.audioInputDeviceId },
+      }),
+    };
   }
 
   /**
-   * Retrieves current audio levels and quality metrics for both user and agent
-   *
-   * @returns Audio metrics object or null if not connected
-   *
-   * @example
-   * ```typescript
-   * const audio = agent.getAudioLevels();
-   * if (audio) {
-   *   // Update UI audio level meters
-   *   updateAudioMeter('user', audio.userAudioLevel);
-   *   updateAudioMeter('agent', audio.agentAudioLevel);
-   *
-   *   // Display speaking time statistics
-   *   const userMinutes = Math.floor(audio.userSpeakingTime / 60000);
-   *   const agentMinutes = Math.floor(audio.agentSpeakingTime / 60000);
-   *   console.log(`User spoke for ${userMinutes} minutes`);
-   *   console.log(`Agent spoke for ${agentMinutes} minutes`);
-   * }
-   * ```
+   * Captures the microphone for the given time before joining the room.
+   * Mobile devices switch to their communication audio mode when capture
+   * starts, which cuts off playback; doing it up front keeps the agent's
+   * greeting intact. Capture failures are ignored here and surface when the
+   * room enables the microphone.
+   * @private
+   * @param delayMs - How long to wait for the audio mode switch.
+   * @param audio - Microphone to capture, null to only wait (text-only calls).
    */
-  getAudioLevels(): AudioLevelsResult | null {
-    return this.liveKitManager ? this.liveKitManager.getAudioLevels() : null;
+  async #prepareAudioSession(
+    delayMs: number,
+    audio: MediaTrackConstraints | null
+  ): Promise<void> {
+    this.logger.log('Waiting for the audio session before joining the room', {
+      source: 'HamsaVoiceAgent',
+      error: { delayMs, platform: getDevicePlatform(), capture: !!audio },
+    });
+
+    let stream: MediaStream | undefined;
+    try {
+      stream = audio
+        ? await navigator.mediaDevices?.getUserMedia({ audio })
+        : undefined;
+    } catch {
+      // The room reports microphone errors when it enables the microphone
+    }
+    try {
+      await this.#delay(delayMs);
+    } finally {
+      for (const track of stream?.getTracks() ?? []) {
+        track.stop();
+      }
+    }
   }
 
   /**
-   * Retrieves current performance metrics including response times and call duration
-   *
-   * @returns Performance metrics object or null if not connected
-   *
-   * @example
-   * ```typescript
-   * const perf = agent.getPerformanceMetrics();
-   * if (perf) {
-   *   // Monitor response time for quality assurance
-   *   if (perf.responseTime > 3000) {
-   *     console.warn('High response time:', perf.responseTime + 'ms');
-   *   }
-   *
-   *   // Display call duration
-   *   const minutes = Math.floor(perf.callDuration / 60000);
-   *   const seconds = Math.floor((perf.callDuration % 60000) / 1000);
-   *   updateTimer(`${minutes}:${seconds.toString().padStart(2, '0')}`);
-   * }
-   * ```
+   * Whether the call may move from its current state to the given one.
+   * @private
    */
-  getPerformanceMetrics(): PerformanceMetricsResult | null {
-    return this.liveKitManager
-      ? this.liveKitManager.getPerformanceMetrics()
-      : null;
+  #canTransitionTo(state: CallState): boolean {
+    return CALL_STATE_TRANSITIONS[this.callState].includes(state);
   }
 
   /**
-   * Retrieves information about all participants in the conversation
-   *
-   * @returns Array of participant data objects (empty array if not connected)
-   *
-   * @example
-   * ```typescript
-   * const participants = agent.getParticipants();
-   *
-   * participants.forEach(participant => {
-   *   console.log(`Participant: ${participant.identity}`);
-   *   console.log(`Connected: ${new Date(participant.connectionTime)}`);
-   *
-   *   // Display participant info in UI
-   *   if (participant.identity.includes('agent')) {
-   *     showAgentStatus('connected', participant.metadata);
-   *   }
-   * });
-   *
-   * // Check if agent is present
-   * const hasAgent = participants.some(p => p.identity.includes('agent'));
-   * ```
+   * Moves the call to a new state and emits callStateChanged.
+   * @private
+   * @throws {HamsaError} INVALID_CALL_STATE if the transition is not allowed.
    */
-  getParticipants(): ParticipantData[] {
-    return this.liveKitManager ? this.liveKitManager.getParticipants() : [];
+  #transitionTo(state: CallState): void {
+    const previousState = this.callState;
+    if (!this.#canTransitionTo(state)) {
+      throw new HamsaError(
+        'INVALID_CALL_STATE',
+        `Cannot move call from "${previousState}" to "${state}"`
+      );
+    }
+
+    this.callState = state;
+    this.logger.log('Call state changed', {
+      source: 'HamsaVoiceAgent',
+      error: { state, previousState },
+    });
+    this.emit('callStateChanged', state, previousState);
   }
 
   /**
-   * Retrieves current audio track statistics and stream information
-   *
-   * @returns Track statistics object or null if not connected
-   *
-   * @example
-   * ```typescript
-   * const trackStats = agent.getTrackStats();
-   * if (trackStats) {
-   *   console.log(`Active tracks: ${trackStats.activeTracks}/${trackStats.totalTracks}`);
-   *   console.log(`Audio elements: ${trackStats.audioElements}`);
-   *
-   *   // Check track health
-   *   if (trackStats.activeTracks === 0) {
-   *     console.warn('No active audio tracks');
-   *     showAudioWarning();
-   *   }
-   * }
-   * ```
+   * State of a connected, unpaused call: active once the agent has joined.
+   * @private
    */
-  getTrackStats(): TrackStatsResult | null {
-    return this.liveKitManager ? this.liveKitManager.getTrackStats() : null;
+  #getConnectedCallState(): CallState {
+    return this.#findAgentParticipant() ? 'active' : 'waiting-for-agent';
   }
 
   /**
-   * Retrieves comprehensive analytics combining all metrics into a single snapshot
-   *
-   * This is the primary method for accessing complete conversation analytics,
-   * combining connection statistics, audio metrics, performance data, participant
-   * information, and track statistics into a unified result.
-   *
-   * @returns Complete analytics object or null if not connected
-   *
-   * @example
-   * ```typescript
-   * const analytics = agent.getCallAnalytics();
-   * if (analytics) {
-   *   // Log comprehensive conversation summary
-   *   console.log('=== Conversation Analytics ===');
-   *   console.log(`Duration: ${analytics.performanceMetrics.callDuration}ms`);
-   *   console.log(`Quality: ${analytics.connectionStats.quality}`);
-   *   console.log(`Latency: ${analytics.connectionStats.latency}ms`);
-   *   console.log(`Participants: ${analytics.participants.length}`);
-   *
-   *   // Send to analytics service
-   *   analyticsService.recordConversation({
-   *     sessionId: generateSessionId(),
-   *     agentId: currentAgentId,
-   *     timestamp: Date.now(),
-   *     metrics: analytics
-   *   });
-   *
-   *   // Check for quality issues
-   *   if (analytics.connectionStats.packetLoss > 5) {
-   *     reportNetworkIssue(analytics);
-   *   }
-   * }
-   * ```
+   * Finds the agent among the remote participants of the room.
+   * @private
    */
-  getCallAnalytics(): CallAnalyticsResult | null {
-    return this.liveKitManager ? this.liveKitManager.getCallAnalytics() : null;
+  #findAgentParticipant(): RemoteParticipant | undefined {
+    const remoteParticipants =
+      this.liveKitManager?.connection.room?.remoteParticipants?.values() ?? [];
+    return Array.from(remoteParticipants).find(
+      (participant) => participant.isAgent
+    );
   }
 
   /**
-   * Gets the LiveKit Room instance for React SDK integration
-   *
-   * Provides access to the underlying LiveKit Room object for use with
-   * LiveKit React components. This enables integration with the broader
-   * LiveKit React ecosystem while maintaining the benefits of the
-   * HamsaVoiceAgent abstraction.
-   *
-   * @internal - For use by @hamsa-ai/voice-agents-react only
-   * @returns LiveKit Room instance or null if not connected
-   *
-   * @example React SDK Integration
-   * ```typescript
-   * import { RoomContext } from '@livekit/components-react';
-   *
-   * function VoiceProvider({ agent, children }) {
-   *   const [room, setRoom] = useState(null);
-   *
-   *   useEffect(() => {
-   *     agent.on('callStarted', () => {
-   *       setRoom(agent.getRoom());
-   *     });
-   *   }, [agent]);
-   *
-   *   if (!room) return children;
-   *
-   *   return (
-   *     <RoomContext.Provider value={room}>
-   *       {children}
-   *     </RoomContext.Provider>
-   *   );
-   * }
-   * ```
+   * Throws if the call is starting, reconnecting or ending.
+   * @private
+   * @param action - Human-readable action name used in the error message.
+   * @throws {HamsaError} INVALID_CALL_STATE while the call is in transition.
    */
-  getRoom(): Room | null {
-    return this.liveKitManager?.connection.getRoom() ?? null;
+  #assertNotTransitioning(action: string): void {
+    if (TRANSITIONAL_CALL_STATES.includes(this.callState)) {
+      throw new HamsaError(
+        'INVALID_CALL_STATE',
+        `Cannot ${action} while the call is ${this.callState}`
+      );
+    }
   }
 
   /**
-   * Gets the remote audio track from the voice agent for visualization
-   *
-   * Provides access to the agent's audio track for use with LiveKit React
-   * visualization components like BarVisualizer. Returns undefined if not
-   * connected or no remote audio track is available.
-   *
-   * @returns RemoteTrack | undefined - The agent's audio track or undefined if not available
-   *
-   * @example With LiveKit BarVisualizer
-   * ```typescript
-   * import { BarVisualizer } from '@livekit/components-react';
-   *
-   * function AgentVisualizer({ agent }) {
-   *   const [audioTrack, setAudioTrack] = useState();
-   *
-   *   useEffect(() => {
-   *     agent.on('trackSubscribed', ({ track }) => {
-   *       if (track.kind === 'audio') {
-   *         setAudioTrack(track);
-   *       }
-   *     });
-   *   }, [agent]);
-   *
-   *   if (!audioTrack) return null;
-   *
-   *   return <BarVisualizer trackRef={{ track: audioTrack, source: 'microphone' }} />;
-   * }
-   * ```
+   * Emits a call control rejected by the current call state as an 'error' event.
+   * @private
+   * @param action - Human-readable action name used in the error message.
    */
-  getRemoteAudioTrack(): RemoteTrack | undefined {
-    const room = this.liveKitManager?.connection.getRoom();
-    if (!room?.remoteParticipants) {
-      return;
+  #reportInvalidCallState(action: string): void {
+    const error = new HamsaError(
+      'INVALID_CALL_STATE',
+      `Cannot ${action} while the call is ${this.callState}`
+    );
+    this.logger.warn(error.message, { source: 'HamsaVoiceAgent' });
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
     }
+  }
 
-    // Find the first remote participant with an audio track
-    for (const participant of room.remoteParticipants.values()) {
-      const audioPublication = Array.from(
-        participant.audioTrackPublications.values()
-      )[0];
+  /**
+   * Resolves with the identity of the agent participant once it is in the room.
+   * @private
+   * @param timeoutMs - Maximum time to wait for the agent to join.
+   * @returns Promise resolving to the agent's LiveKit identity.
+   * @throws {HamsaError} AGENT_UNAVAILABLE if the agent does not join in time.
+   */
+  #waitForAgent(timeoutMs: number): Promise<string> {
+    const manager = this.liveKitManager;
+    if (!manager?.isConnected) {
+      return Promise.reject(
+        new HamsaError('NOT_CONNECTED', 'Call ended before the agent joined')
+      );
+    }
 
-      if (audioPublication?.track) {
-        return audioPublication.track;
-      }
+    const agent = this.#findAgentParticipant();
+    if (agent) {
+      return Promise.resolve(agent.identity);
     }
 
-    return;
+    return new Promise((resolve, reject) => {
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      const onParticipantConnected = (participant: RemoteParticipant) => {
+        if (participant.isAgent) {
+          cleanup();
+          resolve(participant.identity);
+        }
+      };
+      const onDisconnected = () => {
+        cleanup();
+        reject(
+          new HamsaError('NOT_CONNECTED', 'Call ended before the agent joined')
+        );
+      };
+      const cleanup = () => {
+        clearTimeout(timeout);
+        manager.off('participantConnected', onParticipantConnected);
+        manager.off('disconnected', onDisconnected);
+      };
+
+      manager.on('participantConnected', onParticipantConnected);
+      manager.on('disconnected', onDisconnected);
+      timeout = setTimeout(() => {
+        cleanup();
+        reject(
+          new HamsaError(
+            'AGENT_UNAVAILABLE',
+            `Agent did not join the call within ${timeoutMs}ms`
+          )
+        );
+      }, timeoutMs);
+    });
   }
 
   /**
-   * Delays execution for a specified amount of time.
+   * Publishes a JSON message to the agent over the reliable data channel.
    * @private
-   * @param ms - Milliseconds to delay.
-   * @returns Promise that resolves after the delay.
+   * @param message - Serializable message with an `event` discriminator.
+   * @param action - Human-readable action name used in error messages.
+   * @returns Promise that resolves once LiveKit has delivered the packet.
+   * @throws {HamsaError} If not connected, the encoded message is too large or delivery fails.
    */
-  #delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  async #publishToAgent(
+    message: { event: string } & Record<string, unknown>,
+    action: string
+  ): Promise<void> {
+    this.#assertNotTransitioning(action);
+
+    const room = this.liveKitManager?.connection?.room;
+    if (!(this.liveKitManager?.isConnected && room?.localParticipant)) {
+      throw new HamsaError(
+        'NOT_CONNECTED',
+        `Cannot ${action}: not connected to voice agent. Call start() first.`
+      );
+    }
+
+    const payload = new TextEncoder().encode(JSON.stringify(message));
+    if (payload.byteLength > MAX_DATA_MESSAGE_BYTES) {
+      throw new HamsaError(
+        'MESSAGE_TOO_LARGE',
+        `Cannot ${action}: message is ${payload.byteLength} bytes, exceeding the ${MAX_DATA_MESSAGE_BYTES} byte limit.`
+      );
+    }
+
+    try {
+      await room.localParticipant.publishData(payload, { reliable: true });
+    } catch (error) {
+      this.logger.error(`Failed to ${action}`, {
+        source: 'HamsaVoiceAgent',
+        error,
+      });
+      throw new HamsaConnectionError(
+        'DATA_SEND_FAILED',
+        `Failed to ${action}: ${getErrorMessage(error)}`,
+        { cause: error }
+      );
+    }
   }
 }
 
@@ -2472,7 +4147,7 @@ interface HamsaVoiceAgent {
 }
 
 // Support both named and default exports
-export { HamsaVoiceAgent, HamsaApiError };
+export { HamsaVoiceAgent };
 export default HamsaVoiceAgent;
 
 // Export LiveKit types for use with React components
@@ -2495,9 +4170,13 @@ export type {
 
 // Export event types for type-safe event handling
 export type {
+  CallSession,
   CallStartedData,
+  ConnectOptions,
   HamsaVoiceAgentEvents,
   StartOptions,
+  SessionToken,
+  TokenProvider,
   Tool,
   JobDetails,
 };
@@ -0,0 +1,302 @@
+/**
+ * Server-side session helpers for Node backends
+ *
+ * Entry point published as `@hamsa-ai/voice-agents-sdk/server`. It mints voice
+ * agent sessions on your backend so the Hamsa API key never ships to the browser.
+ * The browser then starts the call with `agent.start({ agentId, tokenProvider })`
+ * or `agent.start({ agentId, session })`.
+ *
+ * This module has no browser or LiveKit dependency and only needs a global
+ * `fetch` (Node 18+, Deno, Bun and edge runtimes).
+ *
+ * @example Express
+ * ```typescript
+ * import { createSessionHandler } from '@hamsa-ai/voice-agents-sdk/server';
+ *
+ * const handleSession = createSessionHandler({
+ *   apiKey: process.env.HAMSA_API_KEY,
+ *   region: 'eu',
+ *   agentIds: ['agent_12345'],
+ * });
+ *
+ * app.post('/api/hamsa-session', async (req, res) => {
+ *   const { status, body } = await handleSession(req.body);
+ *   res.status(status).json(body);
+ * });
+ * ```
+ */
+
+import { HamsaApiError } from './classes/errors';
+import {
+  type CreateSessionOptions,
+  HamsaSessionClient,
+  REGION_CONFIG,
+  type Region,
+  type SessionCredentials,
+} from './classes/session-client';
+
+export type {
+  HamsaErrorCategory,
+  HamsaErrorCode,
+  HamsaErrorOptions,
+} from './classes/errors';
+// biome-ignore lint/performance/noBarrelFile: This is the server SDK entry point - re-exports are intentional for developer convenience
+export {
+  HamsaApiError,
+  HamsaConnectionError,
+  HamsaError,
+} from './classes/errors';
+export type {
+  CreateSessionOptions,
+  Region,
+  SessionCredentials,
+} from './classes/session-client';
+export { HamsaSessionClient } from './classes/session-client';
+export type {
+  LLMTool,
+  ToolDefinition,
+  ToolParameter,
+} from './classes/types';
+
+/** HTTP status returned when the request body does not describe a session */
+const STATUS_BAD_REQUEST = 400;
+/** HTTP status returned when the requested agent is not in the allowlist */
+const STATUS_FORBIDDEN = 403;
+/** HTTP status returned when the Hamsa API fails without a client error status */
+const STATUS_BAD_GATEWAY = 502;
+/** HTTP status returned for unexpected failures */
+const STATUS_INTERNAL_ERROR = 500;
+/** HTTP status returned when the session was minted */
+const STATUS_OK = 200;
+
+/**
+ * Server-side configuration for minting sessions
+ */
+type SessionServerConfig = {
+  /** Hamsa API key (keep it in server-side environment variables) */
+  apiKey: string;
+  /** Deployment region ('eu' | 'uae'). Defaults to 'eu'. */
+  region?: Region;
+  /** Custom API endpoint URL. Overrides the region default. */
+  API_URL?: string;
+  /** Enable debug logging */
+  debug?: boolean;
+};
+
+/**
+ * Configuration for createSessionHandler(). The request body comes from the
+ * browser and is not trusted, so the handler needs either an allowlist of
+ * agents or a resolveOptions function that decides what to mint.
+ */
+type SessionHandlerConfig = SessionServerConfig &
+  (
+    | {
+        /**
+         * Agents the browser may start sessions for. The body picks one with
+         * `agentId` and may set `voiceEnablement` and `userId`; `params` and
+         * `tools` in the body are ignored.
+         */
+        agentIds: readonly string[];
+        resolveOptions?: never;
+      }
+    | {
+        /**
+         * Maps the incoming request body to the session to mint. Use it to pin
+         * the agent, inject trusted params or reject unauthorized requests by
+         * throwing.
+         */
+        resolveOptions: (
+          body: unknown
+        ) => CreateSessionOptions | Promise<CreateSessionOptions>;
+        agentIds?: never;
+      }
+  );
+
+/**
+ * Request body rejected with a specific HTTP status
+ */
+class SessionRequestError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'SessionRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * Framework-agnostic handler result, to be written to your HTTP response
+ */
+type SessionHandlerResult =
+  | {
+      status: typeof STATUS_OK;
+      body: { success: true; data: SessionCredentials };
+    }
+  | {
+      status: number;
+      body: { success: false; message: string; messageKey?: string };
+    };
+
+/**
+ * Creates a session client from server-side configuration.
+ */
+function createClient({
+  apiKey,
+  region = 'eu',
+  API_URL,
+  debug = false,
+}: SessionServerConfig): HamsaSessionClient {
+  return new HamsaSessionClient(apiKey, {
+    API_URL: API_URL ?? REGION_CONFIG[region].API_URL,
+    debug,
+  });
+}
+
+/**
+ * Reads session options from an untrusted request body. Only allowlisted
+ * agents are accepted, and params and tools are never taken from the body.
+ */
+function readSessionOptions(
+  body: unknown,
+  agentIds: readonly string[]
+): CreateSessionOptions {
+  const { agentId, voiceEnablement, userId } = (body ?? {}) as Record<
+    string,
+    unknown
+  >;
+  if (typeof agentId !== 'string' || agentId.length === 0) {
+    throw new TypeError('Invalid session request: agentId is required');
+  }
+  if (!agentIds.includes(agentId)) {
+    throw new SessionRequestError(
+      `Invalid session request: agent ${agentId} is not allowed`,
+      STATUS_FORBIDDEN
+    );
+  }
+
+  return {
+    agentId,
+    voiceEnablement: voiceEnablement === true,
+    userId: typeof userId === 'string' ? userId : undefined,
+  };
+}
+
+/**
+ * Tells whether an HTTP status is a client error (4xx).
+ */
+function isClientErrorStatus(status: number | undefined): status is number {
+  return (
+    status !== undefined &&
+    status >= STATUS_BAD_REQUEST &&
+    status < STATUS_INTERNAL_ERROR
+  );
+}
+
+/**
+ * Mints a voice agent session on the server
+ *
+ * Runs the participant-token and conversation-init sequence, converts tool
+ * schemas to the backend format and resolves the job ID from the LiveKit token.
+ *
+ * @param config - Server-side configuration holding the API key
+ * @param options - Conversation the session is minted for
+ * @returns Credentials to hand to the browser (`{ liveKitAccessToken, jobId }`)
+ * @throws {HamsaApiError} When the Hamsa API rejects either request
+ *
+ * @example
+ * ```typescript
+ * const session = await createSession(
+ *   { apiKey: process.env.HAMSA_API_KEY },
+ *   { agentId: 'agent_12345', voiceEnablement: true }
+ * );
+ * ```
+ */
+export function createSession(
+  config: SessionServerConfig,
+  options: CreateSessionOptions
+): Promise<SessionCredentials> {
+  return createClient(config).createSession(options);
+}
+
+/**
+ * Creates a framework-agnostic request handler that mints sessions
+ *
+ * The handler takes the parsed JSON request body and returns the status code
+ * and JSON body to send back, so it plugs into Express, Fastify, Next.js route
+ * handlers or any other server. Sessions are only minted for the agents in
+ * `agentIds`, or for what `resolveOptions` returns. Request validation errors
+ * map to 400 and agents outside the allowlist to 403. Hamsa API errors keep
+ * their message and messageKey, and their status when it is a client error
+ * (e.g. 401, 404 or 429); other API failures map to 502.
+ *
+ * @param config - Server-side configuration with an agent allowlist or a request mapping
+ * @returns Handler resolving to `{ status, body }`
+ * @throws {TypeError} When neither agentIds nor resolveOptions is configured
+ */
+export function createSessionHandler(
+  config: SessionHandlerConfig
+): (body: unknown) => Promise<SessionHandlerResult> {
+  const { agentIds, resolveOptions: configuredResolveOptions } = config;
+  if (!(configuredResolveOptions || Array.isArray(agentIds))) {
+    throw new TypeError(
+      'createSessionHandler() requires agentIds or resolveOptions: the request body alone is not trusted'
+    );
+  }
+  const client = createClient(config);
+  const resolveOptions =
+    configuredResolveOptions ??
+    ((body: unknown) => readSessionOptions(body, agentIds ?? []));
+
+  return async (body) => {
+    let options: CreateSessionOptions;
+    try {
+      options = await resolveOptions(body);
+    } catch (error) {
+      return {
+        status:
+          error instanceof SessionRequestError
+            ? error.status
+            : STATUS_BAD_REQUEST,
+        body: {
+          success: false,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+
+    try {
+      const data = await client.createSession(options);
+      return { status: STATUS_OK, body: { success: true, data } };
+    } catch (error) {
+      return toSessionErrorResult(error);
+    }
+  };
+}
+
+/**
+ * Maps a failure to create the session to the handler result.
+ */
+function toSessionErrorResult(error: unknown): SessionHandlerResult {
+  if (error instanceof HamsaApiError) {
+    return {
+      status: isClientErrorStatus(error.status)
+        ? error.status
+        : STATUS_BAD_GATEWAY,
+      body: {
+        success: false,
+        message: error.message,
+        messageKey: error.messageKey,
+      },
+    };
+  }
+  return {
+    status: STATUS_INTERNAL_ERROR,
+    body: {
+      success: false,
+      message: `Failed to create session: ${error instanceof Error ? error.message : String(error)}`,
+    },
+  };
+}
+
+export type { SessionHandlerConfig, SessionHandlerResult, SessionServerConfig };
@@ -0,0 +1,42 @@
+/**
+ * Platform detection based on the browser user agent
+ *
+ * Used to apply platform-specific workarounds for mobile audio and
+ * connection quirks. Detection is best-effort: outside a browser every
+ * platform is reported as 'other'.
+ */
+
+const IOS_REGEX = /iP(hone|ad|od)|iPhone/i;
+const ANDROID_REGEX = /Android/i;
+const HEADPHONES_REGEX =
+  /airpods|beats|buds|earphone|headphone|headset|bluetooth|wired/i;
+
+/** Platform the SDK is running on */
+export type DevicePlatform = 'ios' | 'android' | 'other';
+
+/**
+ * Detects the platform from the browser user agent
+ *
+ * @returns 'ios', 'android' or 'other' when not running in a mobile browser
+ */
+export const getDevicePlatform = (): DevicePlatform => {
+  if (typeof navigator === 'undefined') {
+    return 'other';
+  }
+  if (IOS_REGEX.test(navigator.userAgent)) {
+    return 'ios';
+  }
+  if (ANDROID_REGEX.test(navigator.userAgent)) {
+    return 'android';
+  }
+  return 'other';
+};
+
+/**
+ * Tells whether a media device is a pair of wired or Bluetooth headphones
+ *
+ * Based on the device label, which browsers only expose once microphone
+ * access has been granted.
+ */
+export const isHeadphoneDevice = (device: MediaDeviceInfo): boolean =>
+  HEADPHONES_REGEX.test(device.label);
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { Room } from 'livekit-client';
+import HamsaVoiceAgent from '../src/main';
+import { mockSuccessfulConversationInit } from './utils/fetch-mocks';
+import { createMockRoom } from './utils/livekit-mocks';
+import { MOCK_CONFIG } from './utils/test-constants';
+import {
+  applyWakeLockMocks,
+  createWakeLockMocks,
+} from './utils/wake-lock-mocks';
+
+const AGENT_IDENTITY = 'agent-123';
+
+/**
+ * Encodes a data message the way the agent publishes it
+ */
+const encodeAgentMessage = (message: Record<string, unknown>) =>
+  new TextEncoder().encode(JSON.stringify(message));
+
+describe('HamsaVoiceAgent answer events', () => {
+  let agent: HamsaVoiceAgent;
+
+  /**
+   * Delivers a LiveKit transcription segment spoken by the agent
+   */
+  const agentSays = (id: string, text: string, final: boolean) =>
+    agent.liveKitManager?.toolRegistry.handleTranscriptionReceived(
+      [{ id, text, final }],
+      AGENT_IDENTITY
+    );
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockSuccessfulConversationInit();
+    agent = new HamsaVoiceAgent(MOCK_CONFIG.API_KEY, {
+      API_URL: MOCK_CONFIG.API_URL,
+    });
+    applyWakeLockMocks(agent, createWakeLockMocks());
+    const room = createMockRoom();
+    (Room as unknown as jest.Mock).mockImplementation(() => room);
+    await agent.start({ agentId: 'test-agent' });
+  });
+
+  test('should stream deltas and complete the answer when the agent listens', () => {
+    const deltaSpy = jest.fn();
+    const completedSpy = jest.fn();
+    const events: string[] = [];
+    agent.on('answerDelta', deltaSpy);
+    agent.on('answerCompleted', (data) => {
+      completedSpy(data);
+      events.push('answerCompleted');
+    });
+    agent.on('agentStateChanged', (state) => events.push(state));
+
+    agent.liveKitManager?.emit('agentStateChanged', 'speaking');
+    agentSays('seg-1', 'Hello!', true);
+    agentSays('seg-2', 'How can', false);
+    agentSays('seg-2', 'How can I help?', true);
+    agent.liveKitManager?.emit('agentStateChanged', 'listening');
+
+    const [[first]] = deltaSpy.mock.calls as [[{ answerId: string }]];
+    expect(deltaSpy.mock.calls.map(([data]) => data)).toEqual([
+      { answerId: first.answerId, delta: 'Hello!', text: 'Hello!' },
+      { answerId: first.answerId, delta: ' How can', text: 'Hello! How can' },
+      {
+        answerId: first.answerId,
+        delta: ' I help?',
+        text: 'Hello! How can I help?',
+      },
+    ]);
+    expect(completedSpy).toHaveBeenCalledWith({
+      answerId: first.answerId,
+      text: 'Hello! How can I help?',
+      startMs: expect.any(Number),
+      endMs: expect.any(Number),
+    });
+    expect(events).toEqual(['speaking', 'answerCompleted', 'listening']);
+    expect(agent.getTranscript()[0].id).toBe(first.answerId);
+  });
+
+  test('should give the next answer a new id', () => {
+    const completedSpy = jest.fn();
+    agent.on('answerCompleted', completedSpy);
+
+    agentSays('seg-1', 'Let me check.', true);
+    agent.liveKitManager?.emit('agentStateChanged', 'listening');
+    agentSays('seg-2', 'It is sunny.', true);
+    agent.liveKitManager?.emit('agentStateChanged', 'listening');
+
+    const [[first], [second]] = completedSpy.mock.calls as [
+      [{ answerId: string; text: string }],
+      [{ answerId: string; text: string }],
+    ];
+    expect(first.text).toBe('Let me check.');
+    expect(second.text).toBe('It is sunny.');
+    expect(second.answerId).not.toBe(first.answerId);
+  });
+
+  test('should complete an answer that repeats an earlier one', () => {
+    const completedSpy = jest.fn();
+    agent.on('answerCompleted', completedSpy);
+    const answer = encodeAgentMessage({
+      event: 'answer',
+      content: "Sorry, I didn't catch that.",
+    });
+
+    agent.liveKitManager?.toolRegistry.handleDataReceived(
+      answer,
+      AGENT_IDENTITY
+    );
+    agent.liveKitManager?.emit('agentStateChanged', 'listening');
+    agent.liveKitManager?.toolRegistry.handleDataReceived(
+      answer,
+      AGENT_IDENTITY
+    );
+    agent.liveKitManager?.emit('agentStateChanged', 'listening');
+
+    const [[first], [second]] = completedSpy.mock.calls as [
+      [{ answerId: string; text: string }],
+      [{ answerId: string; text: string }],
+    ];
+    expect(completedSpy).toHaveBeenCalledTimes(2);
+    expect(second.text).toBe(first.text);
+    expect(second.answerId).not.toBe(first.answerId);
+  });
+});
@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { Room } from 'livekit-client';
+import HamsaVoiceAgent from '../src/main';
+import { mockSuccessfulConversationInit } from './utils/fetch-mocks';
+import { createMockRoom, type MockRoom } from './utils/livekit-mocks';
+import { MOCK_CONFIG } from './utils/test-constants';
+import {
+  applyWakeLockMocks,
+  createWakeLockMocks,
+} from './utils/wake-lock-mocks';
+
+const MONO = 1;
+const INVALID_SAMPLE_RATE = -1;
+
+type MockMicrophoneTrack = {
+  isMuted: boolean;
+  constraints: MediaTrackConstraints;
+  restartTrack: jest.Mock<(options?: unknown) => Promise<void>>;
+  mute: jest.Mock<() => Promise<void>>;
+  unmute: jest.Mock<() => Promise<void>>;
+};
+
+/**
+ * Creates a microphone track whose restart comes back unmuted, like a fresh
+ * getUserMedia track
+ */
+const createMicrophoneTrack = (
+  muted: boolean,
+  deviceId = 'mic-1'
+): MockMicrophoneTrack => {
+  const track: MockMicrophoneTrack = {
+    isMuted: muted,
+    constraints: { deviceId },
+    restartTrack: jest.fn(() => {
+      track.isMuted = false;
+      return Promise.resolve();
+    }),
+    mute: jest.fn(() => {
+      track.isMuted = true;
+      return Promise.resolve();
+    }),
+    unmute: jest.fn(() => {
+      track.isMuted = false;
+      return Promise.resolve();
+    }),
+  };
+  return track;
+};
+
+describe('HamsaVoiceAgent audio constraints', () => {
+  let agent: HamsaVoiceAgent;
+  let room: MockRoom & { options: { audioCaptureDefaults?: object } };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSuccessfulConversationInit();
+    agent = new HamsaVoiceAgent(MOCK_CONFIG.API_KEY, {
+      API_URL: MOCK_CONFIG.API_URL,
+    });
+    applyWakeLockMocks(agent, createWakeLockMocks());
+    room = Object.assign(createMockRoom(), {
+      options: {
+        audioCaptureDefaults: {
+          echoCancellation: true,
+          noiseSuppression: true,
+          deviceId: 'mic-1',
+        },
+      },
+    });
+    (Room as unknown as jest.Mock).mockImplementation(() => room);
+  });
+
+  test('should create the room with the constraints passed to start()', async () => {
+    await agent.start({
+      agentId: 'test-agent',
+      audio: {
+        noiseSuppression: false,
+        autoGainControl: false,
+        channelCount: MONO,
+      },
+    });
+
+    expect(Room).toHaveBeenCalledWith(
+      expect.objectContaining({
+        audioCaptureDefaults: {
+          echoCancellation: true,
+          noiseSuppression: false,
+          autoGainControl: false,
+          channelCount: MONO,
+        },
+      })
+    );
+  });
+
+  test('should keep the defaults for constraints left undefined', async () => {
+    await agent.start({
+      agentId: 'test-agent',
+      audio: { noiseSuppression: undefined, voiceIsolation: true },
+    });
+
+    expect(Room).toHaveBeenCalledWith(
+      expect.objectContaining({
+        audioCaptureDefaults: {
+          echoCancellation: true,
+          noiseSuppression: true,
+          voiceIsolation: true,
+        },
+      })
+    );
+  });
+
+  test('should fail the start with INVALID_ARGUMENT for an invalid constraint', async () => {
+    const errorSpy = jest.fn();
+    agent.on('error', errorSpy);
+
+    await agent.start({
+      agentId: 'test-agent',
+      audio: { sampleRate: INVALID_SAMPLE_RATE },
+    });
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+    );
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  test('should reject updateAudioConstraints() without a call', async () => {
+    await expect(
+      agent.updateAudioConstraints({ noiseSuppression: false })
+    ).rejects.toMatchObject({ code: 'NOT_CONNECTED' });
+  });
+
+  test('should restart the microphone with the new constraints and keep it muted', async () => {
+    const track = createMicrophoneTrack(true);
+    room.localParticipant.getTrackPublication.mockReturnValue({ track });
+    await agent.start({ agentId: 'test-agent' });
+
+    await agent.updateAudioConstraints({ noiseSuppression: false });
+
+    expect(track.restartTrack).toHaveBeenCalledWith({
+      echoCancellation: true,
+      noiseSuppression: false,
+      deviceId: 'mic-1',
+    });
+    expect(track.mute).toHaveBeenCalled();
+    expect(track.isMuted).toBe(true);
+  });
+
+  test('should keep the device LiveKit moved the microphone to', async () => {
+    // The selected microphone was unplugged and replaced by the default input
+    const track = createMicrophoneTrack(false, 'default');
+    room.localParticipant.getTrackPublication.mockReturnValue({ track });
+    await agent.start({ agentId: 'test-agent' });
+
+    await agent.updateAudioConstraints({ noiseSuppression: false });
+
+    expect(track.restartTrack).toHaveBeenCalledWith(
+      expect.objectContaining({ deviceId: 'default' })
+    );
+    expect(room.options.audioCaptureDefaults).toMatchObject({
+      deviceId: 'default',
+    });
+  });
+
+  test('should reject with a media error when the microphone cannot restart', async () => {
+    const track = createMicrophoneTrack(false);
+    track.restartTrack.mockRejectedValue(new Error('Could not start source'));
+    room.localParticipant.getTrackPublication.mockReturnValue({ track });
+    await agent.start({ agentId: 'test-agent' });
+
+    await expect(
+      agent.updateAudioConstraints({ echoCancellation: false })
+    ).rejects.toMatchObject({
+      code: 'AUDIO_CONTROL_FAILED',
+      category: 'media',
+    });
+  });
+});
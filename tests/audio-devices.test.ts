@@ -0,0 +1,307 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  jest,
+  test,
+} from '@jest/globals';
+import { Room } from 'livekit-client';
+import HamsaVoiceAgent, { HamsaMediaError } from '../src/main';
+import { mockSuccessfulConversationInit } from './utils/fetch-mocks';
+import { createMockRoom, type MockRoom } from './utils/livekit-mocks';
+import { MOCK_CONFIG } from './utils/test-constants';
+import {
+  applyWakeLockMocks,
+  createWakeLockMocks,
+} from './utils/wake-lock-mocks';
+
+const MAX_POLL_ATTEMPTS = 50;
+const IOS_USER_AGENT =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 Mobile/15E148';
+
+const microphone = {
+  deviceId: 'mic-headset',
+  kind: 'audioinput',
+  label: 'Headset Microphone',
+  groupId: 'headset',
+} as MediaDeviceInfo;
+const speaker = {
+  deviceId: 'speaker-headset',
+  kind: 'audiooutput',
+  label: 'Headset Earphone',
+  groupId: 'headset',
+} as MediaDeviceInfo;
+
+const builtInMicrophone = {
+  deviceId: 'mic-built-in',
+  kind: 'audioinput',
+  label: 'iPhone Microphone',
+  groupId: 'built-in',
+} as MediaDeviceInfo;
+const airPods = {
+  deviceId: 'mic-airpods',
+  kind: 'audioinput',
+  label: 'AirPods Pro',
+  groupId: 'airpods',
+} as MediaDeviceInfo;
+
+type MockRoomWithDevices = MockRoom & {
+  switchActiveDevice: jest.Mock<
+    (kind: MediaDeviceKind, deviceId: string) => Promise<boolean>
+  >;
+};
+
+/**
+ * Yields to the event loop until the condition holds
+ */
+const waitUntil = async (condition: () => boolean) => {
+  for (let attempt = 0; attempt < MAX_POLL_ATTEMPTS; attempt++) {
+    if (condition()) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  throw new Error('Condition not met');
+};
+
+describe('HamsaVoiceAgent audio devices', () => {
+  let agent: HamsaVoiceAgent;
+  let room: MockRoomWithDevices;
+  let getLocalDevices: jest.Mock<
+    (kind: MediaDeviceKind) => Promise<MediaDeviceInfo[]>
+  >;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSuccessfulConversationInit();
+    agent = new HamsaVoiceAgent(MOCK_CONFIG.API_KEY, {
+      API_URL: MOCK_CONFIG.API_URL,
+    });
+    applyWakeLockMocks(agent, createWakeLockMocks());
+    room = Object.assign(createMockRoom(), {
+      switchActiveDevice: jest.fn(() => Promise.resolve(true)),
+    });
+    (Room as unknown as jest.Mock).mockImplementation(() => room);
+    getLocalDevices = jest.fn((kind: MediaDeviceKind) =>
+      Promise.resolve(kind === 'audioinput' ? [microphone] : [speaker])
+    );
+    Object.assign(Room, { getLocalDevices });
+  });
+
+  test('should list microphones and speakers', async () => {
+    await expect(agent.listAudioInputs()).resolves.toEqual([microphone]);
+    await expect(agent.listAudioOutputs()).resolves.toEqual([speaker]);
+    expect(getLocalDevices).toHaveBeenCalledWith('audioinput', true);
+    expect(getLocalDevices).toHaveBeenCalledWith('audiooutput', true);
+  });
+
+  test('should map a denied permission when listing devices', async () => {
+    getLocalDevices.mockRejectedValue(
+      Object.assign(new Error('Permission denied'), { name: 'NotAllowedError' })
+    );
+
+    const promise = agent.listAudioInputs();
+
+    await expect(promise).rejects.toBeInstanceOf(HamsaMediaError);
+    await expect(promise).rejects.toMatchObject({
+      code: 'MIC_PERMISSION_DENIED',
+    });
+  });
+
+  test('should create the room with the devices chosen before start()', async () => {
+    await agent.setAudioInput(microphone.deviceId);
+    await agent.setAudioOutput(speaker.deviceId);
+
+    await agent.start({ agentId: 'test-agent' });
+
+    expect(Room).toHaveBeenCalledWith(
+      expect.objectContaining({
+        audioCaptureDefaults: expect.objectContaining({
+          deviceId: microphone.deviceId,
+        }),
+        audioOutput: { deviceId: speaker.deviceId },
+      })
+    );
+  });
+
+  test('should switch devices during a call', async () => {
+    await agent.start({ agentId: 'test-agent' });
+
+    await agent.setAudioInput(microphone.deviceId);
+    await agent.setAudioOutput(speaker.deviceId);
+
+    expect(room.switchActiveDevice).toHaveBeenCalledWith(
+      'audioinput',
+      microphone.deviceId
+    );
+    expect(room.switchActiveDevice).toHaveBeenCalledWith(
+      'audiooutput',
+      speaker.deviceId
+    );
+  });
+
+  test('should reject and keep the previous speaker when switching fails', async () => {
+    await agent.start({ agentId: 'test-agent' });
+    room.switchActiveDevice.mockRejectedValue(
+      new Error('cannot switch audio output')
+    );
+
+    await expect(agent.setAudioOutput(speaker.deviceId)).rejects.toMatchObject({
+      code: 'MEDIA_DEVICE_ERROR',
+      category: 'media',
+    });
+
+    agent.end();
+    await waitUntil(() => agent.getCallState() === 'ended');
+    mockSuccessfulConversationInit();
+    await agent.start({ agentId: 'test-agent' });
+
+    expect(
+      (Room as unknown as jest.Mock).mock.lastCall?.[0]
+    ).not.toHaveProperty('audioOutput');
+  });
+
+  test('should reject when the microphone could not be switched', async () => {
+    await agent.start({ agentId: 'test-agent' });
+    room.switchActiveDevice.mockResolvedValue(false);
+
+    await expect(
+      agent.setAudioInput(microphone.deviceId)
+    ).rejects.toMatchObject({ code: 'MEDIA_DEVICE_ERROR' });
+  });
+
+  test('should reject an empty deviceId', async () => {
+    await expect(agent.setAudioInput('')).rejects.toMatchObject({
+      code: 'INVALID_ARGUMENT',
+    });
+  });
+
+  test('should emit devicesChanged with the new device lists', async () => {
+    await agent.start({ agentId: 'test-agent' });
+    const devicesChangedSpy = jest.fn();
+    agent.on('devicesChanged', devicesChangedSpy);
+
+    agent.liveKitManager?.connection.emit('devicesChanged');
+    await waitUntil(() => devicesChangedSpy.mock.calls.length > 0);
+
+    expect(devicesChangedSpy).toHaveBeenCalledWith({
+      inputs: [microphone],
+      outputs: [speaker],
+    });
+    expect(getLocalDevices).toHaveBeenCalledWith('audioinput', false);
+  });
+
+  describe('preferHeadphonesForIosDevices', () => {
+    let inputs: MediaDeviceInfo[];
+
+    beforeEach(() => {
+      jest.spyOn(navigator, 'userAgent', 'get').mockReturnValue(IOS_USER_AGENT);
+      inputs = [builtInMicrophone, airPods];
+      getLocalDevices.mockImplementation((kind: MediaDeviceKind) =>
+        Promise.resolve(kind === 'audioinput' ? inputs : [])
+      );
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('should route audio to connected headphones', async () => {
+      const routeSpy = jest.fn();
+      agent.on('audioRouteChanged', routeSpy);
+
+      await agent.start({
+        agentId: 'test-agent',
+        preferHeadphonesForIosDevices: true,
+      });
+
+      expect(Room).toHaveBeenCalledWith(
+        expect.objectContaining({
+          audioCaptureDefaults: expect.objectContaining({
+            deviceId: airPods.deviceId,
+          }),
+        })
+      );
+      expect(routeSpy).toHaveBeenCalledWith({
+        type: 'headphones',
+        label: 'AirPods Pro',
+      });
+    });
+
+    test('should keep the built-in route without headphones', async () => {
+      inputs = [builtInMicrophone];
+      const routeSpy = jest.fn();
+      agent.on('audioRouteChanged', routeSpy);
+
+      await agent.start({
+        agentId: 'test-agent',
+        preferHeadphonesForIosDevices: true,
+      });
+
+      expect(
+        (Room as unknown as jest.Mock).mock.lastCall?.[0]
+      ).not.toHaveProperty('audioCaptureDefaults.deviceId');
+      expect(routeSpy).toHaveBeenCalledWith({ type: 'built-in' });
+    });
+
+    test('should move to headphones connected during the call', async () => {
+      inputs = [builtInMicrophone];
+      const routeSpy = jest.fn();
+      agent.on('audioRouteChanged', routeSpy);
+      await agent.start({
+        agentId: 'test-agent',
+        preferHeadphonesForIosDevices: true,
+      });
+
+      inputs = [builtInMicrophone, airPods];
+      agent.liveKitManager?.connection.emit('devicesChanged');
+      await waitUntil(() => routeSpy.mock.calls.length > 1);
+
+      expect(room.switchActiveDevice).toHaveBeenCalledWith(
+        'audioinput',
+        airPods.deviceId
+      );
+      expect(routeSpy).toHaveBeenLastCalledWith({
+        type: 'headphones',
+        label: 'AirPods Pro',
+      });
+    });
+
+    test('should not override a microphone chosen with setAudioInput()', async () => {
+      await agent.setAudioInput(builtInMicrophone.deviceId);
+      const routeSpy = jest.fn();
+      agent.on('audioRouteChanged', routeSpy);
+
+      await agent.start({
+        agentId: 'test-agent',
+        preferHeadphonesForIosDevices: true,
+      });
+
+      expect(Room).toHaveBeenCalledWith(
+        expect.objectContaining({
+          audioCaptureDefaults: expect.objectContaining({
+            deviceId: builtInMicrophone.deviceId,
+          }),
+        })
+      );
+      expect(routeSpy).toHaveBeenCalledWith({ type: 'built-in' });
+    });
+
+    test('should be ignored on other platforms', async () => {
+      jest
+        .spyOn(navigator, 'userAgent', 'get')
+        .mockReturnValue('Mozilla/5.0 (X11; Linux x86_64) Chrome/124.0');
+      const routeSpy = jest.fn();
+      agent.on('audioRouteChanged', routeSpy);
+
+      await agent.start({
+        agentId: 'test-agent',
+        preferHeadphonesForIosDevices: true,
+      });
+
+      expect(getLocalDevices).not.toHaveBeenCalled();
+      expect(routeSpy).not.toHaveBeenCalled();
+    });
+  });
+});
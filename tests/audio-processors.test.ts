@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { Room } from 'livekit-client';
+import { AudioProcessorChain } from '../src/classes/audio-processor-chain';
+import type { AudioTrackProcessor } from '../src/classes/types';
+import HamsaVoiceAgent from '../src/main';
+import { mockSuccessfulConversationInit } from './utils/fetch-mocks';
+import { createMockRoom } from './utils/livekit-mocks';
+import { MOCK_CONFIG } from './utils/test-constants';
+import {
+  applyWakeLockMocks,
+  createWakeLockMocks,
+} from './utils/wake-lock-mocks';
+
+type MockProcessor = AudioTrackProcessor & {
+  init: jest.Mock<AudioTrackProcessor['init']>;
+  restart: jest.Mock<AudioTrackProcessor['restart']>;
+  destroy: jest.Mock<AudioTrackProcessor['destroy']>;
+};
+
+const createTrack = (id: string) => ({ id }) as MediaStreamTrack;
+
+/**
+ * Creates a processor that outputs the given track, or passes its input
+ * through when none is given, and records the order it is destroyed in
+ */
+const createProcessor = (
+  name: string,
+  output?: MediaStreamTrack,
+  destroyed: string[] = []
+): MockProcessor => {
+  const processor: MockProcessor = {
+    name,
+    init: jest.fn(() => {
+      processor.processedTrack = output;
+      return Promise.resolve();
+    }),
+    restart: jest.fn(() => Promise.resolve()),
+    destroy: jest.fn(() => {
+      destroyed.push(name);
+      return Promise.resolve();
+    }),
+  };
+  return processor;
+};
+
+const options = {
+  kind: 'audio',
+  track: createTrack('microphone'),
+  audioContext: {} as AudioContext,
+} as Parameters<AudioTrackProcessor['init']>[0];
+
+describe('AudioProcessorChain', () => {
+  test('should feed each processor with the output of the previous one', async () => {
+    const filtered = createTrack('filtered');
+    const denoised = createTrack('denoised');
+    const highPass = createProcessor('high-pass', filtered);
+    const meter = createProcessor('meter');
+    const denoise = createProcessor('denoise', denoised);
+    const chain = new AudioProcessorChain([highPass, meter, denoise]);
+
+    await chain.init(options);
+
+    expect(highPass.init).toHaveBeenCalledWith(options);
+    expect(meter.init).toHaveBeenCalledWith({ ...options, track: filtered });
+    expect(denoise.init).toHaveBeenCalledWith({ ...options, track: filtered });
+    expect(chain.processedTrack).toBe(denoised);
+    expect(chain.name).toBe('high-pass > meter > denoise');
+  });
+
+  test('should destroy the initialized processors when one fails', async () => {
+    const destroyed: string[] = [];
+    const highPass = createProcessor('high-pass', createTrack('a'), destroyed);
+    const gain = createProcessor('gain', createTrack('b'), destroyed);
+    const denoise = createProcessor('denoise', undefined, destroyed);
+    denoise.init.mockRejectedValue(new Error('Model failed to load'));
+    const chain = new AudioProcessorChain([highPass, gain, denoise]);
+
+    await expect(chain.init(options)).rejects.toThrow('Model failed to load');
+
+    expect(destroyed).toEqual(['gain', 'high-pass']);
+  });
+
+  test('should destroy processors from the last to the first', async () => {
+    const destroyed: string[] = [];
+    const chain = new AudioProcessorChain([
+      createProcessor('high-pass', createTrack('a'), destroyed),
+      createProcessor('denoise', createTrack('b'), destroyed),
+    ]);
+    await chain.init(options);
+
+    await chain.destroy();
+
+    expect(destroyed).toEqual(['denoise', 'high-pass']);
+    expect(chain.processedTrack).toBeUndefined();
+  });
+});
+
+describe('HamsaVoiceAgent audio processors', () => {
+  let agent: HamsaVoiceAgent;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSuccessfulConversationInit();
+    agent = new HamsaVoiceAgent(MOCK_CONFIG.API_KEY, {
+      API_URL: MOCK_CONFIG.API_URL,
+    });
+    applyWakeLockMocks(agent, createWakeLockMocks());
+    const room = createMockRoom();
+    (Room as unknown as jest.Mock).mockImplementation(() => room);
+  });
+
+  test('should fail the start with INVALID_ARGUMENT for an invalid processor', async () => {
+    const errorSpy = jest.fn();
+    agent.on('error', errorSpy);
+
+    await agent.start({
+      agentId: 'test-agent',
+      audioProcessors: [{ name: 'denoise' } as AudioTrackProcessor],
+    });
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+    );
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  test('should reject setAudioProcessors() without a call', async () => {
+    await expect(agent.setAudioProcessors([])).rejects.toMatchObject({
+      code: 'NOT_CONNECTED',
+    });
+  });
+
+  test('should swap the processors of the audio manager during a call', async () => {
+    await agent.start({
+      agentId: 'test-agent',
+      audioProcessors: [createProcessor('high-pass')],
+    });
+    const audioManager = agent.liveKitManager?.audioManager;
+    const setProcessors = jest
+      .spyOn(audioManager as NonNullable<typeof audioManager>, 'setProcessors')
+      .mockResolvedValue(undefined);
+    const denoise = createProcessor('denoise');
+
+    await agent.setAudioProcessors([denoise]);
+
+    expect(setProcessors).toHaveBeenCalledWith([denoise]);
+  });
+});
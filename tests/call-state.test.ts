@@ -0,0 +1,235 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { Room } from 'livekit-client';
+import HamsaVoiceAgent, { type CallState, HamsaError } from '../src/main';
+import { mockSuccessfulConversationInit } from './utils/fetch-mocks';
+import { createMockRoom, type MockRoom } from './utils/livekit-mocks';
+import { MOCK_CONFIG } from './utils/test-constants';
+import {
+  applyWakeLockMocks,
+  createWakeLockMocks,
+} from './utils/wake-lock-mocks';
+
+const FETCH_CALLS_PER_START = 2;
+const MAX_POLL_ATTEMPTS = 50;
+
+const agentParticipant = { identity: 'agent-abc', sid: 'PA_1', isAgent: true };
+
+/**
+ * Makes the LiveKit Rooms created by the SDK use the given mock
+ */
+const useMockRoom = (room: MockRoom) => {
+  (Room as unknown as jest.Mock).mockImplementation(() => room);
+};
+
+/**
+ * Yields to the event loop until the condition holds
+ */
+const waitUntil = async (condition: () => boolean) => {
+  for (let attempt = 0; attempt < MAX_POLL_ATTEMPTS; attempt++) {
+    if (condition()) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  throw new Error('Condition not met');
+};
+
+describe('HamsaVoiceAgent call state', () => {
+  let agent: HamsaVoiceAgent;
+  let room: MockRoom;
+  let states: CallState[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSuccessfulConversationInit();
+    agent = new HamsaVoiceAgent(MOCK_CONFIG.API_KEY, {
+      API_URL: MOCK_CONFIG.API_URL,
+    });
+    applyWakeLockMocks(agent, createWakeLockMocks());
+    room = createMockRoom();
+    useMockRoom(room);
+    states = [];
+    agent.on('callStateChanged', (state) => states.push(state));
+  });
+
+  test('should start idle', () => {
+    expect(agent.getCallState()).toBe('idle');
+  });
+
+  test('should move through the start states and wait for the agent', async () => {
+    const changeSpy = jest.fn();
+    agent.on('callStateChanged', changeSpy);
+
+    await agent.start({ agentId: 'test-agent' });
+
+    expect(states).toEqual([
+      'fetching-token',
+      'connecting',
+      'waiting-for-agent',
+    ]);
+    expect(changeSpy).toHaveBeenCalledWith('fetching-token', 'idle');
+    expect(agent.getCallState()).toBe('waiting-for-agent');
+  });
+
+  test('should become active when the agent joins', async () => {
+    await agent.start({ agentId: 'test-agent' });
+
+    agent.liveKitManager?.emit('participantConnected', agentParticipant as any);
+
+    expect(agent.getCallState()).toBe('active');
+  });
+
+  test('should be active right away when the agent is already in the room', async () => {
+    room.remoteParticipants.set(agentParticipant.sid, agentParticipant);
+
+    await agent.start({ agentId: 'test-agent' });
+
+    expect(states).toEqual(['fetching-token', 'connecting', 'active']);
+  });
+
+  test('should reject a second start() made while the first is pending', async () => {
+    const errorSpy = jest.fn();
+    agent.on('error', errorSpy);
+
+    await Promise.all([
+      agent.start({ agentId: 'test-agent' }),
+      agent.start({ agentId: 'test-agent' }),
+    ]);
+
+    expect(Room).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledTimes(FETCH_CALLS_PER_START);
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: 'INVALID_CALL_STATE',
+        category: 'session',
+      })
+    );
+    expect(agent.getCallState()).toBe('waiting-for-agent');
+  });
+
+  test('should reject connect() while a call is live', async () => {
+    await agent.start({ agentId: 'test-agent' });
+
+    await expect(
+      agent.connect({ agentId: 'test-agent' })
+    ).rejects.toMatchObject({ code: 'INVALID_CALL_STATE' });
+  });
+
+  test('should report pause() while idle without throwing', () => {
+    const errorSpy = jest.fn();
+    agent.on('error', errorSpy);
+
+    expect(() => agent.pause()).not.toThrow();
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'INVALID_CALL_STATE' })
+    );
+    expect(agent.getCallState()).toBe('idle');
+  });
+
+  test('should pause and resume an active call', async () => {
+    room.remoteParticipants.set(agentParticipant.sid, agentParticipant);
+    await agent.start({ agentId: 'test-agent' });
+
+    agent.pause();
+    expect(agent.getCallState()).toBe('paused');
+
+    agent.resume();
+    expect(agent.getCallState()).toBe('active');
+  });
+
+  test('should reject sendDTMF() while reconnecting and recover afterwards', async () => {
+    const publishDtmf = jest.fn();
+    Object.assign(room.localParticipant, { publishDtmf });
+    room.remoteParticipants.set(agentParticipant.sid, agentParticipant);
+    await agent.start({ agentId: 'test-agent' });
+
+    agent.liveKitManager?.emit('reconnecting');
+    expect(agent.getCallState()).toBe('reconnecting');
+
+    let thrown: unknown;
+    try {
+      agent.sendDTMF('1');
+    } catch (error) {
+      thrown = error;
+    }
+    expect(thrown).toBeInstanceOf(HamsaError);
+    expect(thrown).toMatchObject({ code: 'INVALID_CALL_STATE' });
+    expect(publishDtmf).not.toHaveBeenCalled();
+
+    agent.liveKitManager?.emit('reconnected');
+    expect(agent.getCallState()).toBe('active');
+    expect(() => agent.sendDTMF('1')).not.toThrow();
+  });
+
+  test('should end the call and allow starting a new one', async () => {
+    await agent.start({ agentId: 'test-agent' });
+
+    agent.end();
+    expect(agent.getCallState()).toBe('ending');
+    await waitUntil(() => agent.getCallState() === 'ended');
+
+    mockSuccessfulConversationInit();
+    useMockRoom(createMockRoom());
+    await agent.start({ agentId: 'test-agent' });
+
+    expect(agent.getCallState()).toBe('waiting-for-agent');
+  });
+
+  test('should abandon a start() ended while the session is created', async () => {
+    const errorSpy = jest.fn();
+    agent.on('error', errorSpy);
+
+    const startPromise = agent.start({ agentId: 'test-agent' });
+    agent.end();
+    await startPromise;
+
+    expect(agent.getCallState()).toBe('ended');
+    expect(room.connect).not.toHaveBeenCalled();
+    expect(errorSpy).not.toHaveBeenCalled();
+  });
+
+  test('should let a start() made after end() win over the cancelled one', async () => {
+    const errorSpy = jest.fn();
+    const startedSpy = jest.fn();
+    agent.on('error', errorSpy);
+    agent.on('callStarted', startedSpy);
+
+    const firstStart = agent.start({ agentId: 'first-agent' });
+    agent.end();
+    const secondStart = agent.start({ agentId: 'second-agent' });
+    await Promise.all([firstStart, secondStart]);
+
+    expect(errorSpy).not.toHaveBeenCalled();
+    expect(Room).toHaveBeenCalledTimes(1);
+    expect(startedSpy).toHaveBeenCalledTimes(1);
+    expect(agent.getCallState()).toBe('waiting-for-agent');
+    expect(states).toEqual([
+      'fetching-token',
+      'ended',
+      'fetching-token',
+      'connecting',
+      'waiting-for-agent',
+    ]);
+  });
+
+  test('should reject connect() ended while the session is created', async () => {
+    const connectPromise = agent.connect({ agentId: 'test-agent' });
+    agent.end();
+
+    await expect(connectPromise).rejects.toMatchObject({
+      code: 'INVALID_CALL_STATE',
+    });
+    expect(room.connect).not.toHaveBeenCalled();
+  });
+
+  test('should end up ended when the room cannot be joined', async () => {
+    room.connect.mockRejectedValue(new Error('signal timeout'));
+    agent.on('error', jest.fn());
+
+    await agent.start({ agentId: 'test-agent' });
+
+    expect(agent.getCallState()).toBe('ended');
+  });
+});
@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { Room } from 'livekit-client';
+import HamsaVoiceAgent, { HamsaApiError, HamsaError } from '../src/main';
+import {
+  createFailedResponse,
+  mockSuccessfulConversationInit,
+} from './utils/fetch-mocks';
+import { createMockRoom, type MockRoom } from './utils/livekit-mocks';
+import { MOCK_CONFIG } from './utils/test-constants';
+import {
+  applyWakeLockMocks,
+  createWakeLockMocks,
+} from './utils/wake-lock-mocks';
+
+const STATUS_UNAUTHORIZED = 401;
+const SHORT_AGENT_JOIN_TIMEOUT_MS = 10;
+const MAX_POLL_ATTEMPTS = 50;
+
+const agentParticipant = { identity: 'agent-abc', sid: 'PA_1', isAgent: true };
+const userParticipant = { identity: 'user-xyz', sid: 'PA_2', isAgent: false };
+
+/**
+ * Makes the next LiveKit Room created by the SDK use the given mock
+ */
+const useMockRoom = (room: MockRoom) => {
+  (Room as unknown as jest.Mock).mockImplementationOnce(() => room);
+};
+
+/**
+ * Yields to the event loop until the condition holds
+ */
+const waitUntil = async (condition: () => boolean) => {
+  for (let attempt = 0; attempt < MAX_POLL_ATTEMPTS; attempt++) {
+    if (condition()) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  throw new Error('Condition not met');
+};
+
+describe('HamsaVoiceAgent connect()', () => {
+  let agent: HamsaVoiceAgent;
+  let room: MockRoom;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSuccessfulConversationInit();
+    agent = new HamsaVoiceAgent(MOCK_CONFIG.API_KEY, {
+      API_URL: MOCK_CONFIG.API_URL,
+    });
+    applyWakeLockMocks(agent, createWakeLockMocks());
+    room = createMockRoom();
+  });
+
+  test('should resolve with the session descriptor when the agent is in the room', async () => {
+    room.remoteParticipants.set(userParticipant.sid, userParticipant);
+    room.remoteParticipants.set(agentParticipant.sid, agentParticipant);
+    useMockRoom(room);
+    const callStartedSpy = jest.fn();
+    agent.on('callStarted', callStartedSpy);
+
+    const session = await agent.connect({ agentId: 'test-agent' });
+
+    expect(session).toEqual({
+      jobId: 'mock-job-id',
+      roomName: 'test-room',
+      agentIdentity: 'agent-abc',
+    });
+    expect(callStartedSpy).toHaveBeenCalledWith({ jobId: 'mock-job-id' });
+  });
+
+  test('should wait for the agent to join the room', async () => {
+    useMockRoom(room);
+
+    const connectPromise = agent.connect({ agentId: 'test-agent' });
+    await waitUntil(
+      () =>
+        (agent.liveKitManager?.listenerCount('participantConnected') ?? 0) > 1
+    );
+    agent.liveKitManager?.emit('participantConnected', userParticipant as any);
+    agent.liveKitManager?.emit('participantConnected', agentParticipant as any);
+
+    await expect(connectPromise).resolves.toMatchObject({
+      agentIdentity: 'agent-abc',
+    });
+  });
+
+  test('should reject with AGENT_UNAVAILABLE and end the call when the agent never joins', async () => {
+    useMockRoom(room);
+
+    const promise = agent.connect({
+      agentId: 'test-agent',
+      agentJoinTimeout: SHORT_AGENT_JOIN_TIMEOUT_MS,
+    });
+
+    await expect(promise).rejects.toMatchObject({
+      code: 'AGENT_UNAVAILABLE',
+      retryable: true,
+    });
+    await waitUntil(() => room.disconnect.mock.calls.length > 0);
+  });
+
+  test('should reject with the API error without emitting it', async () => {
+    (fetch as any).mockResolvedValue(
+      createFailedResponse(
+        STATUS_UNAUTHORIZED,
+        'Unauthorized',
+        JSON.stringify({ message: 'Invalid API key' })
+      )
+    );
+    const errorSpy = jest.fn();
+    agent.on('error', errorSpy);
+
+    const promise = agent.connect({ agentId: 'test-agent' });
+
+    await expect(promise).rejects.toBeInstanceOf(HamsaApiError);
+    await expect(promise).rejects.toMatchObject({ code: 'AUTH_INVALID_KEY' });
+    expect(errorSpy).not.toHaveBeenCalled();
+  });
+
+  test('should reject with CONNECTION_FAILED when the room cannot be joined', async () => {
+    const connectionError = new Error('could not establish signal connection');
+    room.connect.mockRejectedValue(connectionError);
+    useMockRoom(room);
+    const callStartedSpy = jest.fn();
+    agent.on('callStarted', callStartedSpy);
+
+    const promise = agent.connect({ agentId: 'test-agent' });
+
+    await expect(promise).rejects.toBeInstanceOf(HamsaError);
+    await expect(promise).rejects.toMatchObject({
+      code: 'CONNECTION_FAILED',
+      cause: connectionError,
+    });
+    expect(callStartedSpy).not.toHaveBeenCalled();
+  });
+
+  describe('start()', () => {
+    test('should report a failed room connection once and not emit callStarted', async () => {
+      room.connect.mockRejectedValue(new Error('signal timeout'));
+      useMockRoom(room);
+      const errorSpy = jest.fn();
+      const callStartedSpy = jest.fn();
+      agent.on('error', errorSpy);
+      agent.on('callStarted', callStartedSpy);
+
+      await expect(
+        agent.start({ agentId: 'test-agent' })
+      ).resolves.toBeUndefined();
+
+      expect(errorSpy).toHaveBeenCalledTimes(1);
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'CONNECTION_FAILED' })
+      );
+      expect(callStartedSpy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,337 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { Room } from 'livekit-client';
+import { ConversationTranscript } from '../src/classes/conversation-transcript';
+import type { TranscriptionSegmentData } from '../src/classes/types';
+import HamsaVoiceAgent from '../src/main';
+import { mockSuccessfulConversationInit } from './utils/fetch-mocks';
+import { createMockRoom } from './utils/livekit-mocks';
+import { MOCK_CONFIG } from './utils/test-constants';
+import {
+  applyWakeLockMocks,
+  createWakeLockMocks,
+} from './utils/wake-lock-mocks';
+
+const CALL_START = 1_000_000;
+const ANSWER_AT_MS = 1500;
+const FIRST_RECEIVED_MS = 2000;
+const LAST_RECEIVED_MS = 3500;
+
+/**
+ * Creates a transcription segment of the given speaker
+ */
+const createSegment = (
+  overrides: Partial<TranscriptionSegmentData>
+): TranscriptionSegmentData => ({
+  id: 'seg-1',
+  text: '',
+  isFinal: false,
+  startTime: 0,
+  endTime: 0,
+  firstReceivedTime: Date.now(),
+  lastReceivedTime: Date.now(),
+  speaker: 'agent',
+  participant: 'agent-participant',
+  language: 'en',
+  ...overrides,
+});
+
+describe('ConversationTranscript', () => {
+  let transcript: ConversationTranscript;
+
+  beforeEach(() => {
+    transcript = new ConversationTranscript();
+    transcript.reset('user-123');
+  });
+
+  test('should update a turn in place until its segment is final', () => {
+    transcript.applySegment(createSegment({ text: 'Hello' }));
+    transcript.applySegment(createSegment({ text: 'Hello, how can I help?' }));
+
+    expect(transcript.getTurns()).toEqual([
+      expect.objectContaining({
+        role: 'agent',
+        text: 'Hello, how can I help?',
+        isFinal: false,
+      }),
+    ]);
+
+    transcript.applySegment(
+      createSegment({ text: 'Hello, how can I help?', isFinal: true })
+    );
+
+    expect(transcript.getTurns()).toHaveLength(1);
+    expect(transcript.getTurns()[0].isFinal).toBe(true);
+  });
+
+  test('should keep a sentence once when it arrives as a message first', () => {
+    transcript.addMessage('agent', 'Hello, how can I help?');
+    transcript.applySegment(createSegment({ text: 'Hello, how' }));
+    transcript.applySegment(
+      createSegment({ text: 'Hello, how can I help?', isFinal: true })
+    );
+
+    expect(transcript.getTurns()).toEqual([
+      expect.objectContaining({
+        text: 'Hello, how can I help?',
+        isFinal: true,
+      }),
+    ]);
+  });
+
+  test('should keep a sentence once when it arrives as a segment first', () => {
+    transcript.applySegment(createSegment({ text: 'Hello, how' }));
+    transcript.addMessage('agent', 'Hello, how can I help?');
+
+    expect(transcript.getTurns()).toEqual([
+      expect.objectContaining({
+        text: 'Hello, how can I help?',
+        isFinal: true,
+      }),
+    ]);
+
+    transcript.applySegment(
+      createSegment({ text: 'hello how can i help', isFinal: true })
+    );
+    transcript.addMessage('agent', 'hello how can i help');
+
+    expect(transcript.getTurns()).toHaveLength(1);
+  });
+
+  test('should keep a sentence said again in a later turn', () => {
+    const completedSpy = jest.fn();
+    transcript.on('turnCompleted', completedSpy);
+
+    transcript.addMessage('user', 'Yes');
+    transcript.addMessage('agent', "Sorry, I didn't catch that.");
+    transcript.addMessage('user', 'Yes');
+    transcript.addMessage('agent', "Sorry, I didn't catch that.");
+    transcript.endTurn('agent');
+
+    expect(transcript.getTurns().map(({ role, text }) => [role, text])).toEqual(
+      [
+        ['user', 'Yes'],
+        ['agent', "Sorry, I didn't catch that."],
+        ['user', 'Yes'],
+        ['agent', "Sorry, I didn't catch that."],
+      ]
+    );
+    expect(completedSpy).toHaveBeenCalledTimes(transcript.getTurns().length);
+  });
+
+  test('should not let a blank segment take over a data message', () => {
+    transcript.addMessage('agent', 'Hello there.');
+    transcript.applySegment(createSegment({ text: ' ' }));
+    transcript.applySegment(
+      createSegment({ text: 'Anything else?', isFinal: true })
+    );
+
+    expect(transcript.getTurns()[0]).toMatchObject({
+      text: 'Hello there. Anything else?',
+      segments: [{ text: 'Hello there.' }, { text: 'Anything else?' }],
+    });
+  });
+
+  test('should group speech into turns and attach the userId', () => {
+    transcript.addMessage('agent', 'Hi there.');
+    transcript.addMessage('agent', 'What can I do for you?');
+    transcript.applySegment(
+      createSegment({
+        id: 'seg-2',
+        text: 'Book a table',
+        isFinal: true,
+        speaker: 'user',
+      })
+    );
+
+    expect(transcript.getTurns()).toEqual([
+      expect.objectContaining({
+        role: 'agent',
+        text: 'Hi there. What can I do for you?',
+      }),
+      expect.objectContaining({
+        role: 'user',
+        text: 'Book a table',
+        userId: 'user-123',
+      }),
+    ]);
+    expect(transcript.getTurns()[0]).not.toHaveProperty('userId');
+  });
+
+  test('should time segments with the times LiveKit received them at', () => {
+    transcript.markCallStarted(CALL_START);
+    transcript.applySegment(
+      createSegment({
+        text: 'Hello',
+        firstReceivedTime: CALL_START + FIRST_RECEIVED_MS,
+        lastReceivedTime: CALL_START + FIRST_RECEIVED_MS,
+      })
+    );
+    transcript.applySegment(
+      createSegment({
+        text: 'Hello there',
+        isFinal: true,
+        firstReceivedTime: CALL_START + FIRST_RECEIVED_MS,
+        lastReceivedTime: CALL_START + LAST_RECEIVED_MS,
+      })
+    );
+
+    expect(transcript.getTurns()[0]).toMatchObject({
+      startMs: FIRST_RECEIVED_MS,
+      endMs: LAST_RECEIVED_MS,
+      segments: [
+        {
+          text: 'Hello there',
+          startMs: FIRST_RECEIVED_MS,
+          endMs: LAST_RECEIVED_MS,
+        },
+      ],
+    });
+  });
+
+  test('should record tool calls and call events as turns of their own', () => {
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(CALL_START);
+    transcript.markCallStarted();
+    transcript.addMessage('agent', 'Let me check.');
+    nowSpy.mockReturnValue(CALL_START + ANSWER_AT_MS);
+    transcript.addToolCall({
+      name: 'getWeather',
+      arguments: { city: 'Dubai' },
+      result: { temperature: 30 },
+    });
+    transcript.addSystemEvent('Agent interrupted');
+    nowSpy.mockRestore();
+
+    expect(transcript.getTurns()).toEqual([
+      expect.objectContaining({ role: 'agent', startMs: 0 }),
+      expect.objectContaining({
+        role: 'tool',
+        text: 'getWeather',
+        startMs: ANSWER_AT_MS,
+        tool: {
+          name: 'getWeather',
+          arguments: { city: 'Dubai' },
+          result: { temperature: 30 },
+        },
+      }),
+      expect.objectContaining({ role: 'system', text: 'Agent interrupted' }),
+    ]);
+  });
+
+  test('should start a new turn after endTurn()', () => {
+    transcript.addMessage('agent', 'Let me check.');
+    transcript.endTurn('agent');
+    transcript.addMessage('agent', 'It is sunny.');
+
+    expect(transcript.getTurns().map((turn) => turn.text)).toEqual([
+      'Let me check.',
+      'It is sunny.',
+    ]);
+  });
+
+  test('should complete an ended turn once its text is final', () => {
+    const updatedSpy = jest.fn();
+    const completedSpy = jest.fn();
+    transcript.on('turnUpdated', updatedSpy);
+    transcript.on('turnCompleted', completedSpy);
+
+    transcript.applySegment(createSegment({ text: 'Hello' }));
+    transcript.applySegment(createSegment({ text: 'Hello there' }));
+    transcript.endTurn('agent');
+    expect(completedSpy).not.toHaveBeenCalled();
+
+    transcript.applySegment(
+      createSegment({ text: 'Hello there!', isFinal: true })
+    );
+    transcript.applySegment(
+      createSegment({ text: 'Hello there!', isFinal: true })
+    );
+
+    expect(
+      updatedSpy.mock.calls.map(([turn, previousText]) => [
+        (turn as { text: string }).text,
+        previousText,
+      ])
+    ).toEqual([
+      ['Hello', ''],
+      ['Hello there', 'Hello'],
+      ['Hello there!', 'Hello there'],
+    ]);
+    expect(completedSpy).toHaveBeenCalledTimes(1);
+    expect(completedSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ text: 'Hello there!', isFinal: true })
+    );
+  });
+
+  test('should end the previous turn when another one starts', () => {
+    const completedSpy = jest.fn();
+    transcript.on('turnCompleted', completedSpy);
+
+    transcript.addMessage('agent', 'How can I help?');
+    transcript.addMessage('user', 'Book a table');
+
+    expect(completedSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ role: 'agent', text: 'How can I help?' })
+    );
+  });
+
+  test('should emit changed with copies of the turns and clear on reset', () => {
+    const changedSpy = jest.fn();
+    transcript.on('changed', changedSpy);
+
+    transcript.addMessage('user', 'Hello');
+    const [turns] = changedSpy.mock.calls[0] as [{ text: string }[]];
+    turns[0].text = 'changed by the listener';
+    expect(transcript.getTurns()[0].text).toBe('Hello');
+    transcript.reset();
+
+    expect(changedSpy).toHaveBeenLastCalledWith([]);
+    expect(transcript.getTurns()).toEqual([]);
+  });
+});
+
+describe('HamsaVoiceAgent transcript', () => {
+  let agent: HamsaVoiceAgent;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSuccessfulConversationInit();
+    agent = new HamsaVoiceAgent(MOCK_CONFIG.API_KEY, {
+      API_URL: MOCK_CONFIG.API_URL,
+    });
+    applyWakeLockMocks(agent, createWakeLockMocks());
+    const room = createMockRoom();
+    (Room as unknown as jest.Mock).mockImplementation(() => room);
+  });
+
+  test('should record call events and forward transcriptChanged', async () => {
+    const changedSpy = jest.fn();
+    agent.on('transcriptChanged', changedSpy);
+    await agent.start({ agentId: 'test-agent' });
+
+    agent.pause();
+    agent.resume();
+
+    expect(agent.getTranscript()).toEqual([
+      expect.objectContaining({ role: 'system', text: 'Call paused' }),
+      expect.objectContaining({ role: 'system', text: 'Call resumed' }),
+    ]);
+    expect(changedSpy).toHaveBeenLastCalledWith(agent.getTranscript());
+  });
+
+  test('should keep the transcript after end() and clear it on start()', async () => {
+    await agent.start({ agentId: 'test-agent' });
+    agent.pause();
+    const ended = new Promise((resolve) => agent.once('callEnded', resolve));
+    agent.end();
+    await ended;
+
+    expect(agent.getTranscript()).toHaveLength(1);
+
+    mockSuccessfulConversationInit();
+    const room = createMockRoom();
+    (Room as unknown as jest.Mock).mockImplementation(() => room);
+    await agent.start({ agentId: 'test-agent' });
+
+    expect(agent.getTranscript()).toEqual([]);
+  });
+});
@@ -0,0 +1,239 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { Room } from 'livekit-client';
+import HamsaVoiceAgent, {
+  HamsaApiError,
+  HamsaConnectionError,
+  HamsaError,
+  HamsaMediaError,
+} from '../src/main';
+import {
+  createFailedResponse,
+  mockSuccessfulConversationInit,
+} from './utils/fetch-mocks';
+import { createMockRoom } from './utils/livekit-mocks';
+import { MOCK_CONFIG } from './utils/test-constants';
+import {
+  applyWakeLockMocks,
+  createWakeLockMocks,
+} from './utils/wake-lock-mocks';
+
+const STATUS_UNAUTHORIZED = 401;
+const STATUS_NOT_FOUND = 404;
+const STATUS_TOO_MANY_REQUESTS = 429;
+const STATUS_SERVICE_UNAVAILABLE = 503;
+const STATUS_BAD_REQUEST = 400;
+
+describe('Structured errors', () => {
+  describe('HamsaError', () => {
+    test('should derive category and retry hint from the code', () => {
+      const cause = new Error('socket closed');
+      const error = new HamsaError('DATA_SEND_FAILED', 'Failed to send', {
+        cause,
+      });
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('HamsaError');
+      expect(error.code).toBe('DATA_SEND_FAILED');
+      expect(error.category).toBe('network');
+      expect(error.retryable).toBe(true);
+      expect(error.cause).toBe(cause);
+    });
+
+    test('should let callers override the retry hint', () => {
+      const error = new HamsaError('CONNECTION_FAILED', 'Room is full', {
+        retryable: false,
+      });
+
+      expect(error.retryable).toBe(false);
+    });
+
+    test('from() should return HamsaErrors unchanged without a new message', () => {
+      const error = new HamsaMediaError('MIC_NOT_FOUND', 'No microphone');
+
+      expect(HamsaError.from(error, 'CALL_START_FAILED')).toBe(error);
+    });
+
+    test('from() should keep the code when rewording a HamsaError', () => {
+      const error = new HamsaConnectionError('NETWORK_UNREACHABLE', 'offline');
+
+      const wrapped = HamsaError.from(
+        error,
+        'CALL_START_FAILED',
+        'Failed to start call: offline'
+      );
+
+      expect(wrapped.code).toBe('NETWORK_UNREACHABLE');
+      expect(wrapped.retryable).toBe(true);
+      expect(wrapped.message).toBe('Failed to start call: offline');
+      expect(wrapped.cause).toBe(error);
+    });
+
+    test('from() should apply the fallback code to foreign errors', () => {
+      const wrapped = HamsaError.from('boom', 'CALL_END_FAILED');
+
+      expect(wrapped.code).toBe('CALL_END_FAILED');
+      expect(wrapped.message).toBe('boom');
+      expect(wrapped.cause).toBe('boom');
+    });
+  });
+
+  describe('HamsaApiError', () => {
+    test.each([
+      [STATUS_UNAUTHORIZED, 'AUTH_INVALID_KEY', 'auth', false],
+      [STATUS_NOT_FOUND, 'API_REQUEST_FAILED', 'api', false],
+      [STATUS_BAD_REQUEST, 'API_REQUEST_FAILED', 'api', false],
+      [STATUS_TOO_MANY_REQUESTS, 'API_REQUEST_FAILED', 'api', true],
+      [STATUS_SERVICE_UNAVAILABLE, 'API_REQUEST_FAILED', 'api', true],
+    ])('should map HTTP %i to %s', (status, code, category, retryable) => {
+      const error = new HamsaApiError('Request failed', undefined, { status });
+
+      expect(error).toBeInstanceOf(HamsaError);
+      expect(error).toMatchObject({ code, category, retryable, status });
+    });
+  });
+
+  describe('HamsaVoiceAgent', () => {
+    let voiceAgent: HamsaVoiceAgent;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockSuccessfulConversationInit();
+      voiceAgent = new HamsaVoiceAgent(MOCK_CONFIG.API_KEY, {
+        API_URL: MOCK_CONFIG.API_URL,
+      });
+    });
+
+    test('should emit AUTH_INVALID_KEY when the API key is rejected', async () => {
+      (fetch as any).mockResolvedValue(
+        createFailedResponse(
+          STATUS_UNAUTHORIZED,
+          'Unauthorized',
+          JSON.stringify({ message: 'Invalid API key' })
+        )
+      );
+      const errorSpy = jest.fn();
+      voiceAgent.on('error', errorSpy);
+
+      await voiceAgent.start({ agentId: 'test-agent' });
+
+      expect(errorSpy).toHaveBeenCalledWith(expect.any(HamsaApiError));
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'AUTH_INVALID_KEY',
+          category: 'auth',
+          retryable: false,
+          status: STATUS_UNAUTHORIZED,
+        })
+      );
+    });
+
+    test('should emit AGENT_NOT_FOUND when the agent does not exist', async () => {
+      (fetch as any).mockResolvedValue(
+        createFailedResponse(
+          STATUS_NOT_FOUND,
+          'Not Found',
+          JSON.stringify({ message: 'Agent not found' })
+        )
+      );
+      const errorSpy = jest.fn();
+      voiceAgent.on('error', errorSpy);
+
+      await voiceAgent.start({ agentId: 'missing-agent' });
+
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'AGENT_NOT_FOUND' })
+      );
+    });
+
+    test('should reject JOB_NOT_FOUND without retrying when the job does not exist', async () => {
+      applyWakeLockMocks(voiceAgent, createWakeLockMocks());
+      const room = createMockRoom();
+      (Room as unknown as jest.Mock).mockImplementation(() => room);
+      await voiceAgent.start({ agentId: 'test-agent' });
+      (fetch as any).mockClear();
+      (fetch as any).mockResolvedValue(
+        createFailedResponse(STATUS_NOT_FOUND, 'Not Found', 'Job not found')
+      );
+
+      const error = await voiceAgent.getJobDetails().catch((e) => e);
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(error).toBeInstanceOf(HamsaApiError);
+      expect(error).toMatchObject({
+        code: 'JOB_NOT_FOUND',
+        category: 'api',
+        status: STATUS_NOT_FOUND,
+      });
+    });
+
+    test('should reject AUTH_INVALID_KEY without retrying when the job is not authorized', async () => {
+      applyWakeLockMocks(voiceAgent, createWakeLockMocks());
+      const room = createMockRoom();
+      (Room as unknown as jest.Mock).mockImplementation(() => room);
+      await voiceAgent.start({ agentId: 'test-agent' });
+      (fetch as any).mockClear();
+      (fetch as any).mockResolvedValue(
+        createFailedResponse(STATUS_UNAUTHORIZED, 'Unauthorized', 'Bad key')
+      );
+
+      const error = await voiceAgent.getJobDetails().catch((e) => e);
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(error).toBeInstanceOf(HamsaApiError);
+      expect(error).toMatchObject({
+        code: 'AUTH_INVALID_KEY',
+        category: 'auth',
+        status: STATUS_UNAUTHORIZED,
+      });
+    });
+
+    test('should emit NETWORK_UNREACHABLE when the API cannot be reached', async () => {
+      const networkError = new TypeError('Failed to fetch');
+      (fetch as any).mockRejectedValue(networkError);
+      const errorSpy = jest.fn();
+      voiceAgent.on('error', errorSpy);
+
+      await voiceAgent.start({ agentId: 'test-agent' });
+
+      const [error] = errorSpy.mock.calls[0] as [HamsaError];
+      expect(error.code).toBe('NETWORK_UNREACHABLE');
+      expect(error.retryable).toBe(true);
+      expect(error.message).toBe('Failed to start call: Failed to fetch');
+      expect((error.cause as HamsaError).cause).toBe(networkError);
+    });
+
+    test('should emit AUTH_MISSING_KEY without credentials', async () => {
+      const agent = new HamsaVoiceAgent(null);
+      const errorSpy = jest.fn();
+      agent.on('error', errorSpy);
+
+      await agent.start({ agentId: 'test-agent' });
+
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'AUTH_MISSING_KEY', category: 'auth' })
+      );
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    test('should throw INVALID_ARGUMENT for invalid DTMF digits', () => {
+      let thrown: unknown;
+      try {
+        voiceAgent.sendDTMF('x' as any);
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(HamsaError);
+      expect(thrown).toMatchObject({
+        code: 'INVALID_ARGUMENT',
+        category: 'validation',
+      });
+    });
+
+    test('should reject NOT_CONNECTED when sending data before start()', async () => {
+      await expect(
+        voiceAgent.sendContextualUpdate('Cart updated')
+      ).rejects.toMatchObject({ code: 'NOT_CONNECTED', category: 'session' });
+    });
+  });
+});
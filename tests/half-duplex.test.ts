@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { Room } from 'livekit-client';
+import { LiveKitAudioManager } from '../src/classes/livekit-audio-manager';
+import HamsaVoiceAgent from '../src/main';
+import { mockSuccessfulConversationInit } from './utils/fetch-mocks';
+import { createMockRoom } from './utils/livekit-mocks';
+import { MOCK_CONFIG } from './utils/test-constants';
+import {
+  applyWakeLockMocks,
+  createWakeLockMocks,
+} from './utils/wake-lock-mocks';
+
+const HANGOVER_MS = 400;
+const INVALID_THRESHOLD = 1.5;
+
+describe('HamsaVoiceAgent half-duplex', () => {
+  let agent: HamsaVoiceAgent;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSuccessfulConversationInit();
+    agent = new HamsaVoiceAgent(MOCK_CONFIG.API_KEY, {
+      API_URL: MOCK_CONFIG.API_URL,
+    });
+    applyWakeLockMocks(agent, createWakeLockMocks());
+    const room = createMockRoom();
+    (Room as unknown as jest.Mock).mockImplementation(() => room);
+  });
+
+  test('should enable half-duplex on the audio manager once connected', async () => {
+    const enableHalfDuplex = jest.spyOn(
+      LiveKitAudioManager.prototype,
+      'enableHalfDuplex'
+    );
+
+    await agent.start({
+      agentId: 'test-agent',
+      halfDuplex: { hangoverMs: HANGOVER_MS },
+    });
+
+    expect(enableHalfDuplex).toHaveBeenCalledWith({
+      hangoverMs: HANGOVER_MS,
+      bargeInThreshold: undefined,
+    });
+    enableHalfDuplex.mockRestore();
+  });
+
+  test('should forward micGateChanged', async () => {
+    const gateSpy = jest.fn();
+    agent.on('micGateChanged', gateSpy);
+    await agent.start({ agentId: 'test-agent', halfDuplex: true });
+
+    agent.liveKitManager?.audioManager.handleAgentStateChanged('speaking');
+
+    expect(gateSpy).toHaveBeenCalledWith(true);
+    agent.disableHalfDuplex();
+    expect(gateSpy).toHaveBeenLastCalledWith(false);
+  });
+
+  test('should fail the start with INVALID_ARGUMENT for an invalid threshold', async () => {
+    const errorSpy = jest.fn();
+    agent.on('error', errorSpy);
+
+    await agent.start({
+      agentId: 'test-agent',
+      halfDuplex: { bargeInThreshold: INVALID_THRESHOLD },
+    });
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+    );
+  });
+
+  test('should reject enableHalfDuplex() without a call', () => {
+    expect(() => agent.enableHalfDuplex()).toThrow(
+      expect.objectContaining({ code: 'NOT_CONNECTED' })
+    );
+  });
+});
@@ -602,46 +602,52 @@ describe('HamsaVoiceAgent', () => {
       const mockRelease = jest
         .fn<() => Promise<void>>()
         .mockResolvedValue(undefined);
-      const mockIsActive = jest.fn<() => boolean>().mockReturnValue(true);
       voiceAgent.wakeLockManager.release = mockRelease;
-      voiceAgent.wakeLockManager.isActive = mockIsActive;
 
       voiceAgent.end();
 
-      expect(mockIsActive).toHaveBeenCalled();
       expect(mockRelease).toHaveBeenCalled();
     });
 
-    test('should release wake lock on pause', () => {
+    test('should release wake lock on end after the browser dropped it', () => {
       const mockRelease = jest
         .fn<() => Promise<void>>()
         .mockResolvedValue(undefined);
-      const mockIsActive = jest.fn<() => boolean>().mockReturnValue(true);
       voiceAgent.wakeLockManager.release = mockRelease;
-      voiceAgent.wakeLockManager.isActive = mockIsActive;
+      voiceAgent.wakeLockManager.isActive = jest
+        .fn<() => boolean>()
+        .mockReturnValue(false);
 
-      // Create a mock LiveKitManager to avoid null reference
-      voiceAgent.liveKitManager = {
-        pause: jest.fn(),
-      } as any;
+      voiceAgent.end();
 
+      // Otherwise the lock would be re-acquired on the next visibility change
+      expect(mockRelease).toHaveBeenCalled();
+    });
+
+    test('should release wake lock on pause', async () => {
+      const mockRelease = jest
+        .fn<() => Promise<void>>()
+        .mockResolvedValue(undefined);
+      voiceAgent.wakeLockManager.acquire = jest
+        .fn<() => Promise<void>>()
+        .mockResolvedValue(undefined);
+      voiceAgent.wakeLockManager.release = mockRelease;
+
+      await voiceAgent.start({ agentId: 'test-agent' });
       voiceAgent.pause();
 
-      expect(mockIsActive).toHaveBeenCalled();
       expect(mockRelease).toHaveBeenCalled();
     });
 
-    test('should acquire wake lock on resume', () => {
+    test('should acquire wake lock on resume', async () => {
       const mockAcquire = jest
         .fn<() => Promise<void>>()
         .mockResolvedValue(undefined);
       voiceAgent.wakeLockManager.acquire = mockAcquire;
 
-      // Create a mock LiveKitManager to avoid null reference
-      voiceAgent.liveKitManager = {
-        resume: jest.fn(),
-      } as any;
-
+      await voiceAgent.start({ agentId: 'test-agent' });
+      voiceAgent.pause();
+      mockAcquire.mockClear();
       voiceAgent.resume();
 
       expect(mockAcquire).toHaveBeenCalled();
@@ -771,7 +777,7 @@ describe('HamsaVoiceAgent', () => {
       expect(voiceAgent.liveKitManager?.tools).toContain(testTool);
     });
 
-    test('should handle multiple start calls gracefully', async () => {
+    test('should reject a second start call while the first is live', async () => {
       const errorSpy = jest.fn();
       voiceAgent.on('error', errorSpy);
 
@@ -789,7 +795,7 @@ describe('HamsaVoiceAgent', () => {
 
       const firstManager = voiceAgent.liveKitManager;
 
-      // Second start call (should replace the first)
+      // Second start call (should be rejected)
       await voiceAgent.start({
         agentId: 'test-agent-2',
         params: {},
@@ -797,13 +803,15 @@ describe('HamsaVoiceAgent', () => {
         tools: [],
       });
 
-      // Should have created a new manager
-      expect(voiceAgent.liveKitManager).not.toBe(firstManager);
+      // Should keep the first call
+      expect(voiceAgent.liveKitManager).toBe(firstManager);
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'INVALID_CALL_STATE' })
+      );
 
-      // Two fetches per start call (token + conversation-init)
+      // Two fetches for the first start call only (token + conversation-init)
       const FETCH_CALLS_PER_START = 2;
-      const EXPECTED_TOTAL_FETCH_CALLS = FETCH_CALLS_PER_START * 2;
-      expect(fetch).toHaveBeenCalledTimes(EXPECTED_TOTAL_FETCH_CALLS);
+      expect(fetch).toHaveBeenCalledTimes(FETCH_CALLS_PER_START);
     });
 
     test('should handle getJobDetails method', async () => {
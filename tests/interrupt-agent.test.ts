@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { Room } from 'livekit-client';
+import HamsaVoiceAgent from '../src/main';
+import { mockSuccessfulConversationInit } from './utils/fetch-mocks';
+import { createMockRoom, type MockRoom } from './utils/livekit-mocks';
+import { MOCK_CONFIG } from './utils/test-constants';
+import {
+  applyWakeLockMocks,
+  createWakeLockMocks,
+} from './utils/wake-lock-mocks';
+
+const HEARD_MS = 800;
+
+describe('HamsaVoiceAgent interruptAgent', () => {
+  let agent: HamsaVoiceAgent;
+  let room: MockRoom;
+  let publishData: jest.Mock<(payload: Uint8Array) => Promise<void>>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSuccessfulConversationInit();
+    agent = new HamsaVoiceAgent(MOCK_CONFIG.API_KEY, {
+      API_URL: MOCK_CONFIG.API_URL,
+    });
+    applyWakeLockMocks(agent, createWakeLockMocks());
+    room = createMockRoom();
+    publishData = jest.fn(() => Promise.resolve());
+    Object.assign(room.localParticipant, { publishData });
+    (Room as unknown as jest.Mock).mockImplementation(() => room);
+  });
+
+  test('should silence the agent and send the interrupt signal', async () => {
+    await agent.start({ agentId: 'test-agent' });
+    const audioManager = agent.liveKitManager?.audioManager;
+    const interruptPlayback = jest
+      .spyOn(
+        audioManager as NonNullable<typeof audioManager>,
+        'interruptPlayback'
+      )
+      .mockReturnValue({ wasSpeaking: true, heardMs: HEARD_MS });
+    const interruptedSpy = jest.fn();
+    agent.on('agentInterrupted', interruptedSpy);
+
+    await agent.interruptAgent();
+
+    expect(interruptPlayback).toHaveBeenCalled();
+    expect(interruptedSpy).toHaveBeenCalledWith({
+      wasSpeaking: true,
+      heardMs: HEARD_MS,
+    });
+    const message = JSON.parse(
+      new TextDecoder().decode(publishData.mock.calls[0][0])
+    );
+    expect(message).toEqual({
+      event: 'interrupt',
+      heardMs: HEARD_MS,
+      timestamp: expect.any(Number),
+    });
+  });
+
+  test('should still silence the agent when the signal is not delivered', async () => {
+    await agent.start({ agentId: 'test-agent' });
+    publishData.mockRejectedValue(new Error('data channel closed'));
+    const interruptedSpy = jest.fn();
+    agent.on('agentInterrupted', interruptedSpy);
+
+    await expect(agent.interruptAgent()).rejects.toMatchObject({
+      code: 'DATA_SEND_FAILED',
+    });
+    expect(interruptedSpy).toHaveBeenCalled();
+  });
+
+  test('should reject without a call', async () => {
+    await expect(agent.interruptAgent()).rejects.toMatchObject({
+      code: 'NOT_CONNECTED',
+    });
+  });
+});
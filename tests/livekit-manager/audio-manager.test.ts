@@ -5,7 +5,11 @@
  * and audio element management.
  */
 
-import { beforeEach, describe, expect, test } from '@jest/globals';
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { TrackEvent } from 'livekit-client';
+import { AudioProcessorChain } from '../../src/classes/audio-processor-chain';
+import { LiveKitAudioManager } from '../../src/classes/livekit-audio-manager';
 import { VOLUMES } from '../utils/test-constants';
 import {
   createMockAudioTrack,
@@ -306,4 +310,585 @@ describe('LiveKitManager - Audio Management', () => {
       expect(liveKitManager.audioElements.size).toBe(0);
     });
   });
+
+  describe('Microphone Recovery', () => {
+    /**
+     * Creates a local microphone track that LiveKit restarts on the default input
+     */
+    const createMicrophoneTrack = (muted: boolean) => {
+      const track = Object.assign(new EventEmitter(), {
+        kind: Track.Kind.Audio,
+        sid: 'TR_mic',
+        isMuted: muted,
+        mediaStreamTrack: {
+          id: 'mic-track',
+          getSettings: () => ({ deviceId: 'default' }),
+        },
+        restartTrack: jest.fn(() => Promise.resolve()),
+        mute: jest.fn(() => {
+          track.isMuted = true;
+          return Promise.resolve();
+        }),
+        unmute: jest.fn(() => {
+          track.isMuted = false;
+          return Promise.resolve();
+        }),
+      });
+      return track;
+    };
+
+    const publishMicrophone = (
+      audioManager: LiveKitAudioManager,
+      track: ReturnType<typeof createMicrophoneTrack>
+    ) => {
+      audioManager.handleLocalTrackPublished(
+        track as any,
+        { source: Track.Source.Microphone, isMuted: track.isMuted } as any,
+        { identity: 'user' } as any
+      );
+    };
+
+    const flushPromises = () =>
+      new Promise((resolve) => setTimeout(resolve, 0));
+
+    test('should report the microphone that LiveKit restarts on the default input', () => {
+      const audioManager = new LiveKitAudioManager();
+      const lostSpy = jest.fn();
+      const recoveredSpy = jest.fn();
+      audioManager.on('microphoneLost', lostSpy);
+      audioManager.on('microphoneRecovered', recoveredSpy);
+      const track = createMicrophoneTrack(false);
+      publishMicrophone(audioManager, track);
+
+      track.emit('ended', track);
+      expect(lostSpy).toHaveBeenCalledTimes(1);
+      expect(recoveredSpy).not.toHaveBeenCalled();
+
+      track.emit('restarted', track);
+      expect(recoveredSpy).toHaveBeenCalledWith('default');
+    });
+
+    test('should leave the restart to LiveKit', async () => {
+      const audioManager = new LiveKitAudioManager();
+      const track = createMicrophoneTrack(false);
+      // Mirrors LocalParticipant, which restarts an ended unmuted track itself
+      track.on('ended', async () => {
+        await track.restartTrack({ deviceId: 'default' });
+        track.emit('restarted', track);
+      });
+      publishMicrophone(audioManager, track);
+
+      track.emit('ended', track);
+      await flushPromises();
+
+      expect(track.restartTrack).toHaveBeenCalledTimes(1);
+    });
+
+    test('should keep a muted microphone muted until LiveKit reacquires it', () => {
+      const audioManager = new LiveKitAudioManager();
+      const recoveredSpy = jest.fn();
+      audioManager.on('microphoneRecovered', recoveredSpy);
+      const track = createMicrophoneTrack(true);
+      publishMicrophone(audioManager, track);
+
+      track.emit('ended', track);
+      expect(track.unmute).not.toHaveBeenCalled();
+      expect(recoveredSpy).not.toHaveBeenCalled();
+
+      // LiveKit restarts the ended track when it is unmuted
+      track.emit('restarted', track);
+      expect(recoveredSpy).toHaveBeenCalledWith('default');
+    });
+
+    test('should report a microphone that cannot be recovered', () => {
+      const audioManager = new LiveKitAudioManager();
+      const errorSpy = jest.fn();
+      const recoveredSpy = jest.fn();
+      audioManager.on('error', errorSpy);
+      audioManager.on('microphoneRecovered', recoveredSpy);
+      const track = createMicrophoneTrack(false);
+      publishMicrophone(audioManager, track);
+
+      track.emit('ended', track);
+      // LiveKit mutes a track it could not restart
+      track.isMuted = true;
+      track.emit('muted', track);
+
+      expect(recoveredSpy).not.toHaveBeenCalled();
+      expect(track.unmute).not.toHaveBeenCalled();
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'MIC_NOT_FOUND', category: 'media' })
+      );
+    });
+
+    test('should stop watching the microphone after cleanup', async () => {
+      const audioManager = new LiveKitAudioManager();
+      const lostSpy = jest.fn();
+      audioManager.on('microphoneLost', lostSpy);
+      const track = createMicrophoneTrack(false);
+      publishMicrophone(audioManager, track);
+
+      audioManager.cleanup();
+      track.emit('ended', track);
+      await flushPromises();
+
+      expect(lostSpy).not.toHaveBeenCalled();
+      expect(track.restartTrack).not.toHaveBeenCalled();
+    });
+
+    test('should forward the recovery events through the manager', () => {
+      const { liveKitManager } = context;
+      const lostSpy = jest.fn();
+      const recoveredSpy = jest.fn();
+      liveKitManager.on('microphoneLost', lostSpy);
+      liveKitManager.on('microphoneRecovered', recoveredSpy);
+
+      liveKitManager.audioManager.emit('microphoneLost');
+      liveKitManager.audioManager.emit('microphoneRecovered', 'default');
+
+      expect(lostSpy).toHaveBeenCalled();
+      expect(recoveredSpy).toHaveBeenCalledWith('default');
+    });
+  });
+
+  describe('Audio Processors', () => {
+    /**
+     * Creates a processor that passes the microphone through
+     */
+    const createProcessor = (name: string) => ({
+      name,
+      init: jest.fn(() => Promise.resolve()),
+      restart: jest.fn(() => Promise.resolve()),
+      destroy: jest.fn(() => Promise.resolve()),
+    });
+
+    /**
+     * Creates a local microphone track holding the processor set on it
+     */
+    const createMicrophoneTrack = () => {
+      let processor: unknown;
+      return Object.assign(new EventEmitter(), {
+        kind: Track.Kind.Audio,
+        sid: 'TR_mic',
+        isMuted: false,
+        mediaStreamTrack: { id: 'mic-track' },
+        setProcessor: jest.fn((next: unknown) => {
+          processor = next;
+          return Promise.resolve();
+        }),
+        getProcessor: jest.fn(() => processor),
+        stopProcessor: jest.fn(() => {
+          processor = undefined;
+          return Promise.resolve();
+        }),
+      });
+    };
+
+    const publishMicrophone = (
+      audioManager: LiveKitAudioManager,
+      track: ReturnType<typeof createMicrophoneTrack>
+    ) => {
+      audioManager.handleLocalTrackPublished(
+        track as any,
+        { source: Track.Source.Microphone, isMuted: false } as any,
+        { identity: 'user' } as any
+      );
+    };
+
+    const flushPromises = () =>
+      new Promise((resolve) => setTimeout(resolve, 0));
+
+    test('should apply the processors to the published microphone', async () => {
+      const audioManager = new LiveKitAudioManager(false, [
+        createProcessor('high-pass'),
+        createProcessor('denoise'),
+      ]);
+      const track = createMicrophoneTrack();
+
+      publishMicrophone(audioManager, track);
+      await flushPromises();
+
+      const chain = track.setProcessor.mock.calls[0][0];
+      expect(chain).toBeInstanceOf(AudioProcessorChain);
+      expect(chain).toHaveProperty('name', 'high-pass > denoise');
+    });
+
+    test('should not touch the microphone without processors', async () => {
+      const audioManager = new LiveKitAudioManager();
+      const track = createMicrophoneTrack();
+
+      publishMicrophone(audioManager, track);
+      await flushPromises();
+
+      expect(track.setProcessor).not.toHaveBeenCalled();
+    });
+
+    test('should swap processors on the published microphone', async () => {
+      const audioManager = new LiveKitAudioManager();
+      const track = createMicrophoneTrack();
+      publishMicrophone(audioManager, track);
+
+      await audioManager.setProcessors([createProcessor('gain')]);
+      expect(track.setProcessor).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'gain' })
+      );
+
+      await audioManager.setProcessors([]);
+      expect(track.stopProcessor).toHaveBeenCalled();
+    });
+
+    test('should keep the half-duplex cut while processors change', async () => {
+      const audioManager = new LiveKitAudioManager();
+      const track = createMicrophoneTrack();
+      const rawTrack = { enabled: true };
+      const processedTrack = { enabled: true };
+      // Like LiveKit, the track sent is the processor output when there is one
+      Object.defineProperty(track, 'mediaStreamTrack', {
+        get: () => (track.getProcessor() ? processedTrack : rawTrack),
+      });
+      publishMicrophone(audioManager, track);
+      audioManager.enableHalfDuplex();
+      audioManager.handleAgentStateChanged('speaking');
+      expect(rawTrack.enabled).toBe(false);
+
+      await audioManager.setProcessors([createProcessor('denoise')]);
+
+      // The processor reads the raw track: only its output is cut
+      expect(rawTrack.enabled).toBe(true);
+      expect(processedTrack.enabled).toBe(false);
+
+      await audioManager.setProcessors([]);
+
+      expect(rawTrack.enabled).toBe(false);
+      audioManager.cleanup();
+    });
+
+    test('should reject when a processor cannot be applied', async () => {
+      const audioManager = new LiveKitAudioManager();
+      const track = createMicrophoneTrack();
+      track.setProcessor.mockRejectedValue(
+        new Error('AudioWorklet module failed to load')
+      );
+      publishMicrophone(audioManager, track);
+
+      await expect(
+        audioManager.setProcessors([createProcessor('denoise')])
+      ).rejects.toMatchObject({
+        code: 'AUDIO_PROCESSOR_FAILED',
+        category: 'media',
+      });
+    });
+
+    test('should emit an error when the processors fail on publish', async () => {
+      const audioManager = new LiveKitAudioManager(false, [
+        createProcessor('denoise'),
+      ]);
+      const errorSpy = jest.fn();
+      audioManager.on('error', errorSpy);
+      const track = createMicrophoneTrack();
+      track.setProcessor.mockRejectedValue(new Error('No AudioContext'));
+
+      publishMicrophone(audioManager, track);
+      await flushPromises();
+
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'AUDIO_PROCESSOR_FAILED' })
+      );
+    });
+  });
+
+  describe('Push-to-Talk', () => {
+    const MIN_HOLD_MS = 200;
+    const RELEASE_TAIL_MS = 300;
+    const SHORT_PRESS_MS = 50;
+
+    let audioManager: LiveKitAudioManager;
+    let setMicrophoneEnabled: jest.Mock;
+
+    const pressKey = (type: 'keydown' | 'keyup', init: KeyboardEventInit) => {
+      window.dispatchEvent(new KeyboardEvent(type, { code: 'Space', ...init }));
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      audioManager = new LiveKitAudioManager();
+      setMicrophoneEnabled = jest.fn(() => Promise.resolve());
+      audioManager.setRoom({
+        localParticipant: { setMicrophoneEnabled },
+      } as any);
+    });
+
+    afterEach(() => {
+      audioManager.cleanup();
+      jest.useRealTimers();
+    });
+
+    test('should open the microphone only while talking', () => {
+      const stateSpy = jest.fn();
+      const turnEndedSpy = jest.fn();
+      audioManager.on('pttStateChanged', stateSpy);
+      audioManager.on('pttTurnEnded', turnEndedSpy);
+
+      audioManager.enablePushToTalk({
+        minHoldMs: MIN_HOLD_MS,
+        releaseTailMs: RELEASE_TAIL_MS,
+      });
+      expect(setMicrophoneEnabled).toHaveBeenLastCalledWith(false);
+
+      audioManager.pressToTalk();
+      expect(setMicrophoneEnabled).toHaveBeenLastCalledWith(true);
+      jest.advanceTimersByTime(MIN_HOLD_MS);
+
+      audioManager.releaseToTalk();
+      expect(audioManager.getPushToTalkState()).toBe('releasing');
+      jest.advanceTimersByTime(RELEASE_TAIL_MS - 1);
+      expect(setMicrophoneEnabled).toHaveBeenLastCalledWith(true);
+
+      jest.advanceTimersByTime(1);
+      expect(setMicrophoneEnabled).toHaveBeenLastCalledWith(false);
+      expect(stateSpy.mock.calls).toEqual([
+        ['talking'],
+        ['releasing'],
+        ['idle'],
+      ]);
+      expect(turnEndedSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test('should drop a press shorter than the minimum hold', () => {
+      const turnEndedSpy = jest.fn();
+      audioManager.on('pttTurnEnded', turnEndedSpy);
+      audioManager.enablePushToTalk({ minHoldMs: MIN_HOLD_MS });
+
+      audioManager.pressToTalk();
+      jest.advanceTimersByTime(SHORT_PRESS_MS);
+      audioManager.releaseToTalk();
+
+      expect(setMicrophoneEnabled).toHaveBeenLastCalledWith(false);
+      expect(audioManager.getPushToTalkState()).toBe('idle');
+      expect(turnEndedSpy).not.toHaveBeenCalled();
+    });
+
+    test('should continue the turn when pressed again during the tail', () => {
+      const turnEndedSpy = jest.fn();
+      audioManager.on('pttTurnEnded', turnEndedSpy);
+      audioManager.enablePushToTalk({
+        minHoldMs: 0,
+        releaseTailMs: RELEASE_TAIL_MS,
+      });
+
+      audioManager.pressToTalk();
+      audioManager.releaseToTalk();
+      audioManager.pressToTalk();
+      jest.advanceTimersByTime(RELEASE_TAIL_MS);
+
+      expect(audioManager.getPushToTalkState()).toBe('talking');
+      expect(setMicrophoneEnabled).toHaveBeenLastCalledWith(true);
+      expect(turnEndedSpy).not.toHaveBeenCalled();
+    });
+
+    test('should talk while the bound key is held', () => {
+      audioManager.enablePushToTalk({ key: 'Space', minHoldMs: 0 });
+
+      pressKey('keydown', {});
+      pressKey('keydown', { repeat: true });
+      expect(audioManager.getPushToTalkState()).toBe('talking');
+      expect(setMicrophoneEnabled).toHaveBeenCalledTimes(2);
+
+      pressKey('keyup', {});
+      expect(audioManager.getPushToTalkState()).toBe('releasing');
+    });
+
+    test('should ignore the key while typing in a text field', () => {
+      audioManager.enablePushToTalk({ key: 'Space' });
+      const input = document.createElement('input');
+      document.body.appendChild(input);
+
+      input.dispatchEvent(
+        new KeyboardEvent('keydown', { code: 'Space', bubbles: true })
+      );
+
+      expect(audioManager.getPushToTalkState()).toBe('idle');
+
+      document.body.dispatchEvent(
+        new KeyboardEvent('keydown', { code: 'Space', bubbles: true })
+      );
+      expect(audioManager.getPushToTalkState()).toBe('talking');
+      input.remove();
+    });
+
+    test('should release when the window loses focus', () => {
+      audioManager.enablePushToTalk({ key: 'Space', minHoldMs: 0 });
+      pressKey('keydown', {});
+
+      window.dispatchEvent(new Event('blur'));
+
+      expect(audioManager.getPushToTalkState()).toBe('releasing');
+    });
+
+    test('should stop listening to the key once disabled', () => {
+      audioManager.enablePushToTalk({ key: 'Space' });
+      audioManager.disablePushToTalk();
+
+      pressKey('keydown', {});
+
+      expect(audioManager.isPushToTalkEnabled()).toBe(false);
+      expect(audioManager.getPushToTalkState()).toBe('idle');
+      expect(setMicrophoneEnabled).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Agent Interruption', () => {
+    const ANSWER_PLAYED_MS = 1200;
+    const FADE_MS = 150;
+    const MAX_SILENCE_MS = 5000;
+
+    let audioManager: LiveKitAudioManager;
+    let audioElement: HTMLAudioElement;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      audioManager = new LiveKitAudioManager();
+      audioManager.setVolume(VOLUMES.HALF);
+      audioElement = document.createElement('audio');
+      audioElement.volume = VOLUMES.HALF;
+      audioManager.audioElements.add(audioElement);
+    });
+
+    afterEach(() => {
+      audioManager.cleanup();
+      jest.useRealTimers();
+    });
+
+    test('should report how much of the answer was heard', () => {
+      audioManager.handleAgentStateChanged('speaking');
+      jest.advanceTimersByTime(ANSWER_PLAYED_MS);
+
+      expect(audioManager.interruptPlayback()).toEqual({
+        wasSpeaking: true,
+        heardMs: ANSWER_PLAYED_MS,
+      });
+    });
+
+    test('should report nothing heard when the agent was not speaking', () => {
+      audioManager.handleAgentStateChanged('thinking');
+
+      expect(audioManager.interruptPlayback()).toEqual({
+        wasSpeaking: false,
+        heardMs: 0,
+      });
+    });
+
+    test('should fade the agent out and restore it when the agent stops', () => {
+      audioManager.handleAgentStateChanged('speaking');
+
+      audioManager.interruptPlayback(FADE_MS);
+      expect(audioElement.volume).toBeLessThan(VOLUMES.HALF);
+      expect(audioElement.volume).toBeGreaterThan(0);
+
+      jest.advanceTimersByTime(FADE_MS);
+      expect(audioElement.volume).toBe(0);
+
+      // setVolume() must not cut the interruption short
+      audioManager.setVolume(VOLUMES.DEFAULT);
+      expect(audioElement.volume).toBe(0);
+
+      audioManager.handleAgentStateChanged('listening');
+      expect(audioElement.volume).toBe(VOLUMES.DEFAULT);
+    });
+
+    test('should restore playback when the agent never reports it stopped', () => {
+      audioManager.handleAgentStateChanged('speaking');
+      audioManager.interruptPlayback(0);
+      expect(audioElement.volume).toBe(0);
+
+      jest.advanceTimersByTime(MAX_SILENCE_MS);
+
+      expect(audioElement.volume).toBe(VOLUMES.HALF);
+    });
+  });
+
+  describe('Half-Duplex', () => {
+    const HANGOVER_MS = 300;
+
+    let audioManager: LiveKitAudioManager;
+    let track: EventEmitter & {
+      isMuted: boolean;
+      mediaStreamTrack: { enabled: boolean };
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      audioManager = new LiveKitAudioManager();
+      track = Object.assign(new EventEmitter(), {
+        kind: Track.Kind.Audio,
+        sid: 'TR_mic',
+        isMuted: false,
+        mediaStreamTrack: { enabled: true },
+      });
+      audioManager.handleLocalTrackPublished(
+        track as any,
+        { source: Track.Source.Microphone, isMuted: false } as any,
+        { identity: 'user' } as any
+      );
+      audioManager.enableHalfDuplex({ hangoverMs: HANGOVER_MS });
+    });
+
+    afterEach(() => {
+      audioManager.cleanup();
+      jest.useRealTimers();
+    });
+
+    test('should cut the microphone while the agent speaks', () => {
+      const gateSpy = jest.fn();
+      audioManager.on('micGateChanged', gateSpy);
+
+      audioManager.handleAgentStateChanged('speaking');
+
+      expect(track.mediaStreamTrack.enabled).toBe(false);
+      expect(audioManager.isMicGated()).toBe(true);
+      expect(gateSpy).toHaveBeenCalledWith(true);
+    });
+
+    test('should reopen the microphone after the hangover', () => {
+      audioManager.handleAgentStateChanged('speaking');
+      audioManager.handleAgentStateChanged('listening');
+
+      jest.advanceTimersByTime(HANGOVER_MS - 1);
+      expect(track.mediaStreamTrack.enabled).toBe(false);
+
+      jest.advanceTimersByTime(1);
+      expect(track.mediaStreamTrack.enabled).toBe(true);
+      expect(audioManager.isMicGated()).toBe(false);
+    });
+
+    test('should keep a muted microphone muted when the cut ends', () => {
+      audioManager.handleAgentStateChanged('speaking');
+      track.isMuted = true;
+
+      audioManager.handleAgentStateChanged('listening');
+      jest.advanceTimersByTime(HANGOVER_MS);
+
+      expect(track.mediaStreamTrack.enabled).toBe(false);
+    });
+
+    test('should cut the microphone again when it is unmuted mid-answer', () => {
+      audioManager.handleAgentStateChanged('speaking');
+
+      // LiveKit re-enables the track on unmute
+      track.mediaStreamTrack.enabled = true;
+      track.emit(TrackEvent.Unmuted);
+
+      expect(track.mediaStreamTrack.enabled).toBe(false);
+    });
+
+    test('should reopen the microphone when disabled', () => {
+      audioManager.handleAgentStateChanged('speaking');
+
+      audioManager.disableHalfDuplex();
+
+      expect(track.mediaStreamTrack.enabled).toBe(true);
+      audioManager.handleAgentStateChanged('speaking');
+      expect(audioManager.isMicGated()).toBe(false);
+    });
+  });
 });
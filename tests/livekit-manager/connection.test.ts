@@ -72,6 +72,9 @@ describe('LiveKitManager - Connection Management', () => {
       expect(errorSpy).toHaveBeenCalledWith(
         expect.objectContaining({
           message: expect.stringContaining('LiveKit connection failed'),
+          code: 'CONNECTION_FAILED',
+          retryable: true,
+          cause: connectionError,
         })
       );
     });
@@ -110,6 +113,8 @@ describe('LiveKitManager - Connection Management', () => {
       expect(errorSpy).toHaveBeenCalledWith(
         expect.objectContaining({
           message: expect.stringContaining('LiveKit disconnection failed'),
+          code: 'DISCONNECT_FAILED',
+          cause: disconnectionError,
         })
       );
     });
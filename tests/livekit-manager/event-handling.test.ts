@@ -254,6 +254,88 @@ describe('LiveKitManager - Event Handling', () => {
     });
   });
 
+  describe('Transcription Segments', () => {
+    const START_TIME = 1200;
+    const END_TIME = 2400;
+    const RECEIVED_AT = 1_700_000_000_000;
+
+    /**
+     * Creates a LiveKit transcription segment
+     */
+    const createSegment = (text: string, final: boolean, id = 'SEG_1') => ({
+      id,
+      text,
+      final,
+      language: 'en',
+      startTime: START_TIME,
+      endTime: END_TIME,
+      firstReceivedTime: RECEIVED_AT,
+      lastReceivedTime: RECEIVED_AT,
+    });
+
+    test('should emit each segment update with its identity', () => {
+      const { liveKitManager, mockRoom } = context;
+      const updatedSpy = jest.fn();
+      const finalizedSpy = jest.fn();
+      liveKitManager.on('transcriptionUpdated', updatedSpy);
+      liveKitManager.on('transcriptionFinalized', finalizedSpy);
+      const transcriptionHandler = extractEventHandler(
+        mockRoom,
+        RoomEvent.TranscriptionReceived
+      );
+
+      transcriptionHandler?.([createSegment('Hello', false)], {
+        identity: 'user-123',
+      });
+      transcriptionHandler?.([createSegment('Hello there', true)], {
+        identity: 'user-123',
+      });
+
+      expect(updatedSpy).toHaveBeenCalledTimes(2);
+      expect(updatedSpy).toHaveBeenNthCalledWith(1, {
+        id: 'SEG_1',
+        text: 'Hello',
+        isFinal: false,
+        startTime: START_TIME,
+        endTime: END_TIME,
+        firstReceivedTime: RECEIVED_AT,
+        lastReceivedTime: RECEIVED_AT,
+        speaker: 'user',
+        participant: 'user-123',
+        language: 'en',
+      });
+      expect(finalizedSpy).toHaveBeenCalledTimes(1);
+      expect(finalizedSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ text: 'Hello there', isFinal: true })
+      );
+    });
+
+    test('should skip repeated and late updates of a segment', () => {
+      const { liveKitManager, mockRoom } = context;
+      const updatedSpy = jest.fn();
+      const finalizedSpy = jest.fn();
+      liveKitManager.on('transcriptionUpdated', updatedSpy);
+      liveKitManager.on('transcriptionFinalized', finalizedSpy);
+      const transcriptionHandler = extractEventHandler(
+        mockRoom,
+        RoomEvent.TranscriptionReceived
+      );
+      const agent = { identity: 'agent-1' };
+
+      transcriptionHandler?.([createSegment('Sure', false)], agent);
+      transcriptionHandler?.([createSegment('Sure', false)], agent);
+      transcriptionHandler?.([createSegment('Sure, one moment', true)], agent);
+      transcriptionHandler?.([createSegment('Sure, one moment', true)], agent);
+      transcriptionHandler?.([createSegment('Sure, one', false)], agent);
+
+      expect(updatedSpy).toHaveBeenCalledTimes(2);
+      expect(updatedSpy).toHaveBeenLastCalledWith(
+        expect.objectContaining({ speaker: 'agent', isFinal: true })
+      );
+      expect(finalizedSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Event Error Handling', () => {
     test('should handle event listener errors gracefully', () => {
       const { liveKitManager, mockRoom } = context;
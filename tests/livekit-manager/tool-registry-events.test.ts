@@ -4,6 +4,7 @@
 
 import { beforeEach, describe, expect, jest, test } from '@jest/globals';
 import { RpcError } from 'livekit-client';
+import { HamsaToolError } from '../../src/classes/errors';
 import { setupTest, type TestContext } from './shared-setup';
 
 describe('LiveKitManager - Tool Registry Events', () => {
@@ -53,7 +54,19 @@ describe('LiveKitManager - Tool Registry Events', () => {
 
     await rpcHandler(rpcData);
 
-    expect(rpcErrorSpy).toHaveBeenCalledWith('errorTool', mockError);
+    expect(rpcErrorSpy).toHaveBeenCalledWith(
+      'errorTool',
+      expect.any(HamsaToolError)
+    );
+    const [, toolError] = rpcErrorSpy.mock.calls[0] as [string, HamsaToolError];
+    expect(toolError).toMatchObject({
+      code: 'RPC_TOOL_FAILED',
+      category: 'tool',
+      retryable: false,
+      functionName: 'errorTool',
+      message: 'Tool "errorTool" failed: Tool execution failed',
+    });
+    expect(toolError.cause).toBe(mockError);
   });
 
   test('should emit rpcError event when tool execution fails with RpcError', async () => {
@@ -84,7 +97,13 @@ describe('LiveKitManager - Tool Registry Events', () => {
 
     await rpcHandler(rpcData);
 
-    expect(rpcErrorSpy).toHaveBeenCalledWith('rpcErrorTool', mockRpcError);
+    const [functionName, toolError] = rpcErrorSpy.mock.calls[0] as [
+      string,
+      HamsaToolError,
+    ];
+    expect(functionName).toBe('rpcErrorTool');
+    expect(toolError.code).toBe('RPC_TOOL_FAILED');
+    expect(toolError.cause).toBe(mockRpcError);
   });
 
   test('should pass RpcInvocationData to tool function', async () => {
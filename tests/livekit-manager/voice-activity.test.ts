@@ -0,0 +1,199 @@
+/**
+ * LiveKit Manager - Voice Activity Detection Tests
+ *
+ * Tests for the AudioWorklet speech detector on the microphone: speech
+ * events, the noise gate and the detector lifecycle.
+ */
+
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  jest,
+  test,
+} from '@jest/globals';
+import { EventEmitter } from 'events';
+import { Track, TrackEvent } from 'livekit-client';
+import { LiveKitAudioManager } from '../../src/classes/livekit-audio-manager';
+
+const NOW = 1_700_000_000_000;
+const START_DELAY_MS = 60;
+const END_DELAY_MS = 400;
+const UTTERANCE_MS = 2000;
+
+/** Mock AudioWorkletNode, recording every node created */
+class MockAudioWorkletNode {
+  static instances: MockAudioWorkletNode[] = [];
+  port = {
+    onmessage: null as ((event: { data: unknown }) => void) | null,
+  };
+  name: string;
+  connect = jest.fn();
+  disconnect = jest.fn();
+
+  constructor(_context: unknown, name: string) {
+    this.name = name;
+    MockAudioWorkletNode.instances.push(this);
+  }
+}
+
+/** Mock AudioContext with an AudioWorklet */
+class MockAudioContext {
+  state = 'running';
+  sampleRate = 16_000;
+  audioWorklet = { addModule: jest.fn(() => Promise.resolve()) };
+  destination = {};
+  createMediaStreamSource = jest.fn(() => ({
+    connect: jest.fn(),
+    disconnect: jest.fn(),
+  }));
+  createGain = jest.fn(() => ({
+    gain: { value: 1 },
+    connect: jest.fn(),
+    disconnect: jest.fn(),
+  }));
+  close = jest.fn(() => Promise.resolve());
+}
+
+/**
+ * Creates a published microphone track whose copies are recorded
+ */
+const createMicrophoneTrack = () => {
+  const copies: { enabled: boolean; stop: jest.Mock }[] = [];
+  return Object.assign(new EventEmitter(), {
+    kind: Track.Kind.Audio,
+    sid: 'TR_mic',
+    isMuted: false,
+    copies,
+    mediaStreamTrack: {
+      enabled: true,
+      clone: () => {
+        const copy = { enabled: false, stop: jest.fn() };
+        copies.push(copy);
+        return copy;
+      },
+    },
+  });
+};
+
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Posts a speech change from the most recent worklet
+ */
+const reportSpeech = (speaking: boolean, delayMs: number) => {
+  const node = MockAudioWorkletNode.instances.at(-1);
+  node?.port.onmessage?.({ data: { speaking, delayMs } });
+};
+
+describe('LiveKitAudioManager - Voice Activity Detection', () => {
+  let audioManager: LiveKitAudioManager;
+  let track: ReturnType<typeof createMicrophoneTrack>;
+
+  beforeEach(() => {
+    MockAudioWorkletNode.instances = [];
+    (global as any).AudioContext = MockAudioContext;
+    (global as any).AudioWorkletNode = MockAudioWorkletNode;
+    (global as any).URL.createObjectURL = jest.fn(() => 'blob:vad');
+    (global as any).URL.revokeObjectURL = jest.fn();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+
+    audioManager = new LiveKitAudioManager();
+    track = createMicrophoneTrack();
+    audioManager.handleLocalTrackPublished(
+      track as any,
+      { source: Track.Source.Microphone, isMuted: false } as any,
+      { identity: 'user' } as any
+    );
+  });
+
+  afterEach(() => {
+    audioManager.cleanup();
+    jest.restoreAllMocks();
+    (global as any).AudioContext = undefined;
+    (global as any).AudioWorkletNode = undefined;
+  });
+
+  test('should report when the user starts and stops speaking', async () => {
+    const startedSpy = jest.fn();
+    const endedSpy = jest.fn();
+    audioManager.on('userSpeechStarted', startedSpy);
+    audioManager.on('userSpeechEnded', endedSpy);
+
+    audioManager.enableVoiceActivityDetection();
+    await flushPromises();
+    expect(MockAudioWorkletNode.instances[0].name).toBe('hamsa-vad-processor');
+
+    reportSpeech(true, START_DELAY_MS);
+    expect(startedSpy).toHaveBeenCalledWith({
+      timestamp: NOW - START_DELAY_MS,
+    });
+    expect(audioManager.isUserSpeaking()).toBe(true);
+
+    jest.spyOn(Date, 'now').mockReturnValue(NOW + UTTERANCE_MS);
+    reportSpeech(false, END_DELAY_MS);
+    expect(endedSpy).toHaveBeenCalledWith({
+      timestamp: NOW + UTTERANCE_MS - END_DELAY_MS,
+      durationMs: UTTERANCE_MS - END_DELAY_MS + START_DELAY_MS,
+    });
+    expect(audioManager.isUserSpeaking()).toBe(false);
+  });
+
+  test('should not report speech while the microphone is muted', async () => {
+    const startedSpy = jest.fn();
+    audioManager.on('userSpeechStarted', startedSpy);
+    audioManager.enableVoiceActivityDetection();
+    await flushPromises();
+
+    track.isMuted = true;
+    reportSpeech(true, START_DELAY_MS);
+
+    expect(startedSpy).not.toHaveBeenCalled();
+  });
+
+  test('should send the microphone only while the user speaks with gateTransmission', async () => {
+    audioManager.enableVoiceActivityDetection({ gateTransmission: true });
+    await flushPromises();
+    expect(track.mediaStreamTrack.enabled).toBe(false);
+
+    reportSpeech(true, START_DELAY_MS);
+    expect(track.mediaStreamTrack.enabled).toBe(true);
+
+    reportSpeech(false, END_DELAY_MS);
+    expect(track.mediaStreamTrack.enabled).toBe(false);
+
+    audioManager.disableVoiceActivityDetection();
+    expect(track.mediaStreamTrack.enabled).toBe(true);
+  });
+
+  test('should listen to the new track when the microphone restarts', async () => {
+    const endedSpy = jest.fn();
+    audioManager.on('userSpeechEnded', endedSpy);
+    audioManager.enableVoiceActivityDetection();
+    await flushPromises();
+    reportSpeech(true, START_DELAY_MS);
+
+    track.emit(TrackEvent.Restarted);
+    await flushPromises();
+
+    expect(endedSpy).toHaveBeenCalled();
+    expect(track.copies[0].stop).toHaveBeenCalled();
+    expect(MockAudioWorkletNode.instances).toHaveLength(2);
+  });
+
+  test('should emit AUDIO_CAPTURE_UNSUPPORTED without AudioWorklet', async () => {
+    (global as any).AudioWorkletNode = undefined;
+    const errorSpy = jest.fn();
+    audioManager.on('error', errorSpy);
+
+    audioManager.enableVoiceActivityDetection({ gateTransmission: true });
+    await flushPromises();
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'AUDIO_CAPTURE_UNSUPPORTED' })
+    );
+    // A detector that cannot run must not silence the user
+    expect(track.mediaStreamTrack.enabled).toBe(true);
+  });
+});
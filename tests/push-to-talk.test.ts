@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { Room } from 'livekit-client';
+import HamsaVoiceAgent from '../src/main';
+import { mockSuccessfulConversationInit } from './utils/fetch-mocks';
+import { createMockRoom, type MockRoom } from './utils/livekit-mocks';
+import { MOCK_CONFIG } from './utils/test-constants';
+import {
+  applyWakeLockMocks,
+  createWakeLockMocks,
+} from './utils/wake-lock-mocks';
+
+const MAX_POLL_ATTEMPTS = 50;
+const INVALID_HOLD_MS = -1;
+
+/**
+ * Yields to the event loop until the condition holds
+ */
+const waitUntil = async (condition: () => boolean) => {
+  for (let attempt = 0; attempt < MAX_POLL_ATTEMPTS; attempt++) {
+    if (condition()) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  throw new Error('Condition not met');
+};
+
+/**
+ * Decodes the data messages published to the agent
+ */
+const publishedMessages = (publishData: jest.Mock) =>
+  publishData.mock.calls.map(([payload]) =>
+    JSON.parse(new TextDecoder().decode(payload as Uint8Array))
+  );
+
+describe('HamsaVoiceAgent push-to-talk', () => {
+  let agent: HamsaVoiceAgent;
+  let room: MockRoom;
+  let publishData: jest.Mock<() => Promise<void>>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSuccessfulConversationInit();
+    agent = new HamsaVoiceAgent(MOCK_CONFIG.API_KEY, {
+      API_URL: MOCK_CONFIG.API_URL,
+    });
+    applyWakeLockMocks(agent, createWakeLockMocks());
+    room = createMockRoom();
+    publishData = jest.fn(() => Promise.resolve());
+    Object.assign(room.localParticipant, { publishData });
+    (Room as unknown as jest.Mock).mockImplementation(() => room);
+  });
+
+  test('should start with the microphone muted', async () => {
+    await agent.start({ agentId: 'test-agent', pushToTalk: true });
+
+    expect(room.localParticipant.setMicrophoneEnabled).toHaveBeenLastCalledWith(
+      false
+    );
+  });
+
+  test('should tell the agent the turn ended after release', async () => {
+    const stateSpy = jest.fn();
+    agent.on('pttStateChanged', stateSpy);
+    await agent.start({
+      agentId: 'test-agent',
+      pushToTalk: { minHoldMs: 0, releaseTailMs: 0 },
+    });
+
+    agent.pressToTalk();
+    expect(room.localParticipant.setMicrophoneEnabled).toHaveBeenLastCalledWith(
+      true
+    );
+    agent.releaseToTalk();
+    await waitUntil(() => publishData.mock.calls.length > 0);
+
+    expect(publishedMessages(publishData)).toEqual([
+      expect.objectContaining({ event: 'user_turn_ended' }),
+    ]);
+    expect(stateSpy).toHaveBeenLastCalledWith('idle');
+  });
+
+  test('should ignore the talk key while paused', async () => {
+    await agent.start({
+      agentId: 'test-agent',
+      pushToTalk: { minHoldMs: 0 },
+    });
+    agent.pause();
+
+    agent.pressToTalk();
+    expect(room.localParticipant.setMicrophoneEnabled).toHaveBeenLastCalledWith(
+      false
+    );
+
+    agent.resume();
+    agent.pressToTalk();
+    expect(room.localParticipant.setMicrophoneEnabled).toHaveBeenLastCalledWith(
+      true
+    );
+  });
+
+  test('should reopen the microphone when disabled', async () => {
+    await agent.start({ agentId: 'test-agent' });
+
+    agent.enablePushToTalk();
+    expect(room.localParticipant.setMicrophoneEnabled).toHaveBeenLastCalledWith(
+      false
+    );
+    agent.disablePushToTalk();
+
+    expect(room.localParticipant.setMicrophoneEnabled).toHaveBeenLastCalledWith(
+      true
+    );
+    agent.pressToTalk();
+    expect(agent.liveKitManager?.audioManager.getPushToTalkState()).toBe(
+      'idle'
+    );
+  });
+
+  test('should keep a microphone muted before push-to-talk muted when disabled', async () => {
+    await agent.start({ agentId: 'test-agent' });
+    agent.setMicMuted(true);
+    room.localParticipant.getTrackPublication.mockReturnValue({
+      isMuted: true,
+    });
+
+    agent.enablePushToTalk({ minHoldMs: 0 });
+    agent.pressToTalk();
+    agent.disablePushToTalk();
+
+    expect(room.localParticipant.setMicrophoneEnabled).toHaveBeenLastCalledWith(
+      false
+    );
+  });
+
+  test('should reject enablePushToTalk() without a call', () => {
+    expect(() => agent.enablePushToTalk()).toThrow(
+      expect.objectContaining({ code: 'NOT_CONNECTED' })
+    );
+  });
+
+  test('should fail the start with INVALID_ARGUMENT for invalid options', async () => {
+    const errorSpy = jest.fn();
+    agent.on('error', errorSpy);
+
+    await agent.start({
+      agentId: 'test-agent',
+      pushToTalk: { minHoldMs: INVALID_HOLD_MS },
+    });
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+    );
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  jest,
+  test,
+} from '@jest/globals';
+import ScreenWakeLock from '../src/classes/screen-wake-lock';
+import HamsaVoiceAgent from '../src/main';
+import { mockSuccessfulConversationInit } from './utils/fetch-mocks';
+import { MOCK_CONFIG } from './utils/test-constants';
+
+type MockSentinel = EventTarget & {
+  type: 'screen';
+  release: jest.Mock<() => Promise<void>>;
+};
+
+/**
+ * Creates a wake lock sentinel whose release() fires the release event,
+ * like the browser does
+ */
+const createSentinel = (): MockSentinel => {
+  const sentinel = Object.assign(new EventTarget(), {
+    type: 'screen' as const,
+    release: jest.fn(() => {
+      sentinel.dispatchEvent(new Event('release'));
+      return Promise.resolve();
+    }),
+  });
+  return sentinel;
+};
+
+/**
+ * Installs a navigator.wakeLock mock handing out a new sentinel per request
+ */
+const mockWakeLockApi = () => {
+  const sentinels: MockSentinel[] = [];
+  const request = jest.fn(() => {
+    const sentinel = createSentinel();
+    sentinels.push(sentinel);
+    return Promise.resolve(sentinel);
+  });
+  Object.defineProperty(navigator, 'wakeLock', {
+    value: { request },
+    configurable: true,
+  });
+  return { request, sentinels };
+};
+
+const setVisibility = (state: DocumentVisibilityState) => {
+  jest.spyOn(document, 'visibilityState', 'get').mockReturnValue(state);
+  document.dispatchEvent(new Event('visibilitychange'));
+};
+
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('ScreenWakeLock', () => {
+  let wakeLock: ScreenWakeLock;
+
+  beforeEach(() => {
+    wakeLock = new ScreenWakeLock();
+  });
+
+  afterEach(async () => {
+    await wakeLock.release();
+    Reflect.deleteProperty(navigator, 'wakeLock');
+    jest.restoreAllMocks();
+  });
+
+  describe('with the Wake Lock API', () => {
+    test('should emit acquired and released', async () => {
+      mockWakeLockApi();
+      const acquiredSpy = jest.fn();
+      const releasedSpy = jest.fn();
+      wakeLock.on('acquired', acquiredSpy).on('released', releasedSpy);
+
+      await wakeLock.acquire();
+      expect(wakeLock.isActive()).toBe(true);
+      expect(acquiredSpy).toHaveBeenCalledWith('native');
+
+      await wakeLock.release();
+      expect(wakeLock.isActive()).toBe(false);
+      expect(releasedSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test('should re-acquire the lock released by the browser when the tab is visible again', async () => {
+      const { request, sentinels } = mockWakeLockApi();
+      const releasedSpy = jest.fn();
+      wakeLock.on('released', releasedSpy);
+      await wakeLock.acquire();
+
+      // The browser drops the lock when the tab is hidden
+      setVisibility('hidden');
+      sentinels[0].dispatchEvent(new Event('release'));
+      expect(wakeLock.isActive()).toBe(false);
+      expect(releasedSpy).toHaveBeenCalledTimes(1);
+
+      setVisibility('visible');
+      await flushPromises();
+
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(wakeLock.isActive()).toBe(true);
+    });
+
+    test('should not re-acquire after release()', async () => {
+      const { request } = mockWakeLockApi();
+      await wakeLock.acquire();
+      await wakeLock.release();
+
+      setVisibility('visible');
+      await flushPromises();
+
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(wakeLock.isActive()).toBe(false);
+    });
+  });
+
+  describe('without the Wake Lock API', () => {
+    test('should fall back to playing a hidden video', async () => {
+      const stopTrack = jest.fn();
+      Object.defineProperty(HTMLCanvasElement.prototype, 'captureStream', {
+        value: () => ({ getTracks: () => [{ stop: stopTrack }] }),
+        configurable: true,
+      });
+      jest
+        .spyOn(HTMLCanvasElement.prototype, 'getContext')
+        .mockReturnValue(null);
+      jest
+        .spyOn(HTMLMediaElement.prototype, 'play')
+        .mockResolvedValue(undefined);
+      jest.spyOn(HTMLMediaElement.prototype, 'pause').mockReturnValue();
+      jest
+        .spyOn(HTMLMediaElement.prototype, 'paused', 'get')
+        .mockReturnValue(false);
+      const acquiredSpy = jest.fn();
+      wakeLock.on('acquired', acquiredSpy);
+
+      await wakeLock.acquire();
+      await flushPromises();
+
+      expect(acquiredSpy).toHaveBeenCalledWith('video');
+      expect(wakeLock.isActive()).toBe(true);
+      expect(document.querySelector('video')).not.toBeNull();
+
+      await wakeLock.release();
+
+      expect(document.querySelector('video')).toBeNull();
+      expect(stopTrack).toHaveBeenCalled();
+      Reflect.deleteProperty(HTMLCanvasElement.prototype, 'captureStream');
+    });
+  });
+});
+
+describe('HamsaVoiceAgent wake lock', () => {
+  let agent: HamsaVoiceAgent;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSuccessfulConversationInit();
+    agent = new HamsaVoiceAgent(MOCK_CONFIG.API_KEY, {
+      API_URL: MOCK_CONFIG.API_URL,
+    });
+  });
+
+  test('should not acquire the wake lock when disableWakeLock is set', async () => {
+    const acquireSpy = jest
+      .spyOn(agent.wakeLockManager, 'acquire')
+      .mockResolvedValue(undefined);
+
+    await agent.start({ agentId: 'test-agent', disableWakeLock: true });
+    agent.pause();
+    agent.resume();
+
+    expect(acquireSpy).not.toHaveBeenCalled();
+  });
+
+  test('should forward wake lock events', () => {
+    const acquiredSpy = jest.fn();
+    const releasedSpy = jest.fn();
+    agent.on('wakeLockAcquired', acquiredSpy);
+    agent.on('wakeLockReleased', releasedSpy);
+
+    agent.wakeLockManager.emit('acquired', 'native');
+    agent.wakeLockManager.emit('released');
+
+    expect(acquiredSpy).toHaveBeenCalledWith('native');
+    expect(releasedSpy).toHaveBeenCalled();
+  });
+});
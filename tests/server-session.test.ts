@@ -0,0 +1,342 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import {
+  createSession,
+  createSessionHandler,
+  HamsaApiError,
+} from '../src/server';
+import {
+  createFailedResponse,
+  extractFetchRequestBody,
+  getFetchHeaders,
+  mockSuccessfulConversationInit,
+} from './utils/fetch-mocks';
+import { MOCK_CONFIG } from './utils/test-constants';
+
+const STATUS_OK = 200;
+const STATUS_BAD_REQUEST = 400;
+const STATUS_FORBIDDEN = 403;
+const STATUS_TOO_MANY_REQUESTS = 429;
+const STATUS_SERVICE_UNAVAILABLE = 503;
+const STATUS_BAD_GATEWAY = 502;
+const STATUS_INTERNAL_ERROR = 500;
+const STATUS_UNAUTHORIZED = 401;
+const STATUS_NOT_FOUND = 404;
+
+/**
+ * Builds an unsigned LiveKit-style JWT whose agent metadata carries a jobId
+ */
+const createTokenWithJobId = (jobId: string): string => {
+  const encode = (value: unknown) =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  const payload = {
+    roomConfig: { agents: [{ metadata: JSON.stringify({ jobId }) }] },
+  };
+  return `${encode({ alg: 'none' })}.${encode(payload)}.signature`;
+};
+
+describe('Server-side session helpers', () => {
+  const serverConfig = {
+    apiKey: MOCK_CONFIG.API_KEY,
+    API_URL: MOCK_CONFIG.API_URL,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSuccessfulConversationInit();
+  });
+
+  describe('createSession', () => {
+    test('should run participant-token then conversation-init', async () => {
+      const session = await createSession(serverConfig, {
+        agentId: 'test-agent',
+        params: { name: 'Test' },
+        voiceEnablement: true,
+      });
+
+      expect(session).toEqual({
+        liveKitAccessToken: 'mock-livekit-token',
+        jobId: 'mock-job-id',
+      });
+      expect(fetch).toHaveBeenNthCalledWith(
+        1,
+        `${MOCK_CONFIG.API_URL}/v1/voice-agents/room/participant-token`,
+        expect.objectContaining({ method: 'POST' })
+      );
+      expect(fetch).toHaveBeenNthCalledWith(
+        2,
+        `${MOCK_CONFIG.API_URL}/v1/voice-agents/room/conversation-init`,
+        expect.objectContaining({ method: 'POST' })
+      );
+      expect(getFetchHeaders(0)).toEqual(
+        expect.objectContaining({
+          Authorization: `Token ${MOCK_CONFIG.API_KEY}`,
+        })
+      );
+      expect(extractFetchRequestBody(1)).toEqual(
+        expect.objectContaining({
+          voiceAgentId: 'test-agent',
+          voiceEnablement: true,
+          jobId: 'mock-job-id',
+          channelType: 'Web',
+        })
+      );
+    });
+
+    test('should send the userId in both requests', async () => {
+      await createSession(serverConfig, {
+        agentId: 'test-agent',
+        userId: 'user-12345',
+      });
+
+      expect(extractFetchRequestBody(0)).toEqual(
+        expect.objectContaining({ userId: 'user-12345' })
+      );
+      expect(extractFetchRequestBody(1)).toEqual(
+        expect.objectContaining({ userId: 'user-12345' })
+      );
+    });
+
+    test('should use the region default API URL', async () => {
+      await createSession(
+        { apiKey: MOCK_CONFIG.API_KEY, region: 'uae' },
+        { agentId: 'test-agent' }
+      );
+
+      expect(fetch).toHaveBeenNthCalledWith(
+        1,
+        'https://api.uae.tryhamsa.com/v1/voice-agents/room/participant-token',
+        expect.anything()
+      );
+    });
+
+    test('should convert tool definitions to the LLM tool format', async () => {
+      await createSession(serverConfig, {
+        agentId: 'test-agent',
+        tools: [
+          {
+            function_name: 'getWeather',
+            description: 'Gets the weather',
+            parameters: [
+              { name: 'city', type: 'string', description: 'City name' },
+            ],
+            required: ['city'],
+          },
+        ],
+      });
+
+      expect(extractFetchRequestBody(1).tools).toEqual([
+        {
+          type: 'function',
+          function: {
+            name: 'getWeather',
+            description: 'Gets the weather',
+            parameters: {
+              type: 'object',
+              properties: {
+                city: { type: 'string', description: 'City name' },
+              },
+              required: ['city'],
+            },
+          },
+        },
+      ]);
+    });
+
+    test('should resolve the jobId from the token metadata', async () => {
+      mockSuccessfulConversationInit(
+        createTokenWithJobId('jwt-job-id'),
+        'endpoint-job-id'
+      );
+
+      const session = await createSession(serverConfig, {
+        agentId: 'test-agent',
+      });
+
+      expect(session.jobId).toBe('jwt-job-id');
+      expect(extractFetchRequestBody(1).jobId).toBe('jwt-job-id');
+    });
+
+    test('should map API failures to HamsaApiError', async () => {
+      (fetch as any).mockResolvedValue(
+        createFailedResponse(
+          STATUS_NOT_FOUND,
+          'Not Found',
+          JSON.stringify({
+            message: 'Agent not found',
+            messageKey: 'AGENT_NOT_FOUND',
+          })
+        )
+      );
+
+      const promise = createSession(serverConfig, { agentId: 'missing' });
+
+      await expect(promise).rejects.toBeInstanceOf(HamsaApiError);
+      await expect(promise).rejects.toMatchObject({
+        message: 'Agent not found',
+        messageKey: 'AGENT_NOT_FOUND',
+      });
+    });
+  });
+
+  describe('createSessionHandler', () => {
+    const handlerConfig = { ...serverConfig, agentIds: ['test-agent'] };
+
+    test('should require an agent allowlist or resolveOptions', () => {
+      expect(() =>
+        createSessionHandler(serverConfig as typeof handlerConfig)
+      ).toThrow(TypeError);
+    });
+
+    test('should mint a session from the request body', async () => {
+      const handler = createSessionHandler(handlerConfig);
+
+      const result = await handler({ agentId: 'test-agent' });
+
+      expect(result).toEqual({
+        status: STATUS_OK,
+        body: {
+          success: true,
+          data: {
+            liveKitAccessToken: 'mock-livekit-token',
+            jobId: 'mock-job-id',
+          },
+        },
+      });
+    });
+
+    test('should forward the userId from the request body', async () => {
+      const handler = createSessionHandler(handlerConfig);
+
+      await handler({ agentId: 'test-agent', userId: 'user-12345' });
+
+      expect(extractFetchRequestBody(1)).toEqual(
+        expect.objectContaining({ userId: 'user-12345' })
+      );
+    });
+
+    test('should reject bodies without an agentId', async () => {
+      const handler = createSessionHandler(handlerConfig);
+
+      const result = await handler({ params: {} });
+
+      expect(result.status).toBe(STATUS_BAD_REQUEST);
+      expect(result.body).toEqual({
+        success: false,
+        message: 'Invalid session request: agentId is required',
+      });
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    test('should reject agents outside the allowlist', async () => {
+      const handler = createSessionHandler(handlerConfig);
+
+      const result = await handler({ agentId: 'other-agent' });
+
+      expect(result).toEqual({
+        status: STATUS_FORBIDDEN,
+        body: {
+          success: false,
+          message: 'Invalid session request: agent other-agent is not allowed',
+        },
+      });
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    test('should ignore params and tools from the request body', async () => {
+      const handler = createSessionHandler(handlerConfig);
+
+      await handler({
+        agentId: 'test-agent',
+        params: { role: 'admin' },
+        tools: [{ function_name: 'deleteAccount' }],
+      });
+
+      const requests = JSON.stringify([
+        extractFetchRequestBody(0),
+        extractFetchRequestBody(1),
+      ]);
+      expect(requests).not.toContain('admin');
+      expect(requests).not.toContain('deleteAccount');
+    });
+
+    test('should let resolveOptions pin the agent', async () => {
+      const handler = createSessionHandler({
+        ...serverConfig,
+        resolveOptions: () => ({ agentId: 'pinned-agent' }),
+      });
+
+      await handler({ agentId: 'client-chosen-agent' });
+
+      expect(extractFetchRequestBody(0).voiceAgentId).toBe('pinned-agent');
+    });
+
+    test.each([
+      STATUS_UNAUTHORIZED,
+      STATUS_NOT_FOUND,
+      STATUS_TOO_MANY_REQUESTS,
+    ])('should pass through the %s status of HamsaApiError', async (status) => {
+      (fetch as any).mockResolvedValue(
+        createFailedResponse(
+          status,
+          'Client Error',
+          JSON.stringify({
+            message: 'Request rejected',
+            messageKey: 'REQUEST_REJECTED',
+          })
+        )
+      );
+      const handler = createSessionHandler(handlerConfig);
+
+      const result = await handler({ agentId: 'test-agent' });
+
+      expect(result).toEqual({
+        status,
+        body: {
+          success: false,
+          message: 'Request rejected',
+          messageKey: 'REQUEST_REJECTED',
+        },
+      });
+    });
+
+    test('should map other HamsaApiError failures to a bad gateway response', async () => {
+      (fetch as any).mockResolvedValue(
+        createFailedResponse(
+          STATUS_SERVICE_UNAVAILABLE,
+          'Service Unavailable',
+          JSON.stringify({
+            message: 'Service unavailable',
+            messageKey: 'SERVICE_UNAVAILABLE',
+          })
+        )
+      );
+      const handler = createSessionHandler(handlerConfig);
+
+      const result = await handler({ agentId: 'test-agent' });
+
+      expect(result).toEqual({
+        status: STATUS_BAD_GATEWAY,
+        body: {
+          success: false,
+          message: 'Service unavailable',
+          messageKey: 'SERVICE_UNAVAILABLE',
+        },
+      });
+    });
+
+    test('should map unexpected failures to an internal error response', async () => {
+      (fetch as any).mockRejectedValue(new Error('socket hang up'));
+      const handler = createSessionHandler(handlerConfig);
+
+      const result = await handler({ agentId: 'test-agent' });
+
+      expect(result).toEqual({
+        status: STATUS_INTERNAL_ERROR,
+        body: {
+          success: false,
+          message: 'Failed to create session: socket hang up',
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import HamsaVoiceAgent from '../src/main';
+import { mockSuccessfulConversationInit } from './utils/fetch-mocks';
+import { MOCK_CONFIG } from './utils/test-constants';
+import {
+  applyWakeLockMocks,
+  createWakeLockMocks,
+} from './utils/wake-lock-mocks';
+
+describe('HamsaVoiceAgent Server-issued Token Mode', () => {
+  const issuedSession = {
+    liveKitAccessToken: 'server-issued-token',
+    jobId: 'server-job-id',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSuccessfulConversationInit();
+  });
+
+  const createAgent = (apiKey: string | null = null) => {
+    const agent = new HamsaVoiceAgent(apiKey, {
+      API_URL: MOCK_CONFIG.API_URL,
+    });
+    applyWakeLockMocks(agent, createWakeLockMocks());
+    return agent;
+  };
+
+  test('should allow constructing without an API key', () => {
+    const agent = createAgent();
+
+    expect(agent.apiKey).toBe('');
+  });
+
+  test('should skip REST calls when a pre-issued session is provided', async () => {
+    const agent = createAgent();
+    const errorSpy = jest.fn();
+    agent.on('error', errorSpy);
+
+    await agent.start({ agentId: 'test-agent', session: issuedSession });
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(errorSpy).not.toHaveBeenCalled();
+    expect(agent.getJobId()).toBe('server-job-id');
+    expect(agent.liveKitManager?.accessToken).toBe('server-issued-token');
+  });
+
+  test('should obtain the session from the token provider', async () => {
+    const agent = createAgent();
+    const tokenProvider = jest.fn(async () => issuedSession);
+
+    await agent.start({ agentId: 'test-agent', tokenProvider });
+
+    expect(tokenProvider).toHaveBeenCalledTimes(1);
+    expect(fetch).not.toHaveBeenCalled();
+    expect(agent.getJobId()).toBe('server-job-id');
+  });
+
+  test('should prefer the pre-issued session over the token provider', async () => {
+    const agent = createAgent();
+    const tokenProvider = jest.fn(async () => ({
+      liveKitAccessToken: 'provider-token',
+    }));
+
+    await agent.start({
+      agentId: 'test-agent',
+      session: issuedSession,
+      tokenProvider,
+    });
+
+    expect(tokenProvider).not.toHaveBeenCalled();
+    expect(agent.liveKitManager?.accessToken).toBe('server-issued-token');
+  });
+
+  test('should fall back to the agent ID when no job ID is issued', async () => {
+    const agent = createAgent();
+
+    await agent.start({
+      agentId: 'test-agent',
+      session: { liveKitAccessToken: 'server-issued-token' },
+    });
+
+    expect(agent.getJobId()).toBe('test-agent');
+  });
+
+  test('should emit an error when the token provider rejects', async () => {
+    const agent = createAgent();
+    const errorSpy = jest.fn();
+    agent.on('error', errorSpy);
+
+    await agent.start({
+      agentId: 'test-agent',
+      tokenProvider: () => Promise.reject(new Error('backend unavailable')),
+    });
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: 'Failed to start call: backend unavailable',
+      })
+    );
+    expect(agent.liveKitManager).toBeNull();
+  });
+
+  test('should emit an error when the issued session has no token', async () => {
+    const agent = createAgent();
+    const errorSpy = jest.fn();
+    agent.on('error', errorSpy);
+
+    await agent.start({
+      agentId: 'test-agent',
+      tokenProvider: async () => ({ liveKitAccessToken: '' }),
+    });
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message:
+          'Failed to start call: Invalid server-issued session: liveKitAccessToken is required',
+      })
+    );
+  });
+
+  test('should reject getJobDetails() with AUTH_MISSING_KEY without an API key', async () => {
+    const agent = createAgent();
+    await agent.start({ agentId: 'test-agent', session: issuedSession });
+
+    await expect(agent.getJobDetails()).rejects.toMatchObject({
+      code: 'AUTH_MISSING_KEY',
+    });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  test('should require an API key when no session is issued', async () => {
+    const agent = createAgent();
+    const errorSpy = jest.fn();
+    agent.on('error', errorSpy);
+
+    await agent.start({ agentId: 'test-agent' });
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message:
+          'Failed to start call: Cannot start call: an apiKey is required unless a tokenProvider or session is provided.',
+      })
+    );
+  });
+});
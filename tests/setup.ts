@@ -66,6 +66,7 @@ jest.mock('livekit-client', () => ({
     localParticipant: {
       setMicrophoneEnabled: jest.fn(),
       getTrackPublication: jest.fn(),
+      publishData: jest.fn().mockResolvedValue(undefined),
     },
     on: jest.fn().mockReturnThis(),
     name: 'test-room',
@@ -78,6 +79,13 @@ jest.mock('livekit-client', () => ({
     DataReceived: 'dataReceived',
     ConnectionStateChanged: 'connectionStateChanged',
     MediaDevicesError: 'mediaDevicesError',
+    TranscriptionReceived: 'transcriptionReceived',
+  },
+  TrackEvent: {
+    Ended: 'ended',
+    Muted: 'muted',
+    Unmuted: 'unmuted',
+    Restarted: 'restarted',
   },
   Track: {
     Kind: {
@@ -1,4 +1,4 @@
-import HamsaVoiceAgent from '../src/main';
+import HamsaVoiceAgent, { type StartOptions } from '../src/main';
 
 // Mock fetch for API calls
 global.fetch = jest.fn();
@@ -123,6 +123,159 @@ describe('StartOptions - New Parameters', () => {
   });
 
   describe('connectionDelay Parameter', () => {
+    const ANDROID_USER_AGENT =
+      'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 Chrome/124.0 Mobile Safari/537.36';
+    const IOS_USER_AGENT =
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 Mobile/15E148';
+    const ANDROID_DELAY_MS = 3000;
+    const IOS_DELAY_MS = 500;
+    const DEFAULT_DELAY_MS = 1000;
+
+    /**
+     * Starts a call with fake timers and reports whether callStarted was
+     * emitted just before and right after the given delay elapsed
+     */
+    const startAndObserveDelay = async (
+      connectionDelay: Record<string, number>,
+      expectedDelayMs: number,
+      options: Partial<StartOptions> = {}
+    ) => {
+      const callStartedSpy = jest.fn();
+      voiceAgent.on('callStarted', callStartedSpy);
+      jest.useFakeTimers();
+      try {
+        const startPromise = voiceAgent.start({
+          agentId: 'test-agent',
+          connectionDelay,
+          ...options,
+        });
+        await jest.advanceTimersByTimeAsync(expectedDelayMs - 1);
+        const startedBeforeDelay = callStartedSpy.mock.calls.length > 0;
+        await jest.advanceTimersByTimeAsync(1);
+        await startPromise;
+        return {
+          startedBeforeDelay,
+          startedAfterDelay: callStartedSpy.mock.calls.length > 0,
+        };
+      } finally {
+        jest.useRealTimers();
+      }
+    };
+
+    /**
+     * Installs navigator.mediaDevices.getUserMedia, which jsdom lacks
+     */
+    const mockGetUserMedia = () => {
+      const stopTrack = jest.fn();
+      const getUserMedia = jest.fn().mockResolvedValue({
+        getTracks: () => [{ stop: stopTrack }],
+      });
+      Object.defineProperty(navigator, 'mediaDevices', {
+        value: { getUserMedia },
+        configurable: true,
+      });
+      return { getUserMedia, stopTrack };
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      Reflect.deleteProperty(navigator, 'mediaDevices');
+    });
+
+    test('should hold back callStarted for the Android delay on Android', async () => {
+      jest
+        .spyOn(navigator, 'userAgent', 'get')
+        .mockReturnValue(ANDROID_USER_AGENT);
+
+      const result = await startAndObserveDelay(
+        {
+          android: ANDROID_DELAY_MS,
+          ios: IOS_DELAY_MS,
+          default: DEFAULT_DELAY_MS,
+        },
+        ANDROID_DELAY_MS
+      );
+
+      expect(result).toEqual({
+        startedBeforeDelay: false,
+        startedAfterDelay: true,
+      });
+    });
+
+    test('should use the iOS delay on iOS', async () => {
+      jest.spyOn(navigator, 'userAgent', 'get').mockReturnValue(IOS_USER_AGENT);
+
+      const result = await startAndObserveDelay(
+        {
+          android: ANDROID_DELAY_MS,
+          ios: IOS_DELAY_MS,
+          default: DEFAULT_DELAY_MS,
+        },
+        IOS_DELAY_MS
+      );
+
+      expect(result).toEqual({
+        startedBeforeDelay: false,
+        startedAfterDelay: true,
+      });
+    });
+
+    test('should fall back to the default delay when the platform has none', async () => {
+      jest
+        .spyOn(navigator, 'userAgent', 'get')
+        .mockReturnValue(ANDROID_USER_AGENT);
+
+      const result = await startAndObserveDelay(
+        { ios: IOS_DELAY_MS, default: DEFAULT_DELAY_MS },
+        DEFAULT_DELAY_MS
+      );
+
+      expect(result).toEqual({
+        startedBeforeDelay: false,
+        startedAfterDelay: true,
+      });
+    });
+
+    test('should capture the selected microphone during the delay', async () => {
+      jest
+        .spyOn(navigator, 'userAgent', 'get')
+        .mockReturnValue(ANDROID_USER_AGENT);
+      const { getUserMedia, stopTrack } = mockGetUserMedia();
+      await voiceAgent.setAudioInput('usb-microphone');
+
+      await startAndObserveDelay(
+        { android: ANDROID_DELAY_MS },
+        ANDROID_DELAY_MS,
+        { voiceEnablement: true, audio: { autoGainControl: false } }
+      );
+
+      expect(getUserMedia).toHaveBeenCalledWith({
+        audio: {
+          echoCancellation: true,
+          noiseSuppression: true,
+          autoGainControl: false,
+          deviceId: { exact: 'usb-microphone' },
+        },
+      });
+      expect(stopTrack).toHaveBeenCalled();
+    });
+
+    test('should not capture the microphone in text-only calls', async () => {
+      jest
+        .spyOn(navigator, 'userAgent', 'get')
+        .mockReturnValue(ANDROID_USER_AGENT);
+      const { getUserMedia } = mockGetUserMedia();
+
+      const result = await startAndObserveDelay(
+        { android: ANDROID_DELAY_MS },
+        ANDROID_DELAY_MS,
+        { voiceEnablement: false }
+      );
+
+      expect(getUserMedia).not.toHaveBeenCalled();
+      expect(result.startedAfterDelay).toBe(true);
+    });
+
     test('should accept connectionDelay with all platform values', async () => {
       await expect(
         voiceAgent.start({
@@ -403,17 +556,21 @@ describe('StartOptions - New Parameters', () => {
 
   describe('Edge Cases and Error Handling', () => {
     test('should handle extreme delay values gracefully', async () => {
+      const EXTREME_DELAY_MS = 999_999;
+
       // Very high delays
-      await expect(
-        voiceAgent.start({
-          agentId: 'test-agent',
-          connectionDelay: {
-            android: 999_999,
-            ios: 999_999,
-            default: 999_999,
-          },
-        })
-      ).resolves.not.toThrow();
+      jest.useFakeTimers();
+      const startPromise = voiceAgent.start({
+        agentId: 'test-agent',
+        connectionDelay: {
+          android: EXTREME_DELAY_MS,
+          ios: EXTREME_DELAY_MS,
+          default: EXTREME_DELAY_MS,
+        },
+      });
+      await jest.advanceTimersByTimeAsync(EXTREME_DELAY_MS);
+      jest.useRealTimers();
+      await expect(startPromise).resolves.not.toThrow();
 
       await voiceAgent.end();
 
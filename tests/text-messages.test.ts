@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { Room } from 'livekit-client';
+import HamsaVoiceAgent from '../src/main';
+import { mockSuccessfulConversationInit } from './utils/fetch-mocks';
+import { createMockRoom, type MockRoom } from './utils/livekit-mocks';
+import { MOCK_CONFIG } from './utils/test-constants';
+import {
+  applyWakeLockMocks,
+  createWakeLockMocks,
+} from './utils/wake-lock-mocks';
+
+const OVERSIZED_TEXT_LENGTH = 20_000;
+
+/**
+ * Encodes a data message the way the agent publishes it
+ */
+const encodeAgentMessage = (message: Record<string, unknown>) =>
+  new TextEncoder().encode(JSON.stringify(message));
+
+describe('HamsaVoiceAgent sendTextMessage', () => {
+  let agent: HamsaVoiceAgent;
+  let room: MockRoom;
+  let publishData: jest.Mock<(payload: Uint8Array) => Promise<void>>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSuccessfulConversationInit();
+    agent = new HamsaVoiceAgent(MOCK_CONFIG.API_KEY, {
+      API_URL: MOCK_CONFIG.API_URL,
+    });
+    applyWakeLockMocks(agent, createWakeLockMocks());
+    room = createMockRoom();
+    publishData = jest.fn(() => Promise.resolve());
+    Object.assign(room.localParticipant, { publishData });
+    (Room as unknown as jest.Mock).mockImplementation(() => room);
+  });
+
+  test('should publish a user_message and record it in the transcript', async () => {
+    const sentSpy = jest.fn();
+    agent.on('textMessageSent', sentSpy);
+    await agent.start({ agentId: 'test-agent', voiceEnablement: false });
+
+    await agent.sendTextMessage('Book a table for two');
+
+    const message = JSON.parse(
+      new TextDecoder().decode(publishData.mock.calls[0][0])
+    );
+    expect(message).toEqual({
+      event: 'user_message',
+      content: 'Book a table for two',
+      timestamp: expect.any(Number),
+    });
+    expect(sentSpy).toHaveBeenCalledWith('Book a table for two');
+    expect(agent.getTranscript()).toEqual([
+      expect.objectContaining({
+        role: 'user',
+        text: 'Book a table for two',
+        isFinal: true,
+      }),
+    ]);
+  });
+
+  test('should deliver the reply through answerReceived', async () => {
+    const answerSpy = jest.fn();
+    agent.on('answerReceived', answerSpy);
+    await agent.start({ agentId: 'test-agent' });
+
+    await agent.sendTextMessage('Hello');
+    agent.liveKitManager?.toolRegistry.handleDataReceived(
+      encodeAgentMessage({ event: 'answer', content: 'Hi! How can I help?' }),
+      'agent-123'
+    );
+
+    expect(answerSpy).toHaveBeenCalledWith('Hi! How can I help?');
+    expect(agent.getTranscript().map(({ role, text }) => [role, text])).toEqual(
+      [
+        ['user', 'Hello'],
+        ['agent', 'Hi! How can I help?'],
+      ]
+    );
+  });
+
+  test('should keep each typed message as its own turn', async () => {
+    await agent.start({ agentId: 'test-agent' });
+
+    await agent.sendTextMessage('Yes');
+    await agent.sendTextMessage('Yes');
+
+    expect(agent.getTranscript().map((turn) => turn.text)).toEqual([
+      'Yes',
+      'Yes',
+    ]);
+  });
+
+  test('should reject empty and oversized messages', async () => {
+    await agent.start({ agentId: 'test-agent' });
+
+    await expect(agent.sendTextMessage('  ')).rejects.toMatchObject({
+      code: 'INVALID_ARGUMENT',
+    });
+    await expect(
+      agent.sendTextMessage('a'.repeat(OVERSIZED_TEXT_LENGTH))
+    ).rejects.toMatchObject({ code: 'MESSAGE_TOO_LARGE' });
+    expect(publishData).not.toHaveBeenCalled();
+    expect(agent.getTranscript()).toEqual([]);
+  });
+
+  test('should reject without a call', async () => {
+    await expect(agent.sendTextMessage('Hello')).rejects.toMatchObject({
+      code: 'NOT_CONNECTED',
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { Room } from 'livekit-client';
+import { formatTranscript } from '../src/classes/transcript-export';
+import type {
+  TranscriptExportFormat,
+  TranscriptTurn,
+} from '../src/classes/types';
+import HamsaVoiceAgent from '../src/main';
+import { mockSuccessfulConversationInit } from './utils/fetch-mocks';
+import { createMockRoom } from './utils/livekit-mocks';
+import { MOCK_CONFIG } from './utils/test-constants';
+import {
+  applyWakeLockMocks,
+  createWakeLockMocks,
+} from './utils/wake-lock-mocks';
+
+const turns: TranscriptTurn[] = [
+  {
+    id: 'turn_1',
+    role: 'agent',
+    text: 'Hello! How can I help?',
+    isFinal: true,
+    startMs: 1200,
+    endMs: 2600,
+    segments: [
+      { text: 'Hello!', startMs: 1200, endMs: 1500 },
+      { text: 'How can I help?', startMs: 1600, endMs: 2600 },
+    ],
+  },
+  {
+    id: 'turn_2',
+    role: 'user',
+    text: 'Weather in <Dubai>',
+    isFinal: true,
+    startMs: 4000,
+    endMs: 4000,
+    userId: 'user-123',
+    segments: [{ text: 'Weather in <Dubai>', startMs: 4000, endMs: 4000 }],
+  },
+  {
+    id: 'turn_3',
+    role: 'tool',
+    text: 'getWeather',
+    isFinal: true,
+    startMs: 5000,
+    endMs: 5000,
+    tool: {
+      name: 'getWeather',
+      arguments: { city: 'Dubai' },
+      result: { temperature: 30 },
+    },
+    segments: [],
+  },
+  {
+    id: 'turn_4',
+    role: 'system',
+    text: 'Call paused',
+    isFinal: true,
+    startMs: 3_725_000,
+    endMs: 3_725_000,
+    segments: [],
+  },
+];
+
+describe('formatTranscript', () => {
+  test('should render WebVTT cues per segment with voice tags', () => {
+    expect(formatTranscript(turns, 'webvtt')).toBe(
+      [
+        'WEBVTT',
+        '',
+        '1',
+        '00:00:01.200 --> 00:00:01.600',
+        '<v Agent>Hello!',
+        '',
+        '2',
+        '00:00:01.600 --> 00:00:02.600',
+        '<v Agent>How can I help?',
+        '',
+        '3',
+        '00:00:04.000 --> 00:00:05.000',
+        '<v User>Weather in &lt;Dubai&gt;',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('should render SRT cues with the speaker as a prefix', () => {
+    expect(formatTranscript(turns, 'srt')).toBe(
+      [
+        '1',
+        '00:00:01,200 --> 00:00:01,600',
+        'Agent: Hello!',
+        '',
+        '2',
+        '00:00:01,600 --> 00:00:02,600',
+        'Agent: How can I help?',
+        '',
+        '3',
+        '00:00:04,000 --> 00:00:05,000',
+        'User: Weather in <Dubai>',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('should render one line per turn as plain text', () => {
+    expect(formatTranscript(turns, 'text')).toBe(
+      [
+        '[00:00:01] Agent: Hello! How can I help?',
+        '[00:00:04] User: Weather in <Dubai>',
+        '[00:00:05] Tool: getWeather({"city":"Dubai"}) -> {"temperature":30}',
+        '[01:02:05] (Call paused)',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('should render a Markdown list', () => {
+    expect(formatTranscript(turns, 'markdown')).toBe(
+      [
+        '# Transcript',
+        '',
+        '- **00:00:01 Agent:** Hello! How can I help?',
+        '- **00:00:04 User:** Weather in \\<Dubai\\>',
+        '- **00:00:05 Tool:** `getWeather({"city":"Dubai"}) -> {"temperature":30}`',
+        '- _01:02:05 Call paused_',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('should render the JSON document with the job ID', () => {
+    const document = JSON.parse(
+      formatTranscript(turns, 'json', { jobId: 'job-123' })
+    );
+
+    expect(document).toEqual({
+      version: 1,
+      jobId: 'job-123',
+      durationMs: 3_725_000,
+      turns,
+    });
+  });
+});
+
+describe('HamsaVoiceAgent exportTranscript', () => {
+  let agent: HamsaVoiceAgent;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSuccessfulConversationInit();
+    agent = new HamsaVoiceAgent(MOCK_CONFIG.API_KEY, {
+      API_URL: MOCK_CONFIG.API_URL,
+    });
+    applyWakeLockMocks(agent, createWakeLockMocks());
+    const room = createMockRoom();
+    (Room as unknown as jest.Mock).mockImplementation(() => room);
+  });
+
+  test('should export the transcript of the call', async () => {
+    await agent.start({ agentId: 'test-agent' });
+    agent.pause();
+
+    expect(agent.exportTranscript('text')).toContain('(Call paused)');
+    expect(JSON.parse(agent.exportTranscript('json'))).toMatchObject({
+      jobId: agent.getJobId(),
+      turns: [expect.objectContaining({ role: 'system' })],
+    });
+  });
+
+  test('should reject an unknown format', () => {
+    expect(() =>
+      agent.exportTranscript('docx' as TranscriptExportFormat)
+    ).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT' }));
+  });
+});
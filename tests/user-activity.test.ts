@@ -5,10 +5,12 @@ global.fetch = jest.fn();
 
 // Magic numbers used in this suite
 const RAPID_CALLS_COUNT = 5;
-const EXPECTED_INTEGRATION_CALLS = 5;
-const EXPECTED_MAINTAIN_STATE_CALLS = 6;
-const RAPID_MIXED_CALLS = 20;
+const EXPECTED_ACTIVITY_CALLS = 3;
+const EXPECTED_CONTEXT_CALLS = 2;
 const NON_STRING_NUMBER = 123;
+const THROTTLE_WINDOW_MS = 1000;
+const OVERSIZED_CONTEXT_LENGTH = 20_000;
+const SIZE_LIMIT_ERROR_REGEX = /exceeding the \d+ byte limit/;
 
 // Mock console.log to test log outputs
 const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
@@ -31,6 +33,16 @@ const countLoggerCalls = (message: string): number => {
   return calls.filter((call) => call[1] === message).length;
 };
 
+// Helper to access the publishData mock of the connected room
+const getPublishDataMock = (agent: HamsaVoiceAgent): jest.Mock =>
+  (agent.liveKitManager?.connection.room as any).localParticipant.publishData;
+
+// Helper to decode the JSON message of a publishData call
+const decodePublishedMessage = (publishData: jest.Mock, callIndex: number) =>
+  JSON.parse(
+    Buffer.from(publishData.mock.calls[callIndex][0]).toString('utf8')
+  );
+
 describe('User Activity and Contextual Updates', () => {
   let voiceAgent: HamsaVoiceAgent;
 
@@ -63,48 +75,131 @@ describe('User Activity and Contextual Updates', () => {
       expect(() => voiceAgent.sendUserActivity()).not.toThrow();
     });
 
-    test('should log user activity when connected', async () => {
+    test('should publish a user_activity data message when connected', async () => {
       await voiceAgent.start({ agentId: 'test-agent' });
 
-      voiceAgent.sendUserActivity();
+      voiceAgent.sendUserActivity('typing');
+
+      const publishData = getPublishDataMock(voiceAgent);
+      expect(publishData).toHaveBeenCalledTimes(1);
+      expect(publishData.mock.calls[0][1]).toEqual({ reliable: true });
+
+      const message = decodePublishedMessage(publishData, 0);
+      expect(message.event).toBe('user_activity');
+      expect(message.kind).toBe('typing');
+      expect(typeof message.timestamp).toBe('number');
 
       expectLoggerCalledWith(
         'User activity detected - preventing agent interruption'
       );
     });
 
-    test('should not log when not connected', () => {
+    test('should default the activity kind to other', async () => {
+      await voiceAgent.start({ agentId: 'test-agent' });
+
+      voiceAgent.sendUserActivity();
+
+      const publishData = getPublishDataMock(voiceAgent);
+      expect(decodePublishedMessage(publishData, 0).kind).toBe('other');
+    });
+
+    test('should emit userActivitySent after delivery', async () => {
+      await voiceAgent.start({ agentId: 'test-agent' });
+
+      const sent = new Promise((resolve) => {
+        voiceAgent.once('userActivitySent', resolve);
+      });
+      voiceAgent.sendUserActivity('form_focus');
+
+      await expect(sent).resolves.toBe('form_focus');
+    });
+
+    test('should throw INVALID_ARGUMENT for an unknown activity kind', async () => {
+      await voiceAgent.start({ agentId: 'test-agent' });
+
+      expect(() => voiceAgent.sendUserActivity('hovering' as any)).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+      expect(getPublishDataMock(voiceAgent)).not.toHaveBeenCalled();
+    });
+
+    test('should not log or publish when not connected', () => {
       voiceAgent.sendUserActivity();
 
       // Logger won't be called if not connected
       expect(consoleSpy).not.toHaveBeenCalled();
     });
 
-    test('should handle multiple rapid calls', async () => {
+    test('should throttle rapid calls of the same kind', async () => {
       await voiceAgent.start({ agentId: 'test-agent' });
 
-      // Call multiple times rapidly
       for (let i = 0; i < RAPID_CALLS_COUNT; i++) {
-        voiceAgent.sendUserActivity();
+        voiceAgent.sendUserActivity('typing');
       }
 
-      const callCount = countLoggerCalls(
-        'User activity detected - preventing agent interruption'
-      );
-      expect(callCount).toBe(RAPID_CALLS_COUNT);
-      expectLoggerCalledWith(
-        'User activity detected - preventing agent interruption'
-      );
+      expect(getPublishDataMock(voiceAgent)).toHaveBeenCalledTimes(1);
+      expect(
+        countLoggerCalls(
+          'User activity detected - preventing agent interruption'
+        )
+      ).toBe(1);
+    });
+
+    test('should throttle each activity kind independently', async () => {
+      await voiceAgent.start({ agentId: 'test-agent' });
+
+      voiceAgent.sendUserActivity('typing');
+      voiceAgent.sendUserActivity('scrolling');
+      voiceAgent.sendUserActivity('typing');
+      voiceAgent.sendUserActivity('scrolling');
+
+      const publishData = getPublishDataMock(voiceAgent);
+      expect(publishData).toHaveBeenCalledTimes(2);
+      expect(decodePublishedMessage(publishData, 0).kind).toBe('typing');
+      expect(decodePublishedMessage(publishData, 1).kind).toBe('scrolling');
+    });
+
+    test('should send again once the throttle window has elapsed', async () => {
+      await voiceAgent.start({ agentId: 'test-agent' });
+
+      const baseTime = Date.now();
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(baseTime);
+
+      voiceAgent.sendUserActivity('typing');
+      nowSpy.mockReturnValue(baseTime + THROTTLE_WINDOW_MS - 1);
+      voiceAgent.sendUserActivity('typing');
+      nowSpy.mockReturnValue(baseTime + THROTTLE_WINDOW_MS);
+      voiceAgent.sendUserActivity('typing');
+
+      nowSpy.mockRestore();
+
+      expect(getPublishDataMock(voiceAgent)).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not emit userActivitySent when delivery fails', async () => {
+      await voiceAgent.start({ agentId: 'test-agent' });
+
+      const publishData = getPublishDataMock(voiceAgent);
+      publishData.mockRejectedValueOnce(new Error('data channel closed'));
+
+      const listener = jest.fn();
+      voiceAgent.on('userActivitySent', listener);
+
+      expect(() => voiceAgent.sendUserActivity('click')).not.toThrow();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(listener).not.toHaveBeenCalled();
+
+      // A failed signal does not hold the throttle window
+      voiceAgent.sendUserActivity('click');
+      expect(publishData).toHaveBeenCalledTimes(2);
     });
 
     test('should work correctly after disconnection and reconnection', async () => {
       // Initial connection
       await voiceAgent.start({ agentId: 'test-agent' });
-      voiceAgent.sendUserActivity();
-      const initialCount = countLoggerCalls(
-        'User activity detected - preventing agent interruption'
-      );
-      expect(initialCount).toBe(1);
+      voiceAgent.sendUserActivity('typing');
+      expect(getPublishDataMock(voiceAgent)).toHaveBeenCalledTimes(1);
 
       // End and restart
       // Wait for async end to complete
@@ -115,88 +210,105 @@ describe('User Activity and Contextual Updates', () => {
       await endPromise;
       consoleSpy.mockClear();
 
-      voiceAgent.sendUserActivity();
+      voiceAgent.sendUserActivity('typing');
       expect(consoleSpy).not.toHaveBeenCalled(); // Should not log when disconnected
 
-      // Reconnect
+      // Reconnect - throttle state is reset for the new call
       await voiceAgent.start({ agentId: 'test-agent' });
-      voiceAgent.sendUserActivity();
-      expectLoggerCalledWith(
-        'User activity detected - preventing agent interruption'
-      );
+      voiceAgent.sendUserActivity('typing');
+      expect(getPublishDataMock(voiceAgent)).toHaveBeenCalledTimes(1);
     });
   });
 
   describe('sendContextualUpdate Method', () => {
-    test('should not throw when called before connection', () => {
-      expect(() =>
+    test('should reject when called before connection', async () => {
+      await expect(
         voiceAgent.sendContextualUpdate('test context')
-      ).not.toThrow();
+      ).rejects.toThrow(
+        'Cannot send contextual update: not connected to voice agent. Call start() first.'
+      );
     });
 
-    test('should log contextual update when connected', async () => {
+    test('should publish a contextual_update data message when connected', async () => {
       await voiceAgent.start({ agentId: 'test-agent' });
 
       const contextMessage = 'User navigated to checkout page';
-      voiceAgent.sendContextualUpdate(contextMessage);
+      await voiceAgent.sendContextualUpdate(contextMessage);
+
+      const publishData = getPublishDataMock(voiceAgent);
+      expect(publishData).toHaveBeenCalledTimes(1);
+      expect(publishData.mock.calls[0][1]).toEqual({ reliable: true });
 
-      expectLoggerCalledWith('Sending contextual update', contextMessage);
+      const message = decodePublishedMessage(publishData, 0);
+      expect(message.event).toBe('contextual_update');
+      expect(message.content).toBe(contextMessage);
+      expect(typeof message.timestamp).toBe('number');
+
+      expectLoggerCalledWith('Contextual update delivered', contextMessage);
     });
 
-    test('should not log when not connected', () => {
-      const contextMessage = 'User navigated to checkout page';
-      voiceAgent.sendContextualUpdate(contextMessage);
+    test('should emit contextualUpdateSent after delivery', async () => {
+      await voiceAgent.start({ agentId: 'test-agent' });
 
-      expect(consoleSpy).not.toHaveBeenCalled();
+      const listener = jest.fn();
+      voiceAgent.on('contextualUpdateSent', listener);
+
+      await voiceAgent.sendContextualUpdate('User selected premium plan');
+
+      expect(listener).toHaveBeenCalledWith('User selected premium plan');
     });
 
-    test('should handle different types of contextual messages', async () => {
+    test('should not emit contextualUpdateSent when delivery fails', async () => {
       await voiceAgent.start({ agentId: 'test-agent' });
 
-      const contexts = [
-        'User navigated to checkout page',
-        'Shopping cart total: $127.50',
-        'User selected premium plan',
-        'Page load time: 1.2s',
-        'User clicked help button',
-      ];
+      const publishData = getPublishDataMock(voiceAgent);
+      publishData.mockRejectedValueOnce(new Error('data channel closed'));
 
-      for (const context of contexts) {
-        voiceAgent.sendContextualUpdate(context);
-      }
+      const listener = jest.fn();
+      voiceAgent.on('contextualUpdateSent', listener);
 
-      const callCount = countLoggerCalls('Sending contextual update');
-      expect(callCount).toBe(contexts.length);
-      for (const context of contexts) {
-        expectLoggerCalledWith('Sending contextual update', context);
-      }
+      await expect(
+        voiceAgent.sendContextualUpdate('User clicked help button')
+      ).rejects.toThrow(
+        'Failed to send contextual update: data channel closed'
+      );
+      expect(listener).not.toHaveBeenCalled();
     });
 
-    test('should handle empty and special characters in context', async () => {
+    test('should preserve special characters in context', async () => {
       await voiceAgent.start({ agentId: 'test-agent' });
 
       const specialContexts = [
-        '',
         'Context with "quotes" and symbols: $, &, %',
         'Unicode context: 🛒 💰 ✅',
         'Multi-line\ncontext\nwith\nnewlines',
-        'Very long context that contains multiple pieces of information about the user state, navigation history, cart contents, preferences, and other relevant details that might influence the agent behavior',
       ];
 
       for (const context of specialContexts) {
-        expect(() => voiceAgent.sendContextualUpdate(context)).not.toThrow();
+        await voiceAgent.sendContextualUpdate(context);
       }
 
-      const callCount = countLoggerCalls('Sending contextual update');
-      expect(callCount).toBe(specialContexts.length);
+      const publishData = getPublishDataMock(voiceAgent);
+      expect(publishData).toHaveBeenCalledTimes(specialContexts.length);
+      specialContexts.forEach((context, index) => {
+        expect(decodePublishedMessage(publishData, index).content).toBe(
+          context
+        );
+      });
     });
 
-    test('should work correctly after disconnection and reconnection', async () => {
-      // Initial connection
+    test('should reject context exceeding the data message size limit', async () => {
+      await voiceAgent.start({ agentId: 'test-agent' });
+
+      await expect(
+        voiceAgent.sendContextualUpdate('x'.repeat(OVERSIZED_CONTEXT_LENGTH))
+      ).rejects.toThrow(SIZE_LIMIT_ERROR_REGEX);
+      expect(getPublishDataMock(voiceAgent)).not.toHaveBeenCalled();
+    });
+
+    test('should reject after disconnection and work after reconnection', async () => {
       await voiceAgent.start({ agentId: 'test-agent' });
-      voiceAgent.sendContextualUpdate('Initial context');
-      const initialCount = countLoggerCalls('Sending contextual update');
-      expect(initialCount).toBe(1);
+      await voiceAgent.sendContextualUpdate('Initial context');
 
       // End and restart - wait for async end to complete
       const endPromise = new Promise<void>((resolve) => {
@@ -204,16 +316,17 @@ describe('User Activity and Contextual Updates', () => {
       });
       voiceAgent.end();
       await endPromise;
-      consoleSpy.mockClear();
 
-      voiceAgent.sendContextualUpdate('Context while disconnected');
-      expect(consoleSpy).not.toHaveBeenCalled(); // Should not log when disconnected
+      await expect(
+        voiceAgent.sendContextualUpdate('Context while disconnected')
+      ).rejects.toThrow('not connected to voice agent');
 
       // Reconnect
       await voiceAgent.start({ agentId: 'test-agent' });
-      voiceAgent.sendContextualUpdate('Context after reconnection');
-      expectLoggerCalledWith(
-        'Sending contextual update',
+      await voiceAgent.sendContextualUpdate('Context after reconnection');
+
+      const publishData = getPublishDataMock(voiceAgent);
+      expect(decodePublishedMessage(publishData, 0).content).toBe(
         'Context after reconnection'
       );
     });
@@ -223,116 +336,72 @@ describe('User Activity and Contextual Updates', () => {
     test('should handle both user activity and contextual updates together', async () => {
       await voiceAgent.start({ agentId: 'test-agent' });
 
-      // Mix of user activity and contextual updates
-      voiceAgent.sendUserActivity();
-      voiceAgent.sendContextualUpdate('User clicked button');
-      voiceAgent.sendUserActivity();
-      voiceAgent.sendContextualUpdate('User scrolled to bottom');
-      voiceAgent.sendUserActivity();
-
-      const activityCount = countLoggerCalls(
-        'User activity detected - preventing agent interruption'
-      );
-      const contextCount = countLoggerCalls('Sending contextual update');
-      expect(activityCount + contextCount).toBe(EXPECTED_INTEGRATION_CALLS);
-
-      expectLoggerCalledWith(
-        'User activity detected - preventing agent interruption'
-      );
-      expectLoggerCalledWith(
-        'Sending contextual update',
-        'User clicked button'
-      );
-      expectLoggerCalledWith(
-        'Sending contextual update',
-        'User scrolled to bottom'
-      );
-    });
-
-    test('should maintain state correctly across multiple operations', async () => {
-      await voiceAgent.start({ agentId: 'test-agent' });
-
-      // Simulate a typical user interaction flow
-      voiceAgent.sendUserActivity(); // User starts typing
-      await new Promise((resolve) => setTimeout(resolve, 10)); // Small delay
-
-      voiceAgent.sendContextualUpdate('User is typing in search field');
-      await new Promise((resolve) => setTimeout(resolve, 10));
-
-      voiceAgent.sendUserActivity(); // User continues typing
-      voiceAgent.sendContextualUpdate('Search suggestions appeared');
-      voiceAgent.sendUserActivity(); // User selects suggestion
-      voiceAgent.sendContextualUpdate('User selected "premium plan"');
+      voiceAgent.sendUserActivity('click');
+      await voiceAgent.sendContextualUpdate('User clicked button');
+      voiceAgent.sendUserActivity('scrolling');
+      await voiceAgent.sendContextualUpdate('User scrolled to bottom');
+      voiceAgent.sendUserActivity('typing');
 
-      const activityCount = countLoggerCalls(
-        'User activity detected - preventing agent interruption'
+      const messages = getPublishDataMock(voiceAgent).mock.calls.map(
+        (_call, index) =>
+          decodePublishedMessage(getPublishDataMock(voiceAgent), index)
       );
-      const contextCount = countLoggerCalls('Sending contextual update');
-      expect(activityCount + contextCount).toBe(EXPECTED_MAINTAIN_STATE_CALLS);
-
-      // Verify the methods don't interfere with each other
-      expect(() => {
-        voiceAgent.sendUserActivity();
-        voiceAgent.sendContextualUpdate('Final update');
-      }).not.toThrow();
+      expect(
+        messages.filter((message) => message.event === 'user_activity')
+      ).toHaveLength(EXPECTED_ACTIVITY_CALLS);
+      expect(
+        messages.filter((message) => message.event === 'contextual_update')
+      ).toHaveLength(EXPECTED_CONTEXT_CALLS);
     });
 
-    test('should handle rapid successive calls without issues', async () => {
+    test('should handle rapid successive contextual updates', async () => {
       await voiceAgent.start({ agentId: 'test-agent' });
 
-      // Rapid fire both types of calls
-      for (let i = 0; i < RAPID_MIXED_CALLS; i++) {
-        if (i % 2 === 0) {
-          voiceAgent.sendUserActivity();
-        } else {
-          voiceAgent.sendContextualUpdate(`Context update ${i}`);
-        }
+      const updates: Promise<void>[] = [];
+      for (let i = 0; i < RAPID_CALLS_COUNT; i++) {
+        updates.push(voiceAgent.sendContextualUpdate(`Context update ${i}`));
       }
+      await Promise.all(updates);
 
-      const activityCount = countLoggerCalls(
-        'User activity detected - preventing agent interruption'
-      );
-      const contextCount = countLoggerCalls('Sending contextual update');
-      expect(activityCount + contextCount).toBe(RAPID_MIXED_CALLS);
-
-      // Verify no errors occurred
-      expectLoggerCalledWith(
-        'User activity detected - preventing agent interruption'
-      );
-      expectLoggerCalledWith('Sending contextual update', 'Context update 19');
+      const publishData = getPublishDataMock(voiceAgent);
+      expect(publishData).toHaveBeenCalledTimes(RAPID_CALLS_COUNT);
+      expect(
+        decodePublishedMessage(publishData, RAPID_CALLS_COUNT - 1).content
+      ).toBe(`Context update ${RAPID_CALLS_COUNT - 1}`);
     });
   });
 
   describe('Edge Cases and Error Handling', () => {
-    test('should handle null/undefined context gracefully', async () => {
+    test('should reject empty, null or non-string context', async () => {
       await voiceAgent.start({ agentId: 'test-agent' });
 
-      expect(() => voiceAgent.sendContextualUpdate(null as any)).not.toThrow();
-      expect(() =>
-        voiceAgent.sendContextualUpdate(undefined as any)
-      ).not.toThrow();
-    });
-
-    test('should handle non-string context values', async () => {
-      await voiceAgent.start({ agentId: 'test-agent' });
+      const invalidContexts = [
+        '',
+        '   ',
+        null,
+        undefined,
+        NON_STRING_NUMBER,
+        { key: 'value' },
+      ];
 
-      expect(() =>
-        voiceAgent.sendContextualUpdate(NON_STRING_NUMBER as any)
-      ).not.toThrow();
-      expect(() =>
-        voiceAgent.sendContextualUpdate({ key: 'value' } as any)
-      ).not.toThrow();
-      expect(() =>
-        voiceAgent.sendContextualUpdate(['array', 'context'] as any)
-      ).not.toThrow();
+      for (const context of invalidContexts) {
+        await expect(
+          voiceAgent.sendContextualUpdate(context as any)
+        ).rejects.toThrow(
+          'Invalid contextual update: context must be a non-empty string.'
+        );
+      }
+      expect(getPublishDataMock(voiceAgent)).not.toHaveBeenCalled();
     });
 
-    test('should handle methods when liveKitManager is null', () => {
+    test('should handle methods when liveKitManager is null', async () => {
       // Test before any connection is established
       const newAgent = new HamsaVoiceAgent('test-key', { debug: true });
 
       expect(() => newAgent.sendUserActivity()).not.toThrow();
-      expect(() => newAgent.sendContextualUpdate('test')).not.toThrow();
+      await expect(newAgent.sendContextualUpdate('test')).rejects.toThrow(
+        'not connected to voice agent'
+      );
 
       // Should not log anything (because not connected, not because debug is off)
       expect(consoleSpy).not.toHaveBeenCalled();
@@ -343,10 +412,7 @@ describe('User Activity and Contextual Updates', () => {
 
       // Should work when connected
       voiceAgent.sendUserActivity();
-      const activityCount = countLoggerCalls(
-        'User activity detected - preventing agent interruption'
-      );
-      expect(activityCount).toBe(1);
+      expect(getPublishDataMock(voiceAgent)).toHaveBeenCalledTimes(1);
 
       // Simulate connection loss
       if (voiceAgent.liveKitManager) {
@@ -355,7 +421,9 @@ describe('User Activity and Contextual Updates', () => {
 
       consoleSpy.mockClear();
       voiceAgent.sendUserActivity();
-      voiceAgent.sendContextualUpdate('test context');
+      await expect(
+        voiceAgent.sendContextualUpdate('test context')
+      ).rejects.toThrow('not connected to voice agent');
 
       // Should not log when not connected
       expect(consoleSpy).not.toHaveBeenCalled();
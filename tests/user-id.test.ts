@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { Room } from 'livekit-client';
+import HamsaVoiceAgent from '../src/main';
+import {
+  createJobDetailsResponse,
+  extractFetchRequestBody,
+  mockSuccessfulConversationInit,
+} from './utils/fetch-mocks';
+import { createMockRoom, type MockRoom } from './utils/livekit-mocks';
+import { MOCK_CONFIG } from './utils/test-constants';
+import {
+  applyWakeLockMocks,
+  createWakeLockMocks,
+} from './utils/wake-lock-mocks';
+
+const USER_ID = 'user-12345';
+
+describe('HamsaVoiceAgent userId', () => {
+  let agent: HamsaVoiceAgent;
+  let room: MockRoom;
+  let setAttributes: jest.Mock<() => Promise<void>>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSuccessfulConversationInit();
+    agent = new HamsaVoiceAgent(MOCK_CONFIG.API_KEY, {
+      API_URL: MOCK_CONFIG.API_URL,
+    });
+    applyWakeLockMocks(agent, createWakeLockMocks());
+    room = createMockRoom();
+    setAttributes = jest.fn(() => Promise.resolve());
+    Object.assign(room.localParticipant, { setAttributes });
+    (Room as unknown as jest.Mock).mockImplementation(() => room);
+  });
+
+  test('should send the userId in the session requests', async () => {
+    await agent.start({ agentId: 'test-agent', userId: USER_ID });
+
+    expect(extractFetchRequestBody(0)).toEqual(
+      expect.objectContaining({ voiceAgentId: 'test-agent', userId: USER_ID })
+    );
+    expect(extractFetchRequestBody(1)).toEqual(
+      expect.objectContaining({ jobId: 'mock-job-id', userId: USER_ID })
+    );
+  });
+
+  test('should not send a userId when none is given', async () => {
+    await agent.start({ agentId: 'test-agent' });
+
+    expect(extractFetchRequestBody(0)).not.toHaveProperty('userId');
+    expect(extractFetchRequestBody(1)).not.toHaveProperty('userId');
+    expect(setAttributes).not.toHaveBeenCalled();
+  });
+
+  test('should set the userId as a participant attribute', async () => {
+    await agent.start({ agentId: 'test-agent', userId: USER_ID });
+
+    expect(setAttributes).toHaveBeenCalledWith({ userId: USER_ID });
+  });
+
+  test('should keep the call going when the attribute cannot be set', async () => {
+    setAttributes.mockRejectedValue(new Error('permission denied'));
+    const errorSpy = jest.fn();
+    agent.on('error', errorSpy);
+
+    await agent.start({ agentId: 'test-agent', userId: USER_ID });
+    await Promise.resolve();
+
+    expect(agent.getCallState()).toBe('waiting-for-agent');
+    expect(errorSpy).not.toHaveBeenCalled();
+  });
+
+  test('should attach the userId to analytics snapshots', async () => {
+    await agent.start({ agentId: 'test-agent', userId: USER_ID });
+    const analyticsSpy = jest.fn();
+    agent.on('analyticsUpdated', analyticsSpy);
+
+    agent.liveKitManager?.emit('analyticsUpdated', {
+      connectionQuality: 'good',
+    } as any);
+
+    expect(agent.getCallAnalytics()?.metadata.userId).toBe(USER_ID);
+    expect(analyticsSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: USER_ID })
+    );
+  });
+
+  test('should attach the userId to job details', async () => {
+    await agent.start({ agentId: 'test-agent', userId: USER_ID });
+    (fetch as jest.Mock).mockResolvedValueOnce(
+      createJobDetailsResponse({ status: 'COMPLETED', transcript: 'Hi' })
+    );
+
+    const jobDetails = await agent.getJobDetails();
+
+    expect(jobDetails).toEqual({
+      status: 'COMPLETED',
+      transcript: 'Hi',
+      userId: USER_ID,
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { Room } from 'livekit-client';
+import { LiveKitAudioManager } from '../src/classes/livekit-audio-manager';
+import HamsaVoiceAgent from '../src/main';
+import { mockSuccessfulConversationInit } from './utils/fetch-mocks';
+import { createMockRoom } from './utils/livekit-mocks';
+import { MOCK_CONFIG } from './utils/test-constants';
+import {
+  applyWakeLockMocks,
+  createWakeLockMocks,
+} from './utils/wake-lock-mocks';
+
+const HANGOVER_MS = 500;
+const SPEECH_TIMESTAMP = 1_700_000_000_000;
+const INVALID_THRESHOLD = 0;
+
+describe('HamsaVoiceAgent voice activity detection', () => {
+  let agent: HamsaVoiceAgent;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSuccessfulConversationInit();
+    agent = new HamsaVoiceAgent(MOCK_CONFIG.API_KEY, {
+      API_URL: MOCK_CONFIG.API_URL,
+    });
+    applyWakeLockMocks(agent, createWakeLockMocks());
+    const room = createMockRoom();
+    (Room as unknown as jest.Mock).mockImplementation(() => room);
+  });
+
+  test('should enable detection on the audio manager once connected', async () => {
+    const enableVoiceActivityDetection = jest.spyOn(
+      LiveKitAudioManager.prototype,
+      'enableVoiceActivityDetection'
+    );
+
+    await agent.start({
+      agentId: 'test-agent',
+      voiceActivity: { hangoverMs: HANGOVER_MS, gateTransmission: true },
+    });
+
+    expect(enableVoiceActivityDetection).toHaveBeenCalledWith({
+      threshold: undefined,
+      minSpeechMs: undefined,
+      hangoverMs: HANGOVER_MS,
+      gateTransmission: true,
+    });
+    enableVoiceActivityDetection.mockRestore();
+  });
+
+  test('should forward the speech events', async () => {
+    const startedSpy = jest.fn();
+    agent.on('userSpeechStarted', startedSpy);
+    await agent.start({ agentId: 'test-agent' });
+
+    agent.liveKitManager?.audioManager.emit('userSpeechStarted', {
+      timestamp: SPEECH_TIMESTAMP,
+    });
+
+    expect(startedSpy).toHaveBeenCalledWith({ timestamp: SPEECH_TIMESTAMP });
+  });
+
+  test('should fail the start with INVALID_ARGUMENT for an invalid threshold', async () => {
+    const errorSpy = jest.fn();
+    agent.on('error', errorSpy);
+
+    await agent.start({
+      agentId: 'test-agent',
+      voiceActivity: { threshold: INVALID_THRESHOLD },
+    });
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+    );
+  });
+
+  test('should reject enableVoiceActivityDetection() without a call', () => {
+    expect(() => agent.enableVoiceActivityDetection()).toThrow(
+      expect.objectContaining({ code: 'NOT_CONNECTED' })
+    );
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * AudioProcessorChain - Runs several audio processors on the microphone
+ *
+ * LiveKit accepts a single TrackProcessor per track. This processor feeds the
+ * microphone through each processor in turn: the processedTrack of one
+ * processor is the input track of the next, and the processedTrack of the last
+ * one is what gets sent to the agent. A processor without a processedTrack
+ * passes its input through unchanged.
+ *
+ * Setting a new chain on a published track swaps the audio sent by the
+ * existing sender, so processors can be changed mid-call without
+ * republishing the microphone.
+ *
+ * @example
+ * ```typescript
+ * const chain = new AudioProcessorChain([highPassFilter, noiseCanceller]);
+ * await microphoneTrack.setProcessor(chain);
+ * ```
+ */
+import type { AudioProcessorOptions, Room } from 'livekit-client';
+import type { AudioTrackProcessor } from './types';
+export declare class AudioProcessorChain implements AudioTrackProcessor {
+    #private;
+    /** Names of the chained processors, in order */
+    readonly name: string;
+    /** Output of the last processor, sent in place of the microphone track */
+    processedTrack?: MediaStreamTrack;
+    /** Processors, in the order the audio goes through them */
+    private readonly processors;
+    constructor(processors: AudioTrackProcessor[]);
+    /**
+     * Initializes every processor on the output of the previous one. When a
+     * processor fails, the ones already initialized are destroyed, since LiveKit
+     * only destroys processors it managed to set up.
+     */
+    init(options: AudioProcessorOptions): Promise<void>;
+    /**
+     * Restarts every processor on a new microphone track, e.g. after the
+     * constraints or the device of the microphone changed.
+     */
+    restart(options: AudioProcessorOptions): Promise<void>;
+    destroy(): Promise<void>;
+    onPublish(room: Room): Promise<void>;
+    onUnpublish(): Promise<void>;
+}
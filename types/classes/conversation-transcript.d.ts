@@ -0,0 +1,113 @@
+/**
+ * ConversationTranscript - Ordered record of what was said during a call
+ *
+ * The agent reports speech in two ways: LiveKit transcription segments, which
+ * are updated in place until they are final, and 'answer'/'transcription'
+ * data messages, which carry finished text. Both feed the transcript, and a
+ * sentence that arrives both ways is kept once. Consecutive speech of the
+ * same speaker forms one turn until endTurn() is called or another turn
+ * starts; tool calls and call events get turns of their own. Times are
+ * measured from the start of the call, using the times LiveKit received each
+ * segment at.
+ *
+ * @example
+ * ```typescript
+ * const transcript = new ConversationTranscript();
+ * transcript.on('changed', (turns) => renderTranscript(turns));
+ *
+ * transcript.reset('user-123');
+ * transcript.markCallStarted();
+ * transcript.addMessage('agent', 'Hello! How can I help you?');
+ * ```
+ */
+import { EventEmitter } from 'events';
+import type { TranscriptionSegmentData, TranscriptToolCall, TranscriptTurn } from './types';
+/**
+ * Events emitted by ConversationTranscript, keyed by event name
+ */
+export type ConversationTranscriptEvents = {
+    /** Emitted with all turns whenever a turn is added or updated, or on reset */
+    changed: (turns: TranscriptTurn[]) => void;
+    /** Emitted when a turn is added or its text changes, until it is completed */
+    turnUpdated: (turn: TranscriptTurn, previousText: string) => void;
+    /** Emitted once when a turn has ended and all of its text is final */
+    turnCompleted: (turn: TranscriptTurn) => void;
+};
+export declare class ConversationTranscript extends EventEmitter {
+    #private;
+    /** Turns in order, with the parts of spoken turns */
+    private entries;
+    /** When the call started, in epoch milliseconds */
+    private startedAt;
+    /** userId attached to user turns */
+    private userId;
+    /** Counter for turn ids and generated part ids */
+    private nextId;
+    /**
+     * Empties the transcript for a new call.
+     * @param userId - userId to attach to user turns
+     */
+    reset(userId?: string | null): void;
+    /**
+     * Sets the moment turn times are measured from.
+     */
+    markCallStarted(at?: number): void;
+    /**
+     * Returns a copy of the turns, in order.
+     */
+    getTurns(): TranscriptTurn[];
+    /**
+     * Ends the current turn of a speaker, so that what they say next starts a
+     * new turn. The turn is completed once all of its text is final.
+     */
+    endTurn(role: 'user' | 'agent'): void;
+    /**
+     * Records a LiveKit transcription segment, or an update of one. An update
+     * replaces the text of its segment; the data message the segment is
+     * transcribing, the first one of the current turn not matched yet, is taken
+     * over by the segment instead of being kept twice. Blank segments are
+     * ignored until they have text.
+     */
+    applySegment(segment: TranscriptionSegmentData): void;
+    /**
+     * Records the finished text of an 'answer' or 'transcription' data
+     * message. It is dropped when the current turn of the speaker already
+     * holds the same sentence, and completes a segment still being
+     * transcribed. Said again in a later turn, it is kept.
+     */
+    addMessage(role: 'user' | 'agent', text: string): void;
+    /**
+     * Records a message the user typed as a turn of its own. Unlike
+     * addMessage(), it is kept even when it repeats the previous message.
+     */
+    addTypedMessage(text: string): void;
+    /**
+     * Records a client-side tool call once it has returned or thrown.
+     */
+    addToolCall(call: TranscriptToolCall): void;
+    /**
+     * Records a call event, e.g. the user interrupting the agent.
+     */
+    addSystemEvent(text: string): void;
+}
+/**
+ * Declaration merging: adds type-safe event methods to ConversationTranscript
+ */
+export interface ConversationTranscript {
+    /**
+     * Registers an event listener with type-safe event names and handlers
+     */
+    on<K extends keyof ConversationTranscriptEvents>(event: K, listener: ConversationTranscriptEvents[K]): this;
+    /**
+     * Removes an event listener with type-safe event names and handlers
+     */
+    off<K extends keyof ConversationTranscriptEvents>(event: K, listener: ConversationTranscriptEvents[K]): this;
+    /**
+     * Registers a one-time event listener with type-safe event names and handlers
+     */
+    once<K extends keyof ConversationTranscriptEvents>(event: K, listener: ConversationTranscriptEvents[K]): this;
+    /**
+     * Emits an event with type-safe event names and arguments
+     */
+    emit<K extends keyof ConversationTranscriptEvents>(event: K, ...args: Parameters<ConversationTranscriptEvents[K]>): boolean;
+}
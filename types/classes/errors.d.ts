@@ -0,0 +1,254 @@
+/**
+ * Error types shared by the browser SDK and the server-side session helpers
+ *
+ * Every error raised by the SDK is a HamsaError carrying a stable `code`, the
+ * `category` it belongs to, whether retrying the operation may succeed, and the
+ * original `cause`. Applications should branch on `code` rather than on
+ * `message`, which is meant for humans and may change between releases.
+ *
+ * Kept free of any browser or LiveKit dependency so they can be imported from
+ * Node backends through the `@hamsa-ai/voice-agents-sdk/server` entry point.
+ */
+/** Broad area an error originates from */
+export type HamsaErrorCategory = 'auth' | 'api' | 'network' | 'media' | 'tool' | 'session' | 'validation';
+/**
+ * Stable error codes with their category and default retry hint.
+ * Codes are part of the public API: add new ones, never rename existing ones.
+ */
+declare const ERROR_CODES: {
+    /** The API key was rejected by the Hamsa API */
+    readonly AUTH_INVALID_KEY: {
+        readonly category: "auth";
+        readonly retryable: false;
+    };
+    /** No API key, token provider or session was supplied */
+    readonly AUTH_MISSING_KEY: {
+        readonly category: "auth";
+        readonly retryable: false;
+    };
+    /** A server-issued session or token is missing or malformed */
+    readonly AUTH_INVALID_TOKEN: {
+        readonly category: "auth";
+        readonly retryable: false;
+    };
+    /** The requested voice agent does not exist */
+    readonly AGENT_NOT_FOUND: {
+        readonly category: "api";
+        readonly retryable: false;
+    };
+    /** The requested conversation job does not exist */
+    readonly JOB_NOT_FOUND: {
+        readonly category: "api";
+        readonly retryable: false;
+    };
+    /** The Hamsa API rejected or failed a request */
+    readonly API_REQUEST_FAILED: {
+        readonly category: "api";
+        readonly retryable: false;
+    };
+    /** The conversation has not completed yet */
+    readonly JOB_NOT_COMPLETED: {
+        readonly category: "api";
+        readonly retryable: true;
+    };
+    /** The Hamsa API could not be reached */
+    readonly NETWORK_UNREACHABLE: {
+        readonly category: "network";
+        readonly retryable: true;
+    };
+    /** Connecting to the LiveKit room failed */
+    readonly CONNECTION_FAILED: {
+        readonly category: "network";
+        readonly retryable: true;
+    };
+    /** Disconnecting from the LiveKit room failed */
+    readonly DISCONNECT_FAILED: {
+        readonly category: "network";
+        readonly retryable: false;
+    };
+    /** A data message could not be delivered to the agent */
+    readonly DATA_SEND_FAILED: {
+        readonly category: "network";
+        readonly retryable: true;
+    };
+    /** The user or browser denied microphone access */
+    readonly MIC_PERMISSION_DENIED: {
+        readonly category: "media";
+        readonly retryable: false;
+    };
+    /** No usable microphone is available */
+    readonly MIC_NOT_FOUND: {
+        readonly category: "media";
+        readonly retryable: false;
+    };
+    /** The microphone or another media device failed */
+    readonly MEDIA_DEVICE_ERROR: {
+        readonly category: "media";
+        readonly retryable: true;
+    };
+    /** Muting, unmuting or changing the volume failed */
+    readonly AUDIO_CONTROL_FAILED: {
+        readonly category: "media";
+        readonly retryable: true;
+    };
+    /** The browser lacks the APIs needed for audio capture */
+    readonly AUDIO_CAPTURE_UNSUPPORTED: {
+        readonly category: "media";
+        readonly retryable: false;
+    };
+    /** Audio capture could not be set up */
+    readonly AUDIO_CAPTURE_FAILED: {
+        readonly category: "media";
+        readonly retryable: false;
+    };
+    /** An audio processor could not be applied to the microphone */
+    readonly AUDIO_PROCESSOR_FAILED: {
+        readonly category: "media";
+        readonly retryable: false;
+    };
+    /** A client-side tool threw while the agent invoked it */
+    readonly RPC_TOOL_FAILED: {
+        readonly category: "tool";
+        readonly retryable: false;
+    };
+    /** The operation requires an active call */
+    readonly NOT_CONNECTED: {
+        readonly category: "session";
+        readonly retryable: false;
+    };
+    /** start() failed for a reason not covered by a more specific code */
+    readonly CALL_START_FAILED: {
+        readonly category: "session";
+        readonly retryable: true;
+    };
+    /** The agent did not join the call in time */
+    readonly AGENT_UNAVAILABLE: {
+        readonly category: "session";
+        readonly retryable: true;
+    };
+    /** end() failed */
+    readonly CALL_END_FAILED: {
+        readonly category: "session";
+        readonly retryable: false;
+    };
+    /** Pausing or resuming the call failed */
+    readonly CALL_CONTROL_FAILED: {
+        readonly category: "session";
+        readonly retryable: true;
+    };
+    /** The operation is not allowed in the current call state */
+    readonly INVALID_CALL_STATE: {
+        readonly category: "session";
+        readonly retryable: false;
+    };
+    /** An argument passed to the SDK is invalid */
+    readonly INVALID_ARGUMENT: {
+        readonly category: "validation";
+        readonly retryable: false;
+    };
+    /** A data message exceeds the transport size limit */
+    readonly MESSAGE_TOO_LARGE: {
+        readonly category: "validation";
+        readonly retryable: false;
+    };
+};
+/** Stable, machine-readable error code */
+export type HamsaErrorCode = keyof typeof ERROR_CODES;
+/** Options accepted by HamsaError constructors */
+export type HamsaErrorOptions = {
+    /** Original error that caused this one */
+    cause?: unknown;
+    /** Overrides the default retry hint of the error code */
+    retryable?: boolean;
+};
+/**
+ * Base class of every error raised by the SDK
+ *
+ * @example
+ * ```typescript
+ * agent.on('error', (error) => {
+ *   switch (error.code) {
+ *     case 'MIC_PERMISSION_DENIED':
+ *       showMicrophoneHelp();
+ *       break;
+ *     case 'AUTH_INVALID_KEY':
+ *       showConfigurationError();
+ *       break;
+ *     default:
+ *       if (error.retryable) showRetryButton();
+ *   }
+ * });
+ * ```
+ */
+export declare class HamsaError extends Error {
+    /** Stable, machine-readable error code */
+    readonly code: HamsaErrorCode;
+    /** Broad area the error originates from */
+    readonly category: HamsaErrorCategory;
+    /** Whether retrying the failed operation may succeed */
+    readonly retryable: boolean;
+    /** Original error that caused this one */
+    readonly cause?: unknown;
+    constructor(code: HamsaErrorCode, message: string, options?: HamsaErrorOptions);
+    /**
+     * Normalizes an unknown thrown value into a HamsaError
+     *
+     * HamsaErrors are returned unchanged unless a new message is given, in which
+     * case they are wrapped and keep their code and retry hint. Anything else is
+     * wrapped with the fallback code.
+     *
+     * @param error - Thrown value to normalize
+     * @param fallbackCode - Code used when the value is not a HamsaError
+     * @param message - Optional message replacing the original one
+     */
+    static from(error: unknown, fallbackCode: HamsaErrorCode, message?: string): HamsaError;
+}
+/**
+ * Error returned by the Hamsa REST API
+ *
+ * Includes both a human-readable message and the machine-readable messageKey
+ * sent by the backend for internationalization.
+ */
+export declare class HamsaApiError extends HamsaError {
+    /** Machine-readable error key for i18n or programmatic handling */
+    readonly messageKey?: string;
+    /** HTTP status of the failed response, when one was received */
+    readonly status?: number;
+    constructor(message: string, messageKey?: string, options?: HamsaErrorOptions & {
+        code?: HamsaErrorCode;
+        status?: number;
+        /** Code of a 404 response, naming the resource the endpoint serves */
+        notFoundCode?: HamsaErrorCode;
+    });
+}
+/**
+ * Error raised by the network transport: the Hamsa API or the LiveKit room
+ */
+export declare class HamsaConnectionError extends HamsaError {
+    constructor(code: HamsaErrorCode, message: string, options?: HamsaErrorOptions);
+}
+/**
+ * Error raised by the microphone, audio playback or audio capture
+ */
+export declare class HamsaMediaError extends HamsaError {
+    constructor(code: HamsaErrorCode, message: string, options?: HamsaErrorOptions);
+}
+/**
+ * Error raised when a client-side tool fails while the agent invokes it
+ */
+export declare class HamsaToolError extends HamsaError {
+    /** Name of the tool that failed */
+    readonly functionName: string;
+    constructor(functionName: string, options?: HamsaErrorOptions);
+}
+/**
+ * Extracts a readable message from an unknown thrown value
+ */
+export declare function getErrorMessage(error: unknown): string;
+/**
+ * Maps a browser media (getUserMedia) failure to an error code
+ *
+ * @returns The matching media code, or null when the error is not a media failure
+ */
+export declare function getMediaErrorCode(error: unknown): HamsaErrorCode | null;
+export {};
@@ -137,7 +137,48 @@
  */
 import { EventEmitter } from 'events';
 import { ConnectionQuality, type Participant, type Room } from 'livekit-client';
-import type { AudioLevelsResult, AudioMetrics, CallAnalyticsResult, CallStats, ConnectionMetrics, ConnectionStatsResult, ParticipantData, PerformanceMetrics, PerformanceMetricsResult, TrackStatsResult } from './types';
+import type { AnalyticsUpdateData, AudioLevelsResult, AudioMetrics, CallAnalyticsResult, CallStats, ConnectionMetrics, ConnectionQualityData, ConnectionStatsResult, ParticipantData, PerformanceMetrics, PerformanceMetricsResult, TrackStatsResult } from './types';
+/**
+ * Events emitted by LiveKitAnalytics, keyed by event name
+ */
+export type LiveKitAnalyticsEvents = {
+    /** Emitted when a participant's connection quality changes */
+    connectionQualityChanged: (data: ConnectionQualityData) => void;
+    /** Emitted when audio playback is allowed or blocked */
+    audioPlaybackChanged: (playing: boolean) => void;
+    /** Emitted when an agent response time is measured */
+    responseTimeRecorded: (data: {
+        responseTime: number;
+        timestamp: number;
+    }) => void;
+    /** Emitted on every analytics collection tick */
+    analyticsUpdated: (data: AnalyticsUpdateData) => void;
+    /** Emitted when a participant speaks above the activity threshold */
+    voiceActivityDetected: (data: {
+        participant: string;
+        duration: number;
+        audioLevel: number;
+        timestamp: number;
+    }) => void;
+    /** Emitted when a participant's audio drops out */
+    audioDropoutDetected: (data: {
+        participant: string;
+        duration: number;
+        timestamp: number;
+    }) => void;
+    /** Emitted when the estimated jitter changes with connection quality */
+    jitterChanged: (data: {
+        jitter: number;
+        quality: string;
+        previousQuality: string;
+        timestamp: number;
+    }) => void;
+    /** Emitted when echo cancellation is enabled or disabled */
+    echoCancellationChanged: (data: {
+        active: boolean;
+        timestamp: number;
+    }) => void;
+};
 /**
  * LiveKitAnalytics class extending EventEmitter for real-time analytics
  *
@@ -428,3 +469,24 @@ export declare class LiveKitAnalytics extends EventEmitter {
      */
     cleanup(): void;
 }
+/**
+ * Declaration merging: adds type-safe event methods to LiveKitAnalytics
+ */
+export interface LiveKitAnalytics {
+    /**
+     * Registers an event listener with type-safe event names and handlers
+     */
+    on<K extends keyof LiveKitAnalyticsEvents>(event: K, listener: LiveKitAnalyticsEvents[K]): this;
+    /**
+     * Removes an event listener with type-safe event names and handlers
+     */
+    off<K extends keyof LiveKitAnalyticsEvents>(event: K, listener: LiveKitAnalyticsEvents[K]): this;
+    /**
+     * Registers a one-time event listener with type-safe event names and handlers
+     */
+    once<K extends keyof LiveKitAnalyticsEvents>(event: K, listener: LiveKitAnalyticsEvents[K]): this;
+    /**
+     * Emits an event with type-safe event names and arguments
+     */
+    emit<K extends keyof LiveKitAnalyticsEvents>(event: K, ...args: Parameters<LiveKitAnalyticsEvents[K]>): boolean;
+}
@@ -155,7 +155,43 @@
  */
 import { EventEmitter } from 'events';
 import { type LocalTrack, type LocalTrackPublication, type Participant, type RemoteParticipant, type RemoteTrack, type RemoteTrackPublication, type Room, Track, type TrackPublication } from 'livekit-client';
-import type { AudioCaptureOptions, TrackStatsData, TrackStatsResult } from './types';
+import { HamsaMediaError } from './errors';
+import type { AgentInterruptedData, AgentState, AudioCaptureOptions, AudioTrackProcessor, HalfDuplexOptions, PushToTalkOptions, PushToTalkState, TrackStatsData, TrackStatsResult, TrackSubscriptionData, TrackUnsubscriptionData, UserSpeechEndedData, UserSpeechStartedData, VoiceActivityOptions } from './types';
+/**
+ * Events emitted by LiveKitAudioManager, keyed by event name
+ */
+export type LiveKitAudioManagerEvents = {
+    /** Emitted when the output volume changes */
+    volumeChanged: (volume: number) => void;
+    /** Emitted when an audio operation fails */
+    error: (error: HamsaMediaError) => void;
+    /** Emitted when the microphone is muted */
+    micMuted: () => void;
+    /** Emitted when the microphone is unmuted */
+    micUnmuted: () => void;
+    /** Emitted when a remote track is subscribed */
+    trackSubscribed: (data: TrackSubscriptionData) => void;
+    /** Emitted when a remote track is unsubscribed */
+    trackUnsubscribed: (data: TrackUnsubscriptionData) => void;
+    /** Emitted when the agent starts speaking */
+    speaking: () => void;
+    /** Emitted when the agent stops speaking and listens */
+    listening: () => void;
+    /** Emitted when the microphone device disappears (e.g. a headset is unplugged) */
+    microphoneLost: () => void;
+    /** Emitted when the microphone has been replaced by the default input */
+    microphoneRecovered: (deviceId: string | undefined) => void;
+    /** Emitted when the push-to-talk state changes */
+    pttStateChanged: (state: PushToTalkState) => void;
+    /** Emitted when the microphone closes after a push-to-talk turn */
+    pttTurnEnded: () => void;
+    /** Emitted when half-duplex cuts or reopens the microphone */
+    micGateChanged: (gated: boolean) => void;
+    /** Emitted when voice activity detection hears the user start speaking */
+    userSpeechStarted: (data: UserSpeechStartedData) => void;
+    /** Emitted when voice activity detection hears the user stop speaking */
+    userSpeechEnded: (data: UserSpeechEndedData) => void;
+};
 /**
  * LiveKitAudioManager class for comprehensive audio stream management
  *
@@ -186,9 +222,49 @@ export declare class LiveKitAudioManager extends EventEmitter {
     private readonly clonedTracks;
     /** Map of track IDs to their capture state */
     private readonly trackCaptureMap;
+    /** Published microphone track, watched for its device disappearing */
+    private microphoneTrack;
+    /** Whether a lost microphone is waiting for LiveKit to replace it */
+    private recoveringMicrophone;
+    /** Processors the microphone goes through before reaching the agent, in order */
+    private audioProcessors;
+    /** Push-to-talk settings, null while the microphone is open */
+    private pushToTalk;
+    private pttState;
+    /** When the current push-to-talk press started */
+    private pttPressedAt;
+    /** Timer closing the microphone at the end of the release tail */
+    private pttReleaseTimer;
+    /** When the agent started its current answer, null while it is not speaking */
+    private agentSpeakingSince;
+    /** Whether agent playback is silenced after an interruption */
+    private playbackInterrupted;
+    private interruptFadeTimer;
+    /** Timer restoring playback if the agent never reports it stopped */
+    private interruptRestoreTimer;
+    /** Half-duplex settings, null while the microphone is full-duplex */
+    private halfDuplex;
+    /** Whether half-duplex currently cuts the microphone */
+    private micGated;
+    /** Whether the user talked over the current answer */
+    private bargedIn;
+    /** Timer reopening the microphone at the end of the hangover */
+    private gateReopenTimer;
+    /** Level meter on a copy of the cut microphone, listening for barge-in */
+    private bargeInMonitor;
+    /** Voice activity detection settings, null while detection is off */
+    private voiceActivity;
+    /** Worklet detecting speech on a copy of the microphone */
+    private voiceActivityDetector;
+    /** Registration of the voice activity worklet on the current AudioContext */
+    private vadWorkletReady;
+    /** Bumped whenever the detector starts or stops, so a late start is dropped */
+    private vadGeneration;
+    /** When the current utterance started, null while the user is silent */
+    private userSpeechStartedAt;
     /** Debug logger instance for conditional logging */
     private readonly logger;
-    constructor(debug?: boolean);
+    constructor(debug?: boolean, processors?: AudioTrackProcessor[]);
     /**
      * Provides the LiveKit Room to the audio manager for microphone control.
      */
@@ -348,6 +424,140 @@ export declare class LiveKitAudioManager extends EventEmitter {
      * ```
      */
     isMicMuted(): boolean;
+    /**
+     * Switches the microphone to push-to-talk
+     *
+     * The microphone is muted and only opens between pressToTalk() and
+     * releaseToTalk(), or while the configured key is held. After release it
+     * stays open for the release tail, then pttTurnEnded is emitted. Calling it
+     * again replaces the settings.
+     *
+     * @param options - Key binding, minimum hold and release tail
+     *
+     * @fires pttStateChanged When the push-to-talk state changes
+     *
+     * @example
+     * ```typescript
+     * audioManager.enablePushToTalk({ key: 'Space', releaseTailMs: 400 });
+     * audioManager.on('pttStateChanged', (state) => {
+     *   talkButton.classList.toggle('active', state !== 'idle');
+     * });
+     * ```
+     */
+    enablePushToTalk(options?: PushToTalkOptions): void;
+    /**
+     * Leaves push-to-talk. The key binding and a pending release tail are
+     * dropped; the microphone keeps its current mute state.
+     */
+    disablePushToTalk(): void;
+    /**
+     * Whether push-to-talk is enabled
+     */
+    isPushToTalkEnabled(): boolean;
+    /**
+     * Opens the microphone for a push-to-talk turn. Pressing again during the
+     * release tail continues the same turn. Ignored without push-to-talk.
+     */
+    pressToTalk(): void;
+    /**
+     * Ends a push-to-talk press. The microphone closes after the release tail,
+     * or right away for a press shorter than the minimum hold, which does not
+     * end the turn. Ignored without push-to-talk.
+     */
+    releaseToTalk(): void;
+    /**
+     * Gets the current push-to-talk state
+     */
+    getPushToTalkState(): PushToTalkState;
+    /**
+     * Tracks the agent state reported by the agent, which marks the start and
+     * end of each answer.
+     * @param state - New agent state
+     */
+    handleAgentStateChanged(state: AgentState): void;
+    /**
+     * Switches the microphone to half-duplex
+     *
+     * While the agent speaks, the published microphone is cut so the agent does
+     * not hear its own voice coming out of laptop speakers. It reopens once the
+     * agent has stopped for the hangover time. With a barge-in threshold, a user
+     * speaking louder than the threshold reopens it right away, until the
+     * agent's next answer. The cut is independent of setMicMuted(): a muted
+     * microphone stays muted when the cut ends.
+     *
+     * @param options - Hangover time and barge-in threshold
+     *
+     * @fires micGateChanged When the microphone is cut or reopened
+     *
+     * @example
+     * ```typescript
+     * audioManager.enableHalfDuplex({ hangoverMs: 400, bargeInThreshold: 0.3 });
+     * ```
+     */
+    enableHalfDuplex(options?: HalfDuplexOptions): void;
+    /**
+     * Leaves half-duplex and reopens a cut microphone.
+     */
+    disableHalfDuplex(): void;
+    /**
+     * Whether half-duplex currently cuts the microphone
+     */
+    isMicGated(): boolean;
+    /**
+     * Starts detecting the user's speech on the microphone
+     *
+     * An AudioWorklet measures a copy of the microphone off the main thread and
+     * reports when the user starts and stops talking, e.g. to show a "you're
+     * speaking" indicator without waiting for the agent's transcription. Speech
+     * is not reported while the microphone is muted. With gateTransmission, the
+     * microphone is sent to the agent only while the user speaks. Detection
+     * starts once the microphone is published and follows device changes.
+     * Calling it again replaces the settings.
+     *
+     * @param options - Threshold, timings and noise gate
+     *
+     * @fires userSpeechStarted When the user starts speaking
+     * @fires userSpeechEnded When the user stops speaking
+     * @fires error AUDIO_CAPTURE_UNSUPPORTED without AudioWorklet support, or
+     *   AUDIO_CAPTURE_FAILED when the detector cannot start
+     *
+     * @example
+     * ```typescript
+     * audioManager.on('userSpeechStarted', () => showSpeakingIndicator());
+     * audioManager.on('userSpeechEnded', ({ durationMs }) => {
+     *   hideSpeakingIndicator();
+     *   console.log(`User spoke for ${durationMs}ms`);
+     * });
+     *
+     * audioManager.enableVoiceActivityDetection({ gateTransmission: true });
+     * ```
+     */
+    enableVoiceActivityDetection(options?: VoiceActivityOptions): void;
+    /**
+     * Stops voice activity detection and reopens a noise-gated microphone.
+     */
+    disableVoiceActivityDetection(): void;
+    /**
+     * Whether voice activity detection currently hears the user speaking
+     */
+    isUserSpeaking(): boolean;
+    /**
+     * Fades out the agent's voice right away, without waiting for the agent to
+     * stop sending audio
+     *
+     * Playback stays silent until the agent reports it stopped speaking, and at
+     * most a few seconds, then the volume set with setVolume() is restored for
+     * the next answer.
+     *
+     * @param fadeMs - Duration of the fade-out
+     * @returns How much of the current answer was played
+     *
+     * @example
+     * ```typescript
+     * const { heardMs } = audioManager.interruptPlayback();
+     * ```
+     */
+    interruptPlayback(fadeMs?: number): AgentInterruptedData;
     /**
      * Gets the current input frequency data from the user's microphone
      *
@@ -472,6 +682,25 @@ export declare class LiveKitAudioManager extends EventEmitter {
      * @param participant - The local participant who published the track
      */
     handleLocalTrackPublished(track: LocalTrack, publication: LocalTrackPublication, participant: Participant): void;
+    /**
+     * Replaces the processors applied to the microphone
+     *
+     * The processors run in the order given, each one on the output of the
+     * previous one. On a published microphone the new chain takes over the
+     * audio sent to the agent without republishing the track; otherwise it is
+     * applied as soon as the microphone is published. An empty list removes
+     * all processing.
+     *
+     * @param processors - Processors to apply, in order
+     * @throws {HamsaMediaError} AUDIO_PROCESSOR_FAILED when a processor fails to
+     * initialize; the microphone is then sent unprocessed
+     *
+     * @example
+     * ```typescript
+     * await audioManager.setProcessors([highPassFilter, noiseCanceller]);
+     * ```
+     */
+    setProcessors(processors: AudioTrackProcessor[]): Promise<void>;
     /**
      * Processes audio track unsubscription and cleanup
      *
@@ -820,3 +1049,24 @@ export declare class LiveKitAudioManager extends EventEmitter {
     disableAudioCapture(): void;
     cleanup(): void;
 }
+/**
+ * Declaration merging: adds type-safe event methods to LiveKitAudioManager
+ */
+export interface LiveKitAudioManager {
+    /**
+     * Registers an event listener with type-safe event names and handlers
+     */
+    on<K extends keyof LiveKitAudioManagerEvents>(event: K, listener: LiveKitAudioManagerEvents[K]): this;
+    /**
+     * Removes an event listener with type-safe event names and handlers
+     */
+    off<K extends keyof LiveKitAudioManagerEvents>(event: K, listener: LiveKitAudioManagerEvents[K]): this;
+    /**
+     * Registers a one-time event listener with type-safe event names and handlers
+     */
+    once<K extends keyof LiveKitAudioManagerEvents>(event: K, listener: LiveKitAudioManagerEvents[K]): this;
+    /**
+     * Emits an event with type-safe event names and arguments
+     */
+    emit<K extends keyof LiveKitAudioManagerEvents>(event: K, ...args: Parameters<LiveKitAudioManagerEvents[K]>): boolean;
+}
@@ -158,8 +158,40 @@
  * - Includes fallback mechanisms for connection reliability
  */
 import { EventEmitter } from 'events';
-import { Room } from 'livekit-client';
-import type { ParticipantData } from './types';
+import { type ConnectionState, type RemoteParticipant, Room } from 'livekit-client';
+import { HamsaError } from './errors';
+import type { AgentState, AudioConstraints, AudioDevicePreferences, ParticipantData } from './types';
+/**
+ * Events emitted by LiveKitConnection, keyed by event name
+ */
+export type LiveKitConnectionEvents = {
+    /** Emitted when the room connection is established */
+    connected: () => void;
+    /** Emitted when the room connection is closed */
+    disconnected: () => void;
+    /** Emitted with the time in milliseconds it took to connect */
+    connectionEstablished: (connectionTime: number) => void;
+    /** Emitted when connecting, disconnecting, pausing or resuming fails */
+    connectionError: (error: HamsaError) => void;
+    /** Emitted when the conversation is paused */
+    connectionPaused: () => void;
+    /** Emitted when the conversation is resumed */
+    connectionResumed: () => void;
+    /** Emitted when the connection is lost and LiveKit is reconnecting */
+    reconnecting: () => void;
+    /** Emitted when the connection is restored */
+    reconnected: () => void;
+    /** Emitted when a remote participant joins the room */
+    participantConnected: (participant: RemoteParticipant) => void;
+    /** Emitted when a remote participant leaves the room */
+    participantDisconnected: (participant: RemoteParticipant) => void;
+    /** Emitted when the agent publishes a new state */
+    agentStateChanged: (state: AgentState) => void;
+    /** Emitted when the room connection state changes */
+    connectionStateChanged: (state: ConnectionState) => void;
+    /** Emitted when a media device is plugged in or removed */
+    devicesChanged: () => void;
+};
 /**
  * LiveKitConnection class for managing WebRTC connections to voice agent rooms
  *
@@ -200,6 +232,8 @@ export declare class LiveKitConnection extends EventEmitter {
      * @param lkUrl - LiveKit WebSocket URL (e.g., 'wss://livekit.example.com')
      * @param accessToken - JWT token for room authentication and authorization
      * @param debug - Enable debug logging (defaults to false)
+     * @param audio.devices - Microphone and speaker the room should use
+     * @param audio.constraints - Processing applied to the microphone
      *
      * @example
      * ```typescript
@@ -213,7 +247,10 @@ export declare class LiveKitConnection extends EventEmitter {
      * await connection.connect();
      * ```
      */
-    constructor(lkUrl: string, accessToken: string, debug?: boolean);
+    constructor(lkUrl: string, accessToken: string, debug?: boolean, { devices, constraints, }?: {
+        devices?: AudioDevicePreferences;
+        constraints?: AudioConstraints;
+    });
     /**
      * Provides access to the underlying LiveKit room instance
      *
@@ -294,6 +331,31 @@ export declare class LiveKitConnection extends EventEmitter {
      * Resumes the connection by unmuting local microphone
      */
     resume(): void;
+    /**
+     * Switches the microphone or speaker used by the room
+     *
+     * Before the room is joined, the device is recorded and used once the
+     * microphone is published. During a call, the published microphone track
+     * is restarted on the new device and agent audio is moved to the new
+     * speaker.
+     *
+     * @param kind - 'audioinput' for the microphone, 'audiooutput' for the speaker
+     * @param deviceId - deviceId of the device, as listed by enumerateDevices()
+     * @throws {HamsaMediaError} When the device cannot be used, or when the
+     * browser cannot select a speaker
+     */
+    switchAudioDevice(kind: 'audioinput' | 'audiooutput', deviceId: string): Promise<void>;
+    /**
+     * Changes the processing applied to the microphone
+     *
+     * The constraints are merged into the room's capture defaults. During a
+     * call, the microphone track is restarted with them, keeping its device
+     * and mute state, since most browsers cannot change them on a live track.
+     *
+     * @param constraints - Constraints to change; others keep their value
+     * @throws {HamsaMediaError} When the microphone cannot be restarted
+     */
+    updateAudioConstraints(constraints: AudioConstraints): Promise<void>;
     /**
      * Gets connection statistics
      */
@@ -320,3 +382,24 @@ export declare class LiveKitConnection extends EventEmitter {
      */
     cleanup(): void;
 }
+/**
+ * Declaration merging: adds type-safe event methods to LiveKitConnection
+ */
+export interface LiveKitConnection {
+    /**
+     * Registers an event listener with type-safe event names and handlers
+     */
+    on<K extends keyof LiveKitConnectionEvents>(event: K, listener: LiveKitConnectionEvents[K]): this;
+    /**
+     * Removes an event listener with type-safe event names and handlers
+     */
+    off<K extends keyof LiveKitConnectionEvents>(event: K, listener: LiveKitConnectionEvents[K]): this;
+    /**
+     * Registers a one-time event listener with type-safe event names and handlers
+     */
+    once<K extends keyof LiveKitConnectionEvents>(event: K, listener: LiveKitConnectionEvents[K]): this;
+    /**
+     * Emits an event with type-safe event names and arguments
+     */
+    emit<K extends keyof LiveKitConnectionEvents>(event: K, ...args: Parameters<LiveKitConnectionEvents[K]>): boolean;
+}
@@ -32,21 +32,42 @@
  * ```
  */
 import { EventEmitter } from 'events';
-import type { Room } from 'livekit-client';
+import type { LocalTrack, LocalTrackPublication, Room } from 'livekit-client';
 import { type DebugLogger } from '../utils';
-import { LiveKitAnalytics } from './livekit-analytics';
-import { LiveKitAudioManager } from './livekit-audio-manager';
-import { LiveKitConnection } from './livekit-connection';
-import { LiveKitToolRegistry } from './livekit-tool-registry';
-import type { AudioLevelsResult, CallAnalyticsResult, ConnectionStatsResult, ParticipantData, PerformanceMetricsResult, Tool, TrackStatsResult } from './types';
+import type { ConversationTranscript } from './conversation-transcript';
+import { type HamsaError, HamsaMediaError } from './errors';
+import { LiveKitAnalytics, type LiveKitAnalyticsEvents } from './livekit-analytics';
+import { LiveKitAudioManager, type LiveKitAudioManagerEvents } from './livekit-audio-manager';
+import { LiveKitConnection, type LiveKitConnectionEvents } from './livekit-connection';
+import { LiveKitToolRegistry, type LiveKitToolRegistryEvents } from './livekit-tool-registry';
+import type { AudioConstraints, AudioDevicePreferences, AudioLevelsResult, AudioTrackProcessor, CallAnalyticsResult, ConnectionStatsResult, ParticipantData, PerformanceMetricsResult, Tool, TrackStatsResult } from './types';
 export type { AgentState, AudioLevelsResult, CallAnalyticsResult, ConnectionStatsResult, ParticipantData, PerformanceMetricsResult, TrackStatsData, TrackStatsResult, } from './types';
+/**
+ * Events emitted by LiveKitManager, keyed by event name
+ *
+ * Combines the events forwarded from the connection, audio, analytics and tool
+ * modules with the room-level events handled by the manager itself.
+ */
+export type LiveKitManagerEvents = Pick<LiveKitConnectionEvents, 'connected' | 'disconnected' | 'reconnecting' | 'reconnected' | 'participantConnected' | 'participantDisconnected' | 'agentStateChanged' | 'connectionStateChanged' | 'devicesChanged'> & Pick<LiveKitAudioManagerEvents, 'trackSubscribed' | 'trackUnsubscribed' | 'speaking' | 'listening' | 'volumeChanged' | 'micMuted' | 'micUnmuted' | 'microphoneLost' | 'microphoneRecovered' | 'pttStateChanged' | 'pttTurnEnded' | 'micGateChanged' | 'userSpeechStarted' | 'userSpeechEnded'> & Pick<LiveKitAnalyticsEvents, 'connectionQualityChanged' | 'audioPlaybackChanged' | 'analyticsUpdated'> & LiveKitToolRegistryEvents & {
+    /** Emitted when a connection or audio error occurs */
+    error: (error: HamsaError) => void;
+    /** Emitted when LiveKit cannot access the local media devices */
+    mediaDevicesError: (error: HamsaMediaError) => void;
+    /** Emitted when a local track is published */
+    localTrackPublished: (data: {
+        publication: LocalTrackPublication;
+        track?: LocalTrack;
+    }) => void;
+    /** Emitted for informational messages */
+    info: (info: string) => void;
+};
 /**
  * Main LiveKitManager class that orchestrates voice agent communication
  *
  * This class extends EventEmitter to provide a reactive interface for handling
  * voice agent interactions, real-time analytics, and WebRTC connection management.
  */
-export default class LiveKitManager extends EventEmitter {
+declare class LiveKitManager extends EventEmitter {
     #private;
     /** Connection module - manages LiveKit room connections and participants */
     connection: LiveKitConnection;
@@ -72,6 +93,10 @@ export default class LiveKitManager extends EventEmitter {
      * @param lkUrl - LiveKit WebSocket URL (e.g., 'wss://your-livekit.example.com')
      * @param accessToken - JWT token for room access authentication
      * @param tools - Array of client-side tools that agents can call during conversations
+     * @param options.devices - Microphone and speaker the room should use
+     * @param options.audioConstraints - Processing applied to the microphone
+     * @param options.audioProcessors - Processors the microphone goes through
+     * @param options.transcript - Transcript to record the conversation in
      *
      * @example
      * ```typescript
@@ -90,9 +115,13 @@ export default class LiveKitManager extends EventEmitter {
      * );
      * ```
      */
-    constructor(lkUrl: string, accessToken: string, tools?: Tool[], { debug, avatarContainerSelector, }?: {
+    constructor(lkUrl: string, accessToken: string, tools?: Tool[], { debug, avatarContainerSelector, devices, audioConstraints, audioProcessors, transcript, }?: {
         debug?: boolean;
         avatarContainerSelector?: string;
+        devices?: AudioDevicePreferences;
+        audioConstraints?: AudioConstraints;
+        audioProcessors?: AudioTrackProcessor[];
+        transcript?: ConversationTranscript | null;
     });
     /**
      * Establishes connection to the LiveKit room and initializes voice agent communication
@@ -535,3 +564,25 @@ export default class LiveKitManager extends EventEmitter {
      */
     cleanup(): void;
 }
+/**
+ * Declaration merging: adds type-safe event methods to LiveKitManager
+ */
+interface LiveKitManager {
+    /**
+     * Registers an event listener with type-safe event names and handlers
+     */
+    on<K extends keyof LiveKitManagerEvents>(event: K, listener: LiveKitManagerEvents[K]): this;
+    /**
+     * Removes an event listener with type-safe event names and handlers
+     */
+    off<K extends keyof LiveKitManagerEvents>(event: K, listener: LiveKitManagerEvents[K]): this;
+    /**
+     * Registers a one-time event listener with type-safe event names and handlers
+     */
+    once<K extends keyof LiveKitManagerEvents>(event: K, listener: LiveKitManagerEvents[K]): this;
+    /**
+     * Emits an event with type-safe event names and arguments
+     */
+    emit<K extends keyof LiveKitManagerEvents>(event: K, ...args: Parameters<LiveKitManagerEvents[K]>): boolean;
+}
+export default LiveKitManager;
@@ -178,8 +178,31 @@
  * - Includes automatic cleanup and resource management
  */
 import { EventEmitter } from 'events';
-import type { Room } from 'livekit-client';
-import type { Tool } from './types';
+import type { Room, TranscriptionSegment } from 'livekit-client';
+import type { ConversationTranscript } from './conversation-transcript';
+import { HamsaToolError } from './errors';
+import type { CustomEventMetadata, Tool, TranscriptionSegmentData } from './types';
+/**
+ * Events emitted by LiveKitToolRegistry, keyed by event name
+ */
+export type LiveKitToolRegistryEvents = {
+    /** Emitted when a client-side tool execution fails; the tool's error is the cause */
+    rpcError: (functionName: string, error: HamsaToolError) => void;
+    /** Emitted when tools are registered with the room */
+    toolsRegistered: (tools: Tool[]) => void;
+    /** Emitted when the agent answers */
+    answerReceived: (text: string) => void;
+    /** Emitted when the user's speech is transcribed */
+    transcriptionReceived: (text: string) => void;
+    /** Emitted when a transcription segment of the user or the agent changes */
+    transcriptionUpdated: (segment: TranscriptionSegmentData) => void;
+    /** Emitted once when a transcription segment becomes final */
+    transcriptionFinalized: (segment: TranscriptionSegmentData) => void;
+    /** Emitted for agent events without a dedicated handler */
+    customEvent: (eventType: string, eventData: unknown, metadata: CustomEventMetadata) => void;
+    /** Emitted with every parsed data message and the sender identity */
+    dataReceived: (message: Record<string, unknown>, participant: string) => void;
+};
 /**
  * LiveKitToolRegistry class for client-side tool management and RPC handling
  *
@@ -187,6 +210,7 @@ import type { Tool } from './types';
  * agent responses, transcriptions, and custom events from voice agents.
  */
 export declare class LiveKitToolRegistry extends EventEmitter {
+    #private;
     /** Maximum length for text preview in debug logs */
     private static readonly TEXT_PREVIEW_LENGTH;
     /** Maximum length for decoded payload preview in debug logs */
@@ -197,6 +221,10 @@ export declare class LiveKitToolRegistry extends EventEmitter {
     private tools;
     /** Set of currently registered RPC method names for cleanup */
     private readonly registeredMethods;
+    /** Latest text and final flag of each transcription segment, by segment id */
+    private readonly transcriptionSegments;
+    /** Transcript recording speech and tool calls, if the owner keeps one */
+    private readonly transcript;
     /** Debug logger instance for conditional logging */
     private readonly logger;
     /**
@@ -208,6 +236,7 @@ export declare class LiveKitToolRegistry extends EventEmitter {
      *
      * @param tools - Initial array of tools to register (optional)
      * @param debug - Enable debug logging for troubleshooting (optional)
+     * @param transcript - Transcript to record speech and tool calls in (optional)
      *
      * @example
      * ```typescript
@@ -225,7 +254,7 @@ export declare class LiveKitToolRegistry extends EventEmitter {
      * registry.setRoom(liveKitRoom);
      * ```
      */
-    constructor(tools?: Tool[], debug?: boolean);
+    constructor(tools?: Tool[], debug?: boolean, transcript?: ConversationTranscript | null);
     /**
      * Configures the LiveKit room for tool registration and RPC setup
      *
@@ -423,6 +452,12 @@ export declare class LiveKitToolRegistry extends EventEmitter {
      *
      * The participant is identified by checking if their identity contains "agent".
      *
+     * Both of these fire for every interim update. Each segment is also emitted
+     * as `transcriptionUpdated` with its id, final flag, timing, speaker and
+     * language, once per change, and as `transcriptionFinalized` once when it
+     * becomes final, so captions can replace interim text instead of appending
+     * every update.
+     *
      * @param transcriptions - Array of transcription segments from LiveKit
      * @param transcriptions[].text - Transcribed text content
      * @param transcriptions[].final - Whether this is a final transcription segment
@@ -430,6 +465,8 @@ export declare class LiveKitToolRegistry extends EventEmitter {
      *
      * @fires answerReceived When agent speech is transcribed
      * @fires transcriptionReceived When user speech is transcribed
+     * @fires transcriptionUpdated When a segment's text or final flag changes
+     * @fires transcriptionFinalized When a segment becomes final
      *
      * @example
      * ```typescript
@@ -462,10 +499,7 @@ export declare class LiveKitToolRegistry extends EventEmitter {
      * ]
      * ```
      */
-    handleTranscriptionReceived(transcriptions: Array<{
-        text?: string;
-        final?: boolean;
-    }>, participantIdentity?: string): void;
+    handleTranscriptionReceived(transcriptions: Partial<TranscriptionSegment>[], participantIdentity?: string): void;
     /**
      * Returns the count of currently registered tools
      *
@@ -561,3 +595,24 @@ export declare class LiveKitToolRegistry extends EventEmitter {
      */
     cleanup(): void;
 }
+/**
+ * Declaration merging: adds type-safe event methods to LiveKitToolRegistry
+ */
+export interface LiveKitToolRegistry {
+    /**
+     * Registers an event listener with type-safe event names and handlers
+     */
+    on<K extends keyof LiveKitToolRegistryEvents>(event: K, listener: LiveKitToolRegistryEvents[K]): this;
+    /**
+     * Removes an event listener with type-safe event names and handlers
+     */
+    off<K extends keyof LiveKitToolRegistryEvents>(event: K, listener: LiveKitToolRegistryEvents[K]): this;
+    /**
+     * Registers a one-time event listener with type-safe event names and handlers
+     */
+    once<K extends keyof LiveKitToolRegistryEvents>(event: K, listener: LiveKitToolRegistryEvents[K]): this;
+    /**
+     * Emits an event with type-safe event names and arguments
+     */
+    emit<K extends keyof LiveKitToolRegistryEvents>(event: K, ...args: Parameters<LiveKitToolRegistryEvents[K]>): boolean;
+}
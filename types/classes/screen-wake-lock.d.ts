@@ -4,6 +4,11 @@
  * This class encapsulates the logic for requesting and releasing a screen
  * wake lock to prevent the device from sleeping during an active call.
  *
+ * Browsers release the wake lock on their own when the tab is hidden; while
+ * the lock is wanted it is re-acquired as soon as the tab becomes visible
+ * again. On browsers without the Wake Lock API, a muted, hidden video is
+ * played instead, which keeps most mobile browsers awake.
+ *
  * Usage:
  *   import ScreenWakeLock from './ScreenWakeLock';
  *   const wakeLockManager = new ScreenWakeLock();
@@ -16,17 +21,44 @@
  *
  *   Check if the wake lock is active:
  *   console.log(wakeLockManager.isActive());
+ *
+ *   Follow lock changes, including releases by the browser:
+ *   wakeLockManager.on('released', () => console.log('Screen may sleep'));
+ */
+import { EventEmitter } from 'events';
+/** How the screen is being kept awake */
+export type WakeLockStrategy = 'native' | 'video';
+/**
+ * Events emitted by ScreenWakeLock, keyed by event name
  */
-export default class ScreenWakeLock {
+export type ScreenWakeLockEvents = {
+    /** Emitted when the screen wake lock is acquired or re-acquired */
+    acquired: (strategy: WakeLockStrategy) => void;
+    /** Emitted when the wake lock is released, by release() or by the browser */
+    released: () => void;
+};
+declare class ScreenWakeLock extends EventEmitter {
+    #private;
     /**
      * The wake lock sentinel that controls the screen wake lock.
      * @private
      */
     private _wakeLock;
-    constructor();
+    /**
+     * Hidden video keeping the screen awake when the Wake Lock API is missing.
+     * @private
+     */
+    private _fallbackVideo;
+    /**
+     * Whether the lock should be held, i.e. acquire() was called without a
+     * matching release(). Drives re-acquisition when the tab becomes visible.
+     * @private
+     */
+    private _wanted;
     /**
      * Attempts to acquire a screen wake lock.
-     * If the Wake Lock API is not supported, a warning is logged.
+     * Falls back to playing a hidden video if the Wake Lock API is not
+     * supported. Failures are ignored: the device may then go to sleep.
      *
      * @returns Promise<void>
      */
@@ -44,3 +76,25 @@ export default class ScreenWakeLock {
      */
     isActive(): boolean;
 }
+/**
+ * Declaration merging: adds type-safe event methods to ScreenWakeLock
+ */
+interface ScreenWakeLock {
+    /**
+     * Registers an event listener with type-safe event names and handlers
+     */
+    on<K extends keyof ScreenWakeLockEvents>(event: K, listener: ScreenWakeLockEvents[K]): this;
+    /**
+     * Removes an event listener with type-safe event names and handlers
+     */
+    off<K extends keyof ScreenWakeLockEvents>(event: K, listener: ScreenWakeLockEvents[K]): this;
+    /**
+     * Registers a one-time event listener with type-safe event names and handlers
+     */
+    once<K extends keyof ScreenWakeLockEvents>(event: K, listener: ScreenWakeLockEvents[K]): this;
+    /**
+     * Emits an event with type-safe event names and arguments
+     */
+    emit<K extends keyof ScreenWakeLockEvents>(event: K, ...args: Parameters<ScreenWakeLockEvents[K]>): boolean;
+}
+export default ScreenWakeLock;
@@ -0,0 +1,116 @@
+/**
+ * HamsaSessionClient - REST client that mints voice agent sessions
+ *
+ * Wraps the two-step session bootstrap against the Hamsa API:
+ * 1. `participant-token` issues a LiveKit access token for the conversation room
+ * 2. `conversation-init` registers tools, parameters and voice settings for the job
+ *
+ * The client is shared by HamsaVoiceAgent (browser, API key mode) and by the
+ * `@hamsa-ai/voice-agents-sdk/server` helpers, which let a backend mint the
+ * session so that the API key never ships to the browser. It only depends on
+ * the global `fetch`, so it runs in browsers, Node 18+ and edge runtimes.
+ *
+ * @example
+ * ```typescript
+ * const client = new HamsaSessionClient(process.env.HAMSA_API_KEY, {
+ *   API_URL: 'https://api.tryhamsa.com',
+ * });
+ *
+ * const { liveKitAccessToken, jobId } = await client.createSession({
+ *   agentId: 'agent_12345',
+ *   voiceEnablement: true,
+ *   params: { userName: 'Alice' },
+ * });
+ * ```
+ */
+import type { LLMTool, ToolDefinition } from './types';
+/**
+ * Supported deployment regions for the Hamsa platform.
+ * Determines the default API and LiveKit URLs used for the connection.
+ */
+export type Region = 'eu' | 'uae';
+/** Maps each region to its default API and LiveKit WebSocket URLs. */
+export declare const REGION_CONFIG: {
+    readonly eu: {
+        readonly API_URL: "https://api.tryhamsa.com";
+        readonly LIVEKIT_URL: "wss://rtc.eu.tryhamsa.com";
+    };
+    readonly uae: {
+        readonly API_URL: "https://api.uae.tryhamsa.com";
+        readonly LIVEKIT_URL: "wss://rtc.uae.tryhamsa.com";
+    };
+};
+/**
+ * Options describing the conversation a session is minted for
+ */
+export type CreateSessionOptions = {
+    /** Unique identifier of the voice agent to start (from Hamsa dashboard) */
+    agentId: string;
+    /** Optional parameters referenced in agent prompts using {{parameter_name}} syntax */
+    params?: Record<string, unknown>;
+    /** Whether to enable voice interactions. If false, agent runs in text-only mode */
+    voiceEnablement?: boolean;
+    /** Tool schemas the agent may call (implementations stay on the client) */
+    tools?: ToolDefinition[];
+    /** Your own identifier of the end user, stored with the conversation */
+    userId?: string;
+};
+/**
+ * Credentials of a freshly minted session
+ */
+export type SessionCredentials = {
+    /** LiveKit access token for joining the conversation room */
+    liveKitAccessToken: string;
+    /** Job ID of the conversation */
+    jobId: string;
+};
+/**
+ * HamsaSessionClient class for minting voice agent sessions via the Hamsa REST API
+ */
+export declare class HamsaSessionClient {
+    #private;
+    /** Hamsa API key for authentication */
+    private readonly apiKey;
+    /** Base URL for Hamsa API endpoints */
+    private readonly apiUrl;
+    /** Debug logger instance for conditional logging */
+    private readonly logger;
+    /**
+     * Creates a new HamsaSessionClient instance
+     *
+     * @param apiKey - Hamsa API key used in the `Authorization: Token` header
+     * @param config - Client configuration
+     * @param config.API_URL - Base URL for Hamsa API endpoints
+     * @param config.debug - Enable debug logging
+     */
+    constructor(apiKey: string, { API_URL, debug }: {
+        API_URL: string;
+        debug?: boolean;
+    });
+    /**
+     * Runs the participant-token and conversation-init sequence
+     *
+     * @param options - Conversation the session is minted for
+     * @returns LiveKit access token and resolved job ID
+     * @throws {HamsaApiError} When the Hamsa API rejects either request
+     * @throws {HamsaConnectionError} When the Hamsa API cannot be reached
+     */
+    createSession({ agentId, params, voiceEnablement, tools, userId, }: CreateSessionOptions): Promise<SessionCredentials>;
+    /**
+     * Extracts the jobId value from the LiveKit access token payload metadata.
+     * Falls back to the provided endpointJobId or voiceAgentId when unavailable.
+     *
+     * @param liveKitAccessToken - LiveKit JWT issued by the participant-token endpoint
+     * @param endpointJobId - Job ID returned alongside the token, if any
+     * @param voiceAgentId - Agent ID used as the last-resort fallback
+     * @returns The resolved job ID
+     */
+    resolveJobIdFromToken(liveKitAccessToken: string, endpointJobId: string | undefined, voiceAgentId: string): string;
+    /**
+     * Converts tools to LLMTools format.
+     *
+     * @param tools - Array of tool definitions.
+     * @returns Array of LLMTool objects.
+     */
+    convertToolsToLLMTools(tools: ToolDefinition[]): LLMTool[];
+}
@@ -0,0 +1,33 @@
+/**
+ * Transcript export - Renders transcript turns as captions or documents
+ *
+ * WebVTT and SRT captions have one cue per segment of spoken text, timed
+ * with the times LiveKit received the segment at; tool calls and call events
+ * are left out of captions. Plain text and Markdown list every turn, and the
+ * JSON document keeps all turns with their segments and tool calls.
+ *
+ * @example
+ * ```typescript
+ * const vtt = formatTranscript(transcript.getTurns(), 'webvtt');
+ * const json = formatTranscript(transcript.getTurns(), 'json', { jobId });
+ * ```
+ */
+import type { TranscriptExportFormat, TranscriptTurn } from './types';
+/** Formats accepted by exportTranscript() */
+export declare const TRANSCRIPT_EXPORT_FORMATS: readonly TranscriptExportFormat[];
+/**
+ * Options of formatTranscript()
+ */
+export type FormatTranscriptOptions = {
+    /** Job ID written to the JSON document */
+    jobId?: string | null;
+};
+/**
+ * Renders transcript turns in the given format.
+ *
+ * @param turns - Turns as returned by ConversationTranscript.getTurns()
+ * @param format - Output format
+ * @param options - Extra data for the JSON document
+ * @returns The rendered transcript
+ */
+export declare function formatTranscript(turns: TranscriptTurn[], format: TranscriptExportFormat, options?: FormatTranscriptOptions): string;
@@ -1,7 +1,7 @@
 /**
  * Shared types and interfaces for LiveKit modules
  */
-import type { ConnectionQuality, Track, TrackPublication } from 'livekit-client';
+import type { AudioProcessorOptions, ConnectionQuality, Track, TrackProcessor, TrackPublication } from 'livekit-client';
 /**
  * Agent state as defined by LiveKit
  * Represents the current state of the voice agent
@@ -248,8 +248,26 @@ export type CallAnalyticsResult = {
         isPaused: boolean;
         /** Current volume level */
         volume: number;
+        /** userId passed to start(), if any */
+        userId?: string;
     };
 };
+/**
+ * Periodic analytics snapshot emitted with the analyticsUpdated event.
+ * A lighter subset of CallAnalyticsResult collected on every analytics tick.
+ */
+export type AnalyticsUpdateData = {
+    /** Connection statistics and quality metrics */
+    connectionStats: ConnectionStatsResult;
+    /** Audio quality and usage metrics */
+    audioMetrics: AudioLevelsResult;
+    /** Performance metrics and timings */
+    performanceMetrics: PerformanceMetricsResult;
+    /** Total call duration in milliseconds */
+    callDuration: number;
+    /** userId passed to start(), if any */
+    userId?: string;
+};
 /**
  * Data structure for connection quality change events.
  * Provides detailed information about network conditions and performance.
@@ -413,3 +431,409 @@ export type LiveKitAgentMetadata = {
  * Includes digits 0-9, asterisk (*), and pound (#) characters.
  */
 export type DTMFDigit = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '*' | '#';
+/**
+ * Non-conversational context message published to the agent over the data channel.
+ * The agent folds the content into its context without taking a conversational turn.
+ */
+export type ContextualUpdateMessage = {
+    /** Message discriminator understood by the agent */
+    event: 'contextual_update';
+    /** Contextual information (page state, selections, etc.) */
+    content: string;
+    /** Unix timestamp (ms) when the update was sent */
+    timestamp: number;
+};
+/**
+ * Message the user typed, published to the agent over the data channel by
+ * sendTextMessage(). The agent answers it like speech.
+ */
+export type UserTextMessage = {
+    /** Message discriminator understood by the agent */
+    event: 'user_message';
+    /** What the user typed */
+    content: string;
+    /** Unix timestamp (ms) when the message was sent */
+    timestamp: number;
+};
+/**
+ * Kind of user interaction reported to the agent via sendUserActivity().
+ */
+export type UserActivityKind = 'typing' | 'scrolling' | 'form_focus' | 'click' | 'other';
+/**
+ * Activity signal published to the agent over the data channel.
+ * Tells the agent to hold off barge-in and turn-taking while the user is busy.
+ */
+export type UserActivityMessage = {
+    /** Message discriminator understood by the agent */
+    event: 'user_activity';
+    /** Kind of interaction the user is performing */
+    kind: UserActivityKind;
+    /** Unix timestamp (ms) when the activity was detected */
+    timestamp: number;
+};
+/**
+ * Push-to-talk settings. The microphone is muted except while the user holds
+ * the talk button or key.
+ */
+export type PushToTalkOptions = {
+    /**
+     * KeyboardEvent.code of a key that talks while held, e.g. 'Space' or
+     * 'KeyT'. Ignored while the user types in a text field.
+     */
+    key?: string;
+    /**
+     * Shortest press, in milliseconds, treated as a turn (default 200). Shorter
+     * presses are taken as accidental: the microphone closes right away and the
+     * agent is not told the turn ended.
+     */
+    minHoldMs?: number;
+    /**
+     * How long, in milliseconds, the microphone stays open after release so the
+     * last word is not clipped (default 300).
+     */
+    releaseTailMs?: number;
+};
+/**
+ * Push-to-talk state, reported by pttStateChanged.
+ *
+ * - idle: the microphone is muted
+ * - talking: the talk button or key is held and the microphone is open
+ * - releasing: released, the microphone closes after the release tail
+ */
+export type PushToTalkState = 'idle' | 'talking' | 'releasing';
+/**
+ * Signal published to the agent over the data channel when the user releases
+ * push-to-talk, so the agent answers without waiting for silence detection.
+ */
+export type UserTurnEndedMessage = {
+    /** Message discriminator understood by the agent */
+    event: 'user_turn_ended';
+    /** Unix timestamp (ms) when the microphone closed */
+    timestamp: number;
+};
+/**
+ * Half-duplex settings. The microphone is cut while the agent speaks, so the
+ * agent cannot hear itself through the speakers.
+ */
+export type HalfDuplexOptions = {
+    /**
+     * How long, in milliseconds, the microphone stays cut after the agent stops
+     * speaking, so the end of its voice still playing is not sent (default 300)
+     */
+    hangoverMs?: number;
+    /**
+     * Input level, on the 0.0-1.0 scale of getInputVolume(), above which the
+     * user can still talk over the agent. Barge-in is off when omitted.
+     */
+    bargeInThreshold?: number;
+};
+/**
+ * Voice activity detection settings. Speech is detected in the browser from
+ * the microphone level, against a noise floor that follows steady background
+ * noise.
+ */
+export type VoiceActivityOptions = {
+    /**
+     * Microphone level (RMS amplitude, 0.0-1.0) below which audio never counts
+     * as speech (default 0.015)
+     */
+    threshold?: number;
+    /**
+     * How long, in milliseconds, the level must stay above the threshold before
+     * speech starts, so clicks and knocks are ignored (default 60)
+     */
+    minSpeechMs?: number;
+    /**
+     * How long, in milliseconds, the level must stay below the threshold before
+     * speech ends, so pauses between words do not split an utterance
+     * (default 400)
+     */
+    hangoverMs?: number;
+    /**
+     * Send the microphone to the agent only while the user speaks (default
+     * false). Saves bandwidth, at the cost of the first milliseconds of each
+     * utterance.
+     */
+    gateTransmission?: boolean;
+};
+/**
+ * Start of an utterance detected on the microphone
+ */
+export type UserSpeechStartedData = {
+    /** When the user started speaking (epoch milliseconds) */
+    timestamp: number;
+};
+/**
+ * End of an utterance detected on the microphone
+ */
+export type UserSpeechEndedData = {
+    /** When the user stopped speaking (epoch milliseconds) */
+    timestamp: number;
+    /** Length of the utterance in milliseconds */
+    durationMs: number;
+};
+/**
+ * Who spoke a transcription segment
+ */
+export type TranscriptionSpeaker = 'user' | 'agent';
+/**
+ * A transcription segment, as of its latest update. Updates of a segment
+ * share its id and carry the whole text so far, so each update replaces the
+ * text shown for that id instead of adding to it.
+ */
+export type TranscriptionSegmentData = {
+    /** Segment id, the same for every update of the segment */
+    id: string;
+    /** Whole text of the segment so far */
+    text: string;
+    /** Whether the text is final and the segment will not be updated again */
+    isFinal: boolean;
+    /** Start of the segment in the speaker's audio, as reported by LiveKit (0 when unknown) */
+    startTime: number;
+    /** End of the segment in the speaker's audio, as reported by LiveKit (0 when unknown) */
+    endTime: number;
+    /** When LiveKit first delivered the segment to this client, in epoch milliseconds */
+    firstReceivedTime: number;
+    /** When LiveKit last delivered an update of the segment, in epoch milliseconds */
+    lastReceivedTime: number;
+    /** Whether the user or the agent spoke */
+    speaker: TranscriptionSpeaker;
+    /** Identity of the participant who spoke */
+    participant: string;
+    /** Language of the segment (e.g. 'en'), empty when unknown */
+    language: string;
+};
+/**
+ * Who or what a transcript turn comes from
+ */
+export type TranscriptRole = 'user' | 'agent' | 'tool' | 'system';
+/**
+ * Client-side tool call recorded in the transcript
+ */
+export type TranscriptToolCall = {
+    /** function_name of the tool */
+    name: string;
+    /** Arguments the agent passed */
+    arguments: Record<string, unknown>;
+    /** Value the tool returned */
+    result?: unknown;
+    /** Message of the error the tool threw */
+    error?: string;
+};
+/**
+ * A timed piece of a spoken turn: one transcription segment, or one agent
+ * message when no segment carried it
+ */
+export type TranscriptTurnSegment = {
+    text: string;
+    /** When the segment was first received, in milliseconds since the call started */
+    startMs: number;
+    /** When the segment was last updated, in milliseconds since the call started */
+    endMs: number;
+};
+/**
+ * A turn of the conversation transcript. Consecutive speech of the user or
+ * of the agent forms one turn, whose text grows as it is transcribed. An
+ * agent turn is one answer: it ends when the agent goes back to listening.
+ */
+export type TranscriptTurn = {
+    /** Turn id, unique within the call */
+    id: string;
+    role: TranscriptRole;
+    /** What was said; the tool name for tool turns */
+    text: string;
+    /** Whether all of the text so far is final */
+    isFinal: boolean;
+    /** When the turn started, in milliseconds since the call started */
+    startMs: number;
+    /** When the turn was last updated, in milliseconds since the call started */
+    endMs: number;
+    /** userId passed to start(), on user turns */
+    userId?: string;
+    /** The tool call, on tool turns */
+    tool?: TranscriptToolCall;
+    /** Timed pieces of the text, in order; empty for tool and system turns */
+    segments: TranscriptTurnSegment[];
+};
+/**
+ * Format of exportTranscript(): WebVTT or SRT captions, plain text,
+ * Markdown, or the JSON document described by TranscriptExport
+ */
+export type TranscriptExportFormat = 'webvtt' | 'srt' | 'text' | 'markdown' | 'json';
+/**
+ * Document produced by exportTranscript('json')
+ */
+export type TranscriptExport = {
+    /** Version of this document layout */
+    version: 1;
+    /** Job ID of the call, null when the session did not report one */
+    jobId: string | null;
+    /** End of the last turn, in milliseconds since the call started */
+    durationMs: number;
+    turns: TranscriptTurn[];
+};
+/**
+ * Text the agent added to its current answer
+ */
+export type AnswerDeltaData = {
+    /** Answer id, the id of the agent's turn in getTranscript() */
+    answerId: string;
+    /**
+     * Text appended since the previous answerDelta of the answer. Empty when
+     * the transcription corrected earlier words; text then holds the corrected
+     * answer.
+     */
+    delta: string;
+    /** Whole answer so far */
+    text: string;
+};
+/**
+ * An agent answer that is over
+ */
+export type AnswerCompletedData = {
+    /** Answer id, the same as in its answerDelta events */
+    answerId: string;
+    /** Whole text of the answer */
+    text: string;
+    /** When the answer started, in milliseconds since the call started */
+    startMs: number;
+    /** When the last text of the answer arrived, in milliseconds since the call started */
+    endMs: number;
+};
+/**
+ * How much of the agent's answer the user heard before interruptAgent()
+ */
+export type AgentInterruptedData = {
+    /** Whether the agent was speaking when it was interrupted */
+    wasSpeaking: boolean;
+    /** Milliseconds of the current answer played before the interruption, 0 when not speaking */
+    heardMs: number;
+};
+/**
+ * Signal published to the agent over the data channel by interruptAgent().
+ * Tells the agent to stop its answer and keep only the part that was heard.
+ */
+export type InterruptMessage = {
+    /** Message discriminator understood by the agent */
+    event: 'interrupt';
+    /** Milliseconds of the current answer the user heard */
+    heardMs: number;
+    /** Unix timestamp (ms) when the agent was interrupted */
+    timestamp: number;
+};
+/**
+ * Lifecycle state of a call, as reported by getCallState().
+ *
+ * - idle: no call has been started yet
+ * - fetching-token: the session is being created with the Hamsa API
+ * - connecting: joining the LiveKit room
+ * - waiting-for-agent: in the room, the agent has not joined yet
+ * - active: the agent is in the room and the conversation is live
+ * - paused: the call was paused with pause()
+ * - reconnecting: the connection dropped and LiveKit is reconnecting
+ * - ending: end() was called and the room is being left
+ * - ended: the call is over; start() may be called again
+ */
+export type CallState = 'idle' | 'fetching-token' | 'connecting' | 'waiting-for-agent' | 'active' | 'paused' | 'reconnecting' | 'ending' | 'ended';
+/**
+ * Audio devices reported by the browser. Labels stay empty until the user
+ * has granted microphone access.
+ */
+export type AudioDeviceList = {
+    /** Microphones */
+    inputs: MediaDeviceInfo[];
+    /** Speakers and headsets */
+    outputs: MediaDeviceInfo[];
+};
+/**
+ * Processing the browser applies to the microphone. Options left unset keep
+ * the SDK defaults (echo cancellation and noise suppression on) or, for the
+ * others, the browser defaults.
+ */
+export type AudioConstraints = {
+    /** Remove the agent's voice picked up by the microphone */
+    echoCancellation?: boolean;
+    /** Filter background noise */
+    noiseSuppression?: boolean;
+    /** Even out the microphone level */
+    autoGainControl?: boolean;
+    /** Number of channels to capture (1 for mono, 2 for stereo) */
+    channelCount?: number;
+    /** Capture sample rate in Hz */
+    sampleRate?: number;
+    /** Isolate the user's voice from other voices (Safari and recent Chrome only) */
+    voiceIsolation?: boolean;
+};
+/**
+ * Processor applied to the microphone before it is sent to the agent, such as
+ * a noise canceller or a gain stage built on an AudioWorklet. Implements
+ * LiveKit's TrackProcessor interface: init() receives the microphone track
+ * and the AudioContext, and the audio to send is exposed as processedTrack.
+ */
+export type AudioTrackProcessor = TrackProcessor<Track.Kind.Audio, AudioProcessorOptions>;
+/**
+ * Where agent audio is played on iOS when preferHeadphonesForIosDevices is set
+ */
+export type AudioRoute = {
+    /** 'headphones' for wired or Bluetooth headphones, 'built-in' for the earpiece or loudspeaker */
+    type: 'headphones' | 'built-in';
+    /** Label of the headphones, when routed to them */
+    label?: string;
+};
+/**
+ * Audio devices a room should use from the moment it is created
+ */
+export type AudioDevicePreferences = {
+    /** deviceId of the microphone to capture from */
+    audioInputDeviceId?: string;
+    /** deviceId of the speaker to play the agent on */
+    audioOutputDeviceId?: string;
+};
+/**
+ * Definition of a parameter for a client-side tool
+ * Describes the input that the function expects from the agent
+ */
+export type ToolParameter = {
+    /** Name of the parameter */
+    name: string;
+    /** Data type of the parameter (e.g., 'string', 'number', 'boolean') */
+    type: string;
+    /** Description of what the parameter represents */
+    description: string;
+};
+/**
+ * Schema of a tool as declared to the Hamsa backend during conversation-init.
+ * Carries no implementation, so it can be built on the server as well.
+ */
+export type ToolDefinition = {
+    /** Unique name for the function (used by agent to identify the tool) */
+    function_name: string;
+    /** Clear description of what the function does (helps agent decide when to use it) */
+    description: string;
+    /** Array of parameters the function accepts */
+    parameters?: ToolParameter[];
+    /** Array of parameter names that are required for the function */
+    required?: string[];
+    /** Internal function mapping (used for tool execution) */
+    func_map?: Record<string, unknown>;
+};
+/**
+ * Internal representation of tools in the LLM/API format
+ * Used for communication with the Hamsa backend
+ */
+export type LLMTool = {
+    type: 'function';
+    function: {
+        name: string;
+        description: string;
+        parameters: {
+            type: 'object';
+            properties: Record<string, {
+                type: string;
+                description: string;
+            }>;
+            required: string[];
+        };
+        func_map?: Record<string, unknown>;
+    };
+};
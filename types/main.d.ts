@@ -1,26 +1,18 @@
 import { EventEmitter } from 'events';
-import type { ConnectionState, LocalTrack, LocalTrackPublication, Participant, RemoteParticipant, RemoteTrack, Room } from 'livekit-client';
+import { type ConnectionState, type LocalTrack, type LocalTrackPublication, type RemoteParticipant, type RemoteTrack, Room } from 'livekit-client';
+import { HamsaError, type HamsaToolError } from './classes/errors';
 import LiveKitManager, { type AgentState, type AudioLevelsResult, type CallAnalyticsResult, type ConnectionStatsResult, type ParticipantData, type PerformanceMetricsResult, type TrackStatsResult } from './classes/livekit-manager';
-import ScreenWakeLock from './classes/screen-wake-lock';
-import type { AudioCaptureCallback, AudioCaptureOptions, ConnectionQualityData, DTMFDigit, TrackSubscriptionData, TrackUnsubscriptionData } from './classes/types';
+import ScreenWakeLock, { type WakeLockStrategy } from './classes/screen-wake-lock';
+import { type Region } from './classes/session-client';
+import type { AgentInterruptedData, AnalyticsUpdateData, AnswerCompletedData, AnswerDeltaData, AudioCaptureCallback, AudioCaptureOptions, AudioConstraints, AudioDeviceList, AudioRoute, AudioTrackProcessor, CallState, ConnectionQualityData, DTMFDigit, HalfDuplexOptions, PushToTalkOptions, PushToTalkState, ToolDefinition, TrackSubscriptionData, TrackUnsubscriptionData, TranscriptExportFormat, TranscriptionSegmentData, TranscriptTurn, UserActivityKind, UserSpeechEndedData, UserSpeechStartedData, VoiceActivityOptions } from './classes/types';
 export type { RpcInvocationData } from 'livekit-client';
 export { RpcError } from 'livekit-client';
+export type { HamsaErrorCategory, HamsaErrorCode, HamsaErrorOptions, } from './classes/errors';
+export { HamsaApiError, HamsaConnectionError, HamsaError, HamsaMediaError, HamsaToolError, } from './classes/errors';
 export type { AgentState } from './classes/livekit-manager';
-export type { AudioCaptureCallback, AudioCaptureFormat, AudioCaptureMetadata, AudioCaptureOptions, AudioCaptureSource, DTMFDigit, } from './classes/types';
-/**
- * Custom error class that includes both human-readable message and machine-readable messageKey
- * for internationalization and programmatic error handling
- */
-declare class HamsaApiError extends Error {
-    /** Machine-readable error key for i18n or programmatic handling */
-    readonly messageKey?: string;
-    constructor(message: string, messageKey?: string);
-}
-/**
- * Supported deployment regions for the Hamsa platform.
- * Determines the default API and LiveKit URLs used for the connection.
- */
-export type Region = 'eu' | 'uae';
+export type { WakeLockStrategy } from './classes/screen-wake-lock';
+export type { Region } from './classes/session-client';
+export type { AgentInterruptedData, AnalyticsUpdateData, AnswerCompletedData, AnswerDeltaData, AudioCaptureCallback, AudioCaptureFormat, AudioCaptureMetadata, AudioCaptureOptions, AudioCaptureSource, AudioConstraints, AudioDeviceList, AudioRoute, AudioTrackProcessor, CallState, ContextualUpdateMessage, DTMFDigit, HalfDuplexOptions, PushToTalkOptions, PushToTalkState, ToolDefinition, ToolParameter, TranscriptExport, TranscriptExportFormat, TranscriptionSegmentData, TranscriptionSpeaker, TranscriptRole, TranscriptToolCall, TranscriptTurn, TranscriptTurnSegment, UserActivityKind, UserActivityMessage, UserSpeechEndedData, UserSpeechStartedData, UserTextMessage, UserTurnEndedMessage, VoiceActivityOptions, } from './classes/types';
 /**
  * Configuration options for the HamsaVoiceAgent constructor
  * Allows customization of API endpoints and other global settings
@@ -49,12 +41,47 @@ type ConnectionDelays = {
     android?: number;
     /** Delay in milliseconds for iOS devices */
     ios?: number;
-    /** Default delay in milliseconds for other devices */
+    /** Delay in milliseconds for other devices, and for Android or iOS when their own delay is not set */
     default?: number;
 };
+/**
+ * Pre-issued session credentials minted by your backend
+ *
+ * Used in server-issued token mode so the Hamsa API key never ships to the browser.
+ * Your backend calls the participant-token and conversation-init endpoints and hands
+ * the resulting LiveKit token (and optionally the job ID) to the client.
+ */
+type SessionToken = {
+    /** LiveKit access token returned by the participant-token endpoint */
+    liveKitAccessToken: string;
+    /** Job ID of the conversation (resolved from the token metadata when omitted) */
+    jobId?: string;
+};
+/**
+ * Async callback that asks your backend for a freshly minted session
+ */
+type TokenProvider = () => Promise<SessionToken>;
 type StartOptions = {
     /** Unique identifier of the voice agent to start (from Hamsa dashboard) */
     agentId: string;
+    /**
+     * Async callback returning server-issued session credentials.
+     * When provided, the SDK skips the participant-token and conversation-init
+     * REST calls and no API key is needed in the browser.
+     * @example
+     * ```typescript
+     * tokenProvider: async () => {
+     *   const res = await fetch('/api/hamsa-session', { method: 'POST' });
+     *   return res.json(); // { liveKitAccessToken, jobId }
+     * }
+     * ```
+     */
+    tokenProvider?: TokenProvider;
+    /**
+     * Pre-issued session credentials from your backend. Takes precedence over
+     * tokenProvider. Like tokenProvider, this skips both REST calls.
+     */
+    session?: SessionToken;
     /**
      * Optional parameters to pass to the agent for conversation customization
      * These can be referenced in agent prompts using {{parameter_name}} syntax
@@ -65,13 +92,67 @@ type StartOptions = {
     voiceEnablement?: boolean;
     /** Array of client-side tools that the agent can call during conversations */
     tools?: Tool[];
-    /** Optional user identifier for tracking and analytics */
+    /**
+     * Your own identifier of the end user. Sent with the session requests, set
+     * as the `userId` attribute of the local LiveKit participant, and attached
+     * to analytics snapshots and job details so conversations can be traced
+     * back to your user records.
+     */
     userId?: string;
-    /** Force headphones usage on iOS devices when available */
+    /**
+     * On iOS, play agent audio through wired or Bluetooth headphones when some
+     * are connected, including ones connected during the call, instead of the
+     * earpiece or loudspeaker. The chosen route is reported with
+     * audioRouteChanged. Devices chosen with setAudioInput()/setAudioOutput()
+     * take precedence. Ignored on other platforms.
+     */
     preferHeadphonesForIosDevices?: boolean;
-    /** Platform-specific connection delays to prevent audio cutoff */
+    /**
+     * Platform-specific delay applied before joining the room, so the device can
+     * switch its audio mode before the agent starts its greeting. callStarted is
+     * emitted after the delay.
+     */
     connectionDelay?: ConnectionDelays;
-    /** Disable wake lock to allow device sleep during conversation */
+    /**
+     * Processing applied by the browser to the microphone. Echo cancellation
+     * and noise suppression are on by default; turn them off for hardware that
+     * has its own DSP. Can be changed during the call with
+     * updateAudioConstraints().
+     */
+    audio?: AudioConstraints;
+    /**
+     * Processors the microphone goes through before reaching the agent, in
+     * order, such as a noise canceller or a high-pass filter built on an
+     * AudioWorklet. They implement LiveKit's TrackProcessor interface and can be
+     * replaced during the call with setAudioProcessors().
+     */
+    audioProcessors?: AudioTrackProcessor[];
+    /**
+     * Start the call in push-to-talk mode: the microphone stays muted except
+     * between pressToTalk() and releaseToTalk(), or while the given key is held.
+     * Pass true for the defaults. Can be turned on and off during the call with
+     * enablePushToTalk()/disablePushToTalk().
+     */
+    pushToTalk?: boolean | PushToTalkOptions;
+    /**
+     * Cut the microphone while the agent speaks, for laptops without a headset
+     * where the agent hears itself despite echo cancellation. Pass true for the
+     * defaults. Can be turned on and off during the call with
+     * enableHalfDuplex()/disableHalfDuplex().
+     */
+    halfDuplex?: boolean | HalfDuplexOptions;
+    /**
+     * Detect the user's speech in the browser and emit userSpeechStarted and
+     * userSpeechEnded, optionally sending the microphone only while the user
+     * speaks. Pass true for the defaults. Can be turned on and off during the
+     * call with enableVoiceActivityDetection()/disableVoiceActivityDetection().
+     */
+    voiceActivity?: boolean | VoiceActivityOptions;
+    /**
+     * Disable the screen wake lock to allow device sleep during conversation.
+     * By default the lock is held for the whole call, re-acquired when the tab
+     * becomes visible again, and emulated on browsers without the Wake Lock API.
+     */
     disableWakeLock?: boolean;
     /**
      * CSS selector for the container element where the avatar video will be rendered.
@@ -113,32 +194,10 @@ type StartOptions = {
  * Tools allow agents to execute custom functions in the client environment,
  * such as retrieving user data, making API calls, or performing calculations.
  */
-type Tool = {
-    /** Unique name for the function (used by agent to identify the tool) */
-    function_name: string;
-    /** Clear description of what the function does (helps agent decide when to use it) */
-    description: string;
-    /** Array of parameters the function accepts */
-    parameters?: ToolParameter[];
-    /** Array of parameter names that are required for the function */
-    required?: string[];
-    /** Internal function mapping (used for tool execution) */
-    func_map?: Record<string, unknown>;
+type Tool = ToolDefinition & {
     /** The implementation function to execute when the agent calls this tool */
     fn?: (...args: unknown[]) => unknown | Promise<unknown>;
 };
-/**
- * Definition of a parameter for a client-side tool
- * Describes the input that the function expects from the agent
- */
-type ToolParameter = {
-    /** Name of the parameter */
-    name: string;
-    /** Data type of the parameter (e.g., 'string', 'number', 'boolean') */
-    type: string;
-    /** Description of what the parameter represents */
-    description: string;
-};
 /**
  * Response format for job details from the Hamsa API
  *
@@ -148,9 +207,29 @@ type ToolParameter = {
 type JobDetails = {
     /** Current status of the job (e.g., 'COMPLETED', 'IN_PROGRESS', 'FAILED') */
     status: string;
+    /** userId of the conversation, as stored by the API or passed to start() */
+    userId?: string;
     /** Additional job properties that may be returned by the API */
     [key: string]: unknown;
 };
+/**
+ * Options for connect(): the start() options plus how long to wait for the agent
+ */
+type ConnectOptions = StartOptions & {
+    /** Milliseconds to wait for the agent to join the room (default: 15000) */
+    agentJoinTimeout?: number;
+};
+/**
+ * Describes the call established by connect()
+ */
+type CallSession = {
+    /** Job ID used to fetch conversation details, null when it could not be resolved */
+    jobId: string | null;
+    /** Name of the LiveKit room hosting the call */
+    roomName: string;
+    /** LiveKit identity of the voice agent participant */
+    agentIdentity: string;
+};
 /**
  * Data object passed to callStarted event handlers
  */
@@ -201,20 +280,47 @@ type HamsaVoiceAgentEvents = {
     reconnecting: () => void;
     /** Emitted when reconnection succeeds */
     reconnected: () => void;
+    /** Emitted when the call moves to a new lifecycle state */
+    callStateChanged: (state: CallState, previousState: CallState) => void;
+    /** Emitted when the screen wake lock is acquired, or re-acquired after the tab was hidden */
+    wakeLockAcquired: (strategy: WakeLockStrategy) => void;
+    /** Emitted when the screen wake lock is released, by the SDK or by the browser */
+    wakeLockReleased: () => void;
     /** Emitted when user speech is transcribed */
     transcriptionReceived: (text: string) => void;
     /** Emitted when agent response is received */
     answerReceived: (text: string) => void;
+    /** Emitted when the agent adds text to its current answer */
+    answerDelta: (data: AnswerDeltaData) => void;
+    /** Emitted once when an answer is over and all of its text is final */
+    answerCompleted: (data: AnswerCompletedData) => void;
+    /**
+     * Emitted when a transcription segment of the user or the agent changes.
+     * Replace the text shown for segment.id rather than appending it.
+     */
+    transcriptionUpdated: (segment: TranscriptionSegmentData) => void;
+    /** Emitted once when a transcription segment becomes final */
+    transcriptionFinalized: (segment: TranscriptionSegmentData) => void;
+    /** Emitted with all turns whenever the transcript changes, including when start() clears it */
+    transcriptChanged: (turns: TranscriptTurn[]) => void;
     /** Emitted when agent starts speaking */
     speaking: () => void;
     /** Emitted when agent is listening */
     listening: () => void;
     /** Emitted when agent state changes (idle, initializing, listening, thinking, speaking) */
     agentStateChanged: (state: AgentState) => void;
+    /** Emitted by interruptAgent() with how much of the agent's answer was heard */
+    agentInterrupted: (data: AgentInterruptedData) => void;
     /** Emitted when a DTMF digit is successfully sent */
     dtmfSent: (digit: DTMFDigit) => void;
+    /** Emitted when a contextual update has been delivered to the agent */
+    contextualUpdateSent: (context: string) => void;
+    /** Emitted when a message typed by the user has been delivered to the agent */
+    textMessageSent: (text: string) => void;
+    /** Emitted when a user activity signal has been delivered to the agent */
+    userActivitySent: (kind: UserActivityKind) => void;
     /** Emitted when an error occurs */
-    error: (error: Error | HamsaApiError) => void;
+    error: (error: HamsaError) => void;
     /** Emitted when a remote track is subscribed */
     trackSubscribed: (data: TrackSubscriptionData) => void;
     /** Emitted when a remote track is unsubscribed */
@@ -224,8 +330,8 @@ type HamsaVoiceAgentEvents = {
         track?: LocalTrack;
         publication: LocalTrackPublication;
     }) => void;
-    /** Emitted when analytics data is updated */
-    analyticsUpdated: (analytics: CallAnalyticsResult) => void;
+    /** Emitted periodically with a snapshot of connection, audio and performance metrics */
+    analyticsUpdated: (analytics: AnalyticsUpdateData) => void;
     /** Emitted when connection quality changes */
     connectionQualityChanged: (data: ConnectionQualityData) => void;
     /** Emitted when connection state changes */
@@ -236,12 +342,28 @@ type HamsaVoiceAgentEvents = {
     micMuted: () => void;
     /** Emitted when microphone is unmuted */
     micUnmuted: () => void;
+    /** Emitted when the microphone in use disappears mid-call (e.g. a headset is unplugged) */
+    microphoneLost: () => void;
+    /** Emitted when the call has switched to the default microphone after microphoneLost */
+    microphoneRecovered: (deviceId: string | undefined) => void;
+    /** Emitted during a call when a microphone or speaker is plugged in or removed */
+    devicesChanged: (devices: AudioDeviceList) => void;
+    /** Emitted on iOS with preferHeadphonesForIosDevices when agent audio is routed to headphones or back to the device */
+    audioRouteChanged: (route: AudioRoute) => void;
+    /** Emitted when push-to-talk opens or closes the microphone */
+    pttStateChanged: (state: PushToTalkState) => void;
+    /** Emitted in half-duplex when the microphone is cut while the agent speaks, and when it reopens */
+    micGateChanged: (gated: boolean) => void;
+    /** Emitted with voice activity detection when the user starts speaking */
+    userSpeechStarted: (data: UserSpeechStartedData) => void;
+    /** Emitted with voice activity detection when the user stops speaking */
+    userSpeechEnded: (data: UserSpeechEndedData) => void;
     /** Emitted when a participant connects */
     participantConnected: (participant: RemoteParticipant) => void;
     /** Emitted when a participant disconnects */
     participantDisconnected: (participant: RemoteParticipant) => void;
-    /** Emitted when data is received */
-    dataReceived: (message: Uint8Array, participant: Participant) => void;
+    /** Emitted with every parsed data message and the sender identity */
+    dataReceived: (message: Record<string, unknown>, participant: string) => void;
     /** Emitted for custom events */
     customEvent: (eventType: string, eventData: unknown, metadata?: Record<string, unknown>) => void;
     /** Emitted for informational messages */
@@ -249,7 +371,7 @@ type HamsaVoiceAgentEvents = {
     /** Emitted when tools are registered with the agent */
     toolsRegistered: (tools: Tool[]) => void;
     /** Emitted when a client-side tool execution fails */
-    rpcError: (functionName: string, error: unknown) => void;
+    rpcError: (functionName: string, error: HamsaToolError) => void;
 };
 /**
  * HamsaVoiceAgent - Main SDK class for voice agent integration
@@ -366,7 +488,7 @@ declare class HamsaVoiceAgent extends EventEmitter {
     private static readonly DEFAULT_INPUT_VOLUME;
     /** Internal LiveKit manager instance for WebRTC communication */
     liveKitManager: LiveKitManager | null;
-    /** Hamsa API key for authentication */
+    /** Hamsa API key for authentication (empty in server-issued token mode) */
     apiKey: string;
     /** Base URL for Hamsa API endpoints */
     API_URL: string;
@@ -380,12 +502,45 @@ declare class HamsaVoiceAgent extends EventEmitter {
     wakeLockManager: ScreenWakeLock;
     /** Flag to track if the user initiated the call end to prevent duplicate disconnection logic */
     private userInitiatedEnd;
+    /** Current lifecycle state of the call */
+    private callState;
+    /** userId passed to start() for the current call */
+    private userId;
+    /** Transcript of the current or last call, cleared by start() */
+    private readonly transcript;
+    /** deviceId of the microphone chosen with setAudioInput() */
+    private audioInputDeviceId;
+    /** deviceId of the speaker chosen with setAudioOutput() */
+    private audioOutputDeviceId;
+    /** Whether the current call routes agent audio to headphones (iOS only) */
+    private preferHeadphones;
+    /** Route agent audio was last reported on with audioRouteChanged */
+    private audioRoute;
+    /** Push-to-talk settings of the current call, null for an open microphone */
+    private pushToTalkOptions;
+    /** Whether the user had muted the microphone before push-to-talk took it over */
+    private mutedBeforePushToTalk;
+    /** Half-duplex settings of the current call, null for full-duplex */
+    private halfDuplexOptions;
+    /** Voice activity detection settings of the current call, null when off */
+    private voiceActivityOptions;
+    /** Whether the current call was started with disableWakeLock */
+    private wakeLockDisabled;
+    /** Connection failure already reported through the 'error' event while starting the call */
+    private reportedStartError;
+    /** Number of start() attempts made, used to identify each attempt */
+    private startAttempts;
+    /** Attempt whose start() is allowed to complete, null once end() cancelled it */
+    private activeStartAttempt;
+    /** Timestamp of the last user activity signal sent, per activity kind, for throttling */
+    private readonly lastUserActivitySentAt;
     /** Debug logger instance for conditional logging */
     private readonly logger;
     /**
      * Creates a new HamsaVoiceAgent instance
      *
-     * @param apiKey - Your Hamsa API key (get from https://dashboard.tryhamsa.com)
+     * @param apiKey - Your Hamsa API key (get from https://dashboard.tryhamsa.com).
+     *   Pass `null` when every call is started with a `tokenProvider` or `session`.
      * @param config - Optional configuration settings
      * @param config.region - Deployment region ('eu' | 'uae'). Defaults to 'eu'.
      * @param config.API_URL - Custom API endpoint URL. Overrides the region default.
@@ -404,11 +559,13 @@ declare class HamsaVoiceAgent extends EventEmitter {
      *   API_URL: 'https://custom-api.example.com',
      *   LIVEKIT_URL: 'wss://custom-rtc.example.com'
      * });
-     * ```
      *
-     * @throws {Error} If apiKey is not provided or invalid
+     * // Server-issued token mode (no API key in the browser)
+     * const agent = new HamsaVoiceAgent(null);
+     * await agent.start({ agentId, tokenProvider: fetchSessionFromBackend });
+     * ```
      */
-    constructor(apiKey: string, { region, API_URL, LIVEKIT_URL, debug, }?: HamsaVoiceAgentConfig);
+    constructor(apiKey: string | null, { region, API_URL, LIVEKIT_URL, debug, }?: HamsaVoiceAgentConfig);
     /**
      * Adjusts the volume level for voice agent audio playback
      *
@@ -485,6 +642,32 @@ declare class HamsaVoiceAgent extends EventEmitter {
      * ```
      */
     getJobId(): string | null;
+    /**
+     * Gets the current lifecycle state of the call
+     *
+     * The state only moves along valid transitions, and every change is also
+     * emitted as a 'callStateChanged' event. Operations that make no sense in
+     * the current state (a second start(), pause() before the call started,
+     * sendDTMF() while reconnecting...) are rejected with INVALID_CALL_STATE.
+     *
+     * @returns The current call state
+     *
+     * @example
+     * ```typescript
+     * callButton.addEventListener('click', () => {
+     *   const state = agent.getCallState();
+     *   if (state === 'idle' || state === 'ended') {
+     *     agent.start({ agentId: 'my_agent' });
+     *   }
+     * });
+     *
+     * agent.on('callStateChanged', (state, previousState) => {
+     *   console.log(`Call moved from ${previousState} to ${state}`);
+     *   callButton.disabled = state !== 'idle' && state !== 'ended';
+     * });
+     * ```
+     */
+    getCallState(): CallState;
     /**
      * Gets the current input volume level from the user's microphone
      *
@@ -536,29 +719,323 @@ declare class HamsaVoiceAgent extends EventEmitter {
      */
     isMicMuted(): boolean;
     /**
-     * @internal
+     * Lists the microphones available to the call
+     *
+     * Asks for microphone permission if it was not granted yet, so that device
+     * labels can be shown to the user. Can be called before start().
+     *
+     * @returns The audio input devices reported by the browser
+     * @throws {HamsaMediaError} When the devices cannot be listed (e.g. permission denied)
+     *
+     * @example
+     * ```typescript
+     * const microphones = await agent.listAudioInputs();
+     * microphoneSelect.replaceChildren(
+     *   ...microphones.map((mic) => new Option(mic.label, mic.deviceId))
+     * );
+     * ```
+     */
+    listAudioInputs(): Promise<MediaDeviceInfo[]>;
+    /**
+     * Lists the speakers and headsets agent audio can be played on
+     *
+     * Asks for microphone permission if it was not granted yet, so that device
+     * labels can be shown to the user. Can be called before start().
+     *
+     * @returns The audio output devices reported by the browser
+     * @throws {HamsaMediaError} When the devices cannot be listed (e.g. permission denied)
+     *
+     * @example
+     * ```typescript
+     * const speakers = await agent.listAudioOutputs();
+     * ```
+     */
+    listAudioOutputs(): Promise<MediaDeviceInfo[]>;
+    /**
+     * Selects the microphone the user is captured from
+     *
+     * Called before start(), the microphone is used when the call starts.
+     * During a call, the microphone is switched without interrupting the call.
+     * The choice is kept for the following calls.
+     *
+     * @param deviceId - deviceId of a device returned by listAudioInputs()
+     * @throws {HamsaError} INVALID_ARGUMENT when deviceId is empty
+     * @throws {HamsaMediaError} When the microphone cannot be used
+     *
+     * @example
+     * ```typescript
+     * microphoneSelect.addEventListener('change', async () => {
+     *   await agent.setAudioInput(microphoneSelect.value);
+     * });
+     * ```
+     */
+    setAudioInput(deviceId: string): Promise<void>;
+    /**
+     * Selects the speaker the agent is played on
+     *
+     * Called before start(), the speaker is used when the call starts. During a
+     * call, agent audio moves to the new speaker right away. The choice is kept
+     * for the following calls. Browsers without HTMLMediaElement.setSinkId
+     * (e.g. Safari on iOS) cannot select a speaker.
+     *
+     * @param deviceId - deviceId of a device returned by listAudioOutputs()
+     * @throws {HamsaError} INVALID_ARGUMENT when deviceId is empty
+     * @throws {HamsaMediaError} When the speaker cannot be selected
+     *
+     * @example
+     * ```typescript
+     * await agent.setAudioOutput(headsetDeviceId);
+     * ```
+     */
+    setAudioOutput(deviceId: string): Promise<void>;
+    /**
+     * Changes the processing applied to the microphone during a call
+     *
+     * Options left out keep their current value. The microphone is restarted
+     * with the new constraints, on the same device and with the same mute
+     * state, which may cut the user's audio for a fraction of a second.
+     *
+     * @param constraints - Constraints to change
+     * @throws {HamsaError} NOT_CONNECTED if called when there is no active call
+     * @throws {HamsaError} INVALID_ARGUMENT if a constraint has an invalid value
+     * @throws {HamsaMediaError} When the microphone cannot be restarted
+     *
+     * @example
+     * ```typescript
+     * // The kiosk's own DSP already removes noise
+     * await agent.updateAudioConstraints({
+     *   noiseSuppression: false,
+     *   autoGainControl: false,
+     * });
+     * ```
+     */
+    updateAudioConstraints(constraints: AudioConstraints): Promise<void>;
+    /**
+     * Replaces the processors applied to the microphone during a call
+     *
+     * The new processors take over the audio sent to the agent without
+     * republishing the microphone, so the agent keeps hearing the user. The
+     * previous processors are destroyed. Pass an empty array to send the
+     * microphone unprocessed.
+     *
+     * @param processors - Processors to apply, in order
+     * @throws {HamsaError} NOT_CONNECTED if called when there is no active call
+     * @throws {HamsaError} INVALID_ARGUMENT if a processor does not implement
+     * TrackProcessor
+     * @throws {HamsaMediaError} AUDIO_PROCESSOR_FAILED when a processor fails
+     * to initialize
+     *
+     * @example
+     * ```typescript
+     * // Switch to aggressive filtering when the user moves to the factory floor
+     * await agent.setAudioProcessors([highPassFilter, noiseCanceller]);
+     * ```
+     */
+    setAudioProcessors(processors: AudioTrackProcessor[]): Promise<void>;
+    /**
+     * Switches the call to push-to-talk
+     *
+     * The microphone is muted and only opens between pressToTalk() and
+     * releaseToTalk(), or while the configured key is held. After release the
+     * microphone stays open for a short tail so the last word is not clipped,
+     * then the agent is told that the user's turn ended so it answers right
+     * away. Calling it again replaces the settings.
+     *
+     * @param options - Key binding, minimum hold and release tail
+     * @throws {HamsaError} NOT_CONNECTED if called when there is no active call
+     * @throws {HamsaError} INVALID_ARGUMENT if an option has an invalid value
+     * @fires pttStateChanged When the microphone opens or closes
+     *
+     * @example
+     * ```typescript
+     * // Hold Space to talk
+     * agent.enablePushToTalk({ key: 'Space' });
+     *
+     * // Or wire a talk button
+     * talkButton.addEventListener('pointerdown', () => agent.pressToTalk());
+     * talkButton.addEventListener('pointerup', () => agent.releaseToTalk());
+     *
+     * agent.on('pttStateChanged', (state) => {
+     *   talkButton.classList.toggle('talking', state !== 'idle');
+     * });
+     * ```
+     */
+    enablePushToTalk(options?: PushToTalkOptions): void;
+    /**
+     * Leaves push-to-talk and gives the microphone back the mute state it had
+     * before enablePushToTalk(), unless the call is paused
+     */
+    disablePushToTalk(): void;
+    /**
+     * Opens the microphone in push-to-talk mode, e.g. when a talk button is
+     * pressed. Ignored unless push-to-talk is enabled.
+     */
+    pressToTalk(): void;
+    /**
+     * Closes the microphone in push-to-talk mode after the release tail and
+     * tells the agent the user's turn ended. Ignored unless push-to-talk is
+     * enabled.
+     */
+    releaseToTalk(): void;
+    /**
      * Notifies the agent about user activity
      *
      * Prevents the agent from interrupting when the user is actively interacting
-     * with the interface. The agent will not attempt to speak for at least 2 seconds
-     * after user activity is detected.
+     * with the interface. A `user_activity` data message is published to the agent,
+     * which delays barge-in and turn-taking while the user is busy.
+     *
+     * Signals are throttled per activity kind (at most one per second), so it is
+     * safe to call this from high-frequency handlers such as keypress or scroll.
+     * Calls made while not connected are ignored.
+     *
+     * @param kind - Kind of interaction (defaults to 'other')
+     * @throws {HamsaError} INVALID_ARGUMENT if kind is not a known activity kind
+     * @fires userActivitySent When the activity signal has been delivered to the agent
      *
      * @example
      * ```typescript
      * // Prevent interruptions while user is typing
      * textInput.addEventListener('input', () => {
-     *   agent.sendUserActivity();
+     *   agent.sendUserActivity('typing');
      * });
      *
-     * // Prevent interruptions during UI interactions
+     * // Prevent interruptions while the user fills in a form
+     * emailField.addEventListener('focus', () => {
+     *   agent.sendUserActivity('form_focus');
+     * });
+     *
+     * // Prevent interruptions during generic UI interactions
      * document.addEventListener('click', () => {
-     *   agent.sendUserActivity();
+     *   agent.sendUserActivity('click');
      * });
      * ```
      */
-    sendUserActivity(): void;
+    sendUserActivity(kind?: UserActivityKind): void;
+    /**
+     * Switches the call to half-duplex
+     *
+     * The microphone is cut while the agent speaks, so the agent does not hear
+     * its own voice from laptop speakers, and reopens once the agent has been
+     * silent for the hangover time. With a barge-in threshold, the user can
+     * still talk over the agent by speaking louder than the threshold. The cut
+     * does not change the mute state set with setMicMuted(). Calling it again
+     * replaces the settings.
+     *
+     * @param options - Hangover time and barge-in threshold
+     * @throws {HamsaError} NOT_CONNECTED if called when there is no active call
+     * @throws {HamsaError} INVALID_ARGUMENT if an option has an invalid value
+     * @fires micGateChanged When the microphone is cut or reopened
+     *
+     * @example
+     * ```typescript
+     * // Laptop speakers without a headset
+     * agent.enableHalfDuplex({ hangoverMs: 400, bargeInThreshold: 0.35 });
+     *
+     * agent.on('micGateChanged', (gated) => {
+     *   micIcon.classList.toggle('waiting', gated);
+     * });
+     * ```
+     */
+    enableHalfDuplex(options?: HalfDuplexOptions): void;
+    /**
+     * Leaves half-duplex and reopens the microphone if it is cut
+     */
+    disableHalfDuplex(): void;
+    /**
+     * Starts detecting the user's speech in the browser
+     *
+     * A worklet listens to the microphone and emits userSpeechStarted and
+     * userSpeechEnded within milliseconds, for "you're speaking" feedback that
+     * does not wait for the agent. Speech is not reported while the microphone
+     * is muted. With gateTransmission, the microphone is sent to the agent only
+     * while the user speaks, which saves bandwidth on constrained networks.
+     * Calling it again replaces the settings.
+     *
+     * @param options - Threshold, timings and noise gate
+     * @throws {HamsaError} NOT_CONNECTED if called when there is no active call
+     * @throws {HamsaError} INVALID_ARGUMENT if an option has an invalid value
+     * @fires userSpeechStarted When the user starts speaking
+     * @fires userSpeechEnded When the user stops speaking
+     * @fires error AUDIO_CAPTURE_UNSUPPORTED when the browser lacks AudioWorklet
+     *
+     * @example
+     * ```typescript
+     * agent.enableVoiceActivityDetection({ hangoverMs: 500 });
+     *
+     * agent.on('userSpeechStarted', () => micIcon.classList.add('speaking'));
+     * agent.on('userSpeechEnded', ({ durationMs }) => {
+     *   micIcon.classList.remove('speaking');
+     *   console.log(`User spoke for ${durationMs}ms`);
+     * });
+     * ```
+     */
+    enableVoiceActivityDetection(options?: VoiceActivityOptions): void;
+    /**
+     * Stops voice activity detection and reopens the microphone if the noise
+     * gate holds it back
+     */
+    disableVoiceActivityDetection(): void;
+    /**
+     * Stops the agent mid-answer
+     *
+     * The agent's voice fades out locally right away, then an `interrupt` data
+     * message tells the agent to stop and to keep only the part of its answer
+     * the user heard. Unlike pause(), the microphone stays open so the user can
+     * speak at once. Playback volume comes back when the agent stops speaking.
+     *
+     * @returns Promise that resolves when the signal has been delivered
+     * @throws {HamsaError} NOT_CONNECTED if called when there is no active call
+     * @throws {HamsaError} INVALID_CALL_STATE while the call is starting, reconnecting or ending
+     * @throws {HamsaConnectionError} DATA_SEND_FAILED when the signal could not
+     * be delivered; local playback is silenced anyway
+     * @fires agentInterrupted With how much of the current answer was heard
+     *
+     * @example
+     * ```typescript
+     * stopButton.addEventListener('click', () => agent.interruptAgent());
+     *
+     * agent.on('agentInterrupted', ({ wasSpeaking, heardMs }) => {
+     *   if (wasSpeaking) {
+     *     console.log(`User stopped the agent after ${heardMs}ms`);
+     *   }
+     * });
+     * ```
+     */
+    interruptAgent(): Promise<void>;
+    /**
+     * Sends a message the user typed to the agent
+     *
+     * The agent answers it like something the user said, so users who cannot
+     * or prefer not to speak can talk to the same agent. It works in text-only
+     * calls (`voiceEnablement: false`) and during voice calls, where typed and
+     * spoken input can be mixed. The reply arrives as usual through
+     * `answerReceived` and `answerDelta`, and the message is added to the
+     * transcript as a user turn.
+     *
+     * The message is published as a `user_message` data message on the reliable
+     * data channel. The returned promise resolves once LiveKit has delivered the
+     * packet.
+     *
+     * @param text - What the user typed
+     * @returns Promise that resolves when the message has been delivered
+     * @throws {HamsaError} NOT_CONNECTED if called when there is no active call
+     * @throws {HamsaError} INVALID_ARGUMENT or MESSAGE_TOO_LARGE if the text is empty or too large
+     * @throws {HamsaConnectionError} DATA_SEND_FAILED when the message could not be delivered
+     * @fires textMessageSent When the message has been delivered to the agent
+     *
+     * @example
+     * ```typescript
+     * chatForm.addEventListener('submit', async (event) => {
+     *   event.preventDefault();
+     *   await agent.sendTextMessage(chatInput.value);
+     *   chatInput.value = '';
+     * });
+     *
+     * agent.on('answerReceived', (text) => appendToChat('agent', text));
+     * ```
+     */
+    sendTextMessage(text: string): Promise<void>;
     /**
-     * @internal
      * Sends a contextual update to the agent
      *
      * Informs the agent about user actions or state changes that are not direct
@@ -566,21 +1043,32 @@ declare class HamsaVoiceAgent extends EventEmitter {
      * messages, contextual updates don't trigger the agent to take its turn in
      * the conversation.
      *
+     * The update is published as a `contextual_update` data message on the reliable
+     * data channel. The returned promise resolves once LiveKit has delivered the
+     * packet, and rejects if the call is not connected, the context is not a
+     * non-empty string, or the encoded message exceeds the data channel size limit.
+     * Earlier versions returned void and never failed: await the call or attach
+     * a catch handler so a failed update is not an unhandled rejection.
+     *
      * @param context - Contextual information to send to the agent
+     * @returns Promise that resolves when the update has been delivered
+     * @throws {HamsaError} NOT_CONNECTED if called when there is no active call
+     * @throws {HamsaError} INVALID_ARGUMENT or MESSAGE_TOO_LARGE if the context is empty or too large
+     * @fires contextualUpdateSent When the update has been delivered to the agent
      *
      * @example
      * ```typescript
      * // Inform agent about navigation
-     * agent.sendContextualUpdate("User navigated to checkout page");
+     * await agent.sendContextualUpdate("User navigated to checkout page");
      *
      * // Inform about app state changes
-     * agent.sendContextualUpdate("User's cart total: $127.50");
+     * await agent.sendContextualUpdate("User's cart total: $127.50");
      *
-     * // Inform about user preferences
-     * agent.sendContextualUpdate("User selected dark mode theme");
+     * // Push structured page state
+     * await agent.sendContextualUpdate(JSON.stringify({ cart, selectedProduct }));
      * ```
      */
-    sendContextualUpdate(context: string): void;
+    sendContextualUpdate(context: string): Promise<void>;
     /**
      * Sends a DTMF (Dual-Tone Multi-Frequency) digit to the voice agent
      *
@@ -592,8 +1080,8 @@ declare class HamsaVoiceAgent extends EventEmitter {
      * telephony systems and SIP infrastructure per RFC 4733 standard.
      *
      * @param digit - A single DTMF digit: '0'-'9', '*', or '#'
-     * @throws {Error} If called when not connected (no active call)
-     * @throws {Error} If the digit is not a valid DTMF character
+     * @throws {HamsaError} NOT_CONNECTED if called when there is no active call
+     * @throws {HamsaError} INVALID_ARGUMENT if the digit is not a valid DTMF character
      * @fires dtmfSent When a DTMF digit is successfully sent to the agent
      *
      * @example Basic usage
@@ -831,25 +1319,30 @@ declare class HamsaVoiceAgent extends EventEmitter {
      * @param options.params - Parameters to customize the conversation context
      * @param options.voiceEnablement - Enable voice interactions (default: false for text-only)
      * @param options.tools - Client-side tools available to the agent
+     * @param options.tokenProvider - Async callback returning server-issued session credentials
+     * @param options.session - Pre-issued session credentials (skips all Hamsa REST calls)
      *
-     * @throws {Error} Authentication failures, network errors, or invalid configuration
+     * Failures are reported through the 'error' event and the returned promise
+     * always resolves. Use connect() to await the outcome instead.
      *
      * @example Basic voice conversation
      * ```typescript
-     * try {
-     *   await agent.start({
-     *     agentId: 'agent_12345',
-     *     voiceEnablement: true,
-     *     params: {
-     *       userName: 'Alice',
-     *       userTier: 'premium',
-     *       sessionContext: 'product_support'
-     *     }
-     *   });
-     *   console.log('Voice agent conversation started');
-     * } catch (error) {
+     * agent.on('error', (error) => {
      *   console.error('Failed to start conversation:', error);
-     * }
+     *   if (error.retryable) {
+     *     showRetryButton();
+     *   }
+     * });
+     *
+     * await agent.start({
+     *   agentId: 'agent_12345',
+     *   voiceEnablement: true,
+     *   params: {
+     *     userName: 'Alice',
+     *     userTier: 'premium',
+     *     sessionContext: 'product_support'
+     *   }
+     * });
      * ```
      *
      * @example With custom tools
@@ -889,8 +1382,53 @@ declare class HamsaVoiceAgent extends EventEmitter {
      *
      * await agent.start({ agentId: 'my_agent', voiceEnablement: true });
      * ```
+     *
+     * @example Server-issued token mode
+     * ```typescript
+     * // Your backend mints the session; the API key never reaches the browser
+     * const agent = new HamsaVoiceAgent(null);
+     *
+     * await agent.start({
+     *   agentId: 'my_agent',
+     *   voiceEnablement: true,
+     *   tokenProvider: async () => {
+     *     const res = await fetch('/api/hamsa-session', { method: 'POST' });
+     *     return res.json(); // { liveKitAccessToken, jobId }
+     *   }
+     * });
+     * ```
+     */
+    start(options: StartOptions): Promise<void>;
+    /**
+     * Starts a voice agent conversation and waits until it is live
+     *
+     * Takes the same options as start(), but the returned promise settles with
+     * the outcome: it resolves once the room is connected and the agent has
+     * joined, and rejects with a HamsaError otherwise. Unlike start(), failures
+     * are not emitted as 'error' events, except for LiveKit connection errors,
+     * which are also emitted like any other connection error.
+     *
+     * @param options - start() options plus an optional agentJoinTimeout
+     * @returns Descriptor of the established call
+     * @throws {HamsaError} When the session cannot be created, the room cannot be
+     * joined (CONNECTION_FAILED) or the agent does not join in time (AGENT_UNAVAILABLE)
+     *
+     * @example
+     * ```typescript
+     * try {
+     *   const { jobId, roomName, agentIdentity } = await agent.connect({
+     *     agentId: 'my_agent',
+     *     voiceEnablement: true,
+     *   });
+     *   console.log(`Talking to ${agentIdentity} in ${roomName} (job ${jobId})`);
+     * } catch (error) {
+     *   if (error instanceof HamsaError && error.retryable) {
+     *     showRetryButton();
+     *   }
+     * }
+     * ```
      */
-    start({ agentId, params, voiceEnablement, tools, userId: _userId, preferHeadphonesForIosDevices: _preferHeadphonesForIosDevices, connectionDelay: _connectionDelay, disableWakeLock: _disableWakeLock, onAudioData, captureAudio, avatarContainerSelector, }: StartOptions): Promise<void>;
+    connect({ agentJoinTimeout, ...options }: ConnectOptions): Promise<CallSession>;
     /**
      * Terminates the current voice agent conversation
      *
@@ -987,13 +1525,67 @@ declare class HamsaVoiceAgent extends EventEmitter {
      * ```
      */
     resume(): void;
+    /**
+     * Returns the transcript of the current call, or of the last call once it
+     * has ended
+     *
+     * Turns are in order: user and agent speech, client-side tool calls, and
+     * call events such as pauses and interruptions. Speech is merged from the
+     * LiveKit transcription and the agent's data messages, so each sentence
+     * appears once, and a turn's text grows while it is transcribed. start()
+     * clears the transcript.
+     *
+     * @returns Copy of the turns, with times in milliseconds since the call started
+     *
+     * @example
+     * ```typescript
+     * agent.on('callEnded', () => {
+     *   for (const turn of agent.getTranscript()) {
+     *     console.log(`[${turn.startMs}ms] ${turn.role}: ${turn.text}`);
+     *   }
+     * });
+     *
+     * // Or follow it live
+     * agent.on('transcriptChanged', (turns) => renderTranscript(turns));
+     * ```
+     */
+    getTranscript(): TranscriptTurn[];
+    /**
+     * Exports the transcript of the current or last call
+     *
+     * - `'webvtt'` and `'srt'`: captions with one cue per transcribed segment,
+     *   timed from when LiveKit delivered it, with the speaker's label
+     * - `'text'` and `'markdown'`: one line per turn, including tool calls and
+     *   call events
+     * - `'json'`: a TranscriptExport document with the job ID, the turns, their
+     *   segment timings and the tool calls
+     *
+     * @param format - Output format
+     * @returns The transcript in the requested format
+     * @throws {HamsaError} INVALID_ARGUMENT for an unknown format
+     *
+     * @example
+     * ```typescript
+     * agent.on('callEnded', async () => {
+     *   const captions = agent.exportTranscript('webvtt');
+     *   await uploadCaptions(agent.getJobId(), captions);
+     * });
+     * ```
+     */
+    exportTranscript(format: TranscriptExportFormat): string;
     /**
      * Retrieves job details from the Hamsa API using the stored jobId.
-     * Implements retry logic with exponential backoff.
+     * Retries with exponential backoff while the error is retryable, e.g. the
+     * job has not completed yet or the API cannot be reached.
      * @param maxRetries - Maximum number of retry attempts.
      * @param initialRetryInterval - Initial delay between retries in milliseconds.
      * @param backoffFactor - Factor by which the retry interval increases each attempt.
      * @returns Job details object.
+     * @throws {HamsaError} AUTH_MISSING_KEY without an apiKey, e.g. when the
+     * session was issued by a backend through tokenProvider or session; fetch
+     * the job details on the backend instead
+     * @throws {HamsaApiError} JOB_NOT_FOUND when the API does not know the job,
+     * AUTH_INVALID_KEY when the apiKey is rejected
      */
     getJobDetails(maxRetries?: number, initialRetryInterval?: number, backoffFactor?: number): Promise<JobDetails>;
     /**
@@ -1249,8 +1841,8 @@ interface HamsaVoiceAgent {
      */
     emit<K extends keyof HamsaVoiceAgentEvents>(event: K, ...args: Parameters<HamsaVoiceAgentEvents[K]>): boolean;
 }
-export { HamsaVoiceAgent, HamsaApiError };
+export { HamsaVoiceAgent };
 export default HamsaVoiceAgent;
 export type { LocalTrack, RemoteParticipant, RemoteTrack, RemoteTrackPublication, Room, } from 'livekit-client';
 export type { AudioLevelsResult, CallAnalyticsResult, ConnectionStatsResult, ParticipantData, PerformanceMetricsResult, TrackStatsResult, } from './classes/livekit-manager';
-export type { CallStartedData, HamsaVoiceAgentEvents, StartOptions, Tool, JobDetails, };
+export type { CallSession, CallStartedData, ConnectOptions, HamsaVoiceAgentEvents, StartOptions, SessionToken, TokenProvider, Tool, JobDetails, };
@@ -3,3 +3,5 @@
  */
 export type { DebugLogger } from './debug';
 export { createDebugLogger } from './debug';
+export type { DevicePlatform } from './platform';
+export { getDevicePlatform, isHeadphoneDevice } from './platform';
@@ -0,0 +1,22 @@
+/**
+ * Platform detection based on the browser user agent
+ *
+ * Used to apply platform-specific workarounds for mobile audio and
+ * connection quirks. Detection is best-effort: outside a browser every
+ * platform is reported as 'other'.
+ */
+/** Platform the SDK is running on */
+export type DevicePlatform = 'ios' | 'android' | 'other';
+/**
+ * Detects the platform from the browser user agent
+ *
+ * @returns 'ios', 'android' or 'other' when not running in a mobile browser
+ */
+export declare const getDevicePlatform: () => DevicePlatform;
+/**
+ * Tells whether a media device is a pair of wired or Bluetooth headphones
+ *
+ * Based on the device label, which browsers only expose once microphone
+ * access has been granted.
+ */
+export declare const isHeadphoneDevice: (device: MediaDeviceInfo) => boolean;